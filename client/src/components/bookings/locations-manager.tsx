@@ -23,7 +23,7 @@ interface DaySchedule {
 
 const DAYS = ["Domingo", "Lunes", "Martes", "Miércoles", "Jueves", "Viernes", "Sábado"];
 
-const TIMEZONES = [
+export const TIMEZONES = [
   { value: "Europe/Madrid", label: "España (Madrid, Barcelona)" },
   { value: "Atlantic/Canary", label: "España (Canarias)" },
   { value: "America/New_York", label: "USA (Nueva York, Miami)" },
@@ -14,16 +14,18 @@ import {
   Clock
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { featureFlags } from '@/lib/feature-flags';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useSoftphone } from './softphone-provider';
 
 interface ActiveCall {
   number: string;
-  status: 'ringing' | 'connected' | 'on-hold' | 'transferring';
+  direction?: 'inbound' | 'outbound';
+  status: 'ringing' | 'answered' | 'held' | 'muted' | 'transferring';
+  isMuted: boolean;
+  isOnHold: boolean;
   duration: number;
   conversationId?: string;
 }
-import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 
 interface CallBarProps {
@@ -32,16 +34,15 @@ interface CallBarProps {
 }
 
 export function CallBar({ onTogglePanel, isPanelOpen }: CallBarProps) {
-  const [isMuted, setIsMuted] = useState(false);
   const [isSpeakerMuted, setIsSpeakerMuted] = useState(false);
   const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const softphone = useSoftphone();
+  const { statusPollInterval } = softphone;
 
-  // Get active call status - OPTIMIZED POLLING
+  // Get active call status - pushed over WebSocket, polled only as fallback
   const { data: activeCall, isLoading } = useQuery<ActiveCall>({
     queryKey: ['/api/softphone/status'],
-    refetchInterval: featureFlags.softphoneStatusPollMs,
-    // TODO: Disable polling completely when WebSocket is connected
+    refetchInterval: statusPollInterval,
   });
 
   const hangupMutation = useMutation({
@@ -49,13 +50,9 @@ export function CallBar({ onTogglePanel, isPanelOpen }: CallBarProps) {
       if (!activeCall?.conversationId) {
         throw new Error('No active call to hangup');
       }
-      return apiRequest('POST', `/api/softphone/calls/${activeCall.conversationId}/hangup`);
+      return softphone.hangup(activeCall.conversationId);
     },
     onSuccess: () => {
-      // CLEAR LOCAL STATE AND CACHE IMMEDIATELY
-      queryClient.setQueryData(['/api/softphone/status'], null);
-      queryClient.invalidateQueries({ queryKey: ['/api/softphone/status'] });
-      
       toast({
         title: "Llamada finalizada",
         description: "La llamada se ha terminado correctamente",
@@ -63,15 +60,16 @@ export function CallBar({ onTogglePanel, isPanelOpen }: CallBarProps) {
     }
   });
 
+  const isMuted = !!activeCall?.isMuted;
+
   const toggleMuteMutation = useMutation({
     mutationFn: () => {
       if (!activeCall?.conversationId) {
         throw new Error('No active call to mute');
       }
-      return apiRequest('POST', `/api/softphone/calls/${activeCall.conversationId}/mute`, { muted: !isMuted });
+      return softphone.setMuted(activeCall.conversationId, !isMuted);
     },
     onSuccess: () => {
-      setIsMuted(!isMuted);
       toast({
         title: isMuted ? "Micrófono activado" : "Micrófono silenciado",
         description: isMuted ? "Tu voz ahora se escucha" : "Tu voz está silenciada",
@@ -79,6 +77,25 @@ export function CallBar({ onTogglePanel, isPanelOpen }: CallBarProps) {
     }
   });
 
+  // Incoming call still ringing on this phone
+  const answerMutation = useMutation({
+    mutationFn: (accept: boolean) => {
+      if (!activeCall?.conversationId) {
+        throw new Error('No incoming call');
+      }
+      return accept
+        ? softphone.answer(activeCall.conversationId)
+        : softphone.reject(activeCall.conversationId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error en la llamada",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
   if (isLoading) {
     return (
       <div className="bg-background border-t border-border shadow-lg" data-testid="call-bar">
@@ -122,8 +139,9 @@ export function CallBar({ onTogglePanel, isPanelOpen }: CallBarProps) {
   const getCallStatusColor = (status: string) => {
     switch (status) {
       case 'ringing': return 'bg-yellow-500';
-      case 'connected': return 'bg-green-500';
-      case 'on-hold': return 'bg-amber-500';
+      case 'answered': return 'bg-green-500';
+      case 'muted': return 'bg-green-500';
+      case 'held': return 'bg-amber-500';
       case 'transferring': return 'bg-blue-500';
       default: return 'bg-gray-500';
     }
@@ -132,8 +150,9 @@ export function CallBar({ onTogglePanel, isPanelOpen }: CallBarProps) {
   const getCallStatusText = (status: string) => {
     switch (status) {
       case 'ringing': return 'Timbrando...';
-      case 'connected': return 'En llamada';
-      case 'on-hold': return 'En espera';
+      case 'answered': return 'En llamada';
+      case 'muted': return 'Silenciado';
+      case 'held': return 'En espera';
       case 'transferring': return 'Transfiriendo...';
       default: return 'Desconocido';
     }
@@ -172,6 +191,30 @@ export function CallBar({ onTogglePanel, isPanelOpen }: CallBarProps) {
 
         {/* Call Controls */}
         <div className="flex items-center gap-2">
+          {activeCall.direction === 'inbound' && activeCall.status === 'ringing' && (
+            <>
+              <Button
+                size="sm"
+                className="bg-green-600 hover:bg-green-700 text-white"
+                onClick={() => answerMutation.mutate(true)}
+                disabled={answerMutation.isPending}
+                data-testid="button-answer"
+              >
+                <Phone className="w-4 h-4 mr-2" />
+                Contestar
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => answerMutation.mutate(false)}
+                disabled={answerMutation.isPending}
+                data-testid="button-reject"
+              >
+                Rechazar
+              </Button>
+            </>
+          )}
+
           {/* Mute Button */}
           <Button
             variant={isMuted ? "destructive" : "outline"}
@@ -24,17 +24,31 @@ import {
   Volume2,
   VolumeX,
   Hash,
-  Users
+  Users,
+  FileText,
+  Bot
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
-import { featureFlags } from '@/lib/feature-flags';
+import { useSoftphone } from './softphone-provider';
+import { LiveTranscript } from './live-transcript';
+import type { AiHandoff } from '@shared/schema';
 
 interface ActiveCall {
   number: string;
-  status: 'ringing' | 'connected' | 'on-hold' | 'transferring';
+  direction?: 'inbound' | 'outbound';
+  status: 'ringing' | 'answered' | 'held' | 'muted' | 'transferring';
+  isMuted: boolean;
+  isOnHold: boolean;
   duration: number;
   conversationId?: string;
+  pendingTransfer?: {
+    mode: 'blind' | 'attended';
+    targetType: 'extension' | 'queue' | 'external';
+    target: string;
+  } | null;
+  // Context left by the AI agent that transferred the call
+  aiHandoff?: AiHandoff | null;
 }
 
 interface ConversationMessage {
@@ -64,11 +78,13 @@ export function CallPanel({ isOpen, onClose }: CallPanelProps) {
   const [activeTab, setActiveTab] = useState('dial');
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const softphone = useSoftphone();
+  const { statusPollInterval } = softphone;
 
   // Get active call status
   const { data: activeCall } = useQuery<ActiveCall>({
     queryKey: ['/api/softphone/status'],
-    refetchInterval: featureFlags.softphoneStatusPollMs,
+    refetchInterval: statusPollInterval,
   });
 
   // Get call conversation if call is active
@@ -78,14 +94,20 @@ export function CallPanel({ isOpen, onClose }: CallPanelProps) {
   });
 
   const dialMutation = useMutation({
-    mutationFn: (number: string) => apiRequest('POST', '/api/softphone/calls/dial', { to: number }),
+    mutationFn: (number: string) => softphone.dial(number),
     onSuccess: () => {
       toast({
         title: "Llamada iniciada",
         description: `Llamando a ${dialNumber}...`,
       });
       setDialNumber('');
-      queryClient.invalidateQueries({ queryKey: ['/api/softphone/status'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "No se pudo llamar",
+        description: error.message,
+        variant: "destructive",
+      });
     }
   });
 
@@ -94,31 +116,55 @@ export function CallPanel({ isOpen, onClose }: CallPanelProps) {
       if (!activeCall?.conversationId) {
         throw new Error('No active call to hold');
       }
-      return apiRequest('POST', `/api/softphone/calls/${activeCall.conversationId}/hold`);
+      return softphone.setHeld(activeCall.conversationId, !activeCall.isOnHold);
     },
     onSuccess: () => {
       toast({
-        title: "Llamada en espera",
-        description: "La llamada se ha puesto en espera",
+        title: activeCall?.isOnHold ? "Llamada reanudada" : "Llamada en espera",
+        description: activeCall?.isOnHold ? "La llamada ha sido reanudada" : "La llamada se ha puesto en espera",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/softphone/status'] });
     }
   });
 
   const transferMutation = useMutation({
-    mutationFn: (number: string) => {
+    mutationFn: ({ number, mode }: { number: string; mode: 'blind' | 'attended' }) => {
       if (!activeCall?.conversationId) {
         throw new Error('No active call to transfer');
       }
-      return apiRequest('POST', `/api/softphone/calls/${activeCall.conversationId}/transfer`, { to: number });
+      return softphone.transfer(activeCall.conversationId, number, mode);
     },
-    onSuccess: () => {
+    onSuccess: (_res, { mode }) => {
       toast({
-        title: "Transferencia iniciada",
-        description: `Transfiriendo a ${transferNumber}...`,
+        title: mode === 'attended' ? "Consulta iniciada" : "Llamada transferida",
+        description: mode === 'attended'
+          ? `Consultando con ${transferNumber}. El cliente está en espera.`
+          : `Transferida a ${transferNumber}`,
       });
       setTransferNumber('');
-      queryClient.invalidateQueries({ queryKey: ['/api/softphone/status'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al transferir",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const finishTransferMutation = useMutation({
+    mutationFn: (action: 'complete' | 'cancel') => {
+      if (!activeCall?.conversationId) {
+        throw new Error('No active call to transfer');
+      }
+      return softphone.finishTransfer(activeCall.conversationId, action);
+    },
+    onSuccess: (_res, action) => {
+      toast({
+        title: action === 'complete' ? "Llamada transferida" : "Transferencia cancelada",
+        description: action === 'complete'
+          ? `Transferida a ${activeCall?.pendingTransfer?.target}`
+          : "Has vuelto con el cliente",
+      });
     }
   });
 
@@ -159,7 +205,14 @@ export function CallPanel({ isOpen, onClose }: CallPanelProps) {
     ['*', '0', '#']
   ];
 
+  // During a connected call the dialpad sends DTMF tones instead
+  const isInCall = !!activeCall && activeCall.status !== 'ringing';
+
   const handleDialpadPress = (digit: string) => {
+    if (isInCall) {
+      softphone.sendDtmf(digit);
+      return;
+    }
     setDialNumber(prev => prev + digit);
   };
 
@@ -172,9 +225,9 @@ export function CallPanel({ isOpen, onClose }: CallPanelProps) {
     holdMutation.mutate();
   };
 
-  const handleTransfer = () => {
+  const handleTransfer = (mode: 'blind' | 'attended') => {
     if (!transferNumber.trim()) return;
-    transferMutation.mutate(transferNumber);
+    transferMutation.mutate({ number: transferNumber, mode });
   };
 
   const handleAddNote = () => {
@@ -198,8 +251,38 @@ export function CallPanel({ isOpen, onClose }: CallPanelProps) {
         </DrawerHeader>
 
         <div className="px-6 pb-6">
+          {activeCall?.aiHandoff && (
+            <Card className="mb-4 border-primary/40" data-testid="card-ai-handoff">
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 font-medium text-sm">
+                    <Bot className="w-4 h-4 text-primary" />
+                    Transferida por el agente IA {activeCall.aiHandoff.agentName}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setActiveTab('transcript')}
+                    data-testid="button-ai-handoff-transcript"
+                  >
+                    <FileText className="w-4 h-4 mr-2" />
+                    Ver conversación
+                  </Button>
+                </div>
+                <p className="text-sm" data-testid="text-ai-handoff-summary">
+                  {activeCall.aiHandoff.summary}
+                </p>
+                {activeCall.aiHandoff.reason && (
+                  <p className="text-xs text-muted-foreground">
+                    Motivo: {activeCall.aiHandoff.reason}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="dial" data-testid="tab-dial">
                 <Hash className="w-4 h-4 mr-2" />
                 Marcar
@@ -208,6 +291,10 @@ export function CallPanel({ isOpen, onClose }: CallPanelProps) {
                 <Phone className="w-4 h-4 mr-2" />
                 Controles
               </TabsTrigger>
+              <TabsTrigger value="transcript" data-testid="tab-transcript">
+                <FileText className="w-4 h-4 mr-2" />
+                Transcripción
+              </TabsTrigger>
               <TabsTrigger value="notes" data-testid="tab-notes">
                 <MessageSquare className="w-4 h-4 mr-2" />
                 Notas
@@ -253,9 +340,15 @@ export function CallPanel({ isOpen, onClose }: CallPanelProps) {
                       )}
                     </div>
 
+                    {isInCall && (
+                      <p className="text-xs text-center text-muted-foreground" data-testid="text-dtmf-mode">
+                        En llamada: el teclado envía tonos DTMF
+                      </p>
+                    )}
+
                     <Button 
                       onClick={handleDial}
-                      disabled={!dialNumber.trim() || dialMutation.isPending}
+                      disabled={!dialNumber.trim() || !!activeCall || dialMutation.isPending}
                       className="w-full"
                       size="lg"
                       data-testid="button-dial"
@@ -284,12 +377,12 @@ export function CallPanel({ isOpen, onClose }: CallPanelProps) {
 
                       <div className="grid grid-cols-2 gap-3">
                         <Button
-                          variant={activeCall.status === 'on-hold' ? 'default' : 'outline'}
+                          variant={activeCall.isOnHold ? 'default' : 'outline'}
                           onClick={handleHold}
                           disabled={holdMutation.isPending}
                           data-testid="button-hold"
                         >
-                          {activeCall.status === 'on-hold' ? (
+                          {activeCall.isOnHold ? (
                             <><Play className="w-4 h-4 mr-2" />Reanudar</>
                           ) : (
                             <><Pause className="w-4 h-4 mr-2" />Pausar</>
@@ -316,6 +409,22 @@ export function CallPanel({ isOpen, onClose }: CallPanelProps) {
               </Card>
             </TabsContent>
 
+            {/* Transcript Tab */}
+            <TabsContent value="transcript" className="mt-6" data-testid="transcript-content">
+              <Card>
+                <CardContent className="p-6">
+                  {activeCall?.conversationId ? (
+                    <LiveTranscript conversationId={activeCall.conversationId} />
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <FileText className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                      <p>No hay llamada activa</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             {/* Notes Tab */}
             <TabsContent value="notes" className="mt-6" data-testid="notes-content">
               <Card>
@@ -380,22 +489,58 @@ export function CallPanel({ isOpen, onClose }: CallPanelProps) {
                         id="transfer-number"
                         value={transferNumber}
                         onChange={(e) => setTransferNumber(e.target.value)}
-                        placeholder="Número o extensión"
+                        placeholder="Extensión, cola o número externo"
                         className="text-center text-lg font-mono"
                         data-testid="input-transfer-number"
                       />
                     </div>
 
-                    <Button 
-                      onClick={handleTransfer}
-                      disabled={!transferNumber.trim() || !activeCall || transferMutation.isPending}
-                      className="w-full"
-                      size="lg"
-                      data-testid="button-transfer"
-                    >
-                      <Users className="w-4 h-4 mr-2" />
-                      {transferMutation.isPending ? 'Transfiriendo...' : 'Transferir Llamada'}
-                    </Button>
+                    {activeCall?.pendingTransfer ? (
+                      <div className="space-y-3">
+                        <p className="text-sm text-center text-muted-foreground" data-testid="text-pending-transfer">
+                          Consultando con {activeCall.pendingTransfer.target}. El cliente está en espera.
+                        </p>
+                        <div className="grid grid-cols-2 gap-3">
+                          <Button
+                            onClick={() => finishTransferMutation.mutate('complete')}
+                            disabled={finishTransferMutation.isPending}
+                            data-testid="button-complete-transfer"
+                          >
+                            Completar
+                          </Button>
+                          <Button
+                            variant="outline"
+                            onClick={() => finishTransferMutation.mutate('cancel')}
+                            disabled={finishTransferMutation.isPending}
+                            data-testid="button-cancel-transfer"
+                          >
+                            Cancelar
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-3">
+                        <Button
+                          onClick={() => handleTransfer('blind')}
+                          disabled={!transferNumber.trim() || !activeCall || transferMutation.isPending}
+                          size="lg"
+                          data-testid="button-transfer"
+                        >
+                          <Users className="w-4 h-4 mr-2" />
+                          {transferMutation.isPending ? 'Transfiriendo...' : 'Transferir'}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => handleTransfer('attended')}
+                          disabled={!transferNumber.trim() || !activeCall || transferMutation.isPending}
+                          size="lg"
+                          data-testid="button-attended-transfer"
+                        >
+                          <Phone className="w-4 h-4 mr-2" />
+                          Consultar primero
+                        </Button>
+                      </div>
+                    )}
 
                     {!activeCall && (
                       <div className="text-center py-4 text-muted-foreground">
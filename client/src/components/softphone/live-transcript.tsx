@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { queryClient } from '@/lib/queryClient';
+import { useRealtimeEvent } from '@/hooks/use-realtime';
+import type { Conversation, Message } from '@shared/schema';
+
+type Speaker = 'customer' | 'agent';
+
+const speakerLabels: Record<Message['from'], string> = {
+  customer: 'Cliente',
+  agent: 'Agente',
+  ai: 'IA',
+};
+
+interface LiveTranscriptProps {
+  conversationId: string;
+}
+
+// Stored feed of the call plus what is being said right now (interim
+// segments are replaced by the stored message once final)
+export function LiveTranscript({ conversationId }: LiveTranscriptProps) {
+  const [interim, setInterim] = useState<Partial<Record<Speaker, string>>>({});
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data: conversation, isLoading } = useQuery<Conversation & { messages: Message[] }>({
+    queryKey: [`/api/conversations/${conversationId}`],
+  });
+
+  useEffect(() => {
+    setInterim({});
+  }, [conversationId]);
+
+  useRealtimeEvent((event) => {
+    if (event.type !== 'transcript' || event.conversationId !== conversationId) return;
+
+    const speaker = event.speaker as Speaker;
+    setInterim((current) => ({ ...current, [speaker]: event.isFinal ? undefined : event.text }));
+    if (event.isFinal) {
+      queryClient.invalidateQueries({ queryKey: [`/api/conversations/${conversationId}`] });
+    }
+  });
+
+  const messages = conversation?.messages ?? [];
+  const pending = (Object.entries(interim) as [Speaker, string | undefined][]).filter(([, text]) => text);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, interim]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (messages.length === 0 && pending.length === 0) {
+    return (
+      <p className="text-center py-8 text-sm text-muted-foreground" data-testid="text-transcript-empty">
+        La transcripción aparecerá cuando empiece la conversación
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2 max-h-72 overflow-y-auto" data-testid="live-transcript">
+      {messages.map((message) => (
+        <div
+          key={message.id}
+          className={cn("flex", message.from === 'customer' ? "justify-start" : "justify-end")}
+          data-testid={`transcript-${message.id}`}
+        >
+          <div
+            className={cn(
+              "rounded-lg px-3 py-2 max-w-[80%] text-sm",
+              message.from === 'customer' ? "bg-muted" : "bg-primary text-primary-foreground"
+            )}
+          >
+            <span className="block text-xs opacity-75">
+              {speakerLabels[message.from]} · {new Date(message.timestamp).toLocaleTimeString()}
+            </span>
+            {message.content}
+          </div>
+        </div>
+      ))}
+      {pending.map(([speaker, text]) => (
+        <div
+          key={speaker}
+          className={cn("flex", speaker === 'customer' ? "justify-start" : "justify-end")}
+          data-testid={`transcript-interim-${speaker}`}
+        >
+          <p className="px-3 py-2 max-w-[80%] text-sm italic text-muted-foreground">
+            {speakerLabels[speaker]}: {text}…
+          </p>
+        </div>
+      ))}
+      <div ref={bottomRef} />
+    </div>
+  );
+}
@@ -1,12 +1,52 @@
-import { createContext, useContext, useState, ReactNode } from 'react';
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { SoftphoneCredentials } from '@shared/schema';
+import { useAuth } from '@/hooks/use-auth';
+import { useRealtimeConnection, useRealtimeEvent } from '@/hooks/use-realtime';
+import { useToast } from '@/hooks/use-toast';
+import { featureFlags } from '@/lib/feature-flags';
+import { apiRequest } from '@/lib/queryClient';
+import { SipPhone, type SipRegistrationState } from '@/lib/sip-phone';
 import { CallBar } from './call-bar';
 import { CallPanel } from './call-panel';
 
+// Call events pushed by the server over the real-time channel
+const CALL_EVENT_TYPES = ['call_status', 'call_mute', 'call_hold', 'call_transfer', 'ended'];
+
+// The WebSocket carries the presence heartbeat; this covers it while it is down
+const PRESENCE_HEARTBEAT_MS = 30000;
+
+export type TransferMode = 'blind' | 'attended';
+
+// 'disabled': no PBX WebSocket configured, calls are REST-only
+export type SipState = SipRegistrationState | 'disabled';
+
+// SIP call of this browser and the conversation that mirrors it
+interface SipCall {
+  callId: string;
+  direction: 'inbound' | 'outbound';
+  conversationId: Promise<string>;
+}
+
 interface SoftphoneContextType {
   isPanelOpen: boolean;
   togglePanel: () => void;
   openPanel: () => void;
   closePanel: () => void;
+  isRealtimeConnected: boolean;
+  statusPollInterval: number | false;
+  sipState: SipState;
+  extensionNumber?: string;
+  // Call actions: SIP signalling first (when registered), then the REST event
+  dial: (number: string) => Promise<void>;
+  answer: (conversationId: string) => Promise<void>;
+  reject: (conversationId: string) => Promise<void>;
+  hangup: (conversationId: string) => Promise<void>;
+  setMuted: (conversationId: string, muted: boolean) => Promise<void>;
+  setHeld: (conversationId: string, held: boolean) => Promise<void>;
+  sendDtmf: (digit: string) => boolean;
+  transfer: (conversationId: string, to: string, mode: TransferMode) => Promise<void>;
+  finishTransfer: (conversationId: string, action: 'complete' | 'cancel') => Promise<void>;
 }
 
 const SoftphoneContext = createContext<SoftphoneContextType | undefined>(undefined);
@@ -25,23 +65,240 @@ interface SoftphoneProviderProps {
 
 export function SoftphoneProvider({ children }: SoftphoneProviderProps) {
   const [isPanelOpen, setIsPanelOpen] = useState(false);
+  const [sipState, setSipState] = useState<SipState>('disabled');
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const phoneRef = useRef<SipPhone | null>(null);
+  const sipCallRef = useRef<SipCall | null>(null);
+
+  const isRealtimeConnected = useRealtimeConnection(!!user?.tenantId);
+
+  // 404 when the user has no active extension: the softphone stays REST-only
+  const { data: credentials } = useQuery<SoftphoneCredentials>({
+    queryKey: ['/api/softphone/credentials'],
+    enabled: !!user?.tenantId,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  const refreshStatus = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/softphone/status'] });
+  };
+
+  // Report SIP progress of `callId` on its conversation, once it exists
+  const report = (callId: string, path: string, body?: unknown) => {
+    const call = sipCallRef.current;
+    if (call?.callId !== callId) return;
+
+    call.conversationId
+      .then((conversationId) => apiRequest('POST', `/api/softphone/calls/${conversationId}/${path}`, body))
+      .catch((error) => console.error(`Softphone sync failed (${path}):`, error))
+      .finally(refreshStatus);
+  };
+
+  const forgetCall = (callId: string) => {
+    if (sipCallRef.current?.callId === callId) sipCallRef.current = null;
+  };
+
+  useEffect(() => {
+    if (!credentials?.wsServer) {
+      setSipState('disabled');
+      return;
+    }
+
+    const phone = new SipPhone(credentials, {
+      onRegistrationChange: setSipState,
+      onIncomingCall: ({ callId, from, displayName }) => {
+        const conversationId = apiRequest('POST', '/api/softphone/calls/inbound', { sipCallId: callId, from })
+          .then((res) => res.json())
+          .then((data: { conversationId: string }) => data.conversationId);
+        sipCallRef.current = { callId, direction: 'inbound', conversationId };
+        conversationId.finally(refreshStatus).catch(() => undefined);
+
+        toast({
+          title: 'Llamada entrante',
+          description: displayName ? `${displayName} (${from})` : from,
+        });
+      },
+      onEstablished: (callId) => {
+        // Inbound calls report their answer from answer() below
+        if (sipCallRef.current?.direction === 'outbound') report(callId, 'answer');
+      },
+      onEnded: (callId) => {
+        report(callId, 'hangup');
+        forgetCall(callId);
+      },
+      onFailed: (callId, reason) => {
+        report(callId, 'fail', { reason });
+        forgetCall(callId);
+      },
+    });
+
+    phoneRef.current = phone;
+    phone.start().catch((error) => console.error('SIP registration failed:', error));
+
+    return () => {
+      phoneRef.current = null;
+      sipCallRef.current = null;
+      phone.stop().catch(() => undefined);
+    };
+  }, [credentials]);
+
+  useRealtimeEvent((event) => {
+    if (!CALL_EVENT_TYPES.includes(event.type)) return;
+
+    if (event.type === 'ended') {
+      queryClient.setQueryData(['/api/softphone/status'], null);
+      if (event.missed && event.userId === user?.id) {
+        toast({
+          title: 'Llamada perdida',
+          description: event.phoneNumber || 'Número desconocido',
+        });
+      }
+    }
+    queryClient.invalidateQueries({ queryKey: ['/api/softphone/status'] });
+    if (event.conversationId) {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations', event.conversationId] });
+    }
+  });
+
+  useEffect(() => {
+    if (!user?.tenantId || isRealtimeConnected) return;
+
+    const sendHeartbeat = () => {
+      apiRequest('POST', '/api/presence/heartbeat').catch(() => {
+        // Offline as well; the next beat will retry
+      });
+    };
+    sendHeartbeat();
+    const timer = setInterval(sendHeartbeat, PRESENCE_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [user?.tenantId, isRealtimeConnected]);
+
+  // The browser only carries the audio while registered
+  const sipPhone = () => (sipState === 'registered' ? phoneRef.current : null);
+
+  const postCallEvent = async (conversationId: string, path: string, body?: unknown) => {
+    await apiRequest('POST', `/api/softphone/calls/${conversationId}/${path}`, body);
+    refreshStatus();
+  };
+
+  const dial = async (number: string) => {
+    const phone = sipPhone();
+    if (!phone) {
+      await apiRequest('POST', '/api/softphone/calls/dial', { to: number });
+      refreshStatus();
+      return;
+    }
+
+    const callId = await phone.call(number);
+    const conversationId = apiRequest('POST', '/api/softphone/calls/dial', { to: number, sipCallId: callId })
+      .then((res) => res.json())
+      .then((data: { conversationId: string }) => data.conversationId);
+    sipCallRef.current = { callId, direction: 'outbound', conversationId };
+
+    try {
+      await conversationId;
+    } catch (error) {
+      // Without a conversation the call would be invisible to the tenant
+      await phone.hangup().catch(() => undefined);
+      throw error;
+    } finally {
+      refreshStatus();
+    }
+  };
+
+  const answer = async (conversationId: string) => {
+    await sipPhone()?.answer();
+    await postCallEvent(conversationId, 'answer');
+  };
+
+  const reject = async (conversationId: string) => {
+    // The server decides what follows (next agent, voicemail), so the
+    // SIP rejection is not reported as a failed call
+    sipCallRef.current = null;
+    await sipPhone()?.reject();
+    await postCallEvent(conversationId, 'reject');
+  };
+
+  const hangup = async (conversationId: string) => {
+    await sipPhone()?.hangup();
+    // Idempotent, so the BYE reported by onEnded does no harm
+    await postCallEvent(conversationId, 'hangup');
+    queryClient.setQueryData(['/api/softphone/status'], null);
+  };
+
+  const setMuted = async (conversationId: string, muted: boolean) => {
+    sipPhone()?.setMuted(muted);
+    await postCallEvent(conversationId, 'mute', { muted });
+  };
+
+  const setHeld = async (conversationId: string, held: boolean) => {
+    await sipPhone()?.setHeld(held);
+    await postCallEvent(conversationId, 'hold', { held });
+  };
+
+  const sendDtmf = (digit: string) => sipPhone()?.sendDtmf(digit) ?? false;
+
+  const transfer = async (conversationId: string, to: string, mode: TransferMode) => {
+    // The server validates the target and records the hand-over first
+    await postCallEvent(conversationId, 'transfer', { to, mode });
+
+    const phone = sipPhone();
+    if (!phone) return;
+    if (mode === 'attended') {
+      await phone.startConsult(to);
+    } else {
+      // The conversation carries on with the target, our BYE is not a hangup
+      sipCallRef.current = null;
+      await phone.blindTransfer(to);
+    }
+  };
+
+  const finishTransfer = async (conversationId: string, action: 'complete' | 'cancel') => {
+    const phone = sipPhone();
+    if (action === 'complete') {
+      sipCallRef.current = null;
+      await phone?.completeConsult();
+    } else {
+      await phone?.cancelConsult();
+    }
+    await postCallEvent(conversationId, `transfer/${action}`);
+  };
 
   const togglePanel = () => setIsPanelOpen(!isPanelOpen);
   const openPanel = () => setIsPanelOpen(true);
   const closePanel = () => setIsPanelOpen(false);
 
+  // Poll only as a fallback while the WebSocket is down
+  const statusPollInterval = isRealtimeConnected ? false : featureFlags.softphoneStatusPollMs;
+
   return (
     <SoftphoneContext.Provider value={{
       isPanelOpen,
       togglePanel,
       openPanel,
-      closePanel
+      closePanel,
+      isRealtimeConnected,
+      statusPollInterval,
+      sipState,
+      extensionNumber: credentials?.extensionNumber,
+      dial,
+      answer,
+      reject,
+      hangup,
+      setMuted,
+      setHeld,
+      sendDtmf,
+      transfer,
+      finishTransfer
     }}>
       {children}
-      <CallPanel 
-        isOpen={isPanelOpen} 
-        onClose={closePanel} 
+      <CallPanel
+        isOpen={isPanelOpen}
+        onClose={closePanel}
       />
     </SoftphoneContext.Provider>
   );
-}
\ No newline at end of file
+}
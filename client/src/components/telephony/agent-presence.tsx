@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useMyPresence, useSetPresence } from "@/hooks/use-telephony";
+import { MANUAL_PRESENCE_STATES, type AgentPresence, type AgentPresenceInfo } from "@shared/schema";
+
+export const PRESENCE_LABELS: Record<AgentPresence, string> = {
+  available: "Disponible",
+  busy: "En llamada",
+  after_call_work: "Post-llamada",
+  break: "En pausa",
+  offline: "Desconectado",
+};
+
+export const PRESENCE_DOT_CLASSES: Record<AgentPresence, string> = {
+  available: "bg-green-500",
+  busy: "bg-red-500",
+  after_call_work: "bg-amber-500",
+  break: "bg-blue-500",
+  offline: "bg-gray-400",
+};
+
+// Seconds left of the wrap-up, ticking every second
+function useWrapUpRemaining(wrapUpUntil?: Date | string | null): number | null {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!wrapUpUntil) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [wrapUpUntil]);
+
+  if (!wrapUpUntil) return null;
+  return Math.max(0, Math.ceil((new Date(wrapUpUntil).getTime() - now) / 1000));
+}
+
+function presenceText(presence: AgentPresence, remaining: number | null): string {
+  if (presence === "after_call_work" && remaining !== null) {
+    return `${PRESENCE_LABELS[presence]} (${remaining}s)`;
+  }
+  return PRESENCE_LABELS[presence];
+}
+
+export function PresenceDot({ presence, className }: { presence: AgentPresence; className?: string }) {
+  return (
+    <span
+      className={cn("inline-block h-2.5 w-2.5 rounded-full flex-shrink-0", PRESENCE_DOT_CLASSES[presence], className)}
+      title={PRESENCE_LABELS[presence]}
+    />
+  );
+}
+
+interface PresenceBadgeProps {
+  info?: AgentPresenceInfo | null;
+  testId?: string;
+}
+
+export function PresenceBadge({ info, testId }: PresenceBadgeProps) {
+  const remaining = useWrapUpRemaining(info?.wrapUpUntil);
+  if (!info) return null;
+
+  return (
+    <Badge variant="outline" className="gap-1.5 font-normal" data-testid={testId}>
+      <PresenceDot presence={info.presence} />
+      {presenceText(info.presence, remaining)}
+    </Badge>
+  );
+}
+
+/**
+ * The logged-in agent's presence with the states they can pick themselves.
+ * Renders nothing for users without an extension.
+ */
+export function PresenceSelector({ compact = false }: { compact?: boolean }) {
+  const { data: presence } = useMyPresence();
+  const setPresence = useSetPresence();
+  const remaining = useWrapUpRemaining(presence?.wrapUpUntil);
+
+  if (!presence) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            "flex items-center gap-2 rounded-md px-2 py-1 text-sm text-gray-700 dark:text-gray-300",
+            "hover:bg-gray-100 dark:hover:bg-gray-700",
+            compact ? "justify-center" : "w-full",
+          )}
+          data-testid="button-presence"
+        >
+          <PresenceDot presence={presence.presence} />
+          {!compact && (
+            <>
+              <span className="truncate">{presenceText(presence.presence, remaining)}</span>
+              <span className="ml-auto text-xs text-muted-foreground">Ext. {presence.extensionNumber}</span>
+              <ChevronDown className="h-3 w-3 text-muted-foreground" />
+            </>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-48">
+        <DropdownMenuLabel>Mi estado</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {MANUAL_PRESENCE_STATES.map((state) => (
+          <DropdownMenuItem
+            key={state}
+            disabled={setPresence.isPending || presence.presence === state}
+            onClick={() => setPresence.mutate(state)}
+            data-testid={`menu-presence-${state}`}
+          >
+            <PresenceDot presence={state} className="mr-2" />
+            {PRESENCE_LABELS[state]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,355 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useCreateAiAgent, useUpdateAiAgent } from "@/hooks/use-telephony";
+import { AI_AGENT_ACTIONS, AI_AGENT_ACTION_LABELS, type AiAgent } from "@shared/schema";
+
+export const AI_AGENT_LANGUAGES: Record<string, string> = {
+  "es-ES": "Español (España)",
+  "es-MX": "Español (México)",
+  "es-US": "Español (EE. UU.)",
+  "en-US": "Inglés (EE. UU.)",
+  "en-GB": "Inglés (Reino Unido)",
+  "pt-BR": "Portugués (Brasil)",
+  "fr-FR": "Francés",
+};
+
+const AI_AGENT_VOICES: Record<string, string> = {
+  "Polly.Lupe-Neural": "Lupe (es-US, mujer)",
+  "Polly.Pedro-Neural": "Pedro (es-US, hombre)",
+  "Polly.Lucia-Neural": "Lucía (es-ES, mujer)",
+  "Polly.Sergio-Neural": "Sergio (es-ES, hombre)",
+  "Polly.Mia-Neural": "Mía (es-MX, mujer)",
+  "Polly.Andres-Neural": "Andrés (es-MX, hombre)",
+  "Polly.Joanna-Neural": "Joanna (en-US, mujer)",
+  "Polly.Matthew-Neural": "Matthew (en-US, hombre)",
+  "Polly.Camila-Neural": "Camila (pt-BR, mujer)",
+  "Polly.Lea-Neural": "Léa (fr-FR, mujer)",
+};
+
+const aiAgentSchema = z.object({
+  name: z.string().trim().min(2, "Mínimo 2 caracteres").max(100, "Máximo 100 caracteres"),
+  systemPrompt: z.string().trim().min(1, "El prompt es obligatorio").max(8000, "Máximo 8000 caracteres"),
+  greeting: z.string().max(500, "Máximo 500 caracteres").optional(),
+  language: z.string(),
+  voice: z.string(),
+  model: z.string().trim().min(1, "El modelo es obligatorio").max(100),
+  temperature: z.coerce.number().min(0, "Mínimo 0").max(2, "Máximo 2"),
+  maxTokens: z.coerce.number().int().min(16, "Mínimo 16").max(2000, "Máximo 2000"),
+  allowedActions: z.array(z.enum(AI_AGENT_ACTIONS)),
+  isActive: z.boolean(),
+});
+
+type AiAgentFormData = z.infer<typeof aiAgentSchema>;
+
+const defaultValues: AiAgentFormData = {
+  name: "",
+  systemPrompt: "",
+  greeting: "",
+  language: "es-ES",
+  voice: "Polly.Lupe-Neural",
+  model: "gpt-4o-mini",
+  temperature: 0.7,
+  maxTokens: 150,
+  allowedActions: ["transfer_to_queue", "end_call"],
+  isActive: true,
+};
+
+interface AiAgentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  agent?: AiAgent | null;
+  mode: "create" | "edit";
+}
+
+export function AiAgentModal({ isOpen, onClose, agent, mode }: AiAgentModalProps) {
+  const createMutation = useCreateAiAgent();
+  const updateMutation = useUpdateAiAgent();
+
+  const form = useForm<AiAgentFormData>({
+    resolver: zodResolver(aiAgentSchema),
+    defaultValues,
+  });
+
+  useEffect(() => {
+    if (agent && mode === "edit") {
+      form.reset({
+        name: agent.name,
+        systemPrompt: agent.systemPrompt,
+        greeting: agent.greeting || "",
+        language: agent.language,
+        voice: agent.voice,
+        model: agent.model,
+        temperature: agent.temperature,
+        maxTokens: agent.maxTokens,
+        allowedActions: agent.allowedActions,
+        isActive: agent.isActive,
+      });
+    } else if (mode === "create") {
+      form.reset(defaultValues);
+    }
+  }, [agent, mode, form]);
+
+  const onSubmit = async (data: AiAgentFormData) => {
+    try {
+      const agentData = { ...data, greeting: data.greeting?.trim() || null };
+      if (mode === "create") {
+        await createMutation.mutateAsync(agentData);
+      } else {
+        await updateMutation.mutateAsync({ id: agent!.id, data: agentData });
+      }
+      handleClose();
+    } catch (error) {
+      // Error handling is done in the hooks
+    }
+  };
+
+  const handleClose = () => {
+    onClose();
+    form.reset();
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto" data-testid="modal-ai-agent">
+        <DialogHeader>
+          <DialogTitle>{mode === "create" ? "Crear Agente de IA" : "Editar Agente de IA"}</DialogTitle>
+          <DialogDescription>
+            Define cómo habla el agente, qué modelo usa y qué acciones puede realizar en la llamada.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nombre</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="ej. Recepcionista" data-testid="input-ai-agent-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="systemPrompt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Prompt del sistema</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={5}
+                      placeholder="Eres el asistente virtual de..."
+                      data-testid="input-ai-agent-prompt"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="greeting"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Saludo inicial</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder="Hola, ¿en qué puedo ayudarte?"
+                      data-testid="input-ai-agent-greeting"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="language"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Idioma</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-ai-agent-language">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(AI_AGENT_LANGUAGES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="voice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Voz</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-ai-agent-voice">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(AI_AGENT_VOICES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="model"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Modelo</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-ai-agent-model" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="temperature"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Temperatura</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step={0.1} min={0} max={2} data-testid="input-ai-agent-temperature" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxTokens"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Máx. tokens</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" data-testid="input-ai-agent-max-tokens" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="allowedActions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Acciones permitidas</FormLabel>
+                  <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+                    {AI_AGENT_ACTIONS.map((action) => (
+                      <label key={action} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(action)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked === true
+                                ? [...field.value, action]
+                                : field.value.filter((value) => value !== action)
+                            )
+                          }
+                          data-testid={`checkbox-ai-agent-action-${action}`}
+                        />
+                        {AI_AGENT_ACTION_LABELS[action]}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      data-testid="switch-ai-agent-active"
+                    />
+                  </FormControl>
+                  <Label>Activo</Label>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel-ai-agent">
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSaving} data-testid="button-save-ai-agent">
+                {isSaving ? "Guardando..." : mode === "create" ? "Crear Agente" : "Guardar Cambios"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw, Sparkles } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useReanalyzeConversation } from "@/hooks/use-inbox";
+import {
+  CALL_INTENT_LABELS,
+  type CallDisposition,
+  type Conversation,
+  type ConversationAnalysis,
+  type Sentiment,
+} from "@shared/schema";
+
+const sentimentLabels: Record<Sentiment, string> = {
+  positive: "Positivo",
+  neutral: "Neutral",
+  negative: "Negativo",
+};
+
+const sentimentStyles: Record<Sentiment, string> = {
+  positive: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  neutral: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200",
+  negative: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+const dispositionLabels: Record<CallDisposition, string> = {
+  resolved: "Resuelto",
+  follow_up: "Seguimiento",
+  callback: "Devolver llamada",
+  sale: "Venta",
+  escalated: "Escalado",
+  no_action: "Sin acción",
+};
+
+export function SentimentBadge({ analysis }: { analysis: ConversationAnalysis }) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn("text-xs border-0", sentimentStyles[analysis.sentiment])}
+      title={`Puntuación ${analysis.sentimentScore.toFixed(2)}`}
+      data-testid="badge-sentiment"
+    >
+      {sentimentLabels[analysis.sentiment]}
+    </Badge>
+  );
+}
+
+interface ConversationAnalysisPanelProps {
+  conversation: Conversation;
+}
+
+// Post-call summary, sentiment, intents, action items and disposition
+export function ConversationAnalysisPanel({ conversation }: ConversationAnalysisPanelProps) {
+  const reanalyzeMutation = useReanalyzeConversation();
+  const { analysis, analysisStatus } = conversation;
+
+  if (!analysis && !analysisStatus) return null;
+
+  return (
+    <div
+      className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3 space-y-2"
+      data-testid="conversation-analysis"
+    >
+      <div className="flex items-center justify-between">
+        <span className="flex items-center text-sm font-medium text-gray-900 dark:text-white">
+          <Sparkles className="w-4 h-4 mr-1 text-primary" />
+          Análisis IA
+        </span>
+        <div className="flex items-center space-x-2">
+          {analysis && <SentimentBadge analysis={analysis} />}
+          {analysis && (
+            <Badge variant="secondary" className="text-xs" data-testid="badge-disposition">
+              {dispositionLabels[analysis.disposition]}
+            </Badge>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => reanalyzeMutation.mutate(conversation.id)}
+            disabled={analysisStatus === "pending" || reanalyzeMutation.isPending}
+            title="Analizar de nuevo"
+            data-testid="button-reanalyze"
+          >
+            {analysisStatus === "pending" ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {analysisStatus === "failed" && (
+        <p className="text-xs text-red-600" data-testid="text-analysis-error">
+          No se pudo analizar la conversación{conversation.analysisError ? `: ${conversation.analysisError}` : ""}
+        </p>
+      )}
+      {analysisStatus === "pending" && !analysis && (
+        <p className="text-xs text-gray-500">Analizando conversación...</p>
+      )}
+
+      {analysis && (
+        <>
+          <p className="text-sm text-gray-700 dark:text-gray-300" data-testid="text-analysis-summary">
+            {analysis.summary}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {analysis.intents.map((intent) => (
+              <Badge key={intent} variant="outline" className="text-xs" data-testid={`badge-intent-${intent}`}>
+                {CALL_INTENT_LABELS[intent]}
+              </Badge>
+            ))}
+          </div>
+          {analysis.actionItems.length > 0 && (
+            <ul className="list-disc pl-5 text-xs text-gray-600 dark:text-gray-400" data-testid="list-action-items">
+              {analysis.actionItems.map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface CallAnalysisSummaryProps {
+  analysis: ConversationAnalysis | null;
+  analysisStatus: Conversation["analysisStatus"] | null;
+}
+
+// Compact form for call history rows
+export function CallAnalysisSummary({ analysis, analysisStatus }: CallAnalysisSummaryProps) {
+  if (!analysis) {
+    return (
+      <span className="text-xs text-muted-foreground">
+        {analysisStatus === "pending" ? "Analizando..." : analysisStatus === "failed" ? "Error de análisis" : "—"}
+      </span>
+    );
+  }
+
+  return (
+    <div className="space-y-1 max-w-xs" title={analysis.summary}>
+      <div className="flex items-center gap-1">
+        <SentimentBadge analysis={analysis} />
+        <Badge variant="secondary" className="text-xs">
+          {dispositionLabels[analysis.disposition]}
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground truncate">{analysis.summary}</p>
+    </div>
+  );
+}
@@ -56,6 +56,11 @@ const extensionSchema = z.object({
   status: z.enum(["ACTIVE", "INACTIVE"], {
     errorMap: () => ({ message: "Estado debe ser Activa o Inactiva" }),
   }),
+  wrapUpSec: z.coerce
+    .number()
+    .int("Debe ser un número entero")
+    .min(0, "Mínimo 0 segundos")
+    .max(600, "Máximo 600 segundos"),
 });
 
 type ExtensionFormData = z.infer<typeof extensionSchema>;
@@ -78,6 +83,7 @@ export function ExtensionModal({ isOpen, onClose, extension, mode }: ExtensionMo
       userName: "",
       userId: "",
       status: "ACTIVE",
+      wrapUpSec: 30,
     },
   });
 
@@ -89,6 +95,7 @@ export function ExtensionModal({ isOpen, onClose, extension, mode }: ExtensionMo
         userName: extension.userName || "",
         userId: extension.userId || "",
         status: extension.status || "ACTIVE",
+        wrapUpSec: extension.wrapUpSec ?? 30,
       });
     } else if (mode === "create") {
       form.reset({
@@ -96,6 +103,7 @@ export function ExtensionModal({ isOpen, onClose, extension, mode }: ExtensionMo
         userName: "",
         userId: "",
         status: "ACTIVE",
+        wrapUpSec: 30,
       });
     }
   }, [extension, mode, form]);
@@ -237,6 +245,26 @@ export function ExtensionModal({ isOpen, onClose, extension, mode }: ExtensionMo
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="wrapUpSec"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tiempo post-llamada (s)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      min={0}
+                      max={600}
+                      data-testid="input-extension-wrap-up"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <DialogFooter>
               <Button 
                 type="button" 
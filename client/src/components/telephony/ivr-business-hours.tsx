@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TIMEZONES } from "@/components/bookings/locations-manager";
+import type { IvrBranchAction, IvrBusinessHours, IvrMenu } from "@shared/schema";
+
+const DAYS = ["Domingo", "Lunes", "Martes", "Miércoles", "Jueves", "Viernes", "Sábado"];
+
+const BRANCH_ACTIONS: { value: IvrBranchAction["action"]; label: string }[] = [
+  { value: "hangup", label: "Colgar" },
+  { value: "transfer", label: "Transferir" },
+  { value: "queue", label: "Cola" },
+  { value: "submenu", label: "Submenú" },
+];
+
+export function getDefaultBusinessHours(): IvrBusinessHours {
+  const weekday = { enabled: true, blocks: [{ start: "09:00", end: "18:00" }] };
+  return {
+    enabled: false,
+    timezone: "Europe/Madrid",
+    operatingHours: {
+      0: { enabled: false, blocks: [] },
+      1: weekday,
+      2: weekday,
+      3: weekday,
+      4: weekday,
+      5: weekday,
+      6: { enabled: false, blocks: [] },
+    },
+    holidays: [],
+    closed: { action: "hangup", message: "En este momento nuestras oficinas están cerradas." },
+    holiday: null,
+  };
+}
+
+interface BranchActionEditorProps {
+  label: string;
+  value: IvrBranchAction;
+  onChange: (value: IvrBranchAction) => void;
+  submenus: IvrMenu[];
+  testId: string;
+}
+
+function BranchActionEditor({ label, value, onChange, submenus, testId }: BranchActionEditorProps) {
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <Label>{label}</Label>
+      <div className="flex gap-2">
+        <Select
+          value={value.action}
+          onValueChange={(action) =>
+            onChange({ ...value, action: action as IvrBranchAction["action"], destination: "" })
+          }
+        >
+          <SelectTrigger className="w-40" data-testid={`select-${testId}-action`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BRANCH_ACTIONS.map((action) => (
+              <SelectItem key={action.value} value={action.value}>{action.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {value.action === "submenu" ? (
+          <Select
+            value={value.destination || ""}
+            onValueChange={(destination) => onChange({ ...value, destination })}
+          >
+            <SelectTrigger data-testid={`select-${testId}-destination`}>
+              <SelectValue placeholder="Selecciona un IVR" />
+            </SelectTrigger>
+            <SelectContent>
+              {submenus.map((menu) => (
+                <SelectItem key={menu.id} value={menu.id}>{menu.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : value.action !== "hangup" ? (
+          <Input
+            value={value.destination || ""}
+            onChange={(e) => onChange({ ...value, destination: e.target.value })}
+            placeholder={value.action === "queue" ? "Soporte" : "101"}
+            data-testid={`input-${testId}-destination`}
+          />
+        ) : null}
+      </div>
+      <Input
+        value={value.message || ""}
+        onChange={(e) => onChange({ ...value, message: e.target.value })}
+        placeholder="Mensaje antes de la acción (opcional)"
+        maxLength={500}
+        data-testid={`input-${testId}-message`}
+      />
+    </div>
+  );
+}
+
+interface IvrBusinessHoursEditorProps {
+  value: IvrBusinessHours;
+  onChange: (value: IvrBusinessHours) => void;
+  // Menus selectable as closed/holiday submenus
+  submenus: IvrMenu[];
+}
+
+export function IvrBusinessHoursEditor({ value, onChange, submenus }: IvrBusinessHoursEditorProps) {
+  const [newHoliday, setNewHoliday] = useState("");
+
+  const updateDay = (dayIndex: number, blocks: { start: string; end: string }[]) => {
+    onChange({
+      ...value,
+      operatingHours: {
+        ...value.operatingHours,
+        [dayIndex]: { enabled: blocks.length > 0, blocks },
+      },
+    });
+  };
+
+  const toggleDay = (dayIndex: number) => {
+    const day = value.operatingHours[dayIndex];
+    updateDay(dayIndex, day?.enabled ? [] : [{ start: "09:00", end: "18:00" }]);
+  };
+
+  const updateBlock = (dayIndex: number, blockIndex: number, field: "start" | "end", time: string) => {
+    const blocks = value.operatingHours[dayIndex].blocks.map((block, i) =>
+      i === blockIndex ? { ...block, [field]: time } : block
+    );
+    updateDay(dayIndex, blocks);
+  };
+
+  const addHoliday = () => {
+    if (!newHoliday || value.holidays.includes(newHoliday)) return;
+    onChange({ ...value, holidays: [...value.holidays, newHoliday].sort() });
+    setNewHoliday("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Horario de atención</Label>
+          <p className="text-xs text-muted-foreground">
+            Fuera de horario o en festivos la llamada sigue la rama de cerrado
+          </p>
+        </div>
+        <Switch
+          checked={value.enabled}
+          onCheckedChange={(enabled) => onChange({ ...value, enabled })}
+          data-testid="switch-ivr-business-hours"
+        />
+      </div>
+
+      {value.enabled && (
+        <>
+          <Select value={value.timezone} onValueChange={(timezone) => onChange({ ...value, timezone })}>
+            <SelectTrigger data-testid="select-ivr-timezone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIMEZONES.map((tz) => (
+                <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="space-y-2">
+            {DAYS.map((dayName, dayIndex) => {
+              const day = value.operatingHours[dayIndex] || { enabled: false, blocks: [] };
+              return (
+                <div key={dayIndex} className="flex items-start gap-3">
+                  <div className="flex items-center gap-2 w-32 pt-2">
+                    <Switch
+                      checked={day.enabled}
+                      onCheckedChange={() => toggleDay(dayIndex)}
+                      data-testid={`switch-ivr-day-${dayIndex}`}
+                    />
+                    <span className="text-sm">{dayName}</span>
+                  </div>
+                  <div className="flex-1 space-y-1">
+                    {day.enabled ? (
+                      day.blocks.map((block, blockIndex) => (
+                        <div key={blockIndex} className="flex items-center gap-2">
+                          <Input
+                            type="time"
+                            value={block.start}
+                            onChange={(e) => updateBlock(dayIndex, blockIndex, "start", e.target.value)}
+                            className="w-28"
+                            data-testid={`input-ivr-block-start-${dayIndex}-${blockIndex}`}
+                          />
+                          <span className="text-muted-foreground">a</span>
+                          <Input
+                            type="time"
+                            value={block.end}
+                            onChange={(e) => updateBlock(dayIndex, blockIndex, "end", e.target.value)}
+                            className="w-28"
+                            data-testid={`input-ivr-block-end-${dayIndex}-${blockIndex}`}
+                          />
+                          {blockIndex === day.blocks.length - 1 ? (
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => updateDay(dayIndex, [...day.blocks, { start: block.end, end: "20:00" }])}
+                              data-testid={`button-ivr-add-block-${dayIndex}`}
+                            >
+                              <Plus className="h-4 w-4" />
+                            </Button>
+                          ) : null}
+                          {day.blocks.length > 1 && (
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => updateDay(dayIndex, day.blocks.filter((_, i) => i !== blockIndex))}
+                              data-testid={`button-ivr-remove-block-${dayIndex}-${blockIndex}`}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          )}
+                        </div>
+                      ))
+                    ) : (
+                      <p className="text-sm text-muted-foreground pt-2">Cerrado</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Festivos</Label>
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                value={newHoliday}
+                onChange={(e) => setNewHoliday(e.target.value)}
+                className="w-44"
+                data-testid="input-ivr-holiday"
+              />
+              <Button type="button" variant="outline" size="sm" onClick={addHoliday} data-testid="button-ivr-add-holiday">
+                <Plus className="h-4 w-4 mr-1" />
+                Añadir
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {value.holidays.map((date) => (
+                <Badge key={date} variant="secondary" className="gap-1">
+                  {date}
+                  <button
+                    type="button"
+                    onClick={() => onChange({ ...value, holidays: value.holidays.filter((d) => d !== date) })}
+                    data-testid={`button-ivr-remove-holiday-${date}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <BranchActionEditor
+            label="Si está cerrado"
+            value={value.closed}
+            onChange={(closed) => onChange({ ...value, closed })}
+            submenus={submenus}
+            testId="ivr-closed"
+          />
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Rama de festivos propia</Label>
+              <Switch
+                checked={!!value.holiday}
+                onCheckedChange={(checked) =>
+                  onChange({ ...value, holiday: checked ? { ...value.closed } : null })
+                }
+                data-testid="switch-ivr-holiday-branch"
+              />
+            </div>
+            {value.holiday && (
+              <BranchActionEditor
+                label="Si es festivo"
+                value={value.holiday}
+                onChange={(holiday) => onChange({ ...value, holiday })}
+                submenus={submenus}
+                testId="ivr-holiday"
+              />
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -29,12 +29,22 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus, Trash2, Volume2, Play, Loader2 } from "lucide-react";
-import { useCreateIvr, useUpdateIvr } from "@/hooks/use-telephony";
+import { Plus, Trash2, Volume2, Play, Loader2, CornerDownRight } from "lucide-react";
+import { useCreateIvr, useUpdateIvr, useIvrs, useAiAgents } from "@/hooks/use-telephony";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { IvrMenu } from "@shared/schema";
+import type { IvrBusinessHours, IvrMenu } from "@shared/schema";
+import { IvrBusinessHoursEditor, getDefaultBusinessHours } from "./ivr-business-hours";
+
+const ACTION_LABELS: Record<string, string> = {
+  transfer: "Transferir",
+  queue: "Cola",
+  hangup: "Colgar",
+  repeat: "Repetir",
+  submenu: "Submenú",
+  ai_agent: "Agente IA",
+};
 
 const ivrOptionSchema = z.object({
   key: z
@@ -49,8 +59,8 @@ const ivrOptionSchema = z.object({
     .string()
     .min(1, "Acción requerida")
     .refine(
-      (val) => ["transfer", "queue", "hangup", "repeat"].includes(val),
-      "Acción debe ser transfer, queue, hangup o repeat"
+      (val) => ["transfer", "queue", "hangup", "repeat", "submenu", "ai_agent"].includes(val),
+      "Acción debe ser transfer, queue, hangup, repeat, submenu o ai_agent"
     ),
   destination: z
     .string()
@@ -102,6 +112,52 @@ const ivrSchema = z.object({
 
 type IvrFormData = z.infer<typeof ivrSchema>;
 
+function readMenuOptions(menu: IvrMenu): any[] {
+  const options = typeof menu.menuOptions === 'string'
+    ? JSON.parse(menu.menuOptions || "[]")
+    : menu.menuOptions;
+  return Array.isArray(options) ? options : [];
+}
+
+// Read-only view of a submenu and everything below it; a menu already on
+// the path is shown as a cycle instead of being expanded again
+function IvrSubmenuTree({ menuId, ivrs, path }: { menuId: string; ivrs: IvrMenu[]; path: string[] }) {
+  const menu = ivrs.find((m) => m.id === menuId);
+  if (!menu) return null;
+
+  if (path.includes(menuId)) {
+    return (
+      <p className="text-xs text-destructive" data-testid={`text-ivr-cycle-${menuId}`}>
+        Vuelve a "{menu.name}": ciclo no permitido
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-1">
+      {readMenuOptions(menu).map((option, index) => (
+        <li key={index} className="text-xs">
+          <div className="flex items-center gap-1 text-muted-foreground">
+            <CornerDownRight className="h-3 w-3" />
+            <span className="font-mono">{option.key}</span>
+            <span>→ {ACTION_LABELS[option.action] || option.action}</span>
+            {option.action === "submenu"
+              ? <span className="font-medium">{ivrs.find((m) => m.id === option.destination)?.name}</span>
+              : option.destination || option.target
+                ? <span>{option.destination || option.target}</span>
+                : null}
+          </div>
+          {option.action === "submenu" && (
+            <div className="ml-4 border-l pl-2">
+              <IvrSubmenuTree menuId={option.destination} ivrs={ivrs} path={[...path, menuId]} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 interface IvrModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -112,7 +168,14 @@ interface IvrModalProps {
 export function IvrModal({ isOpen, onClose, ivr, mode }: IvrModalProps) {
   const createMutation = useCreateIvr();
   const updateMutation = useUpdateIvr();
+  const { data: ivrs = [] } = useIvrs();
+  const { data: aiAgents = [] } = useAiAgents();
   const { toast } = useToast();
+  const [businessHours, setBusinessHours] = useState<IvrBusinessHours>(getDefaultBusinessHours());
+
+  // Any other menu of the tenant can be used as a submenu
+  const submenus = ivrs.filter((m) => m.id !== ivr?.id);
+  const currentPath = ivr?.id ? [ivr.id] : [];
   
   // TTS state
   const [generatedAudioUrl, setGeneratedAudioUrl] = useState<string | null>(null);
@@ -138,17 +201,19 @@ export function IvrModal({ isOpen, onClose, ivr, mode }: IvrModalProps) {
 
   // TTS synthesis mutation
   const synthesizeMutation = useMutation({
-    mutationFn: async (data: { text: string; voice: { gender: string; style: string } }) => {
+    mutationFn: async (data: { text: string; voice: { gender: string; style: string }; name?: string }) => {
       const response = await apiRequest('POST', '/api/ivr/tts', data);
       return response.json();
     },
-    onSuccess: (data: { url: string }) => {
+    onSuccess: (data: { url: string; cached: boolean }) => {
       setGeneratedAudioUrl(data.url);
       // Auto-fill the greetingAudioUrl with the generated audio
       form.setValue('greetingAudioUrl', data.url);
       toast({
         title: "Audio generado",
-        description: "El audio TTS se ha generado correctamente",
+        description: data.cached
+          ? "Se reutilizó el audio de la biblioteca con el mismo texto y voz"
+          : "El audio TTS se ha generado correctamente",
       });
     },
     onError: (error: any) => {
@@ -175,12 +240,15 @@ export function IvrModal({ isOpen, onClose, ivr, mode }: IvrModalProps) {
       return;
     }
     
+    const ivrName = form.getValues('name')?.trim();
     synthesizeMutation.mutate({
       text: greetingText,
       voice: {
         gender: voiceType,
         style: voiceStyle,
       },
+      // Name in the prompt library
+      ...(ivrName ? { name: `Saludo IVR ${ivrName}` } : {}),
     });
   };
 
@@ -275,6 +343,7 @@ export function IvrModal({ isOpen, onClose, ivr, mode }: IvrModalProps) {
         greetingVoiceStyle: ivr.greetingVoiceStyle || "amable",
         menuOptions: ivrOptions,
       });
+      setBusinessHours(ivr.businessHours || getDefaultBusinessHours());
     } else if (mode === "create") {
       form.reset({
         name: "",
@@ -284,6 +353,7 @@ export function IvrModal({ isOpen, onClose, ivr, mode }: IvrModalProps) {
         greetingVoiceStyle: "amable",
         menuOptions: [{ key: "1", action: "transfer", destination: "101" }],
       });
+      setBusinessHours(getDefaultBusinessHours());
     }
     setGeneratedAudioUrl(null);
   }, [ivr, mode, form]);
@@ -302,6 +372,7 @@ export function IvrModal({ isOpen, onClose, ivr, mode }: IvrModalProps) {
         greetingVoiceGender: data.greetingVoiceGender || null,
         greetingVoiceStyle: data.greetingVoiceStyle || null,
         menuOptions: data.menuOptions, // Send as actual JSON object, not stringified
+        businessHours,
       };
 
       if (mode === "create") {
@@ -535,75 +606,123 @@ export function IvrModal({ isOpen, onClose, ivr, mode }: IvrModalProps) {
               </div>
 
               {form.watch("menuOptions")?.map((option, index) => (
-                <div key={index} className="flex gap-2 items-end">
-                  <FormField
-                    control={form.control}
-                    name={`menuOptions.${index}.key`}
-                    render={({ field }) => (
-                      <FormItem className="flex-1">
-                        <FormLabel>Tecla</FormLabel>
-                        <FormControl>
-                          <Input
-                            {...field}
-                            placeholder="1"
-                            maxLength={1}
-                            data-testid={`input-option-key-${index}`}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                <div key={index} className="space-y-2">
+                  <div className="flex gap-2 items-end">
+                    <FormField
+                      control={form.control}
+                      name={`menuOptions.${index}.key`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel>Tecla</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              placeholder="1"
+                              maxLength={1}
+                              data-testid={`input-option-key-${index}`}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
-                  <FormField
-                    control={form.control}
-                    name={`menuOptions.${index}.action`}
-                    render={({ field }) => (
-                      <FormItem className="flex-2">
-                        <FormLabel>Acción</FormLabel>
-                        <FormControl>
-                          <Input
-                            {...field}
-                            placeholder="transfer"
-                            data-testid={`input-option-action-${index}`}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                    <FormField
+                      control={form.control}
+                      name={`menuOptions.${index}.action`}
+                      render={({ field }) => (
+                        <FormItem className="flex-2">
+                          <FormLabel>Acción</FormLabel>
+                          <FormControl>
+                            <Select
+                              value={field.value}
+                              onValueChange={(value) => {
+                                field.onChange(value);
+                                form.setValue(`menuOptions.${index}.destination`, "");
+                              }}
+                            >
+                              <SelectTrigger data-testid={`select-option-action-${index}`}>
+                                <SelectValue placeholder="Acción" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {["transfer", "queue", "hangup", "repeat", "submenu", "ai_agent"].map((action) => (
+                                  <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
-                  <FormField
-                    control={form.control}
-                    name={`menuOptions.${index}.destination`}
-                    render={({ field }) => (
-                      <FormItem className="flex-2">
-                        <FormLabel>Destino</FormLabel>
-                        <FormControl>
-                          <Input
-                            {...field}
-                            placeholder="101"
-                            data-testid={`input-option-destination-${index}`}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                    <FormField
+                      control={form.control}
+                      name={`menuOptions.${index}.destination`}
+                      render={({ field }) => (
+                        <FormItem className="flex-2">
+                          <FormLabel>Destino</FormLabel>
+                          <FormControl>
+                            {option.action === "submenu" ? (
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <SelectTrigger data-testid={`select-option-submenu-${index}`}>
+                                  <SelectValue placeholder="Selecciona un IVR" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {submenus.map((menu) => (
+                                    <SelectItem key={menu.id} value={menu.id}>{menu.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : option.action === "ai_agent" ? (
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <SelectTrigger data-testid={`select-option-ai-agent-${index}`}>
+                                  <SelectValue placeholder="Selecciona un agente" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {aiAgents.map((agent) => (
+                                    <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Input
+                                {...field}
+                                placeholder="101"
+                                data-testid={`input-option-destination-${index}`}
+                              />
+                            )}
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    onClick={() => remove(index)}
-                    data-testid={`button-remove-option-${index}`}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => remove(index)}
+                      data-testid={`button-remove-option-${index}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {option.action === "submenu" && option.destination && (
+                    <div className="ml-4 border-l pl-3" data-testid={`tree-option-${index}`}>
+                      <IvrSubmenuTree menuId={option.destination} ivrs={ivrs} path={currentPath} />
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
 
+            <IvrBusinessHoursEditor
+              value={businessHours}
+              onChange={setBusinessHours}
+              submenus={submenus}
+            />
+
             <DialogFooter>
               <Button 
                 type="button" 
@@ -0,0 +1,273 @@
+import { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { FileText, HelpCircle, RefreshCw, Search, Trash2, Upload } from "lucide-react";
+import {
+  useCreateKnowledgeFaq,
+  useDeleteKnowledgeDocument,
+  useKnowledgeDocuments,
+  useReindexKnowledgeDocument,
+  useSearchKnowledge,
+  useUploadKnowledgeDocument,
+} from "@/hooks/use-telephony";
+import type { KnowledgeDocumentSummary, KnowledgeSource } from "@shared/schema";
+
+const SOURCE_LABELS: Record<KnowledgeSource, string> = {
+  pdf: "PDF",
+  text: "Texto",
+  markdown: "Markdown",
+  faq: "FAQ",
+};
+
+const STATUS_LABELS: Record<KnowledgeDocumentSummary["status"], string> = {
+  processing: "Indexando",
+  ready: "Listo",
+  failed: "Error",
+};
+
+function DocumentRow({ document }: { document: KnowledgeDocumentSummary }) {
+  const deleteMutation = useDeleteKnowledgeDocument();
+  const reindexMutation = useReindexKnowledgeDocument();
+
+  const handleDelete = () => {
+    if (confirm(`¿Estás seguro de que quieres eliminar "${document.title}"?`)) {
+      deleteMutation.mutate(document.id);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between rounded-md border p-3" data-testid={`row-knowledge-${document.id}`}>
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-medium truncate">{document.title}</span>
+          <Badge variant="outline">{SOURCE_LABELS[document.source]}</Badge>
+          <Badge variant={document.status === "failed" ? "destructive" : document.status === "ready" ? "default" : "secondary"}>
+            {STATUS_LABELS[document.status]}
+          </Badge>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {document.chunkCount} fragmentos · {document.embeddingModel ? `Embeddings ${document.embeddingModel}` : "Búsqueda por palabras"}
+        </p>
+        {document.error && <p className="text-xs text-destructive truncate">{document.error}</p>}
+      </div>
+      <div className="flex shrink-0">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => reindexMutation.mutate(document.id)}
+          disabled={document.status === "processing" || reindexMutation.isPending}
+          title="Reindexar"
+          data-testid={`button-reindex-knowledge-${document.id}`}
+        >
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={handleDelete} data-testid={`button-delete-knowledge-${document.id}`}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function DocumentList({ documents, empty }: { documents: KnowledgeDocumentSummary[]; empty: string }) {
+  if (documents.length === 0) {
+    return <p className="text-sm text-muted-foreground">{empty}</p>;
+  }
+  return (
+    <div className="space-y-2">
+      {documents.map((document) => (
+        <DocumentRow key={document.id} document={document} />
+      ))}
+    </div>
+  );
+}
+
+// Documents and FAQs the AI agents answer from, and a search to try them out
+export function KnowledgeBaseDialog({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const { data: documents = [], isLoading } = useKnowledgeDocuments();
+  const uploadMutation = useUploadKnowledgeDocument();
+  const createFaqMutation = useCreateKnowledgeFaq();
+  const searchMutation = useSearchKnowledge();
+
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [question, setQuestion] = useState("");
+  const [answer, setAnswer] = useState("");
+  const [query, setQuery] = useState("");
+
+  const files = documents.filter((document) => document.source !== "faq");
+  const faqs = documents.filter((document) => document.source === "faq");
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) uploadMutation.mutate(file);
+    event.target.value = "";
+  };
+
+  const handleAddFaq = () => {
+    createFaqMutation.mutate(
+      { question: question.trim(), answer: answer.trim() },
+      {
+        onSuccess: () => {
+          setQuestion("");
+          setAnswer("");
+        },
+      },
+    );
+  };
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (query.trim()) searchMutation.mutate(query.trim());
+  };
+
+  const result = searchMutation.data;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto" data-testid="modal-knowledge-base">
+        <DialogHeader>
+          <DialogTitle>Base de Conocimiento</DialogTitle>
+          <DialogDescription>
+            Los agentes de IA responden con los fragmentos de estos documentos que mejor encajan con lo que dice el cliente.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="documents">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="documents" data-testid="tab-knowledge-documents">
+              <FileText className="h-4 w-4 mr-2" />
+              Documentos
+            </TabsTrigger>
+            <TabsTrigger value="faqs" data-testid="tab-knowledge-faqs">
+              <HelpCircle className="h-4 w-4 mr-2" />
+              Preguntas frecuentes
+            </TabsTrigger>
+            <TabsTrigger value="test" data-testid="tab-knowledge-test">
+              <Search className="h-4 w-4 mr-2" />
+              Probar
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="documents" className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">PDF, texto (.txt) o markdown (.md), hasta 10 MB.</p>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".pdf,.txt,.md,.markdown,application/pdf,text/plain,text/markdown"
+                className="hidden"
+                onChange={handleFile}
+                data-testid="input-knowledge-file"
+              />
+              <Button
+                onClick={() => fileInput.current?.click()}
+                disabled={uploadMutation.isPending}
+                data-testid="button-upload-knowledge"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {uploadMutation.isPending ? "Subiendo..." : "Subir documento"}
+              </Button>
+            </div>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Cargando documentos...</p>
+            ) : (
+              <DocumentList documents={files} empty="No hay documentos. Sube uno para que los agentes lo usen." />
+            )}
+          </TabsContent>
+
+          <TabsContent value="faqs" className="space-y-4">
+            <div className="space-y-2 rounded-md border p-3">
+              <Label htmlFor="knowledge-question">Pregunta</Label>
+              <Input
+                id="knowledge-question"
+                value={question}
+                onChange={(event) => setQuestion(event.target.value)}
+                placeholder="¿Cuál es el horario de apertura?"
+                maxLength={500}
+                data-testid="input-knowledge-question"
+              />
+              <Label htmlFor="knowledge-answer">Respuesta</Label>
+              <Textarea
+                id="knowledge-answer"
+                value={answer}
+                onChange={(event) => setAnswer(event.target.value)}
+                placeholder="De lunes a viernes de 9:00 a 18:00."
+                maxLength={4000}
+                rows={3}
+                data-testid="input-knowledge-answer"
+              />
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleAddFaq}
+                  disabled={!question.trim() || !answer.trim() || createFaqMutation.isPending}
+                  data-testid="button-add-knowledge-faq"
+                >
+                  Añadir pregunta
+                </Button>
+              </div>
+            </div>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Cargando preguntas...</p>
+            ) : (
+              <DocumentList documents={faqs} empty="No hay preguntas frecuentes." />
+            )}
+          </TabsContent>
+
+          <TabsContent value="test" className="space-y-4">
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <Input
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+                placeholder="Escribe una pregunta como la haría un cliente"
+                maxLength={1000}
+                data-testid="input-knowledge-query"
+              />
+              <Button type="submit" disabled={!query.trim() || searchMutation.isPending} data-testid="button-search-knowledge">
+                <Search className="h-4 w-4 mr-2" />
+                Buscar
+              </Button>
+            </form>
+
+            {searchMutation.isError && (
+              <p className="text-sm text-destructive">{searchMutation.error.message}</p>
+            )}
+            {result && (
+              <div className="space-y-2" data-testid="knowledge-search-results">
+                <p className="text-xs text-muted-foreground">
+                  {result.method === "embedding" ? "Búsqueda semántica (embeddings)" : "Búsqueda por palabras"} ·{" "}
+                  {result.passages.length} fragmentos recuperados
+                </p>
+                {result.passages.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Ningún fragmento coincide: el agente responderá sin la base de conocimiento.
+                  </p>
+                ) : (
+                  result.passages.map((passage, index) => (
+                    <div key={passage.chunkId} className="rounded-md border p-3" data-testid={`knowledge-passage-${index}`}>
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <span className="text-sm font-medium truncate">{passage.title}</span>
+                        <Badge variant="secondary">{passage.score}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">{passage.content}</p>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
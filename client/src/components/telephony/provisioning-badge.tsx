@@ -0,0 +1,30 @@
+import { Badge } from "@/components/ui/badge";
+import type { ProvisioningStatus } from "@shared/schema";
+
+const PROVISIONING_LABELS: Record<ProvisioningStatus, string> = {
+  pending: "PBX pendiente",
+  provisioned: "En PBX",
+  failed: "Error PBX",
+};
+
+interface ProvisioningBadgeProps {
+  status: ProvisioningStatus;
+  error?: string | null;
+  testId?: string;
+}
+
+/**
+ * PBX provisioning state of an extension or IVR; the error shows on hover
+ */
+export function ProvisioningBadge({ status, error, testId }: ProvisioningBadgeProps) {
+  return (
+    <Badge
+      variant={status === "failed" ? "destructive" : status === "pending" ? "secondary" : "outline"}
+      className="font-normal"
+      title={status === "failed" && error ? error : undefined}
+      data-testid={testId}
+    >
+      {PROVISIONING_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  useCreateQueue,
+  useUpdateQueue,
+  useExtensions,
+  useQueueMembers,
+  useUpdateQueueMembers,
+} from "@/hooks/use-telephony";
+import type { Queue } from "@shared/schema";
+
+export const QUEUE_STRATEGY_LABELS: Record<Queue["strategy"], string> = {
+  ring_all: "Sonar todos",
+  round_robin: "Rotativo",
+  longest_idle: "Más tiempo libre",
+  least_calls: "Menos llamadas",
+};
+
+const queueSchema = z.object({
+  name: z
+    .string()
+    .min(2, "Mínimo 2 caracteres")
+    .max(50, "Máximo 50 caracteres"),
+  strategy: z.enum(["ring_all", "round_robin", "longest_idle", "least_calls"]),
+  ringTimeoutSec: z.coerce
+    .number()
+    .int()
+    .min(5, "Mínimo 5 segundos")
+    .max(120, "Máximo 120 segundos"),
+  maxWaitSec: z.coerce
+    .number()
+    .int()
+    .min(30, "Mínimo 30 segundos")
+    .max(3600, "Máximo 3600 segundos"),
+  overflowTarget: z.string().max(50, "Máximo 50 caracteres").optional(),
+});
+
+type QueueFormData = z.infer<typeof queueSchema>;
+
+interface MemberSelection {
+  priority: number;
+  isPaused: boolean;
+}
+
+interface QueueModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  queue?: Queue | null;
+  mode: "create" | "edit";
+}
+
+export function QueueModal({ isOpen, onClose, queue, mode }: QueueModalProps) {
+  const createMutation = useCreateQueue();
+  const updateMutation = useUpdateQueue();
+  const updateMembersMutation = useUpdateQueueMembers();
+  const { data: extensionsData } = useExtensions({ pageSize: 200 });
+  const { data: members } = useQueueMembers(mode === "edit" ? queue?.id : undefined);
+
+  // Selected extensions keyed by extension id
+  const [selected, setSelected] = useState<Record<string, MemberSelection>>({});
+
+  const form = useForm<QueueFormData>({
+    resolver: zodResolver(queueSchema),
+    defaultValues: {
+      name: "",
+      strategy: "ring_all",
+      ringTimeoutSec: 20,
+      maxWaitSec: 300,
+      overflowTarget: "",
+    },
+  });
+
+  useEffect(() => {
+    if (queue && mode === "edit") {
+      form.reset({
+        name: queue.name,
+        strategy: queue.strategy,
+        ringTimeoutSec: queue.ringTimeoutSec,
+        maxWaitSec: queue.maxWaitSec,
+        overflowTarget: queue.overflowTarget || "",
+      });
+    } else if (mode === "create") {
+      form.reset({
+        name: "",
+        strategy: "ring_all",
+        ringTimeoutSec: 20,
+        maxWaitSec: 300,
+        overflowTarget: "",
+      });
+      setSelected({});
+    }
+  }, [queue, mode, form]);
+
+  useEffect(() => {
+    if (mode === "edit" && members) {
+      setSelected(Object.fromEntries(
+        members.map((member) => [member.extensionId, { priority: member.priority, isPaused: member.isPaused }])
+      ));
+    }
+  }, [members, mode]);
+
+  const toggleMember = (extensionId: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = { ...current };
+      if (checked) {
+        next[extensionId] = { priority: 0, isPaused: false };
+      } else {
+        delete next[extensionId];
+      }
+      return next;
+    });
+  };
+
+  const updateMember = (extensionId: string, data: Partial<MemberSelection>) => {
+    setSelected((current) => ({
+      ...current,
+      [extensionId]: { ...current[extensionId], ...data },
+    }));
+  };
+
+  const onSubmit = async (data: QueueFormData) => {
+    try {
+      const queueData = { ...data, overflowTarget: data.overflowTarget?.trim() || null };
+      const saved = mode === "create"
+        ? await createMutation.mutateAsync(queueData)
+        : await updateMutation.mutateAsync({ id: queue!.id, data: queueData });
+
+      await updateMembersMutation.mutateAsync({
+        id: saved.id,
+        members: Object.entries(selected).map(([extensionId, member]) => ({ extensionId, ...member })),
+      });
+      handleClose();
+    } catch (error) {
+      // Error handling is done in the hooks
+    }
+  };
+
+  const handleClose = () => {
+    onClose();
+    form.reset();
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending || updateMembersMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[560px] max-h-[80vh] overflow-y-auto" data-testid="modal-queue">
+        <DialogHeader>
+          <DialogTitle>{mode === "create" ? "Crear Nueva Cola" : "Editar Cola"}</DialogTitle>
+          <DialogDescription>
+            Define cómo se reparten las llamadas entre los agentes de la cola.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nombre</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="ej. Ventas" data-testid="input-queue-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="strategy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Estrategia de distribución</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-queue-strategy">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(QUEUE_STRATEGY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="ringTimeoutSec"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tiempo de timbre (s)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" data-testid="input-queue-ring-timeout" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxWaitSec"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Espera máxima (s)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" data-testid="input-queue-max-wait" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="overflowTarget"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Desbordamiento</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder="Extensión, cola o número (vacío: colgar)"
+                      data-testid="input-queue-overflow"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label>Agentes</Label>
+              <div className="space-y-2 rounded-md border p-3">
+                {extensionsData?.data.length ? (
+                  extensionsData.data.map((extension) => {
+                    const member = selected[extension.id];
+                    return (
+                      <div key={extension.id} className="flex items-center gap-3">
+                        <Checkbox
+                          checked={!!member}
+                          onCheckedChange={(checked) => toggleMember(extension.id, checked === true)}
+                          data-testid={`checkbox-queue-member-${extension.id}`}
+                        />
+                        <span className="flex-1 text-sm">
+                          {extension.number} · {extension.userName}
+                          {extension.status !== "ACTIVE" && (
+                            <span className="text-muted-foreground"> (inactiva)</span>
+                          )}
+                        </span>
+                        {member && (
+                          <>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={member.priority}
+                              onChange={(e) => updateMember(extension.id, { priority: Number(e.target.value) || 0 })}
+                              className="w-20"
+                              title="Prioridad (menor suena antes)"
+                              data-testid={`input-queue-member-priority-${extension.id}`}
+                            />
+                            <div className="flex items-center gap-1" title="Pausado">
+                              <Switch
+                                checked={member.isPaused}
+                                onCheckedChange={(isPaused) => updateMember(extension.id, { isPaused })}
+                                data-testid={`switch-queue-member-paused-${extension.id}`}
+                              />
+                              <span className="text-xs text-muted-foreground">Pausa</span>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    );
+                  })
+                ) : (
+                  <p className="text-sm text-muted-foreground">No hay extensiones configuradas.</p>
+                )}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel-queue">
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSaving} data-testid="button-save-queue">
+                {isSaving ? "Guardando..." : mode === "create" ? "Crear Cola" : "Guardar Cambios"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
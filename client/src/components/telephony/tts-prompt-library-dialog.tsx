@@ -0,0 +1,209 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, Edit, Pause, Play, Trash2, X } from "lucide-react";
+import {
+  useCleanupTtsPrompts,
+  useDeleteTtsPrompt,
+  useRenameTtsPrompt,
+  useTtsPrompts,
+} from "@/hooks/use-telephony";
+import { TTS_PROVIDER_LABELS, type TtsLibraryPrompt, type TtsProviderName } from "@shared/schema";
+
+const STYLE_LABELS: Record<TtsLibraryPrompt["voiceStyle"], string> = {
+  neutral: "Neutral",
+  amable: "Amable",
+  energetico: "Energético",
+};
+
+function providerLabel(provider: string): string {
+  if (provider === "mock") return "Silencio (desarrollo)";
+  return TTS_PROVIDER_LABELS[provider as TtsProviderName] ?? provider;
+}
+
+function PromptRow({
+  prompt,
+  isPlaying,
+  onTogglePlay,
+}: {
+  prompt: TtsLibraryPrompt;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+}) {
+  const renameMutation = useRenameTtsPrompt();
+  const deleteMutation = useDeleteTtsPrompt();
+  const [editedName, setEditedName] = useState<string | null>(null);
+
+  const inUse = prompt.usedBy.length > 0;
+
+  const handleRename = () => {
+    const name = editedName?.trim();
+    if (!name || name === prompt.name) {
+      setEditedName(null);
+      return;
+    }
+    renameMutation.mutate({ id: prompt.id, name }, { onSuccess: () => setEditedName(null) });
+  };
+
+  const handleDelete = () => {
+    if (confirm(`¿Estás seguro de que quieres eliminar "${prompt.name}"?`)) {
+      deleteMutation.mutate(prompt.id);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-3" data-testid={`row-tts-prompt-${prompt.id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0 flex-1">
+          {editedName !== null ? (
+            <div className="flex items-center gap-1">
+              <Input
+                value={editedName}
+                onChange={(event) => setEditedName(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") handleRename();
+                  if (event.key === "Escape") setEditedName(null);
+                }}
+                maxLength={120}
+                autoFocus
+                className="h-8"
+                data-testid={`input-rename-tts-prompt-${prompt.id}`}
+              />
+              <Button variant="ghost" size="sm" onClick={handleRename} disabled={renameMutation.isPending} title="Guardar">
+                <Check className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setEditedName(null)} title="Cancelar">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <span className="font-medium truncate block">{prompt.name}</span>
+          )}
+          <p className="text-xs text-muted-foreground line-clamp-2">{prompt.text}</p>
+        </div>
+        <div className="flex shrink-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onTogglePlay}
+            title={isPlaying ? "Detener" : "Escuchar"}
+            data-testid={`button-play-tts-prompt-${prompt.id}`}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setEditedName(prompt.name)}
+            title="Renombrar"
+            data-testid={`button-rename-tts-prompt-${prompt.id}`}
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleDelete}
+            disabled={inUse || deleteMutation.isPending}
+            title={inUse ? "En uso: quítalo antes de los IVR o buzones que lo reproducen" : "Eliminar"}
+            data-testid={`button-delete-tts-prompt-${prompt.id}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <Badge variant="outline">{providerLabel(prompt.provider)}</Badge>
+        <Badge variant="outline">
+          {prompt.voiceGender === "hombre" ? "Hombre" : "Mujer"} · {STYLE_LABELS[prompt.voiceStyle]}
+        </Badge>
+        <Badge variant="outline">{Math.round(prompt.durationSec)} s</Badge>
+        {inUse ? (
+          prompt.usedBy.map((usage) => (
+            <Badge key={`${usage.type}-${usage.id}`} variant="secondary">
+              {usage.type === "ivr" ? "IVR" : "Buzón"}: {usage.name}
+            </Badge>
+          ))
+        ) : (
+          <Badge variant="secondary">Sin usar</Badge>
+        )}
+      </div>
+
+      {isPlaying && <audio src={prompt.audioUrl} controls autoPlay onEnded={onTogglePlay} className="w-full" />}
+    </div>
+  );
+}
+
+// Audio generated for IVR menus and voicemail greetings; identical text and
+// voice reuse the same file
+export function TtsPromptLibraryDialog({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const { data: prompts, isLoading } = useTtsPrompts(isOpen);
+  const cleanupMutation = useCleanupTtsPrompts();
+  const [playingId, setPlayingId] = useState<string | null>(null);
+
+  const unusedCount = prompts?.filter((prompt) => prompt.usedBy.length === 0).length ?? 0;
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={() => {
+        setPlayingId(null);
+        onClose();
+      }}
+    >
+      <DialogContent className="sm:max-w-[640px] max-h-[80vh] overflow-y-auto" data-testid="modal-tts-prompts">
+        <DialogHeader>
+          <DialogTitle>Biblioteca de audios</DialogTitle>
+          <DialogDescription>
+            Audios generados para los menús IVR y los saludos del buzón de voz. Los que no usa ningún IVR ni buzón se
+            eliminan automáticamente al día siguiente de su último uso.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Cargando audios...</p>
+        ) : !prompts || prompts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Aún no hay audios. Se guardan aquí al generar el saludo de un IVR o de un buzón.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {prompts.map((prompt) => (
+              <PromptRow
+                key={prompt.id}
+                prompt={prompt}
+                isPlaying={playingId === prompt.id}
+                onTogglePlay={() => setPlayingId(playingId === prompt.id ? null : prompt.id)}
+              />
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => cleanupMutation.mutate()}
+            disabled={unusedCount === 0 || cleanupMutation.isPending}
+            title="Elimina los audios sin usar desde hace más de un día"
+            data-testid="button-cleanup-tts-prompts"
+          >
+            Limpiar audios sin usar
+          </Button>
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
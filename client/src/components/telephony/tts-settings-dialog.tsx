@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Play } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useTtsSettings, useUpdateTtsSettings } from "@/hooks/use-telephony";
+import { TTS_PROVIDER_LABELS, type TtsProviderName } from "@shared/schema";
+
+const DEFAULT_VALUE = "default";
+const SAMPLE_TEXT = "Gracias por llamar. Para ventas, pulse uno. Para soporte, pulse dos.";
+
+// Engine used for IVR prompts and voicemail greetings, with a sample to listen to
+export function TtsSettingsDialog({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const { data: settings, isLoading } = useTtsSettings();
+  const updateMutation = useUpdateTtsSettings();
+
+  const [selected, setSelected] = useState<string>(DEFAULT_VALUE);
+  const [sampleText, setSampleText] = useState(SAMPLE_TEXT);
+
+  useEffect(() => {
+    if (isOpen && settings) setSelected(settings.provider ?? DEFAULT_VALUE);
+  }, [isOpen, settings]);
+
+  // Generated with the saved engine, like real prompts
+  const sampleMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const response = await apiRequest("POST", "/api/ivr/tts", {
+        text,
+        voice: { gender: "mujer", style: "amable" },
+        name: "Prueba de voz",
+      });
+      return response.json() as Promise<{ url: string; provider: string }>;
+    },
+  });
+
+  const provider = selected === DEFAULT_VALUE ? null : (selected as TtsProviderName);
+  const status = settings?.providers.find((option) => option.name === (provider ?? settings.defaultProvider));
+  const defaultLabel = settings
+    ? TTS_PROVIDER_LABELS[settings.defaultProvider as TtsProviderName] ?? settings.defaultProvider
+    : "";
+  const isDirty = settings !== undefined && provider !== settings.provider;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px]" data-testid="modal-tts-settings">
+        <DialogHeader>
+          <DialogTitle>Síntesis de Voz (TTS)</DialogTitle>
+          <DialogDescription>
+            Motor con el que se generan los audios de los menús IVR y los saludos del buzón de voz.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !settings ? (
+          <p className="text-sm text-muted-foreground">Cargando configuración...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Motor de voz</Label>
+              <Select value={selected} onValueChange={setSelected}>
+                <SelectTrigger data-testid="select-tts-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VALUE}>Predeterminado del servidor ({defaultLabel})</SelectItem>
+                  {settings.providers.map((option) => (
+                    <SelectItem key={option.name} value={option.name}>
+                      {option.label}
+                      {option.configured ? "" : " (sin configurar)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {status && !status.configured && (
+                <p className="text-xs text-destructive">
+                  Falta configurar en el servidor: {status.missing.join(", ")}. Mientras tanto los audios serán silencio.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2 rounded-md border p-3">
+              <Label htmlFor="tts-sample">Probar voz</Label>
+              <Textarea
+                id="tts-sample"
+                value={sampleText}
+                onChange={(event) => setSampleText(event.target.value)}
+                rows={2}
+                data-testid="input-tts-sample"
+              />
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">
+                  {isDirty ? "Guarda los cambios para escuchar el motor elegido." : "Se genera con el motor guardado."}
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={() => sampleMutation.mutate(sampleText.trim())}
+                  disabled={sampleText.trim().length < 10 || sampleMutation.isPending}
+                  data-testid="button-tts-sample"
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  {sampleMutation.isPending ? "Generando..." : "Escuchar"}
+                </Button>
+              </div>
+              {sampleMutation.isError && (
+                <p className="text-xs text-destructive">{sampleMutation.error.message}</p>
+              )}
+              {sampleMutation.data && (
+                <div className="space-y-1">
+                  <audio key={sampleMutation.data.url} src={sampleMutation.data.url} controls autoPlay className="w-full" />
+                  {sampleMutation.data.provider === "development" && (
+                    <p className="text-xs text-muted-foreground">
+                      El motor no está disponible en este servidor: se generó un audio en silencio.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+          <Button
+            onClick={() => updateMutation.mutate(provider)}
+            disabled={!isDirty || updateMutation.isPending}
+            data-testid="button-save-tts"
+          >
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Mail, MailOpen, Trash2, User, Voicemail } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useDeleteVoicemail, useMarkVoicemail } from "@/hooks/use-telephony";
+import type { VoicemailMessage } from "@shared/schema";
+
+function callerLabel(message: VoicemailMessage): string {
+  return message.callerName || message.callerNumber || "Número oculto";
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+interface VoicemailListProps {
+  messages: VoicemailMessage[];
+  selectedId: string | null;
+  onSelect: (message: VoicemailMessage) => void;
+}
+
+export function VoicemailList({ messages, selectedId, onSelect }: VoicemailListProps) {
+  if (messages.length === 0) {
+    return (
+      <div className="p-8 text-center text-sm text-gray-500 dark:text-gray-400" data-testid="voicemail-empty">
+        No hay mensajes de voz
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {messages.map((message) => (
+        <div
+          key={message.id}
+          onClick={() => onSelect(message)}
+          className={cn(
+            "p-4 border-b border-gray-100 dark:border-gray-700 cursor-pointer transition-colors hover:bg-gray-50 dark:hover:bg-gray-700",
+            selectedId === message.id && "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-700"
+          )}
+          data-testid={`voicemail-${message.id}`}
+        >
+          <div className="flex items-center space-x-2">
+            <h4
+              className={cn(
+                "text-sm text-gray-900 dark:text-white truncate",
+                message.readAt ? "font-normal" : "font-semibold"
+              )}
+            >
+              {callerLabel(message)}
+            </h4>
+            {!message.readAt && <Badge className="bg-blue-600 text-xs">Nuevo</Badge>}
+          </div>
+          <div className="flex items-center space-x-2 mt-2">
+            <Badge variant="outline" className="text-xs">
+              <Voicemail className="w-3 h-3 mr-1" /> {formatDuration(message.durationSec)}
+            </Badge>
+            <span className="text-xs text-gray-400">
+              {format(new Date(message.createdAt), "d MMM, HH:mm", { locale: es })}
+            </span>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
+
+interface VoicemailDetailProps {
+  message: VoicemailMessage;
+  onDeleted: () => void;
+}
+
+export function VoicemailDetail({ message, onDeleted }: VoicemailDetailProps) {
+  const markMutation = useMarkVoicemail();
+  const deleteMutation = useDeleteVoicemail();
+
+  const handleDelete = () => {
+    if (confirm("¿Eliminar este mensaje de voz?")) {
+      deleteMutation.mutate(message.id, { onSuccess: onDeleted });
+    }
+  };
+
+  return (
+    <>
+      <div className="p-4 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gray-200 dark:bg-gray-600 rounded-full flex items-center justify-center">
+              <User className="w-5 h-5 text-gray-500" />
+            </div>
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">{callerLabel(message)}</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {message.callerName && message.callerNumber ? `${message.callerNumber} · ` : ""}
+                {format(new Date(message.createdAt), "PPpp", { locale: es })}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => markMutation.mutate({ id: message.id, isRead: !message.readAt })}
+              disabled={markMutation.isPending}
+              data-testid="button-toggle-voicemail-read"
+            >
+              {message.readAt ? (
+                <><Mail className="w-4 h-4 mr-2" />Marcar no leído</>
+              ) : (
+                <><MailOpen className="w-4 h-4 mr-2" />Marcar leído</>
+              )}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              data-testid="button-delete-voicemail"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 p-4 bg-gray-50 dark:bg-gray-900">
+        {/* Listening marks the message as read */}
+        <audio
+          key={message.id}
+          controls
+          preload="metadata"
+          src={message.url}
+          className="w-full"
+          onPlay={() => !message.readAt && markMutation.mutate({ id: message.id, isRead: true })}
+          data-testid="audio-voicemail"
+        />
+        <p className="text-xs text-gray-500 mt-2">
+          Duración {formatDuration(message.durationSec)}
+          {message.emailedAt && " · Copia enviada por email"}
+        </p>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Loader2, Trash2, Wand2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useUpdateVoicemailSettings } from "@/hooks/use-telephony";
+import type { Extension } from "@shared/schema";
+
+interface VoicemailModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  extension: Extension | null;
+}
+
+export function VoicemailModal({ isOpen, onClose, extension }: VoicemailModalProps) {
+  const updateMutation = useUpdateVoicemailSettings();
+  const { toast } = useToast();
+
+  const [enabled, setEnabled] = useState(true);
+  const [email, setEmail] = useState("");
+  const [greetingUrl, setGreetingUrl] = useState<string | null>(null);
+  const [greetingText, setGreetingText] = useState("");
+
+  useEffect(() => {
+    if (extension) {
+      setEnabled(extension.voicemailEnabled);
+      setEmail(extension.voicemailEmail ?? "");
+      setGreetingUrl(extension.voicemailGreetingUrl);
+      setGreetingText("");
+    }
+  }, [extension]);
+
+  // Greetings go through the same TTS pipeline as IVR menus
+  const synthesizeMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const response = await apiRequest("POST", "/api/ivr/tts", {
+        text,
+        voice: { gender: "mujer", style: "amable" },
+        ...(extension ? { name: `Buzón ${extension.number}` } : {}),
+      });
+      return response.json() as Promise<{ url: string }>;
+    },
+    onSuccess: (data) => {
+      setGreetingUrl(data.url);
+      toast({
+        title: "Saludo generado",
+        description: "Guarda los cambios para usarlo en el buzón",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al generar audio",
+        description: error.message || "No se pudo generar el audio TTS",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleGenerate = () => {
+    if (greetingText.trim().length < 10) {
+      toast({
+        title: "Texto demasiado corto",
+        description: "El saludo debe tener al menos 10 caracteres",
+        variant: "destructive",
+      });
+      return;
+    }
+    synthesizeMutation.mutate(greetingText.trim());
+  };
+
+  const handleSave = async () => {
+    if (!extension) return;
+    try {
+      await updateMutation.mutateAsync({
+        id: extension.id,
+        data: {
+          enabled,
+          email: email.trim() || null,
+          greetingUrl,
+        },
+      });
+      onClose();
+    } catch {
+      // The mutation already shows the error toast
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]" data-testid="modal-voicemail">
+        <DialogHeader>
+          <DialogTitle>Buzón de voz · Ext. {extension?.number}</DialogTitle>
+          <DialogDescription>
+            Las llamadas no atendidas dejan un mensaje en este buzón. El acceso telefónico usa el PIN de la extensión.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="voicemail-enabled">Buzón activo</Label>
+            <Switch
+              id="voicemail-enabled"
+              checked={enabled}
+              onCheckedChange={setEnabled}
+              data-testid="switch-voicemail-enabled"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="voicemail-email">Enviar copia por email</Label>
+            <Input
+              id="voicemail-email"
+              type="email"
+              placeholder="agente@empresa.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              data-testid="input-voicemail-email"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="voicemail-greeting">Saludo personalizado</Label>
+            {greetingUrl ? (
+              <div className="flex items-center gap-2">
+                <audio controls src={greetingUrl} className="h-9 flex-1" data-testid="audio-voicemail-greeting" />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setGreetingUrl(null)}
+                  data-testid="button-remove-voicemail-greeting"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Se usa el saludo estándar de la centralita.</p>
+            )}
+            <Textarea
+              id="voicemail-greeting"
+              placeholder="Hola, has llamado a... Deja tu mensaje después de la señal."
+              value={greetingText}
+              onChange={(e) => setGreetingText(e.target.value)}
+              rows={3}
+              data-testid="textarea-voicemail-greeting"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleGenerate}
+              disabled={synthesizeMutation.isPending}
+              data-testid="button-generate-voicemail-greeting"
+            >
+              {synthesizeMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Wand2 className="h-4 w-4 mr-2" />
+              )}
+              Generar saludo
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-cancel-voicemail">
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={updateMutation.isPending} data-testid="button-save-voicemail">
+            {updateMutation.isPending ? "Guardando..." : "Guardar Cambios"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,171 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtimeEvent } from "@/hooks/use-realtime";
+import type {
+  ContactConversation,
+  Conversation,
+  InboxConversation,
+  InboxCounts,
+  InboxUpdate,
+  InboxView,
+  Message,
+} from "@shared/schema";
+
+interface PaginatedResponse<T> {
+  data: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export type ConversationWithMessages = Conversation & { messages: Message[] };
+
+const INBOX_EVENTS = ["call_status", "ended", "inbox_update", "message_created", "analysis_update"];
+
+// A contact timeline spans several conversations, so any change may touch it
+function invalidateContactTimelines() {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).endsWith("/contact"),
+  });
+}
+
+// Call events create and end conversations, triage changes come as
+// inbox_update, SMS / WhatsApp traffic as message_created and post-call
+// analyses as analysis_update. They refresh the lists, the counts and the
+// open detail.
+function useInboxEvents() {
+  useRealtimeEvent((event) => {
+    if (INBOX_EVENTS.includes(event.type)) {
+      queryClient.invalidateQueries({ queryKey: ["/api/inbox"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inbox/counts"] });
+      if (event.conversationId) {
+        queryClient.invalidateQueries({ queryKey: [`/api/conversations/${event.conversationId}`] });
+      }
+      invalidateContactTimelines();
+    }
+  });
+}
+
+export function useInbox(view: InboxView, q: string) {
+  useInboxEvents();
+
+  const params = new URLSearchParams({ view });
+  if (q.trim()) params.append("q", q.trim());
+
+  return useQuery<PaginatedResponse<InboxConversation>>({
+    queryKey: ["/api/inbox", params.toString()],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+}
+
+export function useInboxCounts() {
+  return useQuery<InboxCounts>({
+    queryKey: ["/api/inbox/counts"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+}
+
+export function useInboxConversation(id: string | null) {
+  return useQuery<ConversationWithMessages>({
+    queryKey: [`/api/conversations/${id}`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!id,
+  });
+}
+
+// Every conversation with the same contact (calls, SMS, WhatsApp)
+export function useContactTimeline(id: string | null) {
+  return useQuery<ContactConversation[]>({
+    queryKey: [`/api/inbox/${id}/contact`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!id,
+  });
+}
+
+function invalidateInbox(id: string) {
+  queryClient.invalidateQueries({ queryKey: ["/api/inbox"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/inbox/counts"] });
+  queryClient.invalidateQueries({ queryKey: [`/api/conversations/${id}`] });
+  invalidateContactTimelines();
+}
+
+export function useUpdateInboxConversation() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: InboxUpdate }) => {
+      const res = await apiRequest("PATCH", `/api/inbox/${id}`, data);
+      return res.json() as Promise<Conversation>;
+    },
+    onSuccess: (conversation) => invalidateInbox(conversation.id),
+    onError: (error: Error) => {
+      toast({
+        title: "Error al actualizar conversación",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useMarkInboxRead() {
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/inbox/${id}/read`);
+      return res.json() as Promise<Conversation>;
+    },
+    onSuccess: (conversation) => invalidateInbox(conversation.id),
+  });
+}
+
+// Reply on an SMS / WhatsApp thread; a failed delivery still returns the
+// message, with its error
+export function useSendInboxMessage() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, content }: { id: string; content: string }) => {
+      const res = await apiRequest("POST", `/api/inbox/${id}/messages`, { content });
+      return res.json() as Promise<Message>;
+    },
+    onSuccess: (message) => {
+      invalidateInbox(message.conversationId);
+      if (message.deliveryStatus === "failed") {
+        toast({
+          title: "Mensaje no enviado",
+          description: message.deliveryError ?? undefined,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al enviar mensaje",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Queue the post-call analysis again; the result arrives as analysis_update
+export function useReanalyzeConversation() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/conversations/${id}/analysis`);
+      return res.json() as Promise<{ conversationId: string; analysisStatus: string }>;
+    },
+    onSuccess: ({ conversationId }) => invalidateInbox(conversationId),
+    onError: (error: Error) => {
+      toast({
+        title: "Error al analizar conversación",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { useEffect, useRef, useState } from "react";
+import { realtimeClient, type RealtimeEvent } from "@/lib/realtime";
+
+// Open the shared WebSocket while `enabled` is true and report its status
+export function useRealtimeConnection(enabled: boolean) {
+  const [isConnected, setIsConnected] = useState(realtimeClient.connected);
+
+  useEffect(() => {
+    const unsubscribe = realtimeClient.onStatusChange(setIsConnected);
+
+    if (enabled) {
+      realtimeClient.connect();
+    } else {
+      realtimeClient.disconnect();
+    }
+
+    return unsubscribe;
+  }, [enabled]);
+
+  return isConnected;
+}
+
+// Subscribe to real-time events; the handler may change between renders
+export function useRealtimeEvent(handler: (event: RealtimeEvent) => void) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    return realtimeClient.subscribe((event) => handlerRef.current(event));
+  }, []);
+}
@@ -1,14 +1,34 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtimeEvent } from "@/hooks/use-realtime";
 import type { 
+  AgentPresence,
+  AiAgent,
+  AgentPresenceInfo,
   Extension, 
   IvrMenu, 
+  InboundNumber,
   Queue, 
-  Recording,
+  QueueWithStats,
+  QueueMember,
+  RecordingWithAnalysis,
+  RecordingStorageSummary,
+  VoicemailInbox,
+  VoicemailSettings,
   InsertExtension,
   InsertIvrMenu,
-  InsertQueue 
+  InsertAiAgent,
+  InsertInboundNumber,
+  InsertQueue,
+  KnowledgeDocumentSummary,
+  KnowledgeFaq,
+  KnowledgeSearchResult,
+  TtsLibraryPrompt,
+  TtsPrompt,
+  TtsPromptCleanup,
+  TtsProviderName,
+  TtsSettings
 } from "@shared/schema";
 
 // Types for API responses with pagination
@@ -139,7 +159,7 @@ export function useResetExtensionPin() {
     onSuccess: (data) => {
       toast({
         title: "PIN reiniciado",
-        description: `Nuevo PIN: ${data.newPin}`,
+        description: `Nuevo PIN de buzón de voz: ${data.newPin}. La contraseña SIP también se ha renovado.`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/extensions"] });
     },
@@ -153,6 +173,118 @@ export function useResetExtensionPin() {
   });
 }
 
+export function useUpdateVoicemailSettings() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: VoicemailSettings }) => {
+      const res = await apiRequest("PUT", `/api/extensions/${id}/voicemail`, data);
+      return res.json() as Promise<Extension>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/extensions"] });
+      toast({
+        title: "Buzón de voz actualizado",
+        description: "La configuración del buzón se ha guardado",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al actualizar buzón de voz",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Full PBX resync of the tenant's extensions and IVRs
+export function useProvisionTenant() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/provision/tenant");
+      return res.json();
+    },
+    onSuccess: (data) => {
+      const failed = data.extensions.failed + data.ivrs.failed;
+      toast({
+        title: failed ? "Sincronización con errores" : "PBX sincronizada",
+        description: `${data.extensions.provisioned} extensiones y ${data.ivrs.provisioned} IVRs aprovisionados${failed ? `, ${failed} con error` : ""}`,
+        variant: failed ? "destructive" : "default",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/extensions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ivrs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al sincronizar la PBX",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Presence hooks
+
+// Stale heartbeats turn into offline without an event, hence the slow poll
+const PRESENCE_REFRESH_MS = 30_000;
+
+function usePresenceEvents() {
+  useRealtimeEvent((event) => {
+    if (event.type === "presence_update") {
+      queryClient.invalidateQueries({ queryKey: ["/api/presence"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/presence/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/queues"] });
+    }
+  });
+}
+
+export function usePresence() {
+  usePresenceEvents();
+
+  return useQuery<AgentPresenceInfo[]>({
+    queryKey: ["/api/presence"],
+    queryFn: getQueryFn({ on401: "throw" }),
+    refetchInterval: PRESENCE_REFRESH_MS,
+  });
+}
+
+// Presence of the logged-in agent's extension (null without one)
+export function useMyPresence() {
+  usePresenceEvents();
+
+  return useQuery<AgentPresenceInfo | null>({
+    queryKey: ["/api/presence/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    refetchInterval: PRESENCE_REFRESH_MS,
+  });
+}
+
+export function useSetPresence() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (presence: AgentPresence) => {
+      const res = await apiRequest("PUT", "/api/presence/me", { presence });
+      return res.json() as Promise<AgentPresenceInfo>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/presence/me"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/presence"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al cambiar estado",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
 // IVR hooks
 export function useIvrs() {
   return useQuery<IvrMenu[]>({
@@ -211,19 +343,355 @@ export function useUpdateIvr() {
   });
 }
 
+// AI agent hooks
+export function useAiAgents() {
+  return useQuery<AiAgent[]>({
+    queryKey: ["/api/ai-agents"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+}
+
+export function useCreateAiAgent() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: InsertAiAgent) => {
+      const res = await apiRequest("POST", "/api/ai-agents", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Agente creado",
+        description: "El agente de IA se ha creado exitosamente.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-agents"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al crear agente",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useUpdateAiAgent() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<InsertAiAgent> }) => {
+      const res = await apiRequest("PATCH", `/api/ai-agents/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Agente actualizado",
+        description: "Los cambios del agente se han guardado.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-agents"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al actualizar agente",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useDeleteAiAgent() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/ai-agents/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Agente eliminado",
+        description: "El agente de IA se ha eliminado.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-agents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inbound-numbers"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al eliminar agente",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Knowledge base hooks (documents are indexed in the background)
+const KNOWLEDGE_PROCESSING_REFRESH_MS = 2000;
+
+export function useKnowledgeDocuments() {
+  return useQuery<KnowledgeDocumentSummary[]>({
+    queryKey: ["/api/knowledge/documents"],
+    queryFn: getQueryFn({ on401: "throw" }),
+    refetchInterval: (query) =>
+      query.state.data?.some((document) => document.status === "processing") ? KNOWLEDGE_PROCESSING_REFRESH_MS : false,
+  });
+}
+
+export function useUploadKnowledgeDocument() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const res = await fetch("/api/knowledge/documents", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || res.statusText);
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Documento subido",
+        description: "El documento se está indexando.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge/documents"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al subir documento",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useCreateKnowledgeFaq() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: KnowledgeFaq) => {
+      const res = await apiRequest("POST", "/api/knowledge/faqs", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Pregunta añadida",
+        description: "La pregunta frecuente se ha añadido a la base de conocimiento.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge/documents"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al añadir pregunta",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useReindexKnowledgeDocument() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/knowledge/documents/${id}/reindex`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge/documents"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al reindexar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useDeleteKnowledgeDocument() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/knowledge/documents/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Documento eliminado",
+        description: "El documento se ha quitado de la base de conocimiento.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge/documents"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al eliminar documento",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Passages the agents would get for a question
+export function useSearchKnowledge() {
+  return useMutation({
+    mutationFn: async (query: string): Promise<KnowledgeSearchResult> => {
+      const res = await apiRequest("POST", "/api/knowledge/search", { query });
+      return res.json();
+    },
+  });
+}
+
+// Inbound number hooks
+export function useInboundNumbers() {
+  return useQuery<InboundNumber[]>({
+    queryKey: ["/api/inbound-numbers"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+}
+
+export function useCreateInboundNumber() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async (data: InsertInboundNumber) => {
+      const res = await apiRequest("POST", "/api/inbound-numbers", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Número añadido",
+        description: "El número entrante se ha añadido exitosamente.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/inbound-numbers"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al añadir número",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useUpdateInboundNumber() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<InsertInboundNumber> }) => {
+      const res = await apiRequest("PATCH", `/api/inbound-numbers/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Número actualizado",
+        description: "El enrutamiento del número se ha actualizado.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/inbound-numbers"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al actualizar número",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useDeleteInboundNumber() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/inbound-numbers/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Número eliminado",
+        description: "El número entrante se ha eliminado.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/inbound-numbers"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al eliminar número",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
 // Queue hooks
+
+// Live stats: refreshed whenever the server reports queue activity
 export function useQueues() {
-  return useQuery<Queue[]>({
+  useRealtimeEvent((event) => {
+    if (event.type === "queue_update") {
+      queryClient.invalidateQueries({ queryKey: ["/api/queues"] });
+    }
+  });
+
+  return useQuery<QueueWithStats[]>({
     queryKey: ["/api/queues"],
     queryFn: getQueryFn({ on401: "throw" }),
   });
 }
 
+export type QueueMemberWithExtension = QueueMember & { extension: Extension };
+
+export function useQueueMembers(queueId?: string) {
+  return useQuery<QueueMemberWithExtension[]>({
+    queryKey: [`/api/queues/${queueId}/members`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!queueId,
+  });
+}
+
+export function useUpdateQueueMembers() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ id, members }: { id: string; members: { extensionId: string; priority: number; isPaused: boolean }[] }) => {
+      const res = await apiRequest("PUT", `/api/queues/${id}/members`, { members });
+      return res.json();
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/queues/${id}/members`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/queues"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al guardar agentes",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
 export function useCreateQueue() {
   const { toast } = useToast();
   
   return useMutation({
-    mutationFn: async (data: InsertQueue) => {
+    mutationFn: async (data: InsertQueue): Promise<Queue> => {
       const res = await apiRequest("POST", "/api/queues", data);
       return res.json();
     },
@@ -248,7 +716,7 @@ export function useUpdateQueue() {
   const { toast } = useToast();
   
   return useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: Partial<InsertQueue> }) => {
+    mutationFn: async ({ id, data }: { id: string; data: Partial<InsertQueue> }): Promise<Queue> => {
       const res = await apiRequest("PATCH", `/api/queues/${id}`, data);
       return res.json();
     },
@@ -270,7 +738,16 @@ export function useUpdateQueue() {
 }
 
 // Recordings hooks
+// New recordings are pushed when a call's audio has been stored
 export function useRecordings(filters: RecordingFilters = {}) {
+  useRealtimeEvent((event) => {
+    // Call history rows show the analysis of their call
+    if (event.type === "recording_created" || event.type === "analysis_update") {
+      queryClient.invalidateQueries({ queryKey: ["/api/recordings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recordings/storage"] });
+    }
+  });
+
   const params = new URLSearchParams();
   if (filters.from) params.append('from', filters.from);
   if (filters.to) params.append('to', filters.to);
@@ -282,8 +759,204 @@ export function useRecordings(filters: RecordingFilters = {}) {
     ? ["/api/recordings", queryString] 
     : ["/api/recordings"];
 
-  return useQuery<PaginatedResponse<Recording>>({
+  return useQuery<PaginatedResponse<RecordingWithAnalysis>>({
     queryKey,
     queryFn: getQueryFn({ on401: "throw" }),
   });
-}
\ No newline at end of file
+}
+
+export function useRecordingStorage() {
+  return useQuery<RecordingStorageSummary>({
+    queryKey: ["/api/recordings/storage"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+}
+
+export function useUpdateRecordingRetention() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (retentionDays: number | null) => {
+      const res = await apiRequest("PUT", "/api/recordings/retention", { retentionDays });
+      return res.json() as Promise<RecordingStorageSummary>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/recordings/storage"], data);
+      toast({
+        title: "Retención actualizada",
+        description: data.retentionDays
+          ? `Las grabaciones se conservarán ${data.retentionDays} días.`
+          : "Las grabaciones se conservarán indefinidamente.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al actualizar retención",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Speech synthesis engine of the tenant (null: the server's default)
+export function useTtsSettings() {
+  return useQuery<TtsSettings>({
+    queryKey: ["/api/tts/settings"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+}
+
+export function useUpdateTtsSettings() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (provider: TtsProviderName | null) => {
+      const res = await apiRequest("PUT", "/api/tts/settings", { provider });
+      return res.json() as Promise<TtsSettings>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/tts/settings"], data);
+      toast({
+        title: "Síntesis de voz actualizada",
+        description: "Los nuevos audios se generarán con el motor elegido.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al actualizar la síntesis de voz",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// TTS prompt library: every generated audio, reused for identical prompts
+export function useTtsPrompts(enabled = true) {
+  return useQuery<TtsLibraryPrompt[]>({
+    queryKey: ["/api/tts/prompts"],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled,
+    // Prompts are added from the IVR and voicemail dialogs: refetch on open
+    staleTime: 0,
+  });
+}
+
+export function useRenameTtsPrompt() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      const res = await apiRequest("PATCH", `/api/tts/prompts/${id}`, { name });
+      return res.json() as Promise<TtsPrompt>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tts/prompts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al renombrar el audio",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useDeleteTtsPrompt() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/tts/prompts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tts/prompts"] });
+      toast({ title: "Audio eliminado" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al eliminar el audio",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useCleanupTtsPrompts() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/tts/prompts/cleanup");
+      return res.json() as Promise<TtsPromptCleanup>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tts/prompts"] });
+      toast({
+        title: "Biblioteca limpiada",
+        description: `${data.prompts} audios sin usar eliminados`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al limpiar la biblioteca",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Voicemail hooks
+// Agents get their own box, owners and admins every box of the tenant
+export function useVoicemail() {
+  useRealtimeEvent((event) => {
+    if (event.type === "voicemail_created") {
+      queryClient.invalidateQueries({ queryKey: ["/api/voicemail"] });
+    }
+  });
+
+  return useQuery<VoicemailInbox>({
+    queryKey: ["/api/voicemail"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+}
+
+export function useMarkVoicemail() {
+  return useMutation({
+    mutationFn: async ({ id, isRead }: { id: string; isRead: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/voicemail/${id}`, { isRead });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/voicemail"] });
+    },
+  });
+}
+
+export function useDeleteVoicemail() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/voicemail/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/voicemail"] });
+      toast({
+        title: "Mensaje eliminado",
+        description: "El mensaje de voz se ha eliminado",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al eliminar mensaje",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
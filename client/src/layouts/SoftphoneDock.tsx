@@ -3,32 +3,34 @@ import { Phone, PhoneCall, Mic, MicOff, Volume2, VolumeX, MoreHorizontal, Minimi
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { useSoftphone } from "@/components/softphone/softphone-provider";
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { useQuery, useMutation } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { featureFlags } from '@/lib/feature-flags';
 
 interface ActiveCall {
   number: string;
-  status: 'ringing' | 'connected' | 'on-hold' | 'transferring';
+  direction?: 'inbound' | 'outbound';
+  status: 'ringing' | 'answered' | 'held' | 'muted' | 'transferring';
+  isMuted: boolean;
+  isOnHold: boolean;
   duration: number;
   conversationId?: string;
 }
 
 export function SoftphoneDock() {
   const [isExpanded, setIsExpanded] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
-  const [isOnHold, setIsOnHold] = useState(false);
-  const { openPanel } = useSoftphone();
+  const softphone = useSoftphone();
+  const { openPanel, statusPollInterval, sipState, extensionNumber } = softphone;
   const { toast } = useToast();
-  const queryClient = useQueryClient();
   
   // Get active call status using the same pattern as CallBar
   const { data: activeCall } = useQuery<ActiveCall>({
     queryKey: ['/api/softphone/status'],
-    refetchInterval: featureFlags.softphoneStatusPollMs,
+    refetchInterval: statusPollInterval,
   });
   
+  const isMuted = !!activeCall?.isMuted;
+  const isOnHold = !!activeCall?.isOnHold;
+
   // Dock states: inactive, ringing, active
   const dockState = activeCall ? 
     (activeCall.status === 'ringing' ? 'ringing' : 'active') : 
@@ -39,12 +41,9 @@ export function SoftphoneDock() {
       if (!activeCall?.conversationId) {
         throw new Error('No active call to hangup');
       }
-      return apiRequest('POST', `/api/softphone/calls/${activeCall.conversationId}/hangup`);
+      return softphone.hangup(activeCall.conversationId);
     },
     onSuccess: () => {
-      // Clear cache immediately
-      queryClient.setQueryData(['/api/softphone/status'], null);
-      queryClient.invalidateQueries({ queryKey: ['/api/softphone/status'] });
       toast({
         title: "Llamada finalizada",
         description: "La llamada se ha terminado correctamente",
@@ -57,10 +56,9 @@ export function SoftphoneDock() {
       if (!activeCall?.conversationId) {
         throw new Error('No active call to mute');
       }
-      return apiRequest('POST', `/api/softphone/calls/${activeCall.conversationId}/mute`, { muted: !isMuted });
+      return softphone.setMuted(activeCall.conversationId, !isMuted);
     },
     onSuccess: () => {
-      setIsMuted(!isMuted);
       toast({
         title: isMuted ? "Micrófono activado" : "Micrófono silenciado",
         description: isMuted ? "Ahora pueden escucharte" : "Tu micrófono está silenciado",
@@ -73,10 +71,9 @@ export function SoftphoneDock() {
       if (!activeCall?.conversationId) {
         throw new Error('No active call to hold');
       }
-      return apiRequest('POST', `/api/softphone/calls/${activeCall.conversationId}/hold`, { onHold: !isOnHold });
+      return softphone.setHeld(activeCall.conversationId, !isOnHold);
     },
     onSuccess: () => {
-      setIsOnHold(!isOnHold);
       toast({
         title: isOnHold ? "Llamada reanudada" : "Llamada en espera",
         description: isOnHold ? "La llamada ha sido reanudada" : "La llamada está en espera",
@@ -84,6 +81,36 @@ export function SoftphoneDock() {
     }
   });
 
+  const answerMutation = useMutation({
+    mutationFn: (accept: boolean) => {
+      if (!activeCall?.conversationId) {
+        throw new Error('No incoming call');
+      }
+      return accept
+        ? softphone.answer(activeCall.conversationId)
+        : softphone.reject(activeCall.conversationId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error en la llamada",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const isIncoming = dockState === 'ringing' && activeCall?.direction === 'inbound';
+
+  const registrationText = () => {
+    switch (sipState) {
+      case 'registered': return `Extensión ${extensionNumber} registrada`;
+      case 'registering': return 'Registrando extensión...';
+      case 'failed': return 'Sin registro SIP, reintentando...';
+      case 'unregistered': return 'Extensión no registrada';
+      default: return 'Listo para recibir llamadas';
+    }
+  };
+
   const handleHangup = () => {
     if (activeCall) {
       hangupMutation.mutate();
@@ -119,7 +146,9 @@ export function SoftphoneDock() {
               </div>
               <div>
                 <p className="text-sm font-medium text-gray-900 dark:text-white">Sin llamadas activas</p>
-                <p className="text-xs text-gray-500 dark:text-gray-400">Listo para recibir llamadas</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400" data-testid="text-sip-state">
+                  {registrationText()}
+                </p>
               </div>
             </>
           )}
@@ -130,7 +159,9 @@ export function SoftphoneDock() {
                 <PhoneCall className="w-5 h-5 text-blue-600 dark:text-blue-400" />
               </div>
               <div>
-                <p className="text-sm font-medium text-gray-900 dark:text-white">Llamada entrante</p>
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {isIncoming ? 'Llamada entrante' : 'Llamando...'}
+                </p>
                 <p className="text-xs text-gray-500 dark:text-gray-400" data-testid="call-number">
                   {activeCall?.number || 'Número desconocido'}
                 </p>
@@ -158,7 +189,31 @@ export function SoftphoneDock() {
         {/* Right section - Controls */}
         <div className="flex items-center space-x-2">
           {/* Call controls - only show when there's an active call */}
-          {activeCall && (
+          {isIncoming && (
+            <>
+              <Button
+                size="sm"
+                onClick={() => answerMutation.mutate(true)}
+                disabled={answerMutation.isPending}
+                className="bg-green-600 hover:bg-green-700 text-white"
+                data-testid="button-answer"
+              >
+                <Phone className="w-4 h-4 mr-1" />
+                Contestar
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => answerMutation.mutate(false)}
+                disabled={answerMutation.isPending}
+                data-testid="button-reject"
+              >
+                Rechazar
+              </Button>
+            </>
+          )}
+
+          {activeCall && !isIncoming && (
             <>
               <Button
                 variant="outline"
@@ -23,6 +23,7 @@ import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { CallBar } from "@/components/softphone/call-bar";
 import { useSoftphone } from "@/components/softphone/softphone-provider";
+import { PresenceSelector } from "@/components/telephony/agent-presence";
 
 interface NavItem {
   name: string;
@@ -149,6 +150,11 @@ export function SidebarNav({ onMobileClose, isMobile = false }: SidebarNavProps)
             </Button>
           )}
         </div>
+
+        {/* Agent presence */}
+        <div className="mt-3">
+          <PresenceSelector compact={isCollapsed} />
+        </div>
       </div>
 
       {/* Navigation Sections */}
@@ -0,0 +1,119 @@
+/**
+ * Browser side of the real-time event hub (server/realtime.ts)
+ *
+ * Keeps a single WebSocket to /ws open while the user is logged in and
+ * reconnects with exponential backoff (1s → 30s, with jitter).
+ */
+
+export interface RealtimeEvent {
+  type: string;
+  channel?: string;
+  [key: string]: any;
+}
+
+type EventListener = (event: RealtimeEvent) => void;
+type StatusListener = (connected: boolean) => void;
+
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+class RealtimeClient {
+  private socket: WebSocket | null = null;
+  private listeners = new Set<EventListener>();
+  private statusListeners = new Set<StatusListener>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private shouldConnect = false;
+  connected = false;
+
+  connect() {
+    this.shouldConnect = true;
+    if (this.socket && this.socket.readyState <= WebSocket.OPEN) return;
+    this.open();
+  }
+
+  disconnect() {
+    this.shouldConnect = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+    this.setConnected(false);
+  }
+
+  subscribe(listener: EventListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onStatusChange(listener: StatusListener) {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  send(data: RealtimeEvent) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(data));
+    }
+  }
+
+  private open() {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempts = 0;
+      this.setConnected(true);
+    };
+
+    socket.onmessage = (message) => {
+      try {
+        const event: RealtimeEvent = JSON.parse(message.data);
+        this.listeners.forEach((listener) => listener(event));
+      } catch (error) {
+        console.warn('⚠️ Realtime: ignoring malformed event', error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      this.setConnected(false);
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = () => {
+      // onclose follows and takes care of reconnecting
+      socket.close();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (!this.shouldConnect || this.reconnectTimer) return;
+
+    const backoff = Math.min(MAX_BACKOFF_MS, MIN_BACKOFF_MS * 2 ** this.attempts);
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+    this.attempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.shouldConnect) this.open();
+    }, delay);
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.statusListeners.forEach((listener) => listener(connected));
+  }
+}
+
+export const realtimeClient = new RealtimeClient();
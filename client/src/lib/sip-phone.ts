@@ -0,0 +1,308 @@
+/**
+ * Browser SIP user agent for the softphone (sip.js over WebSocket)
+ *
+ * Registers as the user's extension with the credentials from
+ * /api/softphone/credentials and handles one call at a time, plus the
+ * consultation leg of an attended transfer. Call progress is reported
+ * through the delegate; keeping the server's conversation in sync is up to
+ * the caller (softphone-provider).
+ */
+
+import {
+  Invitation,
+  Inviter,
+  Registerer,
+  RegistererState,
+  Session,
+  SessionState,
+  UserAgent,
+  Web,
+} from 'sip.js';
+import type { SoftphoneCredentials } from '@shared/schema';
+
+export type SipRegistrationState = 'unregistered' | 'registering' | 'registered' | 'failed';
+
+export interface SipIncomingCall {
+  callId: string;
+  from: string;
+  displayName?: string;
+}
+
+export interface SipPhoneDelegate {
+  onRegistrationChange?: (state: SipRegistrationState) => void;
+  onIncomingCall?: (call: SipIncomingCall) => void;
+  onEstablished?: (callId: string) => void;
+  // Ended after being connected, by either side
+  onEnded?: (callId: string) => void;
+  // Never connected: rejected, busy, cancelled, unreachable...
+  onFailed?: (callId: string, reason: string) => void;
+}
+
+const AUDIO_ONLY = { constraints: { audio: true, video: false } };
+
+export class SipPhone {
+  private userAgent: UserAgent;
+  private registerer: Registerer;
+  private session: Session | null = null;
+  private consultSession: Session | null = null;
+  private remoteAudio: HTMLAudioElement;
+  private muted = false;
+  // SIP Call-ID → why the call never connected
+  private readonly failureReasons = new Map<string, string>();
+
+  constructor(
+    private readonly credentials: SoftphoneCredentials,
+    private readonly delegate: SipPhoneDelegate = {},
+  ) {
+    if (!credentials.wsServer) {
+      throw new Error('SIP WebSocket server not configured');
+    }
+
+    const uri = UserAgent.makeURI(`sip:${credentials.username}@${credentials.domain}`);
+    if (!uri) throw new Error(`Invalid SIP account ${credentials.username}@${credentials.domain}`);
+
+    this.remoteAudio = new Audio();
+    this.remoteAudio.autoplay = true;
+
+    this.userAgent = new UserAgent({
+      uri,
+      displayName: credentials.displayName,
+      authorizationUsername: credentials.username,
+      authorizationPassword: credentials.password,
+      transportOptions: { server: credentials.wsServer },
+      sessionDescriptionHandlerFactoryOptions: {
+        peerConnectionConfiguration: { iceServers: credentials.iceServers },
+      },
+      logLevel: 'warn',
+      delegate: {
+        onInvite: (invitation) => this.handleInvite(invitation),
+        onDisconnect: () => this.delegate.onRegistrationChange?.('failed'),
+      },
+    });
+
+    this.registerer = new Registerer(this.userAgent);
+    this.registerer.stateChange.addListener((state) => {
+      switch (state) {
+        case RegistererState.Registered:
+          this.delegate.onRegistrationChange?.('registered');
+          break;
+        case RegistererState.Unregistered:
+        case RegistererState.Terminated:
+          this.delegate.onRegistrationChange?.('unregistered');
+          break;
+      }
+    });
+  }
+
+  get hasCall(): boolean {
+    return this.session !== null;
+  }
+
+  async start(): Promise<void> {
+    this.delegate.onRegistrationChange?.('registering');
+    try {
+      await this.userAgent.start();
+      await this.registerer.register({
+        requestDelegate: {
+          onReject: () => this.delegate.onRegistrationChange?.('failed'),
+        },
+      });
+    } catch (error) {
+      this.delegate.onRegistrationChange?.('failed');
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    await this.hangup().catch(() => undefined);
+    await this.registerer.unregister().catch(() => undefined);
+    await this.userAgent.stop();
+  }
+
+  /**
+   * Place a call; resolves with its SIP Call-ID once the INVITE is sent
+   */
+  async call(target: string): Promise<string> {
+    if (this.session) throw new Error('Ya hay una llamada en curso');
+
+    const inviter = new Inviter(this.userAgent, this.targetUri(target), {
+      sessionDescriptionHandlerOptions: AUDIO_ONLY,
+    });
+    const callId = inviter.request.callId;
+    this.trackSession(inviter, callId);
+
+    await inviter.invite({
+      requestDelegate: {
+        onReject: (response) => {
+          this.failureReasons.set(callId, `${response.message.statusCode} ${response.message.reasonPhrase}`);
+        },
+      },
+    });
+    return callId;
+  }
+
+  async answer(): Promise<void> {
+    if (!(this.session instanceof Invitation) || this.session.state !== SessionState.Initial) {
+      throw new Error('No hay llamada entrante');
+    }
+    await this.session.accept({ sessionDescriptionHandlerOptions: AUDIO_ONLY });
+  }
+
+  async reject(): Promise<void> {
+    if (!(this.session instanceof Invitation) || this.session.state !== SessionState.Initial) return;
+    this.failureReasons.set(this.session.request.callId, 'rejected');
+    await this.session.reject();
+  }
+
+  async hangup(): Promise<void> {
+    if (this.consultSession) await this.endSession(this.consultSession);
+    if (this.session) await this.endSession(this.session);
+  }
+
+  sendDtmf(tone: string): boolean {
+    const handler = this.session?.sessionDescriptionHandler;
+    if (!(handler instanceof Web.SessionDescriptionHandler)) return false;
+    return handler.sendDtmf(tone);
+  }
+
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    const handler = this.session?.sessionDescriptionHandler;
+    if (handler instanceof Web.SessionDescriptionHandler) {
+      handler.enableSenderTracks(!muted);
+    }
+  }
+
+  /**
+   * Hold by re-INVITE with a sendonly offer; resume with a plain one
+   */
+  async setHeld(held: boolean): Promise<void> {
+    await this.reinvite(this.session, held);
+  }
+
+  async blindTransfer(target: string): Promise<void> {
+    if (!this.session) throw new Error('No hay llamada activa');
+    await this.session.refer(this.targetUri(target));
+  }
+
+  /**
+   * Attended transfer, step one: hold the caller and call the target
+   */
+  async startConsult(target: string): Promise<void> {
+    if (!this.session) throw new Error('No hay llamada activa');
+    if (this.consultSession) throw new Error('Ya hay una consulta en curso');
+
+    await this.reinvite(this.session, true);
+    const inviter = new Inviter(this.userAgent, this.targetUri(target), {
+      sessionDescriptionHandlerOptions: AUDIO_ONLY,
+    });
+    this.consultSession = inviter;
+    inviter.stateChange.addListener((state) => {
+      if (state === SessionState.Established) this.attachRemoteAudio(inviter);
+      if (state === SessionState.Terminated && this.consultSession === inviter) {
+        this.consultSession = null;
+        if (this.session) this.attachRemoteAudio(this.session);
+      }
+    });
+    await inviter.invite();
+  }
+
+  /**
+   * Attended transfer, step two: connect the caller with the consulted
+   * target (REFER with Replaces); both legs end for this phone
+   */
+  async completeConsult(): Promise<void> {
+    if (!this.session || !this.consultSession) throw new Error('No hay consulta en curso');
+    await this.session.refer(this.consultSession);
+  }
+
+  async cancelConsult(): Promise<void> {
+    if (this.consultSession) await this.endSession(this.consultSession);
+    await this.reinvite(this.session, false);
+  }
+
+  private handleInvite(invitation: Invitation): void {
+    // One call at a time: the PBX sends the caller elsewhere on busy
+    if (this.session) {
+      invitation.reject({ statusCode: 486 }).catch(() => undefined);
+      return;
+    }
+
+    const callId = invitation.request.callId;
+    this.trackSession(invitation, callId);
+    this.delegate.onIncomingCall?.({
+      callId,
+      from: invitation.remoteIdentity.uri.user || 'unknown',
+      displayName: invitation.remoteIdentity.displayName || undefined,
+    });
+  }
+
+  private trackSession(session: Session, callId: string): void {
+    this.session = session;
+    let established = false;
+
+    session.stateChange.addListener((state) => {
+      switch (state) {
+        case SessionState.Established:
+          established = true;
+          this.attachRemoteAudio(session);
+          if (this.muted) this.setMuted(true);
+          this.delegate.onEstablished?.(callId);
+          break;
+        case SessionState.Terminated:
+          if (this.session === session) {
+            this.session = null;
+            this.muted = false;
+            this.remoteAudio.srcObject = null;
+          }
+          if (established) {
+            this.delegate.onEnded?.(callId);
+          } else {
+            this.delegate.onFailed?.(callId, this.failureReasons.get(callId) ?? 'cancelled');
+          }
+          this.failureReasons.delete(callId);
+          break;
+      }
+    });
+  }
+
+  private attachRemoteAudio(session: Session): void {
+    const handler = session.sessionDescriptionHandler;
+    if (!(handler instanceof Web.SessionDescriptionHandler)) return;
+    this.remoteAudio.srcObject = handler.remoteMediaStream;
+    this.remoteAudio.play().catch(() => {
+      // Autoplay blocked until the next user gesture
+    });
+  }
+
+  private async reinvite(session: Session | null, held: boolean): Promise<void> {
+    if (!session || session.state !== SessionState.Established) {
+      throw new Error('No hay llamada activa');
+    }
+    await session.invite({
+      sessionDescriptionHandlerModifiers: held ? [Web.holdModifier] : [],
+    });
+  }
+
+  private async endSession(session: Session): Promise<void> {
+    switch (session.state) {
+      case SessionState.Initial:
+      case SessionState.Establishing:
+        if (session instanceof Inviter) {
+          await session.cancel();
+        } else if (session instanceof Invitation) {
+          await session.reject();
+        }
+        break;
+      case SessionState.Established:
+        await session.bye();
+        break;
+    }
+  }
+
+  private targetUri(target: string) {
+    const uri = UserAgent.makeURI(`sip:${target.replace(/[^0-9A-Za-z+*#]/g, '')}@${this.credentials.domain}`);
+    if (!uri) throw new Error(`Destino no válido: ${target}`);
+    return uri;
+  }
+}
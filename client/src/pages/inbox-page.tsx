@@ -1,52 +1,352 @@
-import { useState } from "react";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Search, Filter, Archive, Clock, User, MessageSquare } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Search,
+  User,
+  MessageSquare,
+  MessageCircle,
+  PhoneIncoming,
+  PhoneOutgoing,
+  PhoneMissed,
+  Smartphone,
+  Send,
+  Loader2,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useVoicemail, usePresence } from "@/hooks/use-telephony";
+import {
+  useContactTimeline,
+  useInbox,
+  useInboxConversation,
+  useInboxCounts,
+  useMarkInboxRead,
+  useSendInboxMessage,
+  useUpdateInboxConversation,
+} from "@/hooks/use-inbox";
+import { VoicemailDetail, VoicemailList } from "@/components/telephony/voicemail-inbox";
+import { ConversationAnalysisPanel, SentimentBadge } from "@/components/telephony/conversation-analysis";
+import type {
+  Conversation,
+  ConversationChannel,
+  InboxConversation,
+  InboxView,
+  Message,
+  MessageDeliveryStatus,
+} from "@shared/schema";
 
-const conversationViews = [
-  { id: 'open', name: 'Open', count: 12, active: true },
-  { id: 'mine', name: 'Mine', count: 5, active: false },
-  { id: 'unassigned', name: 'Unassigned', count: 3, active: false },
-  { id: 'closed', name: 'Closed', count: 45, active: false },
+const conversationViews: { id: InboxView; name: string }[] = [
+  { id: 'open', name: 'Open' },
+  { id: 'mine', name: 'Mine' },
+  { id: 'unassigned', name: 'Unassigned' },
+  { id: 'closed', name: 'Closed' },
 ];
 
-const mockConversations = [
-  {
-    id: '1',
-    contact: 'Juan Pérez',
-    lastMessage: 'Hola, necesito ayuda con mi facturación',
-    timestamp: '10:30 AM',
-    status: 'open',
-    channel: 'phone',
-    unread: 2
-  },
-  {
-    id: '2', 
-    contact: 'María González',
-    lastMessage: 'Gracias por la atención',
-    timestamp: '09:45 AM',
-    status: 'closed',
-    channel: 'chat',
-    unread: 0
-  },
-  {
-    id: '3',
-    contact: '+58 414 123 4567',
-    lastMessage: 'Llamada perdida',
-    timestamp: '09:15 AM', 
-    status: 'open',
-    channel: 'phone',
-    unread: 1
+const SEARCH_DEBOUNCE_MS = 300;
+const UNASSIGNED = "unassigned";
+
+const channelLabels: Record<ConversationChannel, string> = {
+  voice: 'Llamada',
+  sms: 'SMS',
+  whatsapp: 'WhatsApp',
+};
+
+const deliveryLabels: Record<MessageDeliveryStatus, string> = {
+  received: 'Recibido',
+  queued: 'En cola',
+  sent: 'Enviado',
+  delivered: 'Entregado',
+  read: 'Leído',
+  failed: 'No entregado',
+};
+
+function contactLabel(conversation: { phoneNumber: string | null }): string {
+  return conversation.phoneNumber || 'Número oculto';
+}
+
+function isLiveCall(conversation: Conversation): boolean {
+  return conversation.channel === 'voice' && conversation.status !== 'ended' && conversation.status !== 'failed';
+}
+
+function activityLabel(conversation: InboxConversation): string {
+  if (conversation.lastMessage) return conversation.lastMessage;
+  if (conversation.channel !== 'voice') return 'Sin mensajes';
+  if (conversation.missedAt) return 'Llamada perdida';
+  if (conversation.status === 'ended') {
+    return `Llamada ${conversation.direction === 'inbound' ? 'entrante' : 'saliente'} · ${conversation.duration ?? 0}s`;
   }
-];
+  return 'Llamada en curso';
+}
+
+function CallIcon({ conversation }: { conversation: { missedAt: Date | null; direction: string } }) {
+  if (conversation.missedAt) return <PhoneMissed className="w-3 h-3 text-red-500" />;
+  if (conversation.direction === 'inbound') return <PhoneIncoming className="w-3 h-3" />;
+  return <PhoneOutgoing className="w-3 h-3" />;
+}
+
+function ChannelIcon({ conversation }: { conversation: Conversation }) {
+  if (conversation.channel === 'sms') return <Smartphone className="w-3 h-3" />;
+  if (conversation.channel === 'whatsapp') return <MessageCircle className="w-3 h-3 text-green-600" />;
+  return <CallIcon conversation={conversation} />;
+}
+
+// Separator opening each conversation of the contact timeline
+function conversationSummary(conversation: Conversation): string {
+  if (conversation.channel !== 'voice') {
+    return `${channelLabels[conversation.channel]} · ${conversation.channelAddress ?? ''}`;
+  }
+  if (conversation.missedAt) return 'Llamada perdida';
+  return `Llamada ${conversation.direction === 'inbound' ? 'entrante' : 'saliente'}${
+    isLiveCall(conversation) ? ' en curso' : ` · ${conversation.duration ?? 0}s`
+  }`;
+}
+
+function MessageBubble({ message }: { message: Message }) {
+  const isCustomer = message.from === 'customer';
+
+  return (
+    <div
+      className={cn("flex", isCustomer ? "justify-start" : "justify-end")}
+      data-testid={`message-${message.id}`}
+    >
+      <div
+        className={cn(
+          "rounded-lg p-3 max-w-md",
+          isCustomer
+            ? "bg-white dark:bg-gray-800 shadow-sm text-gray-900 dark:text-white"
+            : message.deliveryStatus === 'failed'
+              ? "bg-red-600 text-white"
+              : "bg-primary text-white"
+        )}
+        title={message.deliveryError ?? undefined}
+      >
+        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+        <p className="text-xs opacity-75 mt-1">
+          {message.from === 'ai' ? 'IA · ' : ''}
+          {format(new Date(message.timestamp), "HH:mm")}
+          {!isCustomer && message.deliveryStatus && ` · ${deliveryLabels[message.deliveryStatus]}`}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function ConversationDetail({ id }: { id: string }) {
+  const { data: conversation, isLoading } = useInboxConversation(id);
+  const { data: timeline = [] } = useContactTimeline(id);
+  const { data: agents = [] } = usePresence();
+  const updateMutation = useUpdateInboxConversation();
+  const sendMutation = useSendInboxMessage();
+  const [notes, setNotes] = useState('');
+  const [reply, setReply] = useState('');
+
+  useEffect(() => {
+    setNotes(conversation?.notes ?? '');
+  }, [conversation?.id, conversation?.notes]);
+
+  if (isLoading || !conversation) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const isLive = isLiveCall(conversation);
+  const isClosed = conversation.inboxStatus === 'closed';
+  const assignableAgents = agents.filter((agent) => agent.userId);
+  // Calls are answered on the contact's latest SMS / WhatsApp thread, if any
+  const contactThreads = timeline.length > 0 ? timeline : [conversation];
+  const replyThread = conversation.channel !== 'voice'
+    ? conversation
+    : contactThreads.find((thread) => thread.channel !== 'voice');
+  const chronological = [...contactThreads].reverse();
+
+  const handleSend = () => {
+    if (!replyThread || !reply.trim()) return;
+    sendMutation.mutate(
+      { id: replyThread.id, content: reply.trim() },
+      { onSuccess: () => setReply('') },
+    );
+  };
+
+  return (
+    <>
+      {/* Conversation Header */}
+      <div className="p-4 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gray-200 dark:bg-gray-600 rounded-full flex items-center justify-center">
+              <User className="w-5 h-5 text-gray-500" />
+            </div>
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                {contactLabel(conversation)}
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {channelLabels[conversation.channel]} ·{' '}
+                {format(new Date(conversation.lastMessageAt ?? conversation.startedAt), "PPp", { locale: es })}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Select
+              value={conversation.userId ?? UNASSIGNED}
+              onValueChange={(value) =>
+                updateMutation.mutate({ id, data: { assigneeId: value === UNASSIGNED ? null : value } })
+              }
+              disabled={isLive || updateMutation.isPending}
+            >
+              <SelectTrigger className="w-48" data-testid="select-assignee">
+                <SelectValue placeholder="Asignar" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Sin asignar</SelectItem>
+                {conversation.userId && !assignableAgents.some((agent) => agent.userId === conversation.userId) && (
+                  <SelectItem value={conversation.userId}>Agente actual</SelectItem>
+                )}
+                {assignableAgents.map((agent) => (
+                  <SelectItem key={agent.userId} value={agent.userId!}>
+                    {agent.userName} ({agent.extensionNumber})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateMutation.mutate({ id, data: { status: isClosed ? 'open' : 'closed' } })}
+              disabled={(isLive && !isClosed) || updateMutation.isPending}
+              data-testid="button-toggle-conversation-status"
+            >
+              {isClosed ? 'Reabrir' : 'Cerrar'}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Messages Area: every channel of the contact, oldest first */}
+      <div className="flex-1 p-4 bg-gray-50 dark:bg-gray-900 overflow-y-auto">
+        <div className="space-y-4">
+          <ConversationAnalysisPanel conversation={conversation} />
+          {chronological.map((thread) => (
+            <div key={thread.id} className="space-y-4" data-testid={`timeline-${thread.id}`}>
+              <div className="flex justify-center">
+                <Badge
+                  variant={thread.id === conversation.id ? "secondary" : "outline"}
+                  className="text-xs"
+                  data-testid="badge-call-summary"
+                >
+                  <ChannelIcon conversation={thread} />
+                  <span className="ml-1">{conversationSummary(thread)}</span>
+                  <span className="ml-1 text-gray-400">
+                    · {format(new Date(thread.startedAt), "d MMM", { locale: es })}
+                  </span>
+                </Badge>
+              </div>
+              {(thread.id === conversation.id ? conversation.messages : thread.messages).map((message) => (
+                <MessageBubble key={message.id} message={message} />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Reply */}
+      {replyThread ? (
+        <div className="p-4 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex space-x-2">
+            <Textarea
+              placeholder={`Responder por ${channelLabels[replyThread.channel]} a ${contactLabel(replyThread)}...`}
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSend();
+                }
+              }}
+              rows={2}
+              maxLength={1600}
+              className="flex-1"
+              data-testid="textarea-reply"
+            />
+            <Button
+              onClick={handleSend}
+              disabled={sendMutation.isPending || !reply.trim()}
+              data-testid="button-send-reply"
+            >
+              {sendMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="px-4 py-2 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500" data-testid="text-no-reply-thread">
+          Este contacto no tiene conversaciones por SMS o WhatsApp
+        </div>
+      )}
+
+      {/* Notes */}
+      <div className="p-4 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700">
+        <div className="flex space-x-2">
+          <Textarea
+            placeholder="Notas internas..."
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            className="flex-1"
+            data-testid="textarea-conversation-notes"
+          />
+          <Button
+            onClick={() => updateMutation.mutate({ id, data: { notes } })}
+            disabled={updateMutation.isPending || notes === (conversation.notes ?? '')}
+            data-testid="button-save-notes"
+          >
+            Guardar
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
 
 export default function InboxPage() {
-  const [selectedView, setSelectedView] = useState('open');
+  const [selectedView, setSelectedView] = useState<InboxView | 'voicemail'>('open');
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [selectedVoicemailId, setSelectedVoicemailId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const isVoicemailView = selectedView === 'voicemail';
+  const { data: inbox, isLoading } = useInbox(isVoicemailView ? 'open' : selectedView, debouncedQuery);
+  const { data: counts } = useInboxCounts();
+  const markReadMutation = useMarkInboxRead();
+  const conversations = inbox?.data ?? [];
+
+  const { data: voicemail } = useVoicemail();
+  const voicemailMessages = voicemail?.messages ?? [];
+  const selectedVoicemail = voicemailMessages.find((message) => message.id === selectedVoicemailId);
+
+  const openConversation = (conversation: InboxConversation) => {
+    setSelectedConversation(conversation.id);
+    if (conversation.unreadCount > 0) markReadMutation.mutate(conversation.id);
+  };
 
   return (
     <div className="h-full flex bg-gray-50 dark:bg-gray-900 -m-6" data-testid="inbox-page">
@@ -57,7 +357,7 @@ export default function InboxPage() {
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
             <Input
-              placeholder="Buscar conversaciones..."
+              placeholder="Buscar en mensajes y notas..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-9"
@@ -84,40 +384,64 @@ export default function InboxPage() {
               >
                 <span>{view.name}</span>
                 <Badge variant={selectedView === view.id ? "secondary" : "outline"} className="text-xs">
-                  {view.count}
+                  {counts?.[view.id] ?? 0}
                 </Badge>
               </button>
             ))}
+            <button
+              onClick={() => setSelectedView('voicemail')}
+              className={cn(
+                "w-full flex items-center justify-between px-3 py-2 text-sm rounded-md transition-colors",
+                isVoicemailView
+                  ? "bg-primary text-white"
+                  : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              )}
+              data-testid="view-voicemail"
+            >
+              <span>Buzón de voz</span>
+              <Badge variant={isVoicemailView ? "secondary" : "outline"} className="text-xs">
+                {voicemail?.unreadCount ?? 0}
+              </Badge>
+            </button>
           </div>
         </div>
 
-        {/* Filters */}
-        <div className="p-4 border-t border-gray-200 dark:border-gray-700">
-          <div className="flex items-center space-x-2">
-            <Button variant="outline" size="sm" className="flex-1">
-              <Filter className="w-4 h-4 mr-2" />
-              Filtros
-            </Button>
-            <Button variant="outline" size="sm">
-              <Archive className="w-4 h-4" />
-            </Button>
+        {counts && counts.unread > 0 && (
+          <div className="p-4 border-t border-gray-200 dark:border-gray-700 text-sm text-gray-500 dark:text-gray-400" data-testid="text-unread-total">
+            {counts.unread} conversaciones abiertas sin leer
           </div>
-        </div>
+        )}
       </div>
 
       {/* Center Panel - Conversation List */}
       <div className="w-96 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700 flex flex-col">
         <div className="p-4 border-b border-gray-200 dark:border-gray-700">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
-            Conversaciones ({mockConversations.length})
+            {isVoicemailView
+              ? `Mensajes de voz (${voicemailMessages.length})`
+              : `Conversaciones (${inbox?.total ?? 0})`}
           </h2>
         </div>
 
         <div className="flex-1 overflow-y-auto">
-          {mockConversations.map((conversation) => (
+          {isVoicemailView ? (
+            <VoicemailList
+              messages={voicemailMessages}
+              selectedId={selectedVoicemailId}
+              onSelect={(message) => setSelectedVoicemailId(message.id)}
+            />
+          ) : isLoading ? (
+            <div className="p-8 flex justify-center">
+              <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+            </div>
+          ) : conversations.length === 0 ? (
+            <div className="p-8 text-center text-sm text-gray-500 dark:text-gray-400" data-testid="inbox-empty">
+              {debouncedQuery ? 'Sin resultados para la búsqueda' : 'No hay conversaciones en esta vista'}
+            </div>
+          ) : conversations.map((conversation) => (
             <div
               key={conversation.id}
-              onClick={() => setSelectedConversation(conversation.id)}
+              onClick={() => openConversation(conversation)}
               className={cn(
                 "p-4 border-b border-gray-100 dark:border-gray-700 cursor-pointer transition-colors hover:bg-gray-50 dark:hover:bg-gray-700",
                 selectedConversation === conversation.id && "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-700"
@@ -127,21 +451,33 @@ export default function InboxPage() {
               <div className="flex items-start justify-between">
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center space-x-2">
-                    <h4 className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                      {conversation.contact}
+                    <h4
+                      className={cn(
+                        "text-sm text-gray-900 dark:text-white truncate",
+                        conversation.unreadCount > 0 ? "font-semibold" : "font-medium"
+                      )}
+                    >
+                      {contactLabel(conversation)}
                     </h4>
-                    {conversation.unread > 0 && (
-                      <Badge className="bg-blue-600 text-xs">{conversation.unread}</Badge>
+                    {conversation.unreadCount > 0 && (
+                      <Badge className="bg-blue-600 text-xs">{conversation.unreadCount}</Badge>
                     )}
                   </div>
                   <p className="text-sm text-gray-500 dark:text-gray-400 truncate mt-1">
-                    {conversation.lastMessage}
+                    {activityLabel(conversation)}
                   </p>
                   <div className="flex items-center space-x-2 mt-2">
-                    <Badge variant="outline" className="text-xs">
-                      {conversation.channel === 'phone' ? '📞' : '💬'} {conversation.channel}
+                    <Badge variant="outline" className="text-xs" data-testid={`badge-channel-${conversation.channel}`}>
+                      <ChannelIcon conversation={conversation} />
+                      <span className="ml-1">{channelLabels[conversation.channel]}</span>
                     </Badge>
-                    <span className="text-xs text-gray-400">{conversation.timestamp}</span>
+                    <span className="text-xs text-gray-400">
+                      {format(new Date(conversation.lastMessageAt ?? conversation.startedAt), "d MMM, HH:mm", { locale: es })}
+                    </span>
+                    {conversation.analysis && <SentimentBadge analysis={conversation.analysis} />}
+                    {conversation.assigneeName && (
+                      <span className="text-xs text-gray-400 truncate">· {conversation.assigneeName}</span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -152,65 +488,10 @@ export default function InboxPage() {
 
       {/* Right Panel - Messages and Contact Details */}
       <div className="flex-1 flex flex-col">
-        {selectedConversation ? (
-          <>
-            {/* Conversation Header */}
-            <div className="p-4 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-3">
-                  <div className="w-10 h-10 bg-gray-200 dark:bg-gray-600 rounded-full flex items-center justify-center">
-                    <User className="w-5 h-5 text-gray-500" />
-                  </div>
-                  <div>
-                    <h3 className="text-lg font-medium text-gray-900 dark:text-white">
-                      {mockConversations.find(c => c.id === selectedConversation)?.contact}
-                    </h3>
-                    <p className="text-sm text-gray-500 dark:text-gray-400">Última actividad hace 5 min</p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Button variant="outline" size="sm">Transferir</Button>
-                  <Button variant="outline" size="sm">Cerrar</Button>
-                </div>
-              </div>
-            </div>
-
-            {/* Messages Area */}
-            <div className="flex-1 p-4 bg-gray-50 dark:bg-gray-900 overflow-y-auto">
-              <div className="space-y-4">
-                <div className="flex justify-start">
-                  <div className="bg-white dark:bg-gray-800 rounded-lg p-3 max-w-xs shadow-sm">
-                    <p className="text-sm text-gray-900 dark:text-white">
-                      Hola, necesito ayuda con mi facturación
-                    </p>
-                    <p className="text-xs text-gray-500 mt-1">10:30 AM</p>
-                  </div>
-                </div>
-                <div className="flex justify-end">
-                  <div className="bg-primary text-white rounded-lg p-3 max-w-xs">
-                    <p className="text-sm">
-                      Hola, claro que te puedo ayudar. ¿Cuál es tu consulta específica sobre la facturación?
-                    </p>
-                    <p className="text-xs opacity-75 mt-1">10:32 AM</p>
-                  </div>
-                </div>
-              </div>
-            </div>
-
-            {/* Message Input */}
-            <div className="p-4 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700">
-              <div className="flex space-x-2">
-                <Input
-                  placeholder="Escribe tu mensaje..."
-                  className="flex-1"
-                  data-testid="input-message"
-                />
-                <Button data-testid="button-send-message">
-                  <MessageSquare className="w-4 h-4" />
-                </Button>
-              </div>
-            </div>
-          </>
+        {isVoicemailView && selectedVoicemail ? (
+          <VoicemailDetail message={selectedVoicemail} onDeleted={() => setSelectedVoicemailId(null)} />
+        ) : !isVoicemailView && selectedConversation ? (
+          <ConversationDetail id={selectedConversation} />
         ) : (
           <div className="flex-1 flex items-center justify-center bg-gray-50 dark:bg-gray-900">
             <div className="text-center">
@@ -227,4 +508,4 @@ export default function InboxPage() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
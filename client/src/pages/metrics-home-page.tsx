@@ -106,8 +106,8 @@ export default function MetricsHomePage() {
         />
         <MetricCard
           title="Gasto Mensual"
-          value={`$${stats?.monthlyCost || 0}`}
-          subtitle="Plan Growth"
+          value={`$${(stats?.monthlyCost || 0).toFixed(2)}`}
+          subtitle="Plan + llamadas del mes"
           icon={DollarSign}
           iconColor="text-emerald-600"
           data-testid="metric-monthly-cost"
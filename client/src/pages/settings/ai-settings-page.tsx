@@ -1,8 +1,127 @@
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Bot, Settings, Volume2, FileText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Bot, Settings, Volume2, FileText, Plus, Edit, Trash2 } from "lucide-react";
+import { useAiAgents, useDeleteAiAgent } from "@/hooks/use-telephony";
+import { AiAgentModal, AI_AGENT_LANGUAGES } from "@/components/telephony/ai-agent-modal";
+import { KnowledgeBaseDialog } from "@/components/telephony/knowledge-base-dialog";
+import { TtsSettingsDialog } from "@/components/telephony/tts-settings-dialog";
+import { TtsPromptLibraryDialog } from "@/components/telephony/tts-prompt-library-dialog";
+import type { AiAgent } from "@shared/schema";
+
+// Tenant AI agents; IVR options and inbound numbers pick one of these
+function AiAgentsDialog({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const { data: agents, isLoading } = useAiAgents();
+  const deleteMutation = useDeleteAiAgent();
+
+  const [agentModal, setAgentModal] = useState<{
+    isOpen: boolean;
+    mode: "create" | "edit";
+    agent?: AiAgent | null;
+  }>({ isOpen: false, mode: "create", agent: null });
+
+  const handleDelete = (agent: AiAgent) => {
+    if (confirm(`¿Estás seguro de que quieres eliminar el agente "${agent.name}"?`)) {
+      deleteMutation.mutate(agent.id);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="sm:max-w-[640px] max-h-[80vh] overflow-y-auto" data-testid="modal-ai-agents">
+          <DialogHeader>
+            <DialogTitle>Agentes de IA</DialogTitle>
+            <DialogDescription>
+              Asigna un agente a una opción de IVR o a un número entrante. Sin asignación atiende el primer agente activo.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => setAgentModal({ isOpen: true, mode: "create", agent: null })}
+              data-testid="button-create-ai-agent"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Nuevo Agente
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Cargando agentes...</p>
+          ) : !agents?.length ? (
+            <p className="text-sm text-muted-foreground">
+              No hay agentes configurados. Las llamadas las atiende el asistente virtual por defecto.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {agents.map((agent) => (
+                <div
+                  key={agent.id}
+                  className="flex items-center justify-between rounded-md border p-3"
+                  data-testid={`row-ai-agent-${agent.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{agent.name}</span>
+                      <Badge variant={agent.isActive ? "default" : "secondary"}>
+                        {agent.isActive ? "Activo" : "Inactivo"}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {AI_AGENT_LANGUAGES[agent.language] || agent.language} · {agent.model} · {agent.allowedActions.length} acciones
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">{agent.systemPrompt}</p>
+                  </div>
+                  <div className="flex shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setAgentModal({ isOpen: true, mode: "edit", agent })}
+                      data-testid={`button-edit-ai-agent-${agent.id}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(agent)}
+                      data-testid={`button-delete-ai-agent-${agent.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AiAgentModal
+        isOpen={agentModal.isOpen}
+        onClose={() => setAgentModal({ isOpen: false, mode: "create", agent: null })}
+        agent={agentModal.agent}
+        mode={agentModal.mode}
+      />
+    </>
+  );
+}
 
 export default function AISettingsPage() {
+  const [agentsOpen, setAgentsOpen] = useState(false);
+  const [knowledgeOpen, setKnowledgeOpen] = useState(false);
+  const [ttsOpen, setTtsOpen] = useState(false);
+  const [promptsOpen, setPromptsOpen] = useState(false);
+
   return (
     <div className="p-6 max-w-4xl mx-auto" data-testid="ai-settings-page">
       <div className="mb-8">
@@ -24,7 +143,7 @@ export default function AISettingsPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Button className="w-full" data-testid="button-manage-agents">
+            <Button className="w-full" onClick={() => setAgentsOpen(true)} data-testid="button-manage-agents">
               Administrar Agentes
             </Button>
           </CardContent>
@@ -40,10 +159,13 @@ export default function AISettingsPage() {
               Configuración de voces y síntesis de texto a voz
             </CardDescription>
           </CardHeader>
-          <CardContent>
-            <Button className="w-full" data-testid="button-configure-tts">
+          <CardContent className="space-y-2">
+            <Button className="w-full" onClick={() => setTtsOpen(true)} data-testid="button-configure-tts">
               Configurar TTS
             </Button>
+            <Button variant="outline" className="w-full" onClick={() => setPromptsOpen(true)} data-testid="button-tts-prompts">
+              Biblioteca de audios
+            </Button>
           </CardContent>
         </Card>
 
@@ -54,11 +176,11 @@ export default function AISettingsPage() {
               <span>Base de Conocimiento</span>
             </CardTitle>
             <CardDescription>
-              Administra documentos y conocimiento para IA
+              Documentos y preguntas frecuentes con los que responden los agentes
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Button className="w-full" data-testid="button-manage-knowledge">
+            <Button className="w-full" onClick={() => setKnowledgeOpen(true)} data-testid="button-manage-knowledge">
               Administrar Conocimiento
             </Button>
           </CardContent>
@@ -81,6 +203,11 @@ export default function AISettingsPage() {
           </CardContent>
         </Card>
       </div>
+
+      <AiAgentsDialog isOpen={agentsOpen} onClose={() => setAgentsOpen(false)} />
+      <KnowledgeBaseDialog isOpen={knowledgeOpen} onClose={() => setKnowledgeOpen(false)} />
+      <TtsSettingsDialog isOpen={ttsOpen} onClose={() => setTtsOpen(false)} />
+      <TtsPromptLibraryDialog isOpen={promptsOpen} onClose={() => setPromptsOpen(false)} />
     </div>
   );
 }
\ No newline at end of file
@@ -4,6 +4,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
 import { 
   Select, 
   SelectContent, 
@@ -31,10 +32,14 @@ import {
   Pause,
   Download,
   Users,
-  Volume2
+  Volume2,
+  HardDrive,
+  RefreshCw,
+  Voicemail
 } from "lucide-react";
 import { 
   useExtensions, 
+  usePresence,
   useIvrs, 
   useQueues, 
   useRecordings,
@@ -42,10 +47,22 @@ import {
   useUpdateExtension,
   useDeleteExtension,
   useResetExtensionPin,
-  useCreateQueue
+  useProvisionTenant,
+  useInboundNumbers,
+  useAiAgents,
+  useCreateInboundNumber,
+  useUpdateInboundNumber,
+  useDeleteInboundNumber,
+  useRecordingStorage,
+  useUpdateRecordingRetention
 } from "@/hooks/use-telephony";
+import { CallAnalysisSummary } from "@/components/telephony/conversation-analysis";
+import { PresenceBadge } from "@/components/telephony/agent-presence";
+import { ProvisioningBadge } from "@/components/telephony/provisioning-badge";
 import { ExtensionModal } from "@/components/telephony/extension-modal";
+import { VoicemailModal } from "@/components/telephony/voicemail-modal";
 import { IvrModal } from "@/components/telephony/ivr-modal";
+import { QueueModal, QUEUE_STRATEGY_LABELS } from "@/components/telephony/queue-modal";
 import { AudioPlayer } from "@/components/telephony/audio-player";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useUrlState } from "@/hooks/use-url-state";
@@ -63,7 +80,7 @@ import {
   ErrorState 
 } from "@/components/telephony/empty-states";
 import { PaginationControls } from "@/components/ui/pagination-controls";
-import type { Extension, IvrMenu } from "@shared/schema";
+import { RECORDING_RETENTION_DAYS, type Extension, type IvrMenu, type Queue } from "@shared/schema";
 
 function ExtensionsTab() {
   const { getParam, getNumberParam, setParam, setMultipleParams } = useUrlState();
@@ -77,6 +94,7 @@ function ExtensionsTab() {
     mode: "create" | "edit";
     extension?: Extension | null;
   }>({ isOpen: false, mode: "create", extension: null });
+  const [voicemailExtension, setVoicemailExtension] = useState<Extension | null>(null);
   const pageSize = 10;
 
   const { data: extensionsData, isLoading } = useExtensions({
@@ -97,10 +115,14 @@ function ExtensionsTab() {
     }
   }, [isLoading, page, validExtensionsPage, setParam]);
 
+  const { data: presenceList } = usePresence();
+  const presenceByExtension = new Map(presenceList?.map((info) => [info.extensionId, info]));
+
   const createExtensionMutation = useCreateExtension();
   const updateExtensionMutation = useUpdateExtension();
   const deleteExtensionMutation = useDeleteExtension();
   const resetPinMutation = useResetExtensionPin();
+  const provisionTenantMutation = useProvisionTenant();
 
   const openCreateModal = () => {
     setExtensionModal({ isOpen: true, mode: "create", extension: null });
@@ -135,10 +157,21 @@ function ExtensionsTab() {
             Gestiona las extensiones telefónicas de tu organización
           </p>
         </div>
-        <Button onClick={openCreateModal} data-testid="button-create-extension">
-          <Plus className="h-4 w-4 mr-2" />
-          Nueva Extensión
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => provisionTenantMutation.mutate()}
+            disabled={provisionTenantMutation.isPending}
+            data-testid="button-provision-tenant"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${provisionTenantMutation.isPending ? "animate-spin" : ""}`} />
+            Sincronizar PBX
+          </Button>
+          <Button onClick={openCreateModal} data-testid="button-create-extension">
+            <Plus className="h-4 w-4 mr-2" />
+            Nueva Extensión
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -179,6 +212,7 @@ function ExtensionsTab() {
                   <TableHead>Extensión</TableHead>
                   <TableHead>Usuario</TableHead>
                   <TableHead>Estado</TableHead>
+                  <TableHead>Presencia</TableHead>
                   <TableHead>SIP</TableHead>
                   <TableHead className="text-right">Acciones</TableHead>
                 </TableRow>
@@ -199,8 +233,21 @@ function ExtensionsTab() {
                         {extension.status === "ACTIVE" ? "Activa" : "Inactiva"}
                       </Badge>
                     </TableCell>
-                    <TableCell className="font-mono text-sm">
-                      {extension.number}@gueswi.com
+                    <TableCell>
+                      <PresenceBadge
+                        info={presenceByExtension.get(extension.id)}
+                        testId={`badge-presence-${extension.id}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm">{extension.number}@gueswi.com</span>
+                        <ProvisioningBadge
+                          status={extension.provisioningStatus}
+                          error={extension.provisioningError}
+                          testId={`badge-provisioning-${extension.id}`}
+                        />
+                      </div>
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-2">
@@ -212,6 +259,14 @@ function ExtensionsTab() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        <Button 
+                          variant="ghost" 
+                          size="sm"
+                          onClick={() => setVoicemailExtension(extension)}
+                          data-testid={`button-voicemail-${extension.id}`}
+                        >
+                          <Voicemail className="h-4 w-4" />
+                        </Button>
                         <Button 
                           variant="ghost" 
                           size="sm"
@@ -259,6 +314,12 @@ function ExtensionsTab() {
         extension={extensionModal.extension}
         mode={extensionModal.mode}
       />
+
+      <VoicemailModal
+        isOpen={!!voicemailExtension}
+        onClose={() => setVoicemailExtension(null)}
+        extension={voicemailExtension}
+      />
     </div>
   );
 }
@@ -310,14 +371,21 @@ function IvrsTab() {
               <CardHeader>
                 <CardTitle className="flex items-center justify-between">
                   <span>{ivr.name}</span>
-                  <Button 
-                    variant="ghost" 
-                    size="sm" 
-                    onClick={() => openEditIvrModal(ivr)}
-                    data-testid={`button-edit-ivr-${ivr.id}`}
-                  >
-                    <Edit className="h-4 w-4" />
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    <ProvisioningBadge
+                      status={ivr.provisioningStatus}
+                      error={ivr.provisioningError}
+                      testId={`badge-provisioning-ivr-${ivr.id}`}
+                    />
+                    <Button 
+                      variant="ghost" 
+                      size="sm" 
+                      onClick={() => openEditIvrModal(ivr)}
+                      data-testid={`button-edit-ivr-${ivr.id}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </CardTitle>
                 <CardDescription>
                   Opciones: {typeof ivr.options === 'string' ? JSON.parse(ivr.options || "[]").length : Array.isArray(ivr.options) ? ivr.options.length : 0}
@@ -339,6 +407,8 @@ function IvrsTab() {
         )}
       </div>
 
+      <InboundNumbersCard ivrs={ivrs || []} />
+
       <IvrModal
         isOpen={ivrModal.isOpen}
         onClose={closeIvrModal}
@@ -349,20 +419,186 @@ function IvrsTab() {
   );
 }
 
+// Select value for "no agent assigned" (the tenant's first active agent)
+const DEFAULT_AGENT_VALUE = "__default__";
+
+// Which IVR (or, without one, which AI agent) answers each of the tenant's
+// phone numbers
+function InboundNumbersCard({ ivrs }: { ivrs: IvrMenu[] }) {
+  const { data: inboundNumbers, isLoading } = useInboundNumbers();
+  const { data: aiAgents } = useAiAgents();
+  const createInboundNumber = useCreateInboundNumber();
+  const updateInboundNumber = useUpdateInboundNumber();
+  const deleteInboundNumber = useDeleteInboundNumber();
+
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [ivrMenuId, setIvrMenuId] = useState<string>("");
+
+  const handleAdd = () => {
+    if (!phoneNumber.trim()) return;
+    createInboundNumber.mutate(
+      { phoneNumber: phoneNumber.trim(), ivrMenuId: ivrMenuId || null },
+      {
+        onSuccess: () => {
+          setPhoneNumber("");
+          setIvrMenuId("");
+        },
+      }
+    );
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("¿Estás seguro de que quieres eliminar este número?")) {
+      deleteInboundNumber.mutate(id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Phone className="h-4 w-4" />
+          Números entrantes
+        </CardTitle>
+        <CardDescription>
+          Elige qué menú IVR atiende las llamadas a cada número. Los números sin IVR las atiende su agente de IA.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            placeholder="+34 910 000 000"
+            value={phoneNumber}
+            onChange={(e) => setPhoneNumber(e.target.value)}
+            data-testid="input-inbound-number"
+          />
+          <Select value={ivrMenuId} onValueChange={setIvrMenuId}>
+            <SelectTrigger className="sm:w-64" data-testid="select-inbound-number-ivr">
+              <SelectValue placeholder="Selecciona un IVR" />
+            </SelectTrigger>
+            <SelectContent>
+              {ivrs.map((ivr) => (
+                <SelectItem key={ivr.id} value={ivr.id}>{ivr.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={handleAdd}
+            disabled={!phoneNumber.trim() || createInboundNumber.isPending}
+            data-testid="button-add-inbound-number"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Añadir
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Cargando números...</p>
+        ) : !inboundNumbers?.length ? (
+          <p className="text-sm text-muted-foreground">No hay números entrantes configurados.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Número</TableHead>
+                <TableHead>IVR</TableHead>
+                <TableHead>Agente IA</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {inboundNumbers.map((inbound) => (
+                <TableRow key={inbound.id} data-testid={`row-inbound-number-${inbound.id}`}>
+                  <TableCell className="font-medium">{inbound.phoneNumber}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={inbound.ivrMenuId || ""}
+                      onValueChange={(value) =>
+                        updateInboundNumber.mutate({ id: inbound.id, data: { ivrMenuId: value } })
+                      }
+                    >
+                      <SelectTrigger className="w-56" data-testid={`select-ivr-${inbound.id}`}>
+                        <SelectValue placeholder="Asistente virtual" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ivrs.map((ivr) => (
+                          <SelectItem key={ivr.id} value={ivr.id}>{ivr.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={inbound.aiAgentId || DEFAULT_AGENT_VALUE}
+                      onValueChange={(value) =>
+                        updateInboundNumber.mutate({
+                          id: inbound.id,
+                          data: { aiAgentId: value === DEFAULT_AGENT_VALUE ? null : value },
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-48" data-testid={`select-ai-agent-${inbound.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_AGENT_VALUE}>Agente por defecto</SelectItem>
+                        {aiAgents?.map((agent) => (
+                          <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={inbound.isActive ? "default" : "secondary"}
+                      className="cursor-pointer"
+                      onClick={() =>
+                        updateInboundNumber.mutate({ id: inbound.id, data: { isActive: !inbound.isActive } })
+                      }
+                    >
+                      {inbound.isActive ? "Activo" : "Inactivo"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(inbound.id)}
+                      data-testid={`button-delete-inbound-number-${inbound.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function QueuesTab() {
   const { data: queues, isLoading } = useQueues();
-  const createQueue = useCreateQueue();
+
+  const [queueModal, setQueueModal] = useState<{
+    isOpen: boolean;
+    mode: "create" | "edit";
+    queue?: Queue | null;
+  }>({ isOpen: false, mode: "create", queue: null });
 
   const handleCreateQueue = () => {
-    // Simple queue creation with basic data
-    const queueName = prompt("Nombre de la nueva cola:");
-    if (queueName && queueName.trim()) {
-      createQueue.mutate({
-        name: queueName.trim(),
-        waiting: 0, // Default waiting count
-        avgWaitSec: 0 // Default average wait time
-      });
-    }
+    setQueueModal({ isOpen: true, mode: "create", queue: null });
+  };
+
+  const openEditQueueModal = (queue: Queue) => {
+    setQueueModal({ isOpen: true, mode: "edit", queue });
+  };
+
+  const closeQueueModal = () => {
+    setQueueModal({ isOpen: false, mode: "create", queue: null });
   };
 
   return (
@@ -391,34 +627,126 @@ function QueuesTab() {
               <CardHeader>
                 <CardTitle className="flex items-center justify-between">
                   <span>{queue.name}</span>
-                  <Button variant="ghost" size="sm" data-testid={`button-edit-queue-${queue.id}`}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => openEditQueueModal(queue)}
+                    data-testid={`button-edit-queue-${queue.id}`}
+                  >
                     <Edit className="h-4 w-4" />
                   </Button>
                 </CardTitle>
                 <CardDescription>
-                  En espera: {queue.waiting} | Promedio: {queue.avgWaitSec}s
+                  {QUEUE_STRATEGY_LABELS[queue.strategy]} | Agentes disponibles: {queue.availableMembers}/{queue.memberCount}
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                   <div>
                     <span className="text-muted-foreground">En espera:</span>
-                    <div>{queue.waiting}</div>
+                    <div data-testid={`text-queue-waiting-${queue.id}`}>{queue.waiting}</div>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Espera más larga:</span>
+                    <div>{queue.longestWaitSec}s</div>
                   </div>
                   <div>
                     <span className="text-muted-foreground">Tiempo promedio:</span>
                     <div>{queue.avgWaitSec}s</div>
                   </div>
+                  <div>
+                    <span className="text-muted-foreground">Atendidas hoy:</span>
+                    <div>{queue.answeredToday}</div>
+                  </div>
                 </div>
               </CardContent>
             </Card>
           ))
         )}
       </div>
+
+      <QueueModal
+        isOpen={queueModal.isOpen}
+        onClose={closeQueueModal}
+        queue={queueModal.queue}
+        mode={queueModal.mode}
+      />
     </div>
   );
 }
 
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+}
+
+function RecordingStorageCard() {
+  const { data: summary } = useRecordingStorage();
+  const updateRetention = useUpdateRecordingRetention();
+
+  if (!summary) return null;
+
+  const usedPercent = Math.min(100, (summary.usedBytes / summary.quotaBytes) * 100);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HardDrive className="h-4 w-4" />
+          Almacenamiento
+        </CardTitle>
+        <CardDescription>
+          Las grabaciones caducadas o que superan la cuota del plan se eliminan cada noche.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span data-testid="text-recordings-storage-used">
+              {formatBytes(summary.usedBytes)} de {formatBytes(summary.quotaBytes)}
+            </span>
+            <span className="text-muted-foreground">{summary.recordingCount} grabaciones</span>
+          </div>
+          <Progress value={usedPercent} data-testid="progress-recordings-storage" />
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <span className="text-sm">Conservar grabaciones</span>
+            <Select
+              value={summary.retentionDays ? String(summary.retentionDays) : "forever"}
+              onValueChange={(value) => updateRetention.mutate(value === "forever" ? null : Number(value))}
+              disabled={updateRetention.isPending}
+            >
+              <SelectTrigger className="w-40" data-testid="select-recordings-retention">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECORDING_RETENTION_DAYS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>{days} días</SelectItem>
+                ))}
+                <SelectItem value="forever">Siempre</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-sm text-muted-foreground" data-testid="text-recordings-next-purge">
+            {summary.nextPurgeAt
+              ? `Próxima purga: ${new Date(summary.nextPurgeAt).toLocaleString('es-ES', {
+                  year: 'numeric',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}`
+              : "Ninguna grabación pendiente de purga"}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function RecordingsTab() {
   const { getNumberParam, setParam } = useUrlState();
   const page = getNumberParam("recordings_page", 1);
@@ -460,15 +788,15 @@ function RecordingsTab() {
     });
   };
 
+  // Authenticated, tenant-checked stream; supports Range so the player can seek
   const getRecordingUrl = (recording: any) => {
-    // In a real implementation, this would be the actual audio file URL
-    // For demo purposes, we'll use a placeholder or local audio file
-    return recording.fileUrl || `/api/recordings/${recording.id}/audio`;
+    return recording.url || `/api/recordings/${recording.id}/audio`;
   };
 
   const getRecordingFileName = (recording: any) => {
     const date = new Date(recording.startedAt).toISOString().split('T')[0];
-    return `recording-${recording.callId}-${date}.wav`;
+    const extension = recording.mimeType === 'audio/mpeg' ? 'mp3' : 'wav';
+    return `recording-${recording.callId}-${date}.${extension}`;
   };
 
   return (
@@ -482,6 +810,8 @@ function RecordingsTab() {
         </div>
       </div>
 
+      <RecordingStorageCard />
+
       {isLoading ? (
         <RecordingsTableSkeleton />
       ) : recordingsData?.data.length === 0 ? (
@@ -496,6 +826,7 @@ function RecordingsTab() {
                   <TableHead>Duración</TableHead>
                   <TableHead>Extensión</TableHead>
                   <TableHead>Tipo</TableHead>
+                  <TableHead>Análisis</TableHead>
                   <TableHead className="text-right">Acciones</TableHead>
                 </TableRow>
               </TableHeader>
@@ -519,6 +850,9 @@ function RecordingsTab() {
                         Grabación
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      <CallAnalysisSummary analysis={recording.analysis} analysisStatus={recording.analysisStatus} />
+                    </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-2">
                         <Button 
@@ -532,9 +866,12 @@ function RecordingsTab() {
                         <Button 
                           variant="ghost" 
                           size="sm"
+                          asChild
                           data-testid={`button-download-${recording.id}`}
                         >
-                          <Download className="h-4 w-4" />
+                          <a href={`${getRecordingUrl(recording)}?download=1`} download={getRecordingFileName(recording)}>
+                            <Download className="h-4 w-4" />
+                          </a>
                         </Button>
                       </div>
                     </TableCell>
@@ -36,17 +36,20 @@ import {
 import { DashboardLayout } from "@/components/layouts/dashboard-layout";
 import { 
   useExtensions, 
+  usePresence,
   useIvrs, 
   useQueues, 
   useRecordings,
   useCreateExtension,
   useUpdateExtension,
   useDeleteExtension,
-  useResetExtensionPin,
-  useCreateQueue
+  useResetExtensionPin
 } from "@/hooks/use-telephony";
+import { CallAnalysisSummary } from "@/components/telephony/conversation-analysis";
+import { PresenceBadge } from "@/components/telephony/agent-presence";
 import { ExtensionModal } from "@/components/telephony/extension-modal";
 import { IvrModal } from "@/components/telephony/ivr-modal";
+import { QueueModal, QUEUE_STRATEGY_LABELS } from "@/components/telephony/queue-modal";
 import { AudioPlayer } from "@/components/telephony/audio-player";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useUrlState } from "@/hooks/use-url-state";
@@ -64,7 +67,7 @@ import {
   ErrorState 
 } from "@/components/telephony/empty-states";
 import { PaginationControls } from "@/components/ui/pagination-controls";
-import type { Extension, IvrMenu } from "@shared/schema";
+import type { Extension, IvrMenu, Queue } from "@shared/schema";
 
 function ExtensionsTab() {
   const { getParam, getNumberParam, setParam, setMultipleParams } = useUrlState();
@@ -98,6 +101,9 @@ function ExtensionsTab() {
     }
   }, [isLoading, page, validExtensionsPage, setParam]);
 
+  const { data: presenceList } = usePresence();
+  const presenceByExtension = new Map(presenceList?.map((info) => [info.extensionId, info]));
+
   const createExtensionMutation = useCreateExtension();
   const updateExtensionMutation = useUpdateExtension();
   const deleteExtensionMutation = useDeleteExtension();
@@ -180,6 +186,7 @@ function ExtensionsTab() {
                   <TableHead>Extensión</TableHead>
                   <TableHead>Usuario</TableHead>
                   <TableHead>Estado</TableHead>
+                  <TableHead>Presencia</TableHead>
                   <TableHead>SIP</TableHead>
                   <TableHead className="text-right">Acciones</TableHead>
                 </TableRow>
@@ -200,6 +207,12 @@ function ExtensionsTab() {
                         {extension.status === "ACTIVE" ? "Activa" : "Inactiva"}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      <PresenceBadge
+                        info={presenceByExtension.get(extension.id)}
+                        testId={`badge-presence-${extension.id}`}
+                      />
+                    </TableCell>
                     <TableCell className="font-mono text-sm">
                       {extension.number}@gueswi.com
                     </TableCell>
@@ -352,18 +365,23 @@ function IvrsTab() {
 
 function QueuesTab() {
   const { data: queues, isLoading } = useQueues();
-  const createQueue = useCreateQueue();
+
+  const [queueModal, setQueueModal] = useState<{
+    isOpen: boolean;
+    mode: "create" | "edit";
+    queue?: Queue | null;
+  }>({ isOpen: false, mode: "create", queue: null });
 
   const handleCreateQueue = () => {
-    // Simple queue creation with basic data
-    const queueName = prompt("Nombre de la nueva cola:");
-    if (queueName && queueName.trim()) {
-      createQueue.mutate({
-        name: queueName.trim(),
-        waiting: 0, // Default waiting count
-        avgWaitSec: 0 // Default average wait time
-      });
-    }
+    setQueueModal({ isOpen: true, mode: "create", queue: null });
+  };
+
+  const openEditQueueModal = (queue: Queue) => {
+    setQueueModal({ isOpen: true, mode: "edit", queue });
+  };
+
+  const closeQueueModal = () => {
+    setQueueModal({ isOpen: false, mode: "create", queue: null });
   };
 
   return (
@@ -392,30 +410,50 @@ function QueuesTab() {
               <CardHeader>
                 <CardTitle className="flex items-center justify-between">
                   <span>{queue.name}</span>
-                  <Button variant="ghost" size="sm" data-testid={`button-edit-queue-${queue.id}`}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => openEditQueueModal(queue)}
+                    data-testid={`button-edit-queue-${queue.id}`}
+                  >
                     <Edit className="h-4 w-4" />
                   </Button>
                 </CardTitle>
                 <CardDescription>
-                  En espera: {queue.waiting} | Promedio: {queue.avgWaitSec}s
+                  {QUEUE_STRATEGY_LABELS[queue.strategy]} | Agentes disponibles: {queue.availableMembers}/{queue.memberCount}
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                   <div>
                     <span className="text-muted-foreground">En espera:</span>
-                    <div>{queue.waiting}</div>
+                    <div data-testid={`text-queue-waiting-${queue.id}`}>{queue.waiting}</div>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Espera más larga:</span>
+                    <div>{queue.longestWaitSec}s</div>
                   </div>
                   <div>
                     <span className="text-muted-foreground">Tiempo promedio:</span>
                     <div>{queue.avgWaitSec}s</div>
                   </div>
+                  <div>
+                    <span className="text-muted-foreground">Atendidas hoy:</span>
+                    <div>{queue.answeredToday}</div>
+                  </div>
                 </div>
               </CardContent>
             </Card>
           ))
         )}
       </div>
+
+      <QueueModal
+        isOpen={queueModal.isOpen}
+        onClose={closeQueueModal}
+        queue={queueModal.queue}
+        mode={queueModal.mode}
+      />
     </div>
   );
 }
@@ -461,15 +499,15 @@ function RecordingsTab() {
     });
   };
 
+  // Authenticated, tenant-checked stream; supports Range so the player can seek
   const getRecordingUrl = (recording: any) => {
-    // In a real implementation, this would be the actual audio file URL
-    // For demo purposes, we'll use a placeholder or local audio file
-    return recording.fileUrl || `/api/recordings/${recording.id}/audio`;
+    return recording.url || `/api/recordings/${recording.id}/audio`;
   };
 
   const getRecordingFileName = (recording: any) => {
     const date = new Date(recording.startedAt).toISOString().split('T')[0];
-    return `recording-${recording.callId}-${date}.wav`;
+    const extension = recording.mimeType === 'audio/mpeg' ? 'mp3' : 'wav';
+    return `recording-${recording.callId}-${date}.${extension}`;
   };
 
   return (
@@ -497,6 +535,7 @@ function RecordingsTab() {
                   <TableHead>Duración</TableHead>
                   <TableHead>Extensión</TableHead>
                   <TableHead>Tipo</TableHead>
+                  <TableHead>Análisis</TableHead>
                   <TableHead className="text-right">Acciones</TableHead>
                 </TableRow>
               </TableHeader>
@@ -520,6 +559,9 @@ function RecordingsTab() {
                         Grabación
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      <CallAnalysisSummary analysis={recording.analysis} analysisStatus={recording.analysisStatus} />
+                    </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-2">
                         <Button 
@@ -533,9 +575,12 @@ function RecordingsTab() {
                         <Button 
                           variant="ghost" 
                           size="sm"
+                          asChild
                           data-testid={`button-download-${recording.id}`}
                         >
-                          <Download className="h-4 w-4" />
+                          <a href={`${getRecordingUrl(recording)}?download=1`} download={getRecordingFileName(recording)}>
+                            <Download className="h-4 w-4" />
+                          </a>
                         </Button>
                       </div>
                     </TableCell>
@@ -0,0 +1,238 @@
+/**
+ * Agent presence on top of extensions
+ *
+ * States: available, busy (on a call), after_call_work (wrap-up timer after
+ * an answered call), break and offline.
+ *
+ * busy / after_call_work follow the softphone call events (syncCallPresence);
+ * agents switch between available, break and offline themselves. Browser
+ * heartbeats refresh `lastSeenAt`: once an extension has been seen, a stale
+ * heartbeat reads as offline. Extensions that never heartbeat (desk phones)
+ * keep their stored presence.
+ *
+ * Expired wrap-ups are resolved on read, so presence stays correct across
+ * restarts; the in-process timer only pushes the change to listeners.
+ */
+
+import type {
+  AgentPresence,
+  AgentPresenceInfo,
+  Conversation,
+  Extension,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { CallStateError, isTerminalStatus } from "./call-state";
+
+export const PRESENCE_TIMEOUT_MS = 90_000;
+
+type PresenceListener = (tenantId: string, info: AgentPresenceInfo) => void;
+
+const listeners = new Set<PresenceListener>();
+const wrapUpTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+export function onPresenceChange(listener: PresenceListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(extension: Extension): AgentPresenceInfo {
+  const info = toPresenceInfo(extension);
+  listeners.forEach((listener) => listener(extension.tenantId, info));
+  return info;
+}
+
+/**
+ * Presence as routing and the UI should see it (pure)
+ */
+export function resolvePresence(extension: Extension, now: Date = new Date()): AgentPresence {
+  if (extension.status !== "ACTIVE") return "offline";
+
+  if (extension.lastSeenAt && now.getTime() - new Date(extension.lastSeenAt).getTime() > PRESENCE_TIMEOUT_MS) {
+    return "offline";
+  }
+
+  if (
+    extension.presence === "after_call_work" &&
+    (!extension.wrapUpUntil || new Date(extension.wrapUpUntil) <= now)
+  ) {
+    return "available";
+  }
+
+  return extension.presence;
+}
+
+export function isExtensionAvailable(extension: Extension, now: Date = new Date()): boolean {
+  return resolvePresence(extension, now) === "available";
+}
+
+export function toPresenceInfo(extension: Extension, now: Date = new Date()): AgentPresenceInfo {
+  const presence = resolvePresence(extension, now);
+
+  // Derived states started when the heartbeat went stale / the wrap-up ran out
+  let since = extension.presenceChangedAt;
+  if (presence !== extension.presence) {
+    since = (presence === "offline" ? extension.lastSeenAt : extension.wrapUpUntil) ?? since;
+  }
+
+  return {
+    extensionId: extension.id,
+    extensionNumber: extension.number,
+    userId: extension.userId,
+    userName: extension.userName,
+    presence,
+    since,
+    wrapUpUntil: presence === "after_call_work" ? extension.wrapUpUntil : null,
+    lastSeenAt: extension.lastSeenAt,
+  };
+}
+
+async function setPresence(
+  extension: Extension,
+  presence: AgentPresence,
+  wrapUpUntil: Date | null = null,
+  lastSeenAt?: Date,
+): Promise<Extension> {
+  clearWrapUpTimer(extension.id);
+
+  const updated = await storage.updateExtensionPresence(extension.id, {
+    presence,
+    presenceChangedAt: new Date(),
+    wrapUpUntil,
+    ...(lastSeenAt ? { lastSeenAt } : {}),
+  });
+
+  if (presence === "after_call_work" && wrapUpUntil) {
+    scheduleWrapUpEnd(updated, wrapUpUntil);
+  }
+  return updated;
+}
+
+function clearWrapUpTimer(extensionId: string) {
+  const timer = wrapUpTimers.get(extensionId);
+  if (timer) {
+    clearTimeout(timer);
+    wrapUpTimers.delete(extensionId);
+  }
+}
+
+function scheduleWrapUpEnd(extension: Extension, wrapUpUntil: Date) {
+  const timer = setTimeout(async () => {
+    wrapUpTimers.delete(extension.id);
+    try {
+      const current = await storage.getExtension(extension.id, extension.tenantId);
+      if (current?.presence !== "after_call_work") return;
+      notify(await setPresence(current, "available"));
+    } catch (error) {
+      console.error("❌ Ending wrap-up failed:", error);
+    }
+  }, Math.max(0, wrapUpUntil.getTime() - Date.now()));
+
+  // Never keep the process alive just for a wrap-up
+  timer.unref?.();
+  wrapUpTimers.set(extension.id, timer);
+}
+
+export async function getTenantPresence(tenantId: string): Promise<AgentPresenceInfo[]> {
+  const extensionList = await storage.getExtensionsByTenant(tenantId);
+  const now = new Date();
+  return extensionList
+    .map((extension) => toPresenceInfo(extension, now))
+    .sort((a, b) => a.extensionNumber.localeCompare(b.extensionNumber));
+}
+
+export async function getUserPresence(tenantId: string, userId: string): Promise<AgentPresenceInfo | null> {
+  const extension = await storage.getExtensionForUser(tenantId, userId);
+  return extension ? toPresenceInfo(extension) : null;
+}
+
+async function requireUserExtension(tenantId: string, userId: string): Promise<Extension> {
+  const extension = await storage.getExtensionForUser(tenantId, userId);
+  if (!extension) {
+    throw new CallStateError("No extension assigned to this user", 404, "NO_EXTENSION");
+  }
+  return extension;
+}
+
+/**
+ * Manual change by the agent (available, break or offline). Ending a
+ * wrap-up early is allowed; leaving busy is not while a call is up.
+ */
+export async function setAgentPresence(
+  tenantId: string,
+  userId: string,
+  presence: AgentPresence,
+): Promise<AgentPresenceInfo> {
+  if (presence === "busy" || presence === "after_call_work") {
+    throw new CallStateError(`Presence ${presence} is set by calls`, 400, "INVALID_PRESENCE");
+  }
+
+  const extension = await requireUserExtension(tenantId, userId);
+  if (presence !== "offline" && await storage.getActiveConversation(tenantId, userId)) {
+    throw new CallStateError("Finish the current call first", 409, "AGENT_ON_CALL");
+  }
+
+  // Whoever sets their presence is obviously online
+  return notify(await setPresence(extension, presence, null, new Date()));
+}
+
+/**
+ * Browser heartbeat. Notifies only when the agent comes back from a stale
+ * (offline) heartbeat.
+ */
+export async function recordHeartbeat(tenantId: string, userId: string): Promise<AgentPresenceInfo | null> {
+  const extension = await storage.getExtensionForUser(tenantId, userId);
+  if (!extension) return null;
+
+  const wasOffline = resolvePresence(extension) === "offline";
+  const updated = await storage.updateExtensionPresence(extension.id, { lastSeenAt: new Date() });
+
+  return wasOffline && resolvePresence(updated) !== "offline" ? notify(updated) : toPresenceInfo(updated);
+}
+
+async function extensionForCall(
+  tenantId: string,
+  agent: { extensionId?: string | null; userId?: string | null },
+): Promise<Extension | undefined> {
+  if (agent.extensionId) return storage.getExtension(agent.extensionId, tenantId);
+  if (agent.userId) return storage.getExtensionForUser(tenantId, agent.userId);
+  return undefined;
+}
+
+/**
+ * The agent's call finished (hung up or handed over by a transfer): wrap-up
+ * when it was answered, unless another call is still up.
+ */
+export async function releaseAgent(
+  tenantId: string,
+  agent: { extensionId?: string | null; userId?: string | null },
+  answered: boolean,
+): Promise<AgentPresenceInfo | null> {
+  const extension = await extensionForCall(tenantId, agent);
+  if (!extension || extension.presence !== "busy") return null;
+
+  const userId = agent.userId ?? extension.userId;
+  if (userId && await storage.getActiveConversation(tenantId, userId)) return null;
+
+  if (answered && extension.wrapUpSec > 0) {
+    const wrapUpUntil = new Date(Date.now() + extension.wrapUpSec * 1000);
+    return notify(await setPresence(extension, "after_call_work", wrapUpUntil));
+  }
+  return notify(await setPresence(extension, "available"));
+}
+
+/**
+ * Follow a call event: agents on a live call are busy, ended calls start
+ * the wrap-up. Returns the new presence when it changed.
+ */
+export async function syncCallPresence(conversation: Conversation): Promise<AgentPresenceInfo | null> {
+  if (isTerminalStatus(conversation.status)) {
+    return releaseAgent(conversation.tenantId, conversation, !!conversation.answeredAt);
+  }
+
+  const extension = await extensionForCall(conversation.tenantId, conversation);
+  if (!extension || extension.presence === "busy") return null;
+
+  return notify(await setPresence(extension, "busy"));
+}
@@ -0,0 +1,368 @@
+/**
+ * Actions of the AI voice agents
+ *
+ * The actions an agent is allowed are offered to the model as tools. A
+ * tool call is validated here and carried out on the call's conversation:
+ *   transfer_to_queue,
+ *   transfer_to_extension → resolve the target and leave the handoff (who
+ *                           transferred, why, summary) on the conversation;
+ *                           the channel connects the call (Twilio TwiML in
+ *                           ./ai-agents.ts, PBX softphone offer in routes)
+ *   book_appointment      → free slots offered, then the chosen one booked
+ *                           for the caller ID (./ai-booking.ts)
+ *   create_lead           → lead in the tenant's default pipeline
+ *   end_call              → the call ends after the goodbye
+ *
+ * The receiving agent sees the handoff and the AI transcript (the
+ * conversation's messages) in the call panel. Calls of actions the agent
+ * is not allowed, or with invalid arguments, are ignored.
+ */
+
+import { z } from "zod";
+import type { AiAgentAction, AiHandoff, Conversation } from "@shared/schema";
+import { storage } from "./storage";
+import { applyCallAction, CallStateError } from "./call-state";
+import { resolveTransferTarget, type ResolvedTransferTarget } from "./call-transfer";
+import { bookingInstructions, bookSlot, offerSlots } from "./ai-booking";
+import type { ChatTool, ChatToolCall } from "./llm";
+import type { AiAgentProfile } from "./ai-agents";
+
+export interface AiCallContext {
+  tenantId: string;
+  agent: AiAgentProfile;
+  // The call being served; null when the agent is only being tried out
+  conversation: Conversation | null;
+  callerNumber?: string | null;
+}
+
+export interface AiActionResult {
+  type: AiAgentAction;
+  // false when the action did not finish (it failed, or waits for the
+  // caller like a slot offer); `say` is what the caller hears then
+  completed: boolean;
+  // Default line for the caller when the model did not say anything itself
+  say: string;
+  transfer?: ResolvedTransferTarget;
+  leadId?: string;
+  appointmentId?: string;
+  // The conversation after the action (handoff saved, call ended)
+  conversation: Conversation | null;
+}
+
+const TRANSFER_TEXT = "Te paso con un agente. Un momento, por favor.";
+const TRANSFER_UNAVAILABLE_TEXT = "Lo siento, ahora mismo no puedo transferirte. ¿Te puedo ayudar yo?";
+const LEAD_TEXT = "Perfecto, he guardado tus datos y un asesor se pondrá en contacto contigo.";
+const LEAD_FAILED_TEXT = "Lo siento, no he podido guardar tus datos. ¿Te puedo ayudar en algo más?";
+const END_CALL_TEXT = "Gracias por llamar. Hasta pronto.";
+
+const SUMMARY_DESCRIPTION =
+  "Resumen para el agente que atiende la llamada: qué necesita el cliente y los datos que ya ha dado";
+
+const BOOKING_PROPERTIES = {
+  service: { type: "string", description: "Servicio que quiere el cliente" },
+  date: { type: "string", description: "Fecha en formato AAAA-MM-DD" },
+  staff: { type: "string", description: "Profesional, si el cliente tiene preferencia" },
+  location: { type: "string", description: "Sede, si el cliente tiene preferencia" },
+};
+
+// Tools of each action (booking takes a slot search and the booking itself)
+const TOOLS: Record<AiAgentAction, ChatTool[]> = {
+  transfer_to_queue: [{
+    name: "transfer_to_queue",
+    description: "Transfiere la llamada a una cola de agentes humanos cuando el cliente lo pide o no puedes resolver su consulta.",
+    parameters: {
+      type: "object",
+      properties: {
+        queue: { type: "string", description: "Nombre de la cola; omítelo para la cola principal" },
+        summary: { type: "string", description: SUMMARY_DESCRIPTION },
+        reason: { type: "string", description: "Motivo de la transferencia" },
+      },
+      required: ["summary"],
+    },
+  }],
+  transfer_to_extension: [{
+    name: "transfer_to_extension",
+    description: "Transfiere la llamada a la extensión de una persona concreta.",
+    parameters: {
+      type: "object",
+      properties: {
+        extension: { type: "string", description: "Número de extensión" },
+        summary: { type: "string", description: SUMMARY_DESCRIPTION },
+        reason: { type: "string", description: "Motivo de la transferencia" },
+      },
+      required: ["extension", "summary"],
+    },
+  }],
+  book_appointment: [
+    {
+      name: "find_appointment_slots",
+      description: "Busca los huecos libres para un servicio en una fecha.",
+      parameters: {
+        type: "object",
+        properties: BOOKING_PROPERTIES,
+        required: ["service", "date"],
+      },
+    },
+    {
+      name: "book_appointment",
+      description: "Reserva uno de los huecos libres ofrecidos cuando el cliente lo confirma.",
+      parameters: {
+        type: "object",
+        properties: {
+          ...BOOKING_PROPERTIES,
+          time: { type: "string", description: "Hora del hueco elegido, HH:MM" },
+          customerName: { type: "string", description: "Nombre del cliente" },
+          notes: { type: "string", description: "Otros detalles para la cita" },
+        },
+        required: ["service", "date", "time", "customerName"],
+      },
+    },
+  ],
+  create_lead: [{
+    name: "create_lead",
+    description: "Guarda al cliente como oportunidad de venta cuando muestra interés en contratar o comprar.",
+    parameters: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Nombre del cliente" },
+        email: { type: "string", description: "Correo electrónico" },
+        company: { type: "string", description: "Empresa" },
+        notes: { type: "string", description: "Qué le interesa al cliente" },
+      },
+      required: ["name"],
+    },
+  }],
+  end_call: [{
+    name: "end_call",
+    description: "Finaliza la llamada cuando el cliente se despide o no necesita nada más.",
+    parameters: {
+      type: "object",
+      properties: {
+        reason: { type: "string", description: "Motivo del fin de la llamada" },
+      },
+    },
+  }],
+};
+
+// Action a tool belongs to
+const TOOL_ACTIONS = new Map(
+  Object.entries(TOOLS).flatMap(([action, tools]) => tools.map((tool) => [tool.name, action as AiAgentAction])),
+);
+
+const optionalText = (max: number) => z.string().trim().max(max).optional().transform((value) => value || undefined);
+
+const transferToQueueArgs = z.object({
+  queue: optionalText(100),
+  summary: z.string().trim().min(1).max(2000),
+  reason: optionalText(300),
+});
+
+const transferToExtensionArgs = z.object({
+  extension: z.coerce.string().trim().min(1).max(20),
+  summary: z.string().trim().min(1).max(2000),
+  reason: optionalText(300),
+});
+
+const findSlotsArgs = z.object({
+  service: z.string().trim().min(1).max(200),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  staff: optionalText(200),
+  location: optionalText(200),
+});
+
+const bookAppointmentArgs = findSlotsArgs.extend({
+  time: z.string().regex(/^\d{1,2}:\d{2}$/),
+  customerName: z.string().trim().min(1).max(200),
+  notes: optionalText(1000),
+});
+
+const createLeadArgs = z.object({
+  name: z.string().trim().min(1).max(200),
+  email: z.string().trim().email().max(200).optional().catch(undefined),
+  company: optionalText(200),
+  notes: optionalText(2000),
+});
+
+const endCallArgs = z.object({
+  reason: optionalText(300),
+});
+
+/**
+ * Tools for the actions `agent` is allowed
+ */
+export function aiActionTools(agent: AiAgentProfile): ChatTool[] {
+  return agent.allowedActions.flatMap((action) => TOOLS[action]);
+}
+
+/**
+ * What the agent needs to know to act (today's date and the bookable
+ * services for booking), added to its system prompt; null when nothing
+ */
+export async function aiActionInstructions(call: Pick<AiCallContext, "tenantId" | "agent">): Promise<string | null> {
+  if (!call.agent.allowedActions.includes("book_appointment")) return null;
+  return bookingInstructions(call.tenantId);
+}
+
+function isAllowedTool(agent: AiAgentProfile, name: string): boolean {
+  const action = TOOL_ACTIONS.get(name);
+  return !!action && agent.allowedActions.includes(action);
+}
+
+/**
+ * Carry out the first tool call the agent is allowed; null when there is none
+ */
+export async function runAiAction(call: AiCallContext, toolCalls: ChatToolCall[]): Promise<AiActionResult | null> {
+  const toolCall = toolCalls.find((candidate) => isAllowedTool(call.agent, candidate.name));
+  if (!toolCall) return null;
+
+  const action = toolCall.name;
+  try {
+    switch (action) {
+      case "transfer_to_queue":
+        return await transferToQueue(call, transferToQueueArgs.parse(toolCall.arguments));
+      case "transfer_to_extension":
+        return await transferToExtension(call, transferToExtensionArgs.parse(toolCall.arguments));
+      case "find_appointment_slots":
+        return await findSlots(call, findSlotsArgs.parse(toolCall.arguments));
+      case "book_appointment":
+        return await bookAppointment(call, bookAppointmentArgs.parse(toolCall.arguments));
+      case "create_lead":
+        return await createLead(call, createLeadArgs.parse(toolCall.arguments));
+      case "end_call":
+        return await endCall(call, endCallArgs.parse(toolCall.arguments));
+      default:
+        return null;
+    }
+  } catch (error) {
+    if (!(error instanceof z.ZodError)) throw error;
+    console.warn(`⚠️ AI agent ${call.agent.name}: invalid ${action} arguments:`, error.errors[0]?.message);
+    return null;
+  }
+}
+
+async function transferToQueue(call: AiCallContext, args: z.infer<typeof transferToQueueArgs>): Promise<AiActionResult> {
+  // Without a queue name the call goes to the tenant's first queue
+  const queue = args.queue ?? (await storage.getQueues(call.tenantId))[0]?.id;
+  return handOff(call, "transfer_to_queue", queue, args);
+}
+
+async function transferToExtension(call: AiCallContext, args: z.infer<typeof transferToExtensionArgs>): Promise<AiActionResult> {
+  return handOff(call, "transfer_to_extension", args.extension, args);
+}
+
+async function handOff(
+  call: AiCallContext,
+  action: AiHandoff["action"],
+  to: string | undefined,
+  args: { summary: string; reason?: string },
+): Promise<AiActionResult> {
+  const unavailable: AiActionResult = {
+    type: action,
+    completed: false,
+    say: TRANSFER_UNAVAILABLE_TEXT,
+    conversation: call.conversation,
+  };
+  if (!to) return unavailable;
+
+  let transfer: ResolvedTransferTarget;
+  try {
+    transfer = await resolveTransferTarget(call.tenantId, to, action === "transfer_to_queue" ? "queue" : "extension");
+  } catch (error) {
+    if (!(error instanceof CallStateError)) throw error;
+    console.warn(`⚠️ AI agent ${call.agent.name}: transfer to ${to} unavailable: ${error.message}`);
+    return unavailable;
+  }
+
+  let conversation = call.conversation;
+  if (conversation) {
+    const handoff: AiHandoff = {
+      agentId: call.agent.id,
+      agentName: call.agent.name,
+      action,
+      targetType: transfer.targetType,
+      target: transfer.target,
+      summary: args.summary,
+      reason: args.reason,
+      handedOffAt: new Date().toISOString(),
+    };
+    conversation = await storage.saveAiHandoff(conversation.id, handoff);
+    await storage.createConversationEvent({
+      tenantId: conversation.tenantId,
+      conversationId: conversation.id,
+      type: "ai_handoff",
+      fromStatus: conversation.status,
+      toStatus: conversation.status,
+      metadata: handoff,
+    });
+  }
+
+  return { type: action, completed: true, say: TRANSFER_TEXT, transfer, conversation };
+}
+
+// The offer is said as is: the model cannot know the slots beforehand
+async function findSlots(call: AiCallContext, args: z.infer<typeof findSlotsArgs>): Promise<AiActionResult> {
+  const outcome = await offerSlots(call.tenantId, args);
+  return { type: "book_appointment", completed: false, say: outcome.say, conversation: call.conversation };
+}
+
+async function bookAppointment(call: AiCallContext, args: z.infer<typeof bookAppointmentArgs>): Promise<AiActionResult> {
+  const outcome = await bookSlot(call.tenantId, { ...args, customerPhone: call.callerNumber });
+  if (!outcome.appointment) {
+    return { type: "book_appointment", completed: false, say: outcome.say, conversation: call.conversation };
+  }
+
+  const { appointment } = outcome;
+  if (call.conversation) {
+    await storage.createConversationEvent({
+      tenantId: call.tenantId,
+      conversationId: call.conversation.id,
+      type: "ai_appointment_booked",
+      fromStatus: call.conversation.status,
+      toStatus: call.conversation.status,
+      metadata: {
+        agentId: call.agent.id,
+        appointmentId: appointment.id,
+        serviceId: appointment.serviceId,
+        staffId: appointment.staffId,
+        locationId: appointment.locationId,
+        startTime: appointment.startTime,
+      },
+    });
+  }
+  return {
+    type: "book_appointment",
+    completed: true,
+    say: outcome.say,
+    appointmentId: appointment.id,
+    conversation: call.conversation,
+  };
+}
+
+async function createLead(call: AiCallContext, args: z.infer<typeof createLeadArgs>): Promise<AiActionResult> {
+  const lead = await storage.createAiAgentLead(call.tenantId, {
+    name: args.name,
+    phone: call.callerNumber,
+    email: args.email,
+    company: args.company,
+    notes: args.notes,
+    conversationId: call.conversation?.id,
+  });
+  if (!lead) {
+    console.warn(`⚠️ AI agent ${call.agent.name}: tenant ${call.tenantId} has no pipeline stages for leads`);
+    return { type: "create_lead", completed: false, say: LEAD_FAILED_TEXT, conversation: call.conversation };
+  }
+  return { type: "create_lead", completed: true, say: LEAD_TEXT, leadId: lead.id, conversation: call.conversation };
+}
+
+async function endCall(call: AiCallContext, args: z.infer<typeof endCallArgs>): Promise<AiActionResult> {
+  let conversation = call.conversation;
+  if (conversation) {
+    // The agent served the caller: not a missed call
+    ({ conversation } = await applyCallAction(conversation.id, conversation.tenantId, "hangup", {
+      reason: "ai_end_call",
+      metadata: { agentId: call.agent.id, ...(args.reason ? { detail: args.reason } : {}) },
+      data: { missedAt: null },
+    }));
+  }
+  return { type: "end_call", completed: true, say: END_CALL_TEXT, conversation };
+}
@@ -0,0 +1,295 @@
+/**
+ * Tenant AI voice agents
+ *
+ * A call reaches an agent through an IVR `ai_agent` option or an inbound
+ * number assigned to it. The agent's prompt and model settings shape every
+ * completion, and its allowed actions bound what the assistant may offer.
+ * The speech loop (Twilio Gather → /webhook/twilio-process-speech) carries
+ * the agent id in the action URL; the tenant comes from the called number.
+ * Each turn is kept on the call's conversation (caller and AI messages), so
+ * the model sees the whole exchange and a human taking over can read it.
+ * Tool calls are carried out by ./ai-actions.ts; transfers and hangups
+ * become TwiML here. Passages of the tenant's knowledge base matching what
+ * the caller said are added to the prompt (./knowledge).
+ *
+ * Destinations that do not name an active agent of the tenant (menus saved
+ * before agents existed, deleted agents) get the tenant's first active
+ * agent, and tenants without agents the built-in assistant.
+ */
+
+import { AI_AGENT_ACTION_LABELS, type AiAgent, type Conversation } from "@shared/schema";
+import { storage } from "./storage";
+import { applyCallAction, startCall } from "./call-state";
+import { EXTENSION_RING_SEC } from "./inbound-calls";
+import { completeChat, type ChatCompletionRequest, type ChatCompletionUsage, type ChatMessage } from "./llm";
+import { aiActionInstructions, aiActionTools, runAiAction, type AiActionResult, type AiCallContext } from "./ai-actions";
+import { knowledgeInstructions } from "./knowledge";
+import { queueWaitUrl } from "./ivr/queue";
+import * as twiml from "./ivr/twiml";
+
+export type AiAgentProfile = Pick<
+  AiAgent,
+  "name" | "systemPrompt" | "greeting" | "language" | "voice" | "model" | "temperature" | "maxTokens" | "allowedActions"
+> & { id: string | null };
+
+export const DEFAULT_AI_AGENT: AiAgentProfile = {
+  id: null,
+  name: "Asistente Gueswi",
+  systemPrompt:
+    "Eres un asistente virtual de Gueswi. Responde de forma concisa (máximo 2-3 frases) y natural. Si el cliente quiere hablar con un humano, transfiere la llamada con un resumen de lo que necesita.",
+  greeting: "Hola, soy el asistente virtual de Gueswi. ¿En qué puedo ayudarte?",
+  language: "es-ES",
+  voice: twiml.SAY_VOICE,
+  model: "gpt-4o-mini",
+  temperature: 0.7,
+  maxTokens: 150,
+  allowedActions: ["transfer_to_queue", "end_call"],
+};
+
+const NO_INPUT_TEXT = "No te escuché. Por favor, llama de nuevo.";
+const GOODBYE_TEXT = "Gracias por llamar. Hasta pronto.";
+const ERROR_TEXT = "Lo siento, tengo problemas técnicos. Por favor llama más tarde.";
+const NOT_UNDERSTOOD_TEXT = "Disculpa, ¿puedes repetirlo?";
+const NO_ANSWER_TEXT = "La extensión no contesta. ¿Te puedo ayudar en algo más?";
+
+// Earlier messages of the call sent with each turn
+const MAX_HISTORY_MESSAGES = 20;
+
+// Twilio drops a voice webhook after 15 s: a turn gives up before, so the
+// caller still hears the apology
+export const AI_SPEECH_TURN_TIMEOUT_MS = 10_000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The agent answering for `agentId` in the tenant, falling back to the
+ * tenant's first active agent and then to the built-in assistant
+ */
+export async function resolveAiAgent(tenantId: string, agentId?: string | null): Promise<AiAgentProfile> {
+  if (agentId && UUID_PATTERN.test(agentId)) {
+    const agent = await storage.getAiAgent(agentId, tenantId);
+    if (agent?.isActive) return agent;
+  }
+
+  const fallback = (await storage.getAiAgents(tenantId)).find((agent) => agent.isActive);
+  return fallback ?? DEFAULT_AI_AGENT;
+}
+
+// The tenant prompt plus the actions the agent may take (as tools) and
+// the turn's context (knowledge passages, booking notes)
+function systemMessage(agent: AiAgentProfile, instructions?: string | null): ChatMessage {
+  const actions = agent.allowedActions.map((action) => AI_AGENT_ACTION_LABELS[action]);
+  const limits = actions.length > 0
+    ? `Solo puedes realizar estas acciones, siempre con las herramientas disponibles: ${actions.join(", ")}. ` +
+      "Al transferir, resume lo que el cliente ya te ha contado para que no tenga que repetirlo."
+    : "No puedes transferir la llamada ni realizar acciones: solo responder.";
+
+  const content = [agent.systemPrompt, limits, instructions].filter(Boolean).join("\n\n");
+  return { role: "system", content };
+}
+
+/**
+ * Chat completion request with the agent's prompt, model settings and the
+ * tools of its allowed actions
+ */
+export function agentCompletionRequest(
+  agent: AiAgentProfile,
+  messages: ChatMessage[],
+  instructions?: string | null,
+): ChatCompletionRequest {
+  const tools = aiActionTools(agent);
+  return {
+    model: agent.model,
+    messages: [systemMessage(agent, instructions), ...messages],
+    maxTokens: agent.maxTokens,
+    temperature: agent.temperature,
+    ...(tools.length > 0 ? { tools } : {}),
+  };
+}
+
+/**
+ * Conversation of a call served by an AI agent, created on its first turn
+ * (ringing until a human answers it)
+ */
+export async function findOrStartAiCall(
+  tenantId: string,
+  call: { callId: string; from?: string | null; to?: string | null },
+): Promise<Conversation> {
+  return await storage.getConversationByCallId(tenantId, call.callId)
+    ?? await startCall(
+      { tenantId, callId: call.callId, phoneNumber: call.from, direction: "inbound" },
+      { metadata: { direction: "inbound", to: call.to, aiAgent: true } },
+    );
+}
+
+/**
+ * The AI exchange of the call so far, followed by what the caller just said
+ */
+export async function aiCallMessages(conversation: Conversation, said: string): Promise<ChatMessage[]> {
+  const stored = await storage.getConversationWithMessages(conversation.id, conversation.tenantId);
+  const history = (stored?.messages ?? [])
+    .filter((message) => message.from !== "agent")
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map((message): ChatMessage => ({
+      role: message.from === "ai" ? "assistant" : "user",
+      content: message.content,
+    }));
+  return [...history, { role: "user", content: said }];
+}
+
+export interface AiTurnResult {
+  reply: string;
+  action: AiActionResult | null;
+  conversation: Conversation | null;
+  usage: ChatCompletionUsage;
+}
+
+/**
+ * One exchange with the agent: `messages` end with the caller's turn. On a
+ * call, the caller's words and the reply are added to the conversation.
+ * The completion gives up once `options.signal` aborts.
+ */
+export async function runAiTurn(
+  call: AiCallContext,
+  messages: ChatMessage[],
+  options: { signal?: AbortSignal } = {},
+): Promise<AiTurnResult> {
+  const { agent } = call;
+  const last = messages[messages.length - 1];
+  if (call.conversation && last?.role === "user" && last.content.trim()) {
+    await storage.createMessage({ conversationId: call.conversation.id, from: "customer", content: last.content });
+  }
+
+  // The previous turn gives short answers ("¿y el sábado?") their subject
+  const query = messages
+    .filter((message) => message.role === "user")
+    .slice(-2)
+    .map((message) => message.content)
+    .join("\n");
+  const [knowledge, actionInstructions] = await Promise.all([
+    knowledgeInstructions(call.tenantId, query),
+    aiActionInstructions(call),
+  ]);
+  const instructions = [knowledge, actionInstructions].filter(Boolean).join("\n\n");
+  const completion = await completeChat(agentCompletionRequest(agent, messages, instructions), {
+    tenantId: call.tenantId,
+    signal: options.signal,
+  });
+  const action = await runAiAction(call, completion.toolCalls);
+  // Unfinished actions (failures, slot offers) speak for themselves; the
+  // model may announce one that runs
+  const reply = (action && (!action.completed || !completion.content) ? action.say : completion.content)
+    || NOT_UNDERSTOOD_TEXT;
+
+  if (call.conversation) {
+    await storage.createMessage({ conversationId: call.conversation.id, from: "ai", content: reply });
+  }
+
+  return {
+    reply,
+    action,
+    conversation: action ? action.conversation : call.conversation,
+    usage: completion.usage,
+  };
+}
+
+export function aiSpeechUrl(agent: AiAgentProfile): string {
+  return agent.id
+    ? `/webhook/twilio-process-speech?agentId=${encodeURIComponent(agent.id)}`
+    : "/webhook/twilio-process-speech";
+}
+
+function agentVoice(agent: AiAgentProfile) {
+  return { language: agent.language, voice: agent.voice };
+}
+
+/**
+ * First turn of a call handed to the agent; `notice` is said before it
+ * (closed-hours message of an IVR branch)
+ */
+export function renderAiGreeting(agent: AiAgentProfile = DEFAULT_AI_AGENT, notice = ""): string {
+  return twiml.response(
+    notice,
+    twiml.say(agent.greeting || DEFAULT_AI_AGENT.greeting!, agentVoice(agent)),
+    twiml.speechGather("", aiSpeechUrl(agent), agent.language),
+    twiml.say(NO_INPUT_TEXT, agentVoice(agent)),
+  );
+}
+
+// The agent's answer, then listen for the caller again
+export function renderAiReply(agent: AiAgentProfile, reply: string): string {
+  return twiml.response(
+    twiml.say(reply, agentVoice(agent)),
+    twiml.speechGather("", aiSpeechUrl(agent), agent.language),
+    twiml.say(GOODBYE_TEXT, agentVoice(agent)),
+  );
+}
+
+export function renderAiError(agent: AiAgentProfile = DEFAULT_AI_AGENT): string {
+  return twiml.response(twiml.say(ERROR_TEXT, agentVoice(agent)));
+}
+
+// Runs on the agent leg when the extension the AI transferred to answers
+export function aiConnectedUrl(conversation: Conversation, extensionId: string): string {
+  const params = new URLSearchParams({ tenantId: conversation.tenantId, conversationId: conversation.id, extensionId });
+  return `/webhook/ai/connected?${params}`;
+}
+
+// Back from the Dial of a transfer to an extension
+function aiTransferEndedUrl(agent: AiAgentProfile, conversation: Conversation): string {
+  const params = new URLSearchParams({ conversationId: conversation.id });
+  if (agent.id) params.set("agentId", agent.id);
+  return `/webhook/ai/transfer-ended?${params}`;
+}
+
+/**
+ * TwiML for a turn: transfers leave the speech loop for the queue or the
+ * extension, end_call hangs up, anything else is answered and listened to
+ */
+export function renderAiTurn(agent: AiAgentProfile, turn: AiTurnResult): string {
+  const { action, conversation } = turn;
+  const reply = twiml.say(turn.reply, agentVoice(agent));
+
+  if (action?.completed && action.type === "end_call") {
+    return twiml.response(reply, twiml.hangup());
+  }
+  if (action?.completed && action.transfer && conversation) {
+    const { transfer } = action;
+    if (transfer.queueId) {
+      return twiml.response(reply, twiml.redirect(queueWaitUrl(transfer.queueId)));
+    }
+    if (transfer.extensionId) {
+      return twiml.response(
+        reply,
+        twiml.dialSipEndpoints(
+          [{
+            uri: twiml.extensionSipUri(conversation.tenantId, transfer.target),
+            url: aiConnectedUrl(conversation, transfer.extensionId),
+          }],
+          { timeoutSec: EXTENSION_RING_SEC, actionUrl: aiTransferEndedUrl(agent, conversation) },
+        ),
+      );
+    }
+  }
+  return renderAiReply(agent, turn.reply);
+}
+
+/**
+ * Next TwiML after the Dial of a transfer to an extension: a call the agent
+ * took has finished and ends; otherwise the AI agent keeps the caller
+ */
+export async function handleAiTransferEnded(options: {
+  agent: AiAgentProfile;
+  conversation: Conversation;
+  dialStatus?: string;
+}): Promise<{ twiml: string; conversation: Conversation }> {
+  const { agent, conversation, dialStatus } = options;
+
+  if (dialStatus === "completed" || dialStatus === "answered") {
+    const { conversation: ended } = await applyCallAction(conversation.id, conversation.tenantId, "hangup", {
+      metadata: { extensionId: conversation.extensionId },
+    });
+    return { twiml: twiml.response(twiml.hangup()), conversation: ended };
+  }
+  return { twiml: renderAiReply(agent, NO_ANSWER_TEXT), conversation };
+}
@@ -0,0 +1,240 @@
+/**
+ * Appointment booking by the AI receptionist
+ *
+ * The model names the service, day and (optionally) staff member and
+ * location as the caller said them; they are matched against the tenant's
+ * active catalog, ignoring case and accents. Slots come from ./booking.ts
+ * for every staff member offering the service at every matching location
+ * and are said in the location's local time. A booking must hit one of
+ * those slots and pass the same validation as manual appointments; the
+ * customer phone is the caller ID.
+ */
+
+import type { Appointment, Location, Service, StaffMember } from "@shared/schema";
+import { storage } from "./storage";
+import { BookingError, findAvailableSlots, validateAppointmentTime, type AvailableSlot } from "./booking";
+
+export interface BookingQuery {
+  service: string;
+  date: string; // YYYY-MM-DD
+  staff?: string;
+  location?: string;
+}
+
+export interface SlotOption {
+  service: Service;
+  staff: StaffMember;
+  location: Location;
+  slot: AvailableSlot;
+}
+
+export interface BookingOutcome {
+  ok: boolean;
+  // What the caller hears
+  say: string;
+  options: SlotOption[];
+  appointment?: Appointment;
+}
+
+const DEFAULT_TIMEZONE = "Europe/Madrid";
+const MAX_OFFERED_SLOTS = 5;
+
+function normalize(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+}
+
+// Exact name matches, else names contained in what was said (or the reverse)
+function matchByName<T extends { name: string }>(items: T[], spoken?: string): T[] {
+  if (!spoken?.trim()) return items;
+  const wanted = normalize(spoken);
+
+  const exact = items.filter((item) => normalize(item.name) === wanted);
+  if (exact.length > 0) return exact;
+  return items.filter((item) => {
+    const name = normalize(item.name);
+    return wanted.includes(name) || name.includes(wanted);
+  });
+}
+
+function timezoneOf(location: Location): string {
+  return location.timezone || DEFAULT_TIMEZONE;
+}
+
+function localTime(option: SlotOption): string {
+  return new Date(option.slot.startTime).toLocaleTimeString("es-ES", {
+    timeZone: timezoneOf(option.location),
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function spokenDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day, 12)).toLocaleDateString("es-ES", {
+    timeZone: "UTC",
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+  });
+}
+
+function listNames(items: { name: string }[]): string {
+  return items.map((item) => item.name).join(", ");
+}
+
+/**
+ * Booking notes for the agent's system prompt: today's date and what can
+ * be booked. Null when the tenant has no bookable services.
+ */
+export async function bookingInstructions(tenantId: string): Promise<string | null> {
+  const catalog = await storage.getBookingCatalog(tenantId);
+  if (catalog.services.length === 0 || catalog.locations.length === 0) return null;
+
+  const timezone = timezoneOf(catalog.locations[0]);
+  const now = new Date();
+  const today = new Intl.DateTimeFormat("en-CA", { timeZone: timezone }).format(now);
+  const spokenToday = now.toLocaleDateString("es-ES", {
+    timeZone: timezone,
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+  return [
+    `Hoy es ${spokenToday} (${today}).`,
+    `Servicios: ${catalog.services.map((service) => `${service.name} (${service.duration} min)`).join(", ")}.`,
+    catalog.staff.length > 0 ? `Profesionales: ${listNames(catalog.staff)}.` : "",
+    `Sedes: ${listNames(catalog.locations)}.`,
+    "Para reservar, busca primero los huecos libres con find_appointment_slots y ofrécelos. " +
+      "Cuando el cliente elija uno y te diga su nombre, resérvalo con book_appointment con la fecha (AAAA-MM-DD) y la hora (HH:MM) exactas.",
+  ].filter(Boolean).join("\n");
+}
+
+async function findSlotOptions(tenantId: string, query: BookingQuery): Promise<{ service?: Service; options: SlotOption[] }> {
+  const catalog = await storage.getBookingCatalog(tenantId);
+  const [service] = matchByName(catalog.services, query.service);
+  if (!service) return { options: [] };
+
+  // Staff without any service assignment offer everything
+  const offering = new Set(
+    catalog.staffServices.filter((offer) => offer.serviceId === service.id).map((offer) => offer.staffId),
+  );
+  const staff = matchByName(catalog.staff, query.staff).filter((member) => offering.size === 0 || offering.has(member.id));
+  const locations = matchByName(catalog.locations, query.location);
+
+  const options: SlotOption[] = [];
+  for (const member of staff) {
+    for (const location of locations) {
+      const slots = await findAvailableSlots({
+        tenantId,
+        serviceId: service.id,
+        staffId: member.id,
+        locationId: location.id,
+        date: query.date,
+      });
+      options.push(...slots.map((slot) => ({ service, staff: member, location, slot })));
+    }
+  }
+
+  options.sort((a, b) => a.slot.startTime.localeCompare(b.slot.startTime));
+  return { service, options };
+}
+
+function describeOptions(date: string, service: Service, options: SlotOption[]): string {
+  const offered = options.slice(0, MAX_OFFERED_SLOTS);
+  const manyLocations = new Set(offered.map((option) => option.location.id)).size > 1;
+  const times = offered.map((option) =>
+    `${localTime(option)} con ${option.staff.name}${manyLocations ? ` en ${option.location.name}` : ""}`,
+  );
+  const list = times.length > 1 ? `${times.slice(0, -1).join(", ")} y ${times[times.length - 1]}` : times[0];
+  return `El ${spokenDate(date)} tengo libre para ${service.name}: ${list}. ¿Qué hora prefieres?`;
+}
+
+async function unknownService(tenantId: string): Promise<BookingOutcome> {
+  const { services } = await storage.getBookingCatalog(tenantId);
+  return {
+    ok: false,
+    say: services.length > 0
+      ? `No encuentro ese servicio. Ofrecemos: ${listNames(services)}. ¿Cuál te interesa?`
+      : "Lo siento, ahora mismo no puedo reservar citas por teléfono.",
+    options: [],
+  };
+}
+
+/**
+ * Free slots for the caller's request, as a spoken offer
+ */
+export async function offerSlots(tenantId: string, query: BookingQuery): Promise<BookingOutcome> {
+  const { service, options } = await findSlotOptions(tenantId, query);
+  if (!service) return unknownService(tenantId);
+
+  if (options.length === 0) {
+    return {
+      ok: false,
+      say: `El ${spokenDate(query.date)} no quedan huecos libres para ${service.name}. ¿Quieres probar otro día?`,
+      options,
+    };
+  }
+  return { ok: true, say: describeOptions(query.date, service, options), options };
+}
+
+/**
+ * Book the slot at `time` (HH:MM, location time) for the caller
+ */
+export async function bookSlot(
+  tenantId: string,
+  request: BookingQuery & { time: string; customerName: string; customerPhone?: string | null; notes?: string },
+): Promise<BookingOutcome> {
+  if (!request.customerPhone) {
+    return { ok: false, say: "Lo siento, necesito un número de teléfono para reservar la cita.", options: [] };
+  }
+
+  const { service, options } = await findSlotOptions(tenantId, request);
+  if (!service) return unknownService(tenantId);
+
+  const [hours, minutes] = request.time.split(":");
+  const time = `${hours.padStart(2, "0")}:${minutes}`;
+  const chosen = options.find((option) => localTime(option) === time);
+  if (!chosen) {
+    return {
+      ok: false,
+      say: options.length > 0
+        ? `Esa hora no está libre. ${describeOptions(request.date, service, options)}`
+        : `El ${spokenDate(request.date)} no quedan huecos libres para ${service.name}. ¿Quieres probar otro día?`,
+      options,
+    };
+  }
+
+  const startTime = new Date(chosen.slot.startTime);
+  const endTime = new Date(chosen.slot.endTime);
+  try {
+    await validateAppointmentTime(tenantId, chosen.location.id, chosen.staff.id, startTime, endTime);
+  } catch (error) {
+    if (!(error instanceof BookingError)) throw error;
+    console.warn(`⚠️ AI booking rejected for tenant ${tenantId}: ${error.message}`);
+    return { ok: false, say: "Lo siento, no puedo reservar a esa hora. ¿Quieres otra?", options };
+  }
+
+  const appointment = await storage.createAppointment({
+    tenantId,
+    serviceId: service.id,
+    staffId: chosen.staff.id,
+    locationId: chosen.location.id,
+    customerName: request.customerName,
+    customerPhone: request.customerPhone,
+    startTime,
+    endTime,
+    timezone: timezoneOf(chosen.location),
+    status: "confirmed",
+    notes: request.notes,
+  });
+
+  return {
+    ok: true,
+    say: `Listo, ${request.customerName}: tu cita de ${service.name} queda reservada el ${spokenDate(request.date)} ` +
+      `a las ${time} con ${chosen.staff.name} en ${chosen.location.name}. ¡Te esperamos!`,
+    options: [chosen],
+    appointment,
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Post-call analysis with provider abstraction
+ *
+ * When a call ends (after its transcript is saved, ../transcription.ts) or
+ * a messaging thread is closed in the inbox, its `messages` are analyzed
+ * into a summary, sentiment, intents, action items and a suggested
+ * disposition, stored on the conversation (`analysis`). Jobs run one at a
+ * time in the background; `analysisStatus` tracks pending / completed /
+ * failed. The dashboard metrics aggregate the stored results.
+ *
+ * Environment Variables Contract:
+ * ==============================
+ * ANALYSIS_PROVIDER=openai|heuristic (default: heuristic)
+ *
+ * OpenAI:
+ * - OPENAI_API_KEY (required)
+ * - ANALYSIS_MODEL (optional, defaults to 'gpt-4o-mini')
+ *
+ * Heuristic (development, no external calls):
+ * - Keyword rules over the messages, deterministic
+ */
+
+import {
+  conversationAnalysisSchema,
+  type Conversation,
+  type ConversationAnalysis,
+  type Message,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { isTerminalStatus } from "../call-state";
+
+export interface AnalysisInput {
+  channel: Conversation["channel"];
+  direction: Conversation["direction"];
+  durationSec: number;
+  messages: Pick<Message, "from" | "content">[];
+}
+
+export interface ConversationAnalyzer {
+  readonly name: string;
+  // Unvalidated result; checked against conversationAnalysisSchema
+  analyze(input: AnalysisInput): Promise<unknown>;
+}
+
+type AnalysisListener = (conversation: Conversation) => void;
+
+let analyzer: ConversationAnalyzer | null = null;
+let queue: Promise<void> = Promise.resolve();
+const queued = new Set<string>();
+const listeners = new Set<AnalysisListener>();
+
+/**
+ * Analyzer selected by ANALYSIS_PROVIDER, created once
+ */
+export async function getConversationAnalyzer(): Promise<ConversationAnalyzer> {
+  if (analyzer) return analyzer;
+
+  const name = process.env.ANALYSIS_PROVIDER || "heuristic";
+  switch (name) {
+    case "openai": {
+      const { OpenAIAnalyzer } = await import("./providers/openai.js");
+      analyzer = new OpenAIAnalyzer();
+      break;
+    }
+    case "heuristic": {
+      const { HeuristicAnalyzer } = await import("./providers/heuristic.js");
+      analyzer = new HeuristicAnalyzer();
+      break;
+    }
+    default:
+      throw new Error(`Unsupported analysis provider: ${name}. Supported: openai, heuristic`);
+  }
+  return analyzer;
+}
+
+/**
+ * Swap the analyzer (tests use the heuristic one)
+ */
+export function setConversationAnalyzer(next: ConversationAnalyzer | null): void {
+  analyzer = next;
+}
+
+export function onConversationAnalyzed(listener: AnalysisListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(conversation: Conversation): Conversation {
+  listeners.forEach((listener) => listener(conversation));
+  return conversation;
+}
+
+/**
+ * Analyze a finished conversation now. Returns null when there is nothing
+ * to analyze (live call, no messages).
+ */
+export async function analyzeConversation(conversation: Conversation): Promise<Conversation | null> {
+  if (conversation.channel === "voice" && !isTerminalStatus(conversation.status)) return null;
+
+  const feed = await storage.getConversationWithMessages(conversation.id, conversation.tenantId);
+  if (!feed || feed.messages.length === 0) return null;
+
+  await storage.saveConversationAnalysis(conversation.id, { analysisStatus: "pending", analysisError: null });
+  try {
+    const current = await getConversationAnalyzer();
+    const result = conversationAnalysisSchema.parse(await current.analyze({
+      channel: feed.channel,
+      direction: feed.direction,
+      durationSec: feed.duration ?? 0,
+      messages: feed.messages.map(({ from, content }) => ({ from, content })),
+    }));
+    const analysis: ConversationAnalysis = { ...result, provider: current.name };
+
+    const updated = await storage.saveConversationAnalysis(conversation.id, {
+      analysis,
+      analysisStatus: "completed",
+      analysisError: null,
+      analyzedAt: new Date(),
+    });
+    await storage.createConversationEvent({
+      tenantId: conversation.tenantId,
+      conversationId: conversation.id,
+      type: "analyzed",
+      metadata: { provider: current.name, disposition: analysis.disposition, sentiment: analysis.sentiment },
+    });
+    return notify(updated);
+  } catch (error) {
+    console.error(`❌ Analysis of conversation ${conversation.id} failed:`, error);
+    return notify(await storage.saveConversationAnalysis(conversation.id, {
+      analysisStatus: "failed",
+      analysisError: error instanceof Error ? error.message : String(error),
+    }));
+  }
+}
+
+/**
+ * Run the analysis in the background, after the jobs already queued.
+ * A conversation already waiting is not queued twice.
+ */
+export function queueConversationAnalysis(conversation: Conversation): void {
+  if (queued.has(conversation.id)) return;
+  queued.add(conversation.id);
+
+  queue = queue
+    .then(async () => {
+      queued.delete(conversation.id);
+      await analyzeConversation(conversation);
+    })
+    .catch((error) => console.error("❌ Analysis job failed:", error));
+}
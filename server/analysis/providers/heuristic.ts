@@ -0,0 +1,74 @@
+/**
+ * Heuristic conversation analyzer
+ *
+ * Keyword rules over the messages: no external calls and always the same
+ * result for the same conversation. Good enough for development and for
+ * the dashboard to have data; use a model-backed analyzer in production.
+ */
+
+import type { CallDisposition, CallIntent, Sentiment } from "@shared/schema";
+import type { AnalysisInput, ConversationAnalyzer } from "../index.js";
+
+const INTENT_KEYWORDS: [CallIntent, string[]][] = [
+  ["appointment", ["cita", "reserva", "agendar", "appointment", "booking"]],
+  ["billing", ["factura", "pago", "cobro", "cargo", "saldo", "invoice", "payment"]],
+  ["cancellation", ["baja", "cancelar", "darme de baja", "cancel"]],
+  ["complaint", ["queja", "reclamación", "reclamar", "inaceptable", "complaint"]],
+  ["support", ["problema", "no funciona", "error", "avería", "ayuda", "soporte", "support"]],
+  ["sales", ["precio", "plan", "contratar", "comprar", "presupuesto", "oferta", "price"]],
+  ["information", ["información", "horario", "dirección", "dónde", "cuándo", "information"]],
+];
+
+const POSITIVE_KEYWORDS = ["gracias", "excelente", "perfecto", "genial", "estupendo", "bien", "great", "thanks"];
+const NEGATIVE_KEYWORDS = ["problema", "mal", "error", "no funciona", "terrible", "horrible", "enfadado", "inaceptable"];
+
+// Agent commitments that leave something to do after the call
+const COMMITMENT_KEYWORDS = ["le envío", "le enviaré", "le llamo", "le llamaré", "le llamamos", "le apunto", "lo reviso", "lo anulamos", "le confirmo"];
+
+function countMatches(text: string, keywords: string[]): number {
+  return keywords.filter((keyword) => text.includes(keyword)).length;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+export class HeuristicAnalyzer implements ConversationAnalyzer {
+  readonly name = "heuristic";
+
+  async analyze(input: AnalysisInput): Promise<unknown> {
+    const customerText = input.messages
+      .filter((message) => message.from === "customer")
+      .map((message) => message.content.toLowerCase())
+      .join(" ");
+    const allText = input.messages.map((message) => message.content.toLowerCase()).join(" ");
+
+    const intents = INTENT_KEYWORDS
+      .filter(([, keywords]) => countMatches(allText, keywords) > 0)
+      .map(([intent]) => intent);
+    if (intents.length === 0) intents.push("other");
+
+    const balance = countMatches(customerText, POSITIVE_KEYWORDS) - countMatches(customerText, NEGATIVE_KEYWORDS);
+    const sentimentScore = Math.max(-1, Math.min(1, balance / 3));
+    const sentiment: Sentiment = sentimentScore > 0.2 ? "positive" : sentimentScore < -0.2 ? "negative" : "neutral";
+
+    const actionItems = input.messages
+      .filter((message) => message.from !== "customer")
+      .filter((message) => countMatches(message.content.toLowerCase(), COMMITMENT_KEYWORDS) > 0)
+      .map((message) => truncate(message.content, 300))
+      .slice(0, 10);
+
+    let disposition: CallDisposition = "resolved";
+    if (intents.includes("sales") && sentiment === "positive") disposition = "sale";
+    else if (sentiment === "negative" || intents.includes("complaint")) disposition = "escalated";
+    else if (actionItems.length > 0) disposition = "follow_up";
+    else if (input.messages.every((message) => message.from !== "customer")) disposition = "no_action";
+
+    const firstCustomerMessage = input.messages.find((message) => message.from === "customer");
+    const summary = firstCustomerMessage
+      ? `El cliente indicó: "${truncate(firstCustomerMessage.content, 160)}" (${input.messages.length} mensajes).`
+      : `Conversación sin intervención del cliente (${input.messages.length} mensajes).`;
+
+    return { summary, sentiment, sentimentScore, intents, actionItems, disposition };
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * OpenAI conversation analyzer
+ *
+ * One chat completion in JSON mode per conversation; the reply is checked
+ * against conversationAnalysisSchema by the caller.
+ *
+ * Required Environment Variables:
+ * - OPENAI_API_KEY: Your OpenAI API key
+ * - ANALYSIS_MODEL: Model to use (optional, defaults to 'gpt-4o-mini')
+ */
+
+import { CALL_DISPOSITIONS, CALL_INTENTS } from "@shared/schema";
+import type { AnalysisInput, ConversationAnalyzer } from "../index.js";
+
+const SPEAKERS = { customer: "Cliente", agent: "Agente", ai: "Asistente IA" } as const;
+
+const SYSTEM_PROMPT = `Analizas conversaciones de atención al cliente de una centralita.
+Responde SOLO con un objeto JSON con estas claves:
+- "summary": resumen en español de 1 a 3 frases
+- "sentiment": "positive" | "neutral" | "negative" (estado de ánimo del cliente)
+- "sentimentScore": número entre -1 (muy negativo) y 1 (muy positivo)
+- "intents": lista con los motivos del contacto, valores de: ${CALL_INTENTS.join(", ")}
+- "actionItems": lista de tareas pendientes acordadas (vacía si no hay)
+- "disposition": resultado sugerido, uno de: ${CALL_DISPOSITIONS.join(", ")}`;
+
+export class OpenAIAnalyzer implements ConversationAnalyzer {
+  readonly name = "openai";
+  private readonly apiKey: string;
+  private readonly model: string;
+
+  constructor() {
+    this.apiKey = process.env.OPENAI_API_KEY!;
+    this.model = process.env.ANALYSIS_MODEL || "gpt-4o-mini";
+
+    if (!this.apiKey) {
+      throw new Error("OPENAI_API_KEY environment variable is required");
+    }
+  }
+
+  async analyze(input: AnalysisInput): Promise<unknown> {
+    const transcript = input.messages
+      .map((message) => `${SPEAKERS[message.from]}: ${message.content}`)
+      .join("\n");
+    const context = input.channel === "voice"
+      ? `Llamada ${input.direction === "inbound" ? "entrante" : "saliente"} de ${input.durationSec} s`
+      : `Conversación por ${input.channel}`;
+
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "user", content: `${context}\n\n${transcript}` },
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    return JSON.parse(data.choices[0].message.content);
+  }
+}
@@ -1,6 +1,6 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
@@ -54,7 +54,7 @@ async function comparePasswords(supplied: string, stored: string) {
   }
 }
 
-export function setupAuth(app: Express) {
+export function setupAuth(app: Express): RequestHandler {
   // AUTH HARDENING: Session configuration with explicit settings
   const sessionSettings: session.SessionOptions = {
     name: 'connect.sid',
@@ -71,7 +71,10 @@ export function setupAuth(app: Express) {
     },
   };
 
-  app.use(session(sessionSettings));
+  // Kept as a handle so the WebSocket server can authenticate upgrades
+  const sessionMiddleware = session(sessionSettings);
+
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -183,4 +186,6 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     res.json(req.user);
   });
+
+  return sessionMiddleware;
 }
@@ -0,0 +1,219 @@
+/**
+ * Appointment availability and booking rules
+ *
+ * Shared by the calendar API (slots for the booking pages, manual
+ * appointments) and the AI receptionist (./ai-actions.ts). Staff work in
+ * blocks per location and weekday (`schedulesByLocation`, in the location's
+ * local time); a slot is a service-length interval inside a block that
+ * starts in the future and does not overlap a non-cancelled appointment.
+ */
+
+import type { StaffMember } from "@shared/schema";
+import { storage } from "./storage";
+
+export class BookingError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+    this.name = "BookingError";
+  }
+}
+
+export interface AvailableSlot {
+  startTime: string; // ISO, UTC
+  endTime: string;
+}
+
+export interface SlotRequest {
+  serviceId: string;
+  staffId: string;
+  locationId: string;
+  date: string; // YYYY-MM-DD (a time part is ignored)
+  // Restrict the lookups to one tenant (the public API does not)
+  tenantId?: string;
+}
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Minutes the time zone is ahead of UTC on `date` (handles DST)
+function getTimezoneOffset(tz: string, date: Date): number {
+  const utcDate = new Date(date.toLocaleString("en-US", { timeZone: "UTC" }));
+  const tzDate = new Date(date.toLocaleString("en-US", { timeZone: tz }));
+  return (tzDate.getTime() - utcDate.getTime()) / (1000 * 60);
+}
+
+// `date` on the location's wall clock: the UTC fields of the result are the
+// local day, hours and minutes
+function toLocationTime(date: Date, tz: string): Date {
+  return new Date(date.getTime() + getTimezoneOffset(tz, date) * 60 * 1000);
+}
+
+function staffSchedules(staff: StaffMember): Record<string, any> | null {
+  let schedules = staff.schedulesByLocation as any;
+  if (typeof schedules === "string") {
+    try {
+      schedules = JSON.parse(schedules);
+    } catch {
+      return null;
+    }
+  }
+  return schedules || null;
+}
+
+/**
+ * Free slots of a staff member for a service at a location on one day
+ */
+export async function findAvailableSlots(request: SlotRequest): Promise<AvailableSlot[]> {
+  const { serviceId, staffId, locationId, tenantId } = request;
+
+  const location = await storage.getBookingLocation(locationId, tenantId);
+  if (!location) throw new BookingError("Location not found", 404);
+  const timezone = location.timezone || "Europe/Madrid";
+
+  const service = await storage.getBookingService(serviceId, tenantId);
+  if (!service) throw new BookingError("Service not found", 404);
+
+  const staff = await storage.getStaffMember(staffId, tenantId);
+  if (!staff) throw new BookingError("Staff not found", 404);
+
+  const locationSchedule = staffSchedules(staff)?.[locationId];
+  if (!locationSchedule) return [];
+
+  const dateStr = request.date.split("T")[0];
+  const [year, month, day] = dateStr.split("-").map(Number);
+
+  // Mediodía UTC para evitar problemas de zona horaria
+  const requestedDateUTC = new Date(Date.UTC(year, month - 1, day, 12, 0, 0));
+  const daySchedule = locationSchedule[requestedDateUTC.getUTCDay()];
+  if (!daySchedule?.enabled || !daySchedule.blocks) return [];
+
+  const offsetMinutes = getTimezoneOffset(timezone, requestedDateUTC);
+  const startOfDayUTC = new Date(Date.UTC(year, month - 1, day, 0, 0, 0) - offsetMinutes * 60 * 1000);
+  const endOfDayUTC = new Date(Date.UTC(year, month - 1, day, 23, 59, 59, 999) - offsetMinutes * 60 * 1000);
+
+  const existingAppointments = await storage.getStaffAppointments(staffId, locationId, startOfDayUTC, endOfDayUTC);
+
+  const slots: AvailableSlot[] = [];
+  const serviceDuration = service.duration;
+  const nowUTC = new Date();
+
+  daySchedule.blocks.forEach((block: any) => {
+    const [startH, startM] = block.start.split(":").map(Number);
+    const [endH, endM] = block.end.split(":").map(Number);
+
+    // Blocks are in the location's local time: subtract the offset for UTC
+    const currentTimeUTC = new Date(Date.UTC(year, month - 1, day, startH, startM) - offsetMinutes * 60 * 1000);
+    const blockEndUTC = new Date(Date.UTC(year, month - 1, day, endH, endM) - offsetMinutes * 60 * 1000);
+
+    while (currentTimeUTC < blockEndUTC) {
+      const slotEndUTC = new Date(currentTimeUTC);
+      slotEndUTC.setUTCMinutes(slotEndUTC.getUTCMinutes() + serviceDuration);
+
+      if (slotEndUTC <= blockEndUTC) {
+        const isFuture = currentTimeUTC.getTime() > nowUTC.getTime();
+        const isOccupied = existingAppointments.some((apt) => {
+          const aptStart = new Date(apt.startTime);
+          const aptEnd = new Date(apt.endTime);
+          return (
+            (currentTimeUTC >= aptStart && currentTimeUTC < aptEnd) ||
+            (slotEndUTC > aptStart && slotEndUTC <= aptEnd) ||
+            (currentTimeUTC <= aptStart && slotEndUTC >= aptEnd)
+          );
+        });
+
+        if (isFuture && !isOccupied) {
+          slots.push({ startTime: currentTimeUTC.toISOString(), endTime: slotEndUTC.toISOString() });
+        }
+      }
+
+      currentTimeUTC.setUTCMinutes(currentTimeUTC.getUTCMinutes() + serviceDuration);
+    }
+  });
+
+  return slots;
+}
+
+// Horario del staff con múltiples bloques: la cita completa dentro de alguno
+function validateStaffAvailability(
+  staffSchedule: any,
+  dayOfWeek: number,
+  startMinutes: number,
+  endMinutes: number,
+): { valid: boolean; message?: string } {
+  const daySchedule = staffSchedule[dayOfWeek];
+
+  if (!daySchedule || !daySchedule.enabled) {
+    return { valid: false, message: `El personal no trabaja este día` };
+  }
+
+  const isWithinAnyBlock = daySchedule.blocks?.some((block: any) => {
+    const [startH, startM] = block.start.split(":").map(Number);
+    const [endH, endM] = block.end.split(":").map(Number);
+    return startMinutes >= startH * 60 + startM && endMinutes <= endH * 60 + endM;
+  });
+
+  if (!isWithinAnyBlock) {
+    const blocksStr = daySchedule.blocks.map((b: any) => `${b.start}-${b.end}`).join(", ");
+    return { valid: false, message: `El personal solo trabaja en estos horarios: ${blocksStr}` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Reject appointments outside the location's operating hours or the staff
+ * member's schedule at that location (both of `tenantId`)
+ */
+export async function validateAppointmentTime(
+  tenantId: string,
+  locationId: string,
+  staffId: string,
+  startTime: Date,
+  endTime: Date,
+): Promise<true> {
+  const location = await storage.getBookingLocation(locationId, tenantId);
+  if (!location) throw new BookingError("Location not found");
+
+  // Hours are in the location's local time, as the slots of findAvailableSlots
+  const timezone = location.timezone || "Europe/Madrid";
+  const localStart = toLocationTime(startTime, timezone);
+  const localEnd = toLocationTime(endTime, timezone);
+
+  const dayOfWeek = localStart.getUTCDay();
+  const operatingHours = location.operatingHours as any;
+  const daySchedule = operatingHours?.[dayOfWeek];
+
+  if (!daySchedule?.enabled) {
+    throw new BookingError(`This location is closed on ${DAY_NAMES[dayOfWeek]}`);
+  }
+
+  const startMinutes = localStart.getUTCHours() * 60 + localStart.getUTCMinutes();
+  const endMinutes = localEnd.getUTCHours() * 60 + localEnd.getUTCMinutes();
+
+  const isWithinLocationBlocks = daySchedule.blocks?.some((block: any) => {
+    const [startH, startM] = block.start.split(":").map(Number);
+    const [endH, endM] = block.end.split(":").map(Number);
+    return startMinutes >= startH * 60 + startM && endMinutes <= endH * 60 + endM;
+  });
+
+  if (!isWithinLocationBlocks) {
+    throw new BookingError("Appointment time is outside location operating hours");
+  }
+
+  const staff = await storage.getStaffMember(staffId, tenantId);
+  if (!staff) throw new BookingError("Staff member not found");
+
+  const staffScheduleForLocation = (staff.schedulesByLocation as any)?.[locationId];
+  if (!staffScheduleForLocation) {
+    throw new BookingError("El personal no trabaja en esta ubicación");
+  }
+
+  const validation = validateStaffAvailability(staffScheduleForLocation, dayOfWeek, startMinutes, endMinutes);
+  if (!validation.valid) {
+    throw new BookingError(validation.message!);
+  }
+
+  return true;
+}
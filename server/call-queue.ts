@@ -0,0 +1,227 @@
+/**
+ * Call queues: membership, ACD strategies and live stats
+ *
+ * Agents are queue members (extensions). For each offer the queue picks the
+ * agents to ring according to its strategy:
+ *   ring_all      every available agent at once
+ *   round_robin   the next agent after the last one offered
+ *   longest_idle  the agent whose last call ended longest ago
+ *   least_calls   the agent with the fewest answered calls today
+ *
+ * Only members whose agent presence is "available" are offered calls
+ * (./agent-presence.ts).
+ *
+ * Waiting/average-wait numbers are computed from conversations carrying
+ * `queueId` + `queuedAt`, never stored as counters.
+ */
+
+import type {
+  Conversation,
+  Extension,
+  Queue,
+  QueueMember,
+  QueueStats,
+  QueueWithStats,
+} from "@shared/schema";
+import { storage, type ExtensionCallActivityRow } from "./storage";
+import { CallStateError, isTerminalStatus } from "./call-state";
+import { isExtensionAvailable } from "./agent-presence";
+
+export interface QueueAgent {
+  memberId: string;
+  extensionId: string;
+  extensionNumber: string;
+  userId: string | null;
+  priority: number;
+  callsToday: number;
+  lastCallEndedAt: Date | null;
+}
+
+type MemberWithExtension = QueueMember & { extension: Extension };
+
+function startOfToday(now: Date = new Date()): Date {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+function toAgent(member: MemberWithExtension, activity?: ExtensionCallActivityRow): QueueAgent {
+  return {
+    memberId: member.id,
+    extensionId: member.extensionId,
+    extensionNumber: member.extension.number,
+    userId: member.extension.userId,
+    priority: member.priority,
+    callsToday: activity?.callsAnswered ?? 0,
+    lastCallEndedAt: activity?.lastCallEndedAt ?? null,
+  };
+}
+
+// Presence covers status, breaks and wrap-up; active calls also catch
+// calls the presence has not caught up with yet
+function isMemberAvailable(member: MemberWithExtension, activity?: ExtensionCallActivityRow): boolean {
+  return !member.isPaused && isExtensionAvailable(member.extension) && !(activity?.activeCalls);
+}
+
+/**
+ * Order available agents by the queue strategy (pure; priority breaks ties)
+ */
+export function orderQueueAgents(queue: Pick<Queue, "strategy" | "lastMemberId">, agents: QueueAgent[]): QueueAgent[] {
+  const byPriority = [...agents].sort((a, b) => a.priority - b.priority);
+
+  switch (queue.strategy) {
+    case "round_robin": {
+      const last = byPriority.findIndex((agent) => agent.memberId === queue.lastMemberId);
+      return [...byPriority.slice(last + 1), ...byPriority.slice(0, last + 1)];
+    }
+
+    case "longest_idle":
+      return byPriority.sort((a, b) => {
+        const aIdle = a.lastCallEndedAt?.getTime() ?? 0;
+        const bIdle = b.lastCallEndedAt?.getTime() ?? 0;
+        return aIdle - bIdle || a.priority - b.priority;
+      });
+
+    case "least_calls":
+      return byPriority.sort((a, b) => a.callsToday - b.callsToday || a.priority - b.priority);
+
+    case "ring_all":
+    default:
+      return byPriority;
+  }
+}
+
+/**
+ * Available agents of `queue` in strategy order
+ */
+export async function getAvailableQueueAgents(queue: Queue): Promise<QueueAgent[]> {
+  const [members, activity] = await Promise.all([
+    storage.getQueueMembers(queue.tenantId, queue.id),
+    storage.getExtensionCallActivity(queue.tenantId, startOfToday()),
+  ]);
+  const activityByExtension = new Map(activity.map((row) => [row.extensionId, row]));
+
+  const available = members
+    .filter((member) => isMemberAvailable(member, activityByExtension.get(member.extensionId)))
+    .map((member) => toAgent(member, activityByExtension.get(member.extensionId)));
+
+  return orderQueueAgents(queue, available);
+}
+
+/**
+ * Agents to ring for the next offer of a queued call. `excludeExtensionIds`
+ * are agents already tried for this call; once everybody was tried the
+ * rotation starts again. Advances the round-robin cursor.
+ */
+export async function selectQueueAgents(
+  queue: Queue,
+  excludeExtensionIds: string[] = [],
+): Promise<QueueAgent[]> {
+  const available = await getAvailableQueueAgents(queue);
+  const untried = available.filter((agent) => !excludeExtensionIds.includes(agent.extensionId));
+  const candidates = untried.length > 0 ? untried : available;
+
+  if (candidates.length === 0) return [];
+  if (queue.strategy === "ring_all") return candidates;
+
+  const [next] = candidates;
+  if (queue.strategy === "round_robin") {
+    await storage.setQueueRoundRobinCursor(queue.id, next.memberId);
+  }
+  return [next];
+}
+
+export function hasExceededMaxWait(conversation: Conversation, queue: Queue, now: Date = new Date()): boolean {
+  if (!conversation.queuedAt) return false;
+  return now.getTime() - new Date(conversation.queuedAt).getTime() >= queue.maxWaitSec * 1000;
+}
+
+/**
+ * Put a call in `queue` (or restart its wait after moving between queues)
+ */
+export async function enqueueConversation(
+  conversation: Conversation,
+  queue: Queue,
+  userId?: string,
+): Promise<Conversation> {
+  if (isTerminalStatus(conversation.status)) {
+    throw new CallStateError("Cannot queue a call that has ended", 409, "CALL_ALREADY_ENDED");
+  }
+  if (conversation.queueId === queue.id && conversation.queuedAt) {
+    return conversation;
+  }
+
+  const updated = await storage.transitionConversation(
+    conversation.id,
+    conversation.status,
+    { queueId: queue.id, queuedAt: new Date() },
+    {
+      tenantId: conversation.tenantId,
+      conversationId: conversation.id,
+      userId,
+      type: "queued",
+      fromStatus: conversation.status,
+      toStatus: conversation.status,
+      metadata: { queueId: queue.id, queue: queue.name, fromQueueId: conversation.queueId },
+    },
+  );
+  if (!updated) {
+    throw new CallStateError("Call state changed concurrently, please retry", 409, "CALL_STATE_CONFLICT");
+  }
+  return updated;
+}
+
+/**
+ * Take an unanswered call out of its queue (max wait exceeded)
+ */
+export async function overflowConversation(conversation: Conversation, queue: Queue): Promise<Conversation> {
+  const waitedSec = conversation.queuedAt
+    ? Math.round((Date.now() - new Date(conversation.queuedAt).getTime()) / 1000)
+    : 0;
+
+  const updated = await storage.transitionConversation(
+    conversation.id,
+    conversation.status,
+    { queuedAt: null },
+    {
+      tenantId: conversation.tenantId,
+      conversationId: conversation.id,
+      type: "queue_overflow",
+      fromStatus: conversation.status,
+      toStatus: conversation.status,
+      metadata: { queueId: queue.id, queue: queue.name, waitedSec, overflowTarget: queue.overflowTarget },
+    },
+  );
+  return updated ?? conversation;
+}
+
+/**
+ * All queues of a tenant with their live numbers
+ */
+export async function getQueuesWithStats(tenantId: string): Promise<QueueWithStats[]> {
+  const [queueList, callStats, members, activity] = await Promise.all([
+    storage.getQueues(tenantId),
+    storage.getQueueCallStats(tenantId, startOfToday()),
+    storage.getQueueMembers(tenantId),
+    storage.getExtensionCallActivity(tenantId, startOfToday()),
+  ]);
+  const activityByExtension = new Map(activity.map((row) => [row.extensionId, row]));
+
+  return queueList.map((queue) => {
+    const calls = callStats.find((row) => row.queueId === queue.id);
+    const queueMembersList = members.filter((member) => member.queueId === queue.id);
+
+    const stats: QueueStats = {
+      waiting: calls?.waiting ?? 0,
+      avgWaitSec: calls?.avgWaitSec ?? 0,
+      longestWaitSec: calls?.longestWaitSec ?? 0,
+      answeredToday: calls?.answered ?? 0,
+      memberCount: queueMembersList.length,
+      availableMembers: queueMembersList.filter((member) =>
+        isMemberAvailable(member, activityByExtension.get(member.extensionId)),
+      ).length,
+    };
+
+    return { ...queue, ...stats };
+  });
+}
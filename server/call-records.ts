@@ -0,0 +1,95 @@
+/**
+ * Call detail records (CDRs)
+ *
+ * Every conversation that reaches a terminal state gets exactly one
+ * call_records row, which feeds the dashboard stats, consumption and
+ * advanced metrics. Cost comes from the tenant plan's CALL_RATES:
+ *   billable seconds (answered time rounded up to the plan's increment)
+ *   x per-minute rate of the call type, plus the AI rate when an AI
+ *   assistant took part in the call.
+ */
+
+import {
+  CALL_RATES,
+  type CallRateTable,
+  type CallRecord,
+  type Conversation,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { isTerminalStatus } from "./call-state";
+
+export type CallRecordType = CallRecord["callType"];
+
+export function billableSeconds(durationSec: number, incrementSec: number): number {
+  if (durationSec <= 0) return 0;
+  const increment = Math.max(1, incrementSec);
+  return Math.ceil(durationSec / increment) * increment;
+}
+
+/**
+ * Cost in USD, rounded to the column's 4 decimals (pure)
+ */
+export function computeCallCost(
+  rates: CallRateTable,
+  callType: CallRecordType,
+  billableSec: number,
+  aiSec: number = 0,
+): number {
+  const cost = (billableSec / 60) * rates.perMinute[callType] + (aiSec / 60) * rates.aiPerMinute;
+  return Math.round(cost * 10_000) / 10_000;
+}
+
+/**
+ * Outbound calls to one of the tenant's own extensions are internal
+ */
+async function resolveCallType(conversation: Conversation): Promise<CallRecordType> {
+  if (conversation.direction === "inbound") return "incoming";
+  if (!conversation.phoneNumber) return "outgoing";
+
+  const extensionList = await storage.getExtensionsByTenant(conversation.tenantId);
+  return extensionList.some((extension) => extension.number === conversation.phoneNumber)
+    ? "internal"
+    : "outgoing";
+}
+
+async function resolveExtensionId(conversation: Conversation): Promise<string | null> {
+  if (conversation.extensionId) return conversation.extensionId;
+  if (!conversation.userId) return null;
+  const extension = await storage.getExtensionForUser(conversation.tenantId, conversation.userId);
+  return extension?.id ?? null;
+}
+
+/**
+ * Write the CDR of an ended conversation. Returns null while the call is
+ * still up or when its record already exists.
+ */
+export async function recordCallDetail(conversation: Conversation): Promise<CallRecord | null> {
+  if (!isTerminalStatus(conversation.status)) return null;
+
+  const tenant = await storage.getTenant(conversation.tenantId);
+  if (!tenant) return null;
+
+  const rates = CALL_RATES[tenant.plan];
+  const duration = conversation.answeredAt ? conversation.duration ?? 0 : 0;
+  const billableSec = billableSeconds(duration, rates.billingIncrementSec);
+  const [callType, extensionId, aiProcessed] = await Promise.all([
+    resolveCallType(conversation),
+    resolveExtensionId(conversation),
+    storage.hasAiMessages(conversation.id),
+  ]);
+  const aiDuration = aiProcessed ? billableSec : 0;
+
+  const record = await storage.createCallRecord({
+    tenantId: conversation.tenantId,
+    conversationId: conversation.id,
+    extensionId,
+    duration,
+    billableSec,
+    callType,
+    aiProcessed,
+    aiDuration,
+    cost: computeCallCost(rates, callType, billableSec, aiDuration).toFixed(4),
+    createdAt: conversation.endedAt ?? new Date(),
+  });
+  return record ?? null;
+}
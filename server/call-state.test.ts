@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Conversation } from "@shared/schema";
+import { storage } from "./storage";
+import { applyCallAction, CallStateError, resolveCallTransition } from "./call-state";
+
+const START = new Date("2030-01-07T10:00:00Z");
+
+function at(seconds: number): Date {
+  return new Date(START.getTime() + seconds * 1000);
+}
+
+function call(overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    id: "conversation-1",
+    tenantId: "tenant-1",
+    channel: "voice",
+    callId: "CA1",
+    direction: "inbound",
+    status: "ringing",
+    isMuted: false,
+    isOnHold: false,
+    startedAt: START,
+    answeredAt: null,
+    heldAt: null,
+    mutedAt: null,
+    endedAt: null,
+    duration: 0,
+    holdDuration: 0,
+    missedAt: null,
+    ...overrides,
+  } as Conversation;
+}
+
+// Apply `action` to `conversation` in memory, as storage would persist it
+function step(conversation: Conversation, action: Parameters<typeof resolveCallTransition>[1], now: Date) {
+  return { ...conversation, ...resolveCallTransition(conversation, action, now) } as Conversation;
+}
+
+describe("resolveCallTransition", () => {
+  it("answers a ringing call", () => {
+    expect(resolveCallTransition(call(), "answer", at(5))).toEqual({ status: "answered", answeredAt: at(5) });
+  });
+
+  it("rejects answering a call that is not ringing", () => {
+    expect(() => resolveCallTransition(call({ status: "answered" }), "answer")).toThrow(CallStateError);
+  });
+
+  it("keeps hold and mute as independent flags, held winning the status", () => {
+    let current = step(call(), "answer", at(0));
+    current = step(current, "mute", at(10));
+    current = step(current, "hold", at(20));
+    expect(current).toMatchObject({ status: "held", isMuted: true, isOnHold: true });
+
+    current = step(current, "resume", at(50));
+    expect(current).toMatchObject({ status: "muted", isOnHold: false, holdDuration: 30 });
+  });
+
+  it("treats repeated hold, mute and hangup as no-ops", () => {
+    const held = call({ status: "held", isOnHold: true, answeredAt: at(0), heldAt: at(1) });
+    expect(resolveCallTransition(held, "hold")).toBeNull();
+    expect(resolveCallTransition(call({ status: "muted", isMuted: true, answeredAt: at(0) }), "mute")).toBeNull();
+    expect(resolveCallTransition(call({ status: "ended", endedAt: at(9) }), "hangup")).toBeNull();
+  });
+
+  it("refuses any other action on an ended call", () => {
+    try {
+      resolveCallTransition(call({ status: "ended" }), "hold");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(CallStateError);
+      expect((error as CallStateError).code).toBe("CALL_ALREADY_ENDED");
+    }
+  });
+
+  it("marks an inbound call hung up while ringing as missed", () => {
+    expect(resolveCallTransition(call(), "hangup", at(20))).toMatchObject({
+      status: "ended",
+      missedAt: at(20),
+      duration: 0,
+    });
+  });
+
+  it("counts talk time from the answer and closes an open hold window", () => {
+    const held = call({ status: "held", isOnHold: true, answeredAt: at(0), heldAt: at(40) });
+    expect(resolveCallTransition(held, "hangup", at(60))).toMatchObject({
+      status: "ended",
+      duration: 60,
+      holdDuration: 20,
+      isOnHold: false,
+      heldAt: null,
+    });
+  });
+
+  it("records the failure reason", () => {
+    expect(resolveCallTransition(call(), "fail", at(3), "busy")).toMatchObject({
+      status: "failed",
+      failureReason: "busy",
+    });
+  });
+
+  describe("transfers", () => {
+    it("goes back to the connected state when a transfer is cancelled", () => {
+      const held = call({ status: "held", isOnHold: true, answeredAt: at(0) });
+      const cancelled = step(step(held, "transfer", at(5)), "transfer_cancel", at(6));
+      expect(cancelled.status).toBe("held");
+    });
+
+    it("rings the transfer target without ending the call or counting it as missed", () => {
+      let current = step(call(), "answer", at(0));
+      current = step(current, "transfer", at(30));
+      current = step(current, "transfer_offer", at(35));
+      expect(current).toMatchObject({ status: "ringing", duration: 35, answeredAt: at(0) });
+
+      // The target picks up: a new leg
+      current = step(current, "answer", at(50));
+      current = step(current, "hangup", at(80));
+      expect(current).toMatchObject({ status: "ended", duration: 65, missedAt: null });
+    });
+
+    it("only completes or offers a call that is being transferred", () => {
+      expect(() => resolveCallTransition(call({ status: "answered" }), "transfer_offer")).toThrow(CallStateError);
+      expect(() => resolveCallTransition(call({ status: "answered" }), "transfer_complete")).toThrow(CallStateError);
+    });
+  });
+});
+
+describe("applyCallAction", () => {
+  it("persists the transition with its timeline event", async () => {
+    vi.spyOn(storage, "getConversation").mockResolvedValue(call());
+    const transition = vi
+      .spyOn(storage, "transitionConversation")
+      .mockImplementation(async (_id, _from, data) => call(data));
+
+    const result = await applyCallAction("conversation-1", "tenant-1", "answer", {
+      userId: "user-1",
+      data: { extensionId: "extension-1" },
+    });
+
+    expect(result.changed).toBe(true);
+    expect(result.conversation).toMatchObject({ status: "answered", extensionId: "extension-1" });
+    expect(transition).toHaveBeenCalledWith(
+      "conversation-1",
+      "ringing",
+      expect.objectContaining({ status: "answered", extensionId: "extension-1" }),
+      expect.objectContaining({ type: "answer", fromStatus: "ringing", toStatus: "answered", userId: "user-1" }),
+    );
+  });
+
+  it("skips persistence for no-ops", async () => {
+    vi.spyOn(storage, "getConversation").mockResolvedValue(call({ status: "ended" }));
+    const transition = vi.spyOn(storage, "transitionConversation");
+
+    const result = await applyCallAction("conversation-1", "tenant-1", "hangup");
+    expect(result.changed).toBe(false);
+    expect(transition).not.toHaveBeenCalled();
+  });
+
+  it("reports a concurrent change as a conflict", async () => {
+    vi.spyOn(storage, "getConversation").mockResolvedValue(call());
+    vi.spyOn(storage, "transitionConversation").mockResolvedValue(undefined);
+
+    await expect(applyCallAction("conversation-1", "tenant-1", "answer")).rejects.toMatchObject({
+      code: "CALL_STATE_CONFLICT",
+      status: 409,
+    });
+  });
+
+  it("refuses conversations that are not calls", async () => {
+    vi.spyOn(storage, "getConversation").mockResolvedValue(call({ channel: "sms" }));
+    await expect(applyCallAction("conversation-1", "tenant-1", "answer")).rejects.toMatchObject({ code: "NOT_A_CALL" });
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Call state machine for softphone conversations
+ *
+ * States: ringing → answered ⇄ held / muted → transferring → ended | failed
+ *
+ * A transfer to an extension or queue rings again (transferring → ringing)
+ * until the target answers. `answeredAt` is when the current leg was
+ * answered (set while ringing, so the call never counts as missed) and
+ * talk time adds up across the legs in `duration`.
+ *
+ * Hold and mute are persisted as independent flags (a held call can also be
+ * muted); `status` reflects the dominant one (held > muted > answered).
+ * Every accepted transition writes a `conversation_events` timeline row.
+ */
+
+import type { Conversation, InsertConversation } from "@shared/schema";
+import { storage } from "./storage";
+
+export type CallStatus = Conversation["status"];
+
+export type CallAction =
+  | "answer"
+  | "hold"
+  | "resume"
+  | "mute"
+  | "unmute"
+  | "transfer"
+  | "transfer_complete"
+  | "transfer_offer"
+  | "transfer_cancel"
+  | "hangup"
+  | "fail";
+
+export const TERMINAL_CALL_STATUSES: CallStatus[] = ["ended", "failed"];
+
+// "active" is the legacy name for an answered call
+const IN_CALL_STATUSES: CallStatus[] = ["active", "answered", "held", "muted"];
+
+export class CallStateError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: string,
+  ) {
+    super(message);
+    this.name = "CallStateError";
+  }
+}
+
+export interface CallActionOptions {
+  userId?: string;
+  reason?: string;
+  metadata?: Record<string, any>;
+  // Extra conversation fields persisted together with the transition
+  data?: Partial<Conversation>;
+}
+
+export interface CallActionResult {
+  conversation: Conversation;
+  // false when the action was a no-op (e.g. muting an already muted call)
+  changed: boolean;
+}
+
+export function isTerminalStatus(status: CallStatus): boolean {
+  return TERMINAL_CALL_STATUSES.includes(status);
+}
+
+function connectedStatus(isOnHold: boolean, isMuted: boolean): CallStatus {
+  if (isOnHold) return "held";
+  if (isMuted) return "muted";
+  return "answered";
+}
+
+function secondsBetween(from: Date | null | undefined, to: Date): number {
+  if (!from) return 0;
+  return Math.max(0, Math.round((to.getTime() - new Date(from).getTime()) / 1000));
+}
+
+/**
+ * Compute the field changes for `action` on `conversation`.
+ * Returns null for no-ops; throws CallStateError for invalid transitions.
+ */
+export function resolveCallTransition(
+  conversation: Conversation,
+  action: CallAction,
+  now: Date = new Date(),
+  reason?: string,
+): Partial<Conversation> | null {
+  const { status, isMuted, isOnHold } = conversation;
+
+  if (isTerminalStatus(status)) {
+    // Hanging up twice is harmless (both sides of the call may report it)
+    if (action === "hangup" || action === "fail") return null;
+    throw new CallStateError(
+      `Cannot ${action} a call that is already ${status}`,
+      409,
+      "CALL_ALREADY_ENDED",
+    );
+  }
+
+  const inCall = IN_CALL_STATUSES.includes(status);
+
+  // An inbound call that ends before anybody answered is a missed call
+  const missed = (): Partial<Conversation> =>
+    conversation.direction === "inbound" && !conversation.answeredAt ? { missedAt: now } : {};
+  const invalid = () =>
+    new CallStateError(
+      `Invalid call transition: ${action} while ${status}`,
+      409,
+      "INVALID_CALL_TRANSITION",
+    );
+
+  // Connected time of earlier legs plus the current one (none while ringing)
+  const talkTime = () =>
+    (conversation.duration || 0) + (status === "ringing" ? 0 : secondsBetween(conversation.answeredAt, now));
+
+  // Closing the hold/mute windows when the call finishes
+  const closeWindows = (): Partial<Conversation> => ({
+    isOnHold: false,
+    isMuted: false,
+    heldAt: null,
+    mutedAt: null,
+    holdDuration: (conversation.holdDuration || 0) + (isOnHold ? secondsBetween(conversation.heldAt, now) : 0),
+  });
+
+  switch (action) {
+    case "answer":
+      if (status !== "ringing") throw invalid();
+      return { status: "answered", answeredAt: now };
+
+    case "hold":
+      if (!inCall) throw invalid();
+      if (isOnHold) return null;
+      return { status: "held", isOnHold: true, heldAt: now };
+
+    case "resume":
+      if (!inCall) throw invalid();
+      if (!isOnHold) return null;
+      return {
+        status: connectedStatus(false, isMuted),
+        isOnHold: false,
+        heldAt: null,
+        holdDuration: (conversation.holdDuration || 0) + secondsBetween(conversation.heldAt, now),
+      };
+
+    case "mute":
+      if (!inCall) throw invalid();
+      if (isMuted) return null;
+      return { status: connectedStatus(isOnHold, true), isMuted: true, mutedAt: now };
+
+    case "unmute":
+      if (!inCall) throw invalid();
+      if (!isMuted) return null;
+      return { status: connectedStatus(isOnHold, false), isMuted: false, mutedAt: null };
+
+    case "transfer":
+      if (!inCall) throw invalid();
+      return { status: "transferring" };
+
+    case "transfer_complete":
+      if (status !== "transferring") throw invalid();
+      // The caller is now connected to the transfer target
+      return { ...closeWindows(), status: "answered" };
+
+    case "transfer_offer":
+      if (status !== "transferring") throw invalid();
+      // The caller waits while the target rings
+      return { ...closeWindows(), status: "ringing", duration: talkTime() };
+
+    case "transfer_cancel":
+      if (status !== "transferring") throw invalid();
+      return { status: connectedStatus(isOnHold, isMuted) };
+
+    case "hangup":
+      return {
+        ...closeWindows(),
+        ...missed(),
+        status: "ended",
+        endedAt: now,
+        duration: talkTime(),
+      };
+
+    case "fail":
+      return {
+        ...closeWindows(),
+        ...missed(),
+        status: "failed",
+        endedAt: now,
+        duration: talkTime(),
+        failureReason: reason || "unknown",
+      };
+  }
+}
+
+/**
+ * Create a ringing call and its first timeline entry
+ */
+export async function startCall(
+  data: InsertConversation & { tenantId: string },
+  options: CallActionOptions = {},
+): Promise<Conversation> {
+  const conversation = await storage.createConversation({ ...data, status: "ringing" });
+
+  await storage.createConversationEvent({
+    tenantId: conversation.tenantId,
+    conversationId: conversation.id,
+    userId: options.userId,
+    type: "created",
+    fromStatus: null,
+    toStatus: "ringing",
+    metadata: options.metadata,
+  });
+
+  return conversation;
+}
+
+/**
+ * Validate and persist a call action, writing the timeline entry
+ */
+export async function applyCallAction(
+  conversationId: string,
+  tenantId: string,
+  action: CallAction,
+  options: CallActionOptions = {},
+): Promise<CallActionResult> {
+  const conversation = await storage.getConversation(conversationId, tenantId);
+  if (!conversation) {
+    throw new CallStateError("Conversation not found", 404, "CALL_NOT_FOUND");
+  }
+  if (conversation.channel !== "voice") {
+    throw new CallStateError(`Not a call (${conversation.channel} conversation)`, 409, "NOT_A_CALL");
+  }
+
+  const now = new Date();
+  const changes = resolveCallTransition(conversation, action, now, options.reason);
+  if (!changes) {
+    return { conversation, changed: false };
+  }
+
+  const updated = await storage.transitionConversation(
+    conversationId,
+    conversation.status,
+    { ...changes, ...options.data },
+    {
+      tenantId,
+      conversationId,
+      userId: options.userId,
+      type: action,
+      fromStatus: conversation.status,
+      toStatus: changes.status ?? conversation.status,
+      metadata: {
+        ...options.metadata,
+        ...(options.reason ? { reason: options.reason } : {}),
+      },
+    },
+  );
+
+  if (!updated) {
+    throw new CallStateError(
+      "Call state changed concurrently, please retry",
+      409,
+      "CALL_STATE_CONFLICT",
+    );
+  }
+
+  return { conversation: updated, changed: true };
+}
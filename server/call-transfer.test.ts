@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Conversation, Extension, Queue } from "@shared/schema";
+import { storage } from "./storage";
+import { offerInboundCall } from "./inbound-calls";
+import { completeTransfer, resolveTransferTarget, startTransfer } from "./call-transfer";
+
+vi.mock("./inbound-calls", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./inbound-calls")>()),
+  offerInboundCall: vi.fn(),
+}));
+
+function extension(overrides: Partial<Extension> = {}): Extension {
+  return {
+    id: "extension-101",
+    tenantId: "tenant-1",
+    userId: "user-101",
+    number: "101",
+    status: "ACTIVE",
+    presence: "available",
+    lastSeenAt: null,
+    wrapUpUntil: null,
+    ...overrides,
+  } as Extension;
+}
+
+const SUPPORT = { id: "queue-1", tenantId: "tenant-1", name: "Soporte" } as Queue;
+
+let current: Conversation;
+
+// Storage holding a single answered call, persisting transitions in memory
+beforeEach(() => {
+  current = {
+    id: "conversation-1",
+    tenantId: "tenant-1",
+    channel: "voice",
+    direction: "inbound",
+    status: "answered",
+    isMuted: false,
+    isOnHold: false,
+    startedAt: new Date(Date.now() - 60_000),
+    answeredAt: new Date(Date.now() - 50_000),
+    duration: 0,
+    holdDuration: 0,
+    userId: "user-100",
+    extensionId: "extension-100",
+    transferChain: [],
+    pendingTransfer: null,
+  } as unknown as Conversation;
+
+  vi.spyOn(storage, "getExtensionsByTenant").mockResolvedValue([extension(), extension({ id: "extension-100", number: "100" })]);
+  vi.spyOn(storage, "getQueues").mockResolvedValue([SUPPORT]);
+  vi.spyOn(storage, "getConversation").mockImplementation(async () => current);
+  vi.spyOn(storage, "transitionConversation").mockImplementation(async (_id, _from, data) => {
+    current = { ...current, ...data } as Conversation;
+    return current;
+  });
+  vi.mocked(offerInboundCall).mockImplementation(async (conversation) => conversation);
+});
+
+describe("resolveTransferTarget", () => {
+  it("matches extension numbers, queue names and external numbers in that order", async () => {
+    expect(await resolveTransferTarget("tenant-1", " 101 ")).toMatchObject({
+      targetType: "extension",
+      extensionId: "extension-101",
+      toUserId: "user-101",
+    });
+    expect(await resolveTransferTarget("tenant-1", "soporte")).toMatchObject({ targetType: "queue", queueId: "queue-1" });
+    expect(await resolveTransferTarget("tenant-1", "+34 910-000-000")).toMatchObject({
+      targetType: "external",
+      target: "+34910000000",
+    });
+  });
+
+  it("refuses extensions that cannot take the call", async () => {
+    vi.spyOn(storage, "getExtensionsByTenant").mockResolvedValue([extension({ presence: "busy" })]);
+    await expect(resolveTransferTarget("tenant-1", "101")).rejects.toMatchObject({ code: "TRANSFER_TARGET_UNAVAILABLE" });
+  });
+
+  it("refuses unknown targets and targets of another type", async () => {
+    await expect(resolveTransferTarget("tenant-1", "Ventas")).rejects.toMatchObject({ code: "INVALID_TRANSFER_TARGET" });
+    await expect(resolveTransferTarget("tenant-1", "101", "queue")).rejects.toMatchObject({ code: "INVALID_TRANSFER_TARGET" });
+  });
+});
+
+describe("startTransfer", () => {
+  it("rings the queue of a blind transfer instead of answering the call", async () => {
+    const { completed } = await startTransfer("conversation-1", "tenant-1", { to: "Soporte" }, "user-100");
+
+    expect(offerInboundCall).toHaveBeenCalledWith(expect.objectContaining({ status: "ringing" }), "queue-1");
+    expect(completed?.conversation).toMatchObject({ status: "ringing", userId: null, extensionId: null, pendingTransfer: null });
+    expect(current.transferChain).toEqual([
+      expect.objectContaining({ mode: "blind", targetType: "queue", fromUserId: "user-100", completedAt: expect.any(String) }),
+    ]);
+  });
+
+  it("keeps a call transferred to an external number answered", async () => {
+    const { completed } = await startTransfer("conversation-1", "tenant-1", { to: "+34910000000" });
+    expect(completed?.conversation.status).toBe("answered");
+    expect(offerInboundCall).not.toHaveBeenCalled();
+  });
+
+  it("holds an attended transfer until it is completed", async () => {
+    const { started, completed } = await startTransfer("conversation-1", "tenant-1", { to: "101", mode: "attended" });
+    expect(completed).toBeUndefined();
+    expect(started.conversation).toMatchObject({ status: "transferring", pendingTransfer: { target: "101" } });
+
+    await completeTransfer("conversation-1", "tenant-1");
+    expect(offerInboundCall).toHaveBeenCalledWith(expect.anything(), "101");
+    expect(current.status).toBe("ringing");
+  });
+
+  it("refuses to transfer a call to its own extension", async () => {
+    await expect(startTransfer("conversation-1", "tenant-1", { to: "100" })).rejects.toMatchObject({
+      code: "INVALID_TRANSFER_TARGET",
+    });
+  });
+
+  it("has nothing to complete without a pending transfer", async () => {
+    await expect(completeTransfer("conversation-1", "tenant-1")).rejects.toMatchObject({ status: 409 });
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Call transfer (blind and attended) on top of the call state machine
+ *
+ * Blind: the call is handed to the target immediately.
+ * Attended: the call waits in "transferring" (caller on hold) while the agent
+ * consults the target, then the agent completes or cancels the transfer.
+ *
+ * Handing over to an extension or queue rings it like an inbound call
+ * (./inbound-calls.ts): queue targets are queued and offered to their
+ * agents, extensions ring and fall back to their voicemail. The call is
+ * answered again only when the target picks up. External numbers are
+ * bridged by the PBX, so those calls stay answered.
+ *
+ * Targets are a tenant extension number, a tenant queue (id or name) or an
+ * external phone number; extension targets must be available (agent
+ * presence). Completed transfers reassign the conversation and
+ * are appended to `conversations.transferChain` for reporting.
+ */
+
+import type {
+  Conversation,
+  TransferChainEntry,
+  TransferTargetType,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { applyCallAction, CallStateError, type CallActionResult } from "./call-state";
+import { resolvePresence } from "./agent-presence";
+import { offerInboundCall } from "./inbound-calls";
+
+export type TransferMode = TransferChainEntry["mode"];
+
+export interface ResolvedTransferTarget {
+  targetType: TransferTargetType;
+  target: string;
+  extensionId: string | null;
+  queueId: string | null;
+  toUserId: string | null;
+}
+
+const EXTERNAL_NUMBER_PATTERN = /^\+?[0-9]{6,15}$/;
+
+function normalizeNumber(value: string): string {
+  return value.replace(/[\s\-().]/g, "");
+}
+
+/**
+ * Match a transfer request against the tenant's extensions and queues.
+ * Without an explicit type: extension number, then queue, then external.
+ */
+export async function resolveTransferTarget(
+  tenantId: string,
+  to: string,
+  type?: TransferTargetType,
+): Promise<ResolvedTransferTarget> {
+  const raw = String(to).trim();
+  const number = normalizeNumber(raw);
+
+  if (!type || type === "extension") {
+    const extensions = await storage.getExtensionsByTenant(tenantId);
+    const extension = extensions.find((ext) => ext.number === number);
+
+    if (extension) {
+      if (extension.status !== "ACTIVE") {
+        throw new CallStateError(
+          `Extension ${extension.number} is inactive`,
+          400,
+          "TRANSFER_TARGET_UNAVAILABLE",
+        );
+      }
+      const presence = resolvePresence(extension);
+      if (presence !== "available") {
+        throw new CallStateError(
+          `Extension ${extension.number} is not available (${presence})`,
+          400,
+          "TRANSFER_TARGET_UNAVAILABLE",
+        );
+      }
+      return {
+        targetType: "extension",
+        target: extension.number,
+        extensionId: extension.id,
+        queueId: null,
+        toUserId: extension.userId,
+      };
+    }
+  }
+
+  if (!type || type === "queue") {
+    const queues = await storage.getQueues(tenantId);
+    const queue = queues.find(
+      (q) => q.id === raw || q.name.toLowerCase() === raw.toLowerCase(),
+    );
+
+    if (queue) {
+      return {
+        targetType: "queue",
+        target: queue.name,
+        extensionId: null,
+        queueId: queue.id,
+        toUserId: null,
+      };
+    }
+  }
+
+  if ((!type || type === "external") && EXTERNAL_NUMBER_PATTERN.test(number)) {
+    return {
+      targetType: "external",
+      target: number,
+      extensionId: null,
+      queueId: null,
+      toUserId: null,
+    };
+  }
+
+  throw new CallStateError(
+    `Transfer target not found: ${raw}`,
+    400,
+    "INVALID_TRANSFER_TARGET",
+  );
+}
+
+function buildEntry(
+  conversation: Conversation,
+  target: ResolvedTransferTarget,
+  mode: TransferMode,
+  userId?: string,
+): TransferChainEntry {
+  return {
+    mode,
+    ...target,
+    fromUserId: userId ?? conversation.userId,
+    fromExtensionId: conversation.extensionId,
+    requestedAt: new Date().toISOString(),
+  };
+}
+
+async function finishTransfer(
+  conversation: Conversation,
+  entry: TransferChainEntry,
+  userId?: string,
+): Promise<CallActionResult> {
+  const completed: TransferChainEntry = {
+    ...entry,
+    completedAt: new Date().toISOString(),
+  };
+  const transferChain = [...(conversation.transferChain || []), completed];
+
+  if (entry.targetType === "external") {
+    return applyCallAction(conversation.id, conversation.tenantId, "transfer_complete", {
+      userId,
+      metadata: { ...completed },
+      data: { extensionId: null, userId: null, queueId: null, pendingTransfer: null, transferChain },
+    });
+  }
+
+  // Unassigned and out of any earlier queue until the offer picks an agent
+  const ringing = await applyCallAction(conversation.id, conversation.tenantId, "transfer_offer", {
+    userId,
+    metadata: { ...completed },
+    data: { extensionId: null, userId: null, queueId: null, queuedAt: null, pendingTransfer: null, transferChain },
+  });
+
+  const offered = await offerInboundCall(
+    ringing.conversation,
+    entry.targetType === "queue" ? entry.queueId! : entry.target,
+  );
+  return { conversation: offered, changed: true };
+}
+
+/**
+ * Start a transfer. Blind transfers complete immediately; attended ones stay
+ * pending until completeTransfer/cancelTransfer.
+ */
+export async function startTransfer(
+  conversationId: string,
+  tenantId: string,
+  request: { to: string; type?: TransferTargetType; mode?: TransferMode },
+  userId?: string,
+): Promise<{ started: CallActionResult; completed?: CallActionResult }> {
+  const conversation = await storage.getConversation(conversationId, tenantId);
+  if (!conversation) {
+    throw new CallStateError("Conversation not found", 404, "CALL_NOT_FOUND");
+  }
+
+  const mode: TransferMode = request.mode === "attended" ? "attended" : "blind";
+  const target = await resolveTransferTarget(tenantId, request.to, request.type);
+
+  if (target.extensionId && target.extensionId === conversation.extensionId) {
+    throw new CallStateError(
+      "Cannot transfer a call to its current extension",
+      400,
+      "INVALID_TRANSFER_TARGET",
+    );
+  }
+
+  const entry = buildEntry(conversation, target, mode, userId);
+
+  const started = await applyCallAction(conversationId, tenantId, "transfer", {
+    userId,
+    metadata: { ...entry },
+    data: { pendingTransfer: entry },
+  });
+
+  if (mode === "attended") {
+    return { started };
+  }
+
+  const completed = await finishTransfer(started.conversation, entry, userId);
+  return { started, completed };
+}
+
+export async function completeTransfer(
+  conversationId: string,
+  tenantId: string,
+  userId?: string,
+): Promise<CallActionResult> {
+  const conversation = await storage.getConversation(conversationId, tenantId);
+  if (!conversation) {
+    throw new CallStateError("Conversation not found", 404, "CALL_NOT_FOUND");
+  }
+  if (conversation.status !== "transferring" || !conversation.pendingTransfer) {
+    throw new CallStateError(
+      "No pending transfer for this call",
+      409,
+      "NO_PENDING_TRANSFER",
+    );
+  }
+
+  return finishTransfer(conversation, conversation.pendingTransfer, userId);
+}
+
+export async function cancelTransfer(
+  conversationId: string,
+  tenantId: string,
+  userId?: string,
+): Promise<CallActionResult> {
+  const conversation = await storage.getConversation(conversationId, tenantId);
+  if (!conversation) {
+    throw new CallStateError("Conversation not found", 404, "CALL_NOT_FOUND");
+  }
+
+  return applyCallAction(conversationId, tenantId, "transfer_cancel", {
+    userId,
+    metadata: conversation.pendingTransfer ? { ...conversation.pendingTransfer } : undefined,
+    data: { pendingTransfer: null },
+  });
+}
@@ -0,0 +1,314 @@
+/**
+ * Inbound calls rung on agents' softphones
+ *
+ * An inbound call (PBX webhook or API) targets an extension or a queue and
+ * rings one extension at a time. The conversation is assigned to the agent
+ * being rung, so it shows up as their ringing softphone call. An offer
+ * lasts the ring timeout (the queue's ringTimeoutSec, EXTENSION_RING_SEC
+ * for direct calls); rejecting it moves on right away:
+ *   extension  → voicemail
+ *   queue      → the next available agent in strategy order
+ *                (./call-queue.ts), until maxWaitSec sends the call to the
+ *                queue's overflow target, or voicemail when there is none
+ *
+ * Voicemail ends the call unanswered, which marks it missed (`missedAt`,
+ * see ./call-state.ts) for the inbox, and leaves the message in the box of
+ * the extension the call belongs to (./voicemail).
+ *
+ * Ring timers are in-process: a call left ringing by a restart stays with
+ * its last agent until it is answered or the PBX reports the hangup.
+ */
+
+import type { Conversation, Extension, Queue } from "@shared/schema";
+import { storage } from "./storage";
+import { applyCallAction, CallStateError, startCall } from "./call-state";
+import { enqueueConversation, hasExceededMaxWait, overflowConversation, selectQueueAgents } from "./call-queue";
+import { isExtensionAvailable, releaseAgent } from "./agent-presence";
+import { storeVoicemailMessage } from "./voicemail";
+
+export const EXTENSION_RING_SEC = 25;
+
+// Waiting queued callers look for a free agent again this often
+const QUEUE_RETRY_SEC = 10;
+
+export type InboundCallEventType = "call_status" | "ended";
+type InboundCallListener = (type: InboundCallEventType, conversation: Conversation) => void;
+
+export interface InboundCallRequest {
+  tenantId: string;
+  callId: string;
+  from?: string;
+  // Extension number, or queue id / name
+  target: string;
+}
+
+interface Offer {
+  timer: ReturnType<typeof setTimeout>;
+  // Extensions already rung for this call (queue rotation)
+  triedExtensionIds: string[];
+}
+
+const listeners = new Set<InboundCallListener>();
+const offers = new Map<string, Offer>();
+
+export function onInboundCallEvent(listener: InboundCallListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(type: InboundCallEventType, conversation: Conversation): Conversation {
+  listeners.forEach((listener) => listener(type, conversation));
+  return conversation;
+}
+
+async function resolveInboundTarget(
+  tenantId: string,
+  target: string,
+): Promise<{ extension: Extension } | { queue: Queue }> {
+  const raw = String(target).trim();
+
+  const extension = (await storage.getExtensionsByTenant(tenantId)).find((ext) => ext.number === raw);
+  if (extension) return { extension };
+
+  const queue = (await storage.getQueues(tenantId)).find(
+    (q) => q.id === raw || q.name.toLowerCase() === raw.toLowerCase(),
+  );
+  if (queue) return { queue };
+
+  throw new CallStateError(`Inbound target not found: ${raw}`, 404, "INBOUND_TARGET_NOT_FOUND");
+}
+
+/**
+ * Create the ringing conversation of an inbound call and start offering
+ * it. Repeated notifications of the same call return the existing one.
+ */
+export async function ringInboundCall(request: InboundCallRequest): Promise<Conversation> {
+  const existing = await storage.getConversationByCallId(request.tenantId, request.callId);
+  if (existing) return existing;
+
+  const target = await resolveInboundTarget(request.tenantId, request.target);
+  const conversation = await startCall(
+    {
+      tenantId: request.tenantId,
+      callId: request.callId,
+      phoneNumber: request.from,
+      direction: "inbound",
+      status: "ringing",
+    },
+    { metadata: { direction: "inbound", to: request.target } },
+  );
+
+  return offerToTarget(conversation, target);
+}
+
+/**
+ * Start offering a call that is already in progress (answered by an AI
+ * agent) to an extension or queue of its tenant
+ */
+export async function offerInboundCall(conversation: Conversation, target: string): Promise<Conversation> {
+  return offerToTarget(conversation, await resolveInboundTarget(conversation.tenantId, target));
+}
+
+async function offerToTarget(
+  conversation: Conversation,
+  target: { extension: Extension } | { queue: Queue },
+): Promise<Conversation> {
+  if ("extension" in target) {
+    return offerToExtension(conversation, target.extension, EXTENSION_RING_SEC, []);
+  }
+  return offerFromQueue(await enqueueConversation(conversation, target.queue), target.queue, []);
+}
+
+/**
+ * Ring `extension`; busy or unavailable agents skip straight to the next step
+ */
+async function offerToExtension(
+  conversation: Conversation,
+  extension: Extension,
+  ringSec: number,
+  triedExtensionIds: string[],
+): Promise<Conversation> {
+  const busy = extension.userId && await storage.getActiveConversation(extension.tenantId, extension.userId);
+  if (!isExtensionAvailable(extension) || busy) {
+    if (isQueued(conversation)) {
+      return moveOn(conversation, [...triedExtensionIds, extension.id], "unavailable");
+    }
+    // Direct calls still belong to the extension, as its missed call
+    return sendToVoicemail(conversation, "unavailable", { extensionId: extension.id, userId: extension.userId });
+  }
+
+  const offered = await storage.transitionConversation(
+    conversation.id,
+    "ringing",
+    { extensionId: extension.id, userId: extension.userId },
+    {
+      tenantId: conversation.tenantId,
+      conversationId: conversation.id,
+      type: "offered",
+      fromStatus: "ringing",
+      toStatus: "ringing",
+      metadata: { extensionId: extension.id, extension: extension.number, ringSec },
+    },
+  );
+  // Answered or hung up in the meantime
+  if (!offered) return conversation;
+
+  scheduleOffer(offered, [...triedExtensionIds, extension.id], ringSec);
+  return notify("call_status", offered);
+}
+
+async function offerFromQueue(
+  conversation: Conversation,
+  queue: Queue,
+  triedExtensionIds: string[],
+): Promise<Conversation> {
+  if (hasExceededMaxWait(conversation, queue)) {
+    return overflow(await overflowConversation(conversation, queue), queue);
+  }
+
+  // One agent at a time, also for ring_all: the softphone rings a single user
+  const [agent] = await selectQueueAgents(queue, triedExtensionIds);
+  const extension = agent && await storage.getExtension(agent.extensionId, queue.tenantId);
+  if (!extension) {
+    scheduleOffer(conversation, triedExtensionIds, QUEUE_RETRY_SEC);
+    return conversation;
+  }
+  return offerToExtension(conversation, extension, queue.ringTimeoutSec, triedExtensionIds);
+}
+
+async function overflow(conversation: Conversation, queue: Queue): Promise<Conversation> {
+  if (!queue.overflowTarget) return sendToVoicemail(conversation, "queue_overflow");
+
+  try {
+    const target = await resolveInboundTarget(queue.tenantId, queue.overflowTarget);
+    if ("queue" in target && target.queue.id !== queue.id) {
+      return offerFromQueue(await enqueueConversation(conversation, target.queue), target.queue, []);
+    }
+    if ("extension" in target) {
+      return offerToExtension(conversation, target.extension, EXTENSION_RING_SEC, []);
+    }
+  } catch (error) {
+    if (!(error instanceof CallStateError)) throw error;
+  }
+
+  // External numbers are forwarded by the PBX dialplan, not rung here
+  console.warn(`⚠️ Queue ${queue.name}: overflow target ${queue.overflowTarget} cannot ring a softphone`);
+  return sendToVoicemail(conversation, "queue_overflow");
+}
+
+function isQueued(conversation: Conversation): boolean {
+  return !!(conversation.queueId && conversation.queuedAt);
+}
+
+/**
+ * The current offer ended unanswered (timeout, reject or unavailable agent)
+ */
+async function moveOn(conversation: Conversation, triedExtensionIds: string[], reason: string): Promise<Conversation> {
+  clearOffer(conversation.id);
+
+  // Direct calls go to the voicemail of the extension that was rung
+  if (!isQueued(conversation)) return sendToVoicemail(conversation, reason);
+
+  let current = conversation;
+  if (conversation.userId || conversation.extensionId) {
+    const unassigned = await storage.transitionConversation(
+      conversation.id,
+      "ringing",
+      { extensionId: null, userId: null },
+      {
+        tenantId: conversation.tenantId,
+        conversationId: conversation.id,
+        userId: conversation.userId,
+        type: "offer_ended",
+        fromStatus: "ringing",
+        toStatus: "ringing",
+        metadata: { extensionId: conversation.extensionId, reason },
+      },
+    );
+    if (!unassigned) return conversation;
+
+    current = notify("call_status", unassigned);
+    await releaseAgent(conversation.tenantId, conversation, false);
+  }
+
+  const queue = await storage.getQueue(current.queueId!, current.tenantId);
+  if (!queue) return sendToVoicemail(current, reason);
+  return offerFromQueue(current, queue, triedExtensionIds);
+}
+
+/**
+ * Voicemail: the call ends without an answer and is kept as a missed call
+ */
+async function sendToVoicemail(
+  conversation: Conversation,
+  reason: string,
+  assignTo?: Pick<Conversation, "extensionId" | "userId">,
+): Promise<Conversation> {
+  clearOffer(conversation.id);
+
+  const { conversation: ended, changed } = await applyCallAction(conversation.id, conversation.tenantId, "hangup", {
+    reason,
+    metadata: { next: "voicemail" },
+    data: assignTo,
+  });
+  if (!changed) return ended;
+
+  notify("ended", ended);
+  const extension = ended.extensionId && await storage.getExtension(ended.extensionId, ended.tenantId);
+  if (extension) {
+    // Real messages arrive from the PBX (/webhook/pbx/voicemail); this only
+    // stores the development placeholder
+    await storeVoicemailMessage({ extension, conversation: ended }).catch((error) =>
+      console.error("❌ Voicemail message failed:", error),
+    );
+  }
+  return ended;
+}
+
+function scheduleOffer(conversation: Conversation, triedExtensionIds: string[], afterSec: number): void {
+  clearOffer(conversation.id);
+
+  const timer = setTimeout(() => {
+    offers.delete(conversation.id);
+    handleOfferTimeout(conversation.id, conversation.tenantId, triedExtensionIds).catch((error) =>
+      console.error("❌ Inbound call offer failed:", error),
+    );
+  }, afterSec * 1000);
+
+  // Never keep the process alive just for a ringing call
+  timer.unref?.();
+  offers.set(conversation.id, { timer, triedExtensionIds });
+}
+
+function clearOffer(conversationId: string): void {
+  const offer = offers.get(conversationId);
+  if (offer) {
+    clearTimeout(offer.timer);
+    offers.delete(conversationId);
+  }
+}
+
+async function handleOfferTimeout(conversationId: string, tenantId: string, triedExtensionIds: string[]) {
+  const conversation = await storage.getConversation(conversationId, tenantId);
+  if (conversation?.status !== "ringing") return;
+  await moveOn(conversation, triedExtensionIds, "no_answer");
+}
+
+/**
+ * Agent rejected the call ringing on their softphone. Returns null when the
+ * call is not an offer of this module (e.g. rung by the PBX directly).
+ */
+export async function declineInboundCall(conversation: Conversation): Promise<Conversation | null> {
+  const offer = offers.get(conversation.id);
+  if (!offer || conversation.status !== "ringing") return null;
+  return moveOn(conversation, offer.triedExtensionIds, "rejected");
+}
+
+/**
+ * Answered or ended calls stop ringing (called for every call event)
+ */
+export function settleInboundCall(conversation: Conversation): void {
+  if (conversation.status !== "ringing") clearOffer(conversation.id);
+}
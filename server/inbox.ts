@@ -0,0 +1,95 @@
+/**
+ * Unified conversation inbox: triage on top of conversations
+ *
+ * Every conversation (calls and messaging threads, ./messaging) is in the
+ * inbox with a triage status independent of the call state: `open` until an
+ * agent closes it, reopened by new customer messages on messaging channels
+ * (storage.createMessage; call transcripts neither reopen nor count as unread).
+ * The assigned agent is the conversation's `userId`, the same agent the call
+ * rings or is answered by, so live calls cannot be reassigned or closed from
+ * the inbox. Views and unread counts are computed by storage queries.
+ *
+ * Changes are recorded on the conversation timeline and pushed to
+ * listeners (routes broadcast them as `inbox_update`).
+ */
+
+import type { Conversation, InboxUpdate, User } from "@shared/schema";
+import { storage } from "./storage";
+import { CallStateError, isTerminalStatus } from "./call-state";
+
+type InboxListener = (conversation: Conversation) => void;
+
+const listeners = new Set<InboxListener>();
+
+export function onInboxUpdate(listener: InboxListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(conversation: Conversation): Conversation {
+  listeners.forEach((listener) => listener(conversation));
+  return conversation;
+}
+
+/**
+ * Apply an inbox triage change made by `actor`
+ */
+export async function updateInboxConversation(
+  conversation: Conversation,
+  changes: InboxUpdate,
+  actor: User,
+): Promise<Conversation> {
+  const data: Parameters<typeof storage.updateInboxConversation>[1] = {};
+  const events: { type: string; metadata: Record<string, unknown> }[] = [];
+  const isLive = conversation.channel === "voice" && !isTerminalStatus(conversation.status);
+
+  if (changes.assigneeId !== undefined && changes.assigneeId !== conversation.userId) {
+    if (isLive) {
+      throw new CallStateError("Live calls cannot be reassigned from the inbox", 409, "CALL_IN_PROGRESS");
+    }
+    if (changes.assigneeId) {
+      const assignee = await storage.getUser(changes.assigneeId);
+      if (!assignee || assignee.tenantId !== conversation.tenantId) {
+        throw new CallStateError("Assignee not found", 404, "ASSIGNEE_NOT_FOUND");
+      }
+    }
+    data.userId = changes.assigneeId;
+    events.push({ type: "assigned", metadata: { from: conversation.userId, to: changes.assigneeId } });
+  }
+
+  if (changes.status && changes.status !== conversation.inboxStatus) {
+    if (changes.status === "closed" && isLive) {
+      throw new CallStateError("Live calls cannot be closed", 409, "CALL_IN_PROGRESS");
+    }
+    data.inboxStatus = changes.status;
+    data.closedAt = changes.status === "closed" ? new Date() : null;
+    events.push({ type: changes.status === "closed" ? "closed" : "reopened", metadata: {} });
+  }
+
+  if (changes.notes !== undefined && changes.notes !== conversation.notes) {
+    data.notes = changes.notes;
+  }
+
+  if (Object.keys(data).length === 0) return conversation;
+
+  const updated = await storage.updateInboxConversation(conversation.id, data);
+  for (const event of events) {
+    await storage.createConversationEvent({
+      tenantId: conversation.tenantId,
+      conversationId: conversation.id,
+      userId: actor.id,
+      type: event.type,
+      metadata: event.metadata,
+    });
+  }
+  return notify(updated);
+}
+
+/**
+ * The conversation was opened: clears its unread count
+ */
+export async function markInboxConversationRead(conversation: Conversation): Promise<Conversation> {
+  return notify(await storage.updateInboxConversation(conversation.id, { lastReadAt: new Date() }));
+}
@@ -4,13 +4,28 @@ import path from "path";
 import fs from "fs";
 import { registerRoutes } from "./routes";
 import { serveStatic, log } from "./utils";
+import { scheduleRecordingPurge } from "./recordings/retention";
+import { schedulePromptCleanup } from "./tts/prompts";
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
 
 const app = express();
 
 // AUTH HARDENING: Correct middleware order
 app.set("trust proxy", 1);
 app.use(cookieParser());
-app.use(express.json());
+// Signed webhooks (messaging) verify the exact bytes received
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // --- BEGIN uploads static ---
@@ -101,4 +116,12 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  // Daily recording retention / quota purge
+  const stopRecordingPurge = scheduleRecordingPurge();
+  server.on("close", stopRecordingPurge);
+
+  // Daily garbage collection of TTS prompts nothing plays
+  const stopPromptCleanup = schedulePromptCleanup();
+  server.on("close", stopPromptCleanup);
 })();
@@ -0,0 +1,73 @@
+/**
+ * Business-hours evaluation for IVR menus
+ *
+ * Uses the per-weekday block format of `locations.operatingHours`, evaluated
+ * in the menu's own timezone. Holidays win over the weekly schedule.
+ */
+
+import type { IvrBusinessHours, OperatingHours } from "@shared/schema";
+
+export type BusinessHoursBranch = "open" | "closed" | "holiday";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Local date, weekday (0 = Sunday) and minute of the day of `now` in `timeZone`
+ */
+export function zonedTime(now: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    dayOfWeek: WEEKDAYS.indexOf(get("weekday")),
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+export function isWithinOperatingHours(
+  operatingHours: OperatingHours,
+  dayOfWeek: number,
+  minutes: number,
+): boolean {
+  const daySchedule = operatingHours?.[dayOfWeek];
+  if (!daySchedule?.enabled) return false;
+
+  return (daySchedule.blocks || []).some(
+    (block) => minutes >= toMinutes(block.start) && minutes < toMinutes(block.end),
+  );
+}
+
+/**
+ * Which branch a call entering the menu at `now` takes. Menus without
+ * business hours (or with them disabled) are always open.
+ */
+export function resolveBusinessHoursBranch(
+  businessHours: IvrBusinessHours | null | undefined,
+  now: Date = new Date(),
+): BusinessHoursBranch {
+  if (!businessHours?.enabled) return "open";
+
+  const local = zonedTime(now, businessHours.timezone || "Europe/Madrid");
+
+  if ((businessHours.holidays || []).includes(local.date)) return "holiday";
+
+  return isWithinOperatingHours(businessHours.operatingHours, local.dayOfWeek, local.minutes)
+    ? "open"
+    : "closed";
+}
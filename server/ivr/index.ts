@@ -0,0 +1,333 @@
+/**
+ * IVR interpreter for `ivr_menus.menuOptions`
+ *
+ * Inbound calls are matched to a tenant menu through `inbound_numbers`; each
+ * DTMF digit is resolved against the menu options and answered with a TwiML
+ * document (greeting + Gather, Dial, Enqueue or Hangup).
+ *
+ * Options are `{ key, action, destination }`. Menus created before the IVR
+ * modal store the destination as `target`, and `key: "default"` answers
+ * missing or invalid input. A "submenu" option enters another menu of the
+ * same tenant; menus with business hours send callers outside them to the
+ * closed/holiday branch instead of playing the menu.
+ */
+
+import type { IvrAction, IvrBranchAction, IvrMenu, IvrMenuOption } from "@shared/schema";
+import { storage } from "../storage";
+import { resolveTransferTarget } from "../call-transfer";
+import { renderAiGreeting, resolveAiAgent, type AiAgentProfile } from "../ai-agents";
+import { CallStateError } from "../call-state";
+import { resolveBusinessHoursBranch } from "./business-hours";
+import { queueWaitUrl } from "./queue";
+import * as twiml from "./twiml";
+
+export type IvrStep = (
+  | { type: "menu"; menu: IvrMenu; attempt: number }
+  | { type: "extension"; target: string; sipUri: string }
+  | { type: "external"; target: string }
+  | { type: "queue"; target: string; queueId: string }
+  | { type: "ai_agent"; target: string; agent: AiAgentProfile }
+  | { type: "hangup" }
+) & { notice?: string };
+
+type IvrMenuGraphNode = Pick<IvrMenu, "id" | "name" | "menuOptions" | "businessHours">;
+
+// Menu plays (first one included) before giving up on a silent or lost caller
+export const IVR_MAX_ATTEMPTS = 3;
+
+// Runtime guard for submenu chains; saved menus are already cycle-free
+const MAX_SUBMENU_DEPTH = 10;
+
+const IVR_ACTIONS: IvrAction[] = ["transfer", "queue", "hangup", "repeat", "submenu", "ai_agent"];
+
+const DEFAULT_GREETING = "Gracias por llamar. Por favor, seleccione una opción.";
+const INVALID_OPTION_TEXT = "La opción seleccionada no es válida.";
+const UNAVAILABLE_TEXT = "Esa opción no está disponible en este momento.";
+const TRANSFER_TEXT = "Le estamos transfiriendo. Por favor, espere.";
+const GOODBYE_TEXT = "Gracias por llamar. Hasta pronto.";
+const CLOSED_TEXT = "En este momento nuestras oficinas están cerradas.";
+
+export function normalizePhoneNumber(value: string): string {
+  return String(value || "").replace(/[\s\-().]/g, "");
+}
+
+export function gatherUrl(menuId: string, attempt: number): string {
+  return `/webhook/ivr/${menuId}/gather?attempt=${attempt}`;
+}
+
+/**
+ * Normalize stored options, dropping entries without a key or with an
+ * unknown action
+ */
+export function parseMenuOptions(menu: Pick<IvrMenu, "menuOptions">): IvrMenuOption[] {
+  const raw = Array.isArray(menu.menuOptions) ? menu.menuOptions : [];
+
+  return raw.flatMap((option: any): IvrMenuOption[] => {
+    if (!option || typeof option !== "object") return [];
+
+    const key = String(option.key ?? "").trim();
+    if (!key || !IVR_ACTIONS.includes(option.action)) return [];
+
+    return [{
+      key,
+      action: option.action,
+      destination: String(option.destination ?? option.target ?? "").trim(),
+      description: option.description,
+    }];
+  });
+}
+
+function retry(menu: IvrMenu, attempt: number, notice?: string): IvrStep {
+  if (attempt >= IVR_MAX_ATTEMPTS) return { type: "hangup" };
+  return { type: "menu", menu, attempt: attempt + 1, notice };
+}
+
+async function resolveAction(
+  menu: IvrMenu,
+  option: Pick<IvrMenuOption, "action" | "destination"> & { key?: string },
+  attempt: number,
+  path: string[],
+): Promise<IvrStep> {
+  switch (option.action) {
+    case "hangup":
+      return { type: "hangup" };
+
+    case "repeat":
+      return { type: "menu", menu, attempt };
+
+    case "ai_agent":
+      return { type: "ai_agent", target: option.destination, agent: await resolveAiAgent(menu.tenantId, option.destination) };
+
+    case "submenu": {
+      const submenu = option.destination
+        ? await storage.getIvr(option.destination, menu.tenantId)
+        : undefined;
+      if (!submenu || path.includes(submenu.id) || path.length >= MAX_SUBMENU_DEPTH) {
+        console.warn(`⚠️ IVR ${menu.id}: submenu ${option.destination} unavailable`);
+        return retry(menu, attempt, UNAVAILABLE_TEXT);
+      }
+      return enterIvrMenu(submenu, new Date(), path);
+    }
+
+    case "queue":
+    case "transfer": {
+      try {
+        const target = await resolveTransferTarget(
+          menu.tenantId,
+          option.destination,
+          option.action === "queue" ? "queue" : undefined,
+        );
+
+        if (target.targetType === "extension") {
+          return {
+            type: "extension",
+            target: target.target,
+            sipUri: twiml.extensionSipUri(menu.tenantId, target.target),
+          };
+        }
+        if (target.targetType === "queue") {
+          return { type: "queue", target: target.target, queueId: target.queueId! };
+        }
+        return { type: "external", target: target.target };
+      } catch (error) {
+        // A deleted or disabled destination must not drop the caller
+        if (error instanceof CallStateError) {
+          console.warn(`⚠️ IVR ${menu.id}: option ${option.key ?? option.action} unavailable: ${error.message}`);
+          return retry(menu, attempt, UNAVAILABLE_TEXT);
+        }
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * First step for a caller entering `menu`: the menu itself while open,
+ * otherwise its closed/holiday branch. `path` holds the menus already
+ * entered on this call.
+ */
+export async function enterIvrMenu(
+  menu: IvrMenu,
+  now: Date = new Date(),
+  path: string[] = [],
+): Promise<IvrStep> {
+  const branch = resolveBusinessHoursBranch(menu.businessHours, now);
+  if (branch === "open") {
+    return { type: "menu", menu, attempt: 1 };
+  }
+
+  const hours = menu.businessHours!;
+  const action: IvrBranchAction = (branch === "holiday" && hours.holiday) || hours.closed;
+  const notice = action.message || CLOSED_TEXT;
+
+  // Out of hours there is no menu to fall back to: an unavailable
+  // destination ends the call after the notice
+  const step = await resolveAction(
+    menu,
+    { action: action.action, destination: action.destination || "" },
+    IVR_MAX_ATTEMPTS,
+    [...path, menu.id],
+  );
+  return { ...step, notice: step.notice ?? notice };
+}
+
+/**
+ * Resolve the caller's input for a menu played at `attempt`.
+ * Empty `digits` means the Gather timed out.
+ */
+export async function resolveIvrInput(
+  menu: IvrMenu,
+  digits: string | undefined,
+  attempt: number,
+): Promise<IvrStep> {
+  const options = parseMenuOptions(menu);
+  const input = String(digits ?? "").trim();
+
+  const option =
+    (input && options.find((o) => o.key === input)) ||
+    options.find((o) => o.key === "default");
+
+  if (!option) {
+    return retry(menu, attempt, input ? INVALID_OPTION_TEXT : undefined);
+  }
+
+  return resolveAction(menu, option, attempt, [menu.id]);
+}
+
+export function renderIvrStep(step: IvrStep): string {
+  const notice = step.notice ? twiml.say(step.notice) : "";
+
+  switch (step.type) {
+    case "menu": {
+      const { menu } = step;
+      const greeting = menu.greetingAudioUrl
+        ? twiml.play(menu.greetingAudioUrl)
+        : twiml.say(menu.greetingText || DEFAULT_GREETING);
+      return twiml.response(twiml.gather(notice + greeting, gatherUrl(menu.id, step.attempt)));
+    }
+
+    case "extension":
+      return twiml.response(
+        notice,
+        twiml.say(TRANSFER_TEXT),
+        twiml.dialSip(step.sipUri),
+        twiml.say(GOODBYE_TEXT),
+        twiml.hangup(),
+      );
+
+    case "external":
+      return twiml.response(
+        notice,
+        twiml.say(TRANSFER_TEXT),
+        twiml.dialNumber(step.target),
+        twiml.say(GOODBYE_TEXT),
+        twiml.hangup(),
+      );
+
+    case "queue":
+      return twiml.response(notice, twiml.say(TRANSFER_TEXT), twiml.redirect(queueWaitUrl(step.queueId)));
+
+    case "ai_agent":
+      return renderAiGreeting(step.agent, notice);
+
+    case "hangup":
+      return twiml.response(notice, twiml.say(GOODBYE_TEXT), twiml.hangup());
+  }
+}
+
+/**
+ * The IVR answering calls to `phoneNumber`, or undefined when the number is
+ * unknown, disabled or has no menu assigned
+ */
+export async function findIvrForInboundNumber(phoneNumber: string): Promise<IvrMenu | undefined> {
+  const inbound = await storage.getInboundNumberByPhone(normalizePhoneNumber(phoneNumber));
+  if (!inbound || !inbound.isActive || !inbound.ivrMenuId) return undefined;
+
+  return storage.getIvr(inbound.ivrMenuId, inbound.tenantId);
+}
+
+/**
+ * The AI agent answering calls to `phoneNumber` when it has no IVR: the one
+ * assigned to the number, else the tenant default. Undefined for unknown or
+ * disabled numbers.
+ */
+export async function findAiAgentForInboundNumber(phoneNumber: string): Promise<AiAgentProfile | undefined> {
+  const inbound = await storage.getInboundNumberByPhone(normalizePhoneNumber(phoneNumber));
+  if (!inbound || !inbound.isActive) return undefined;
+
+  return resolveAiAgent(inbound.tenantId, inbound.aiAgentId);
+}
+
+// Menus a menu can send the caller to: submenu options and hours branches
+function submenuTargets(menu: IvrMenuGraphNode): string[] {
+  const targets = parseMenuOptions(menu)
+    .filter((option) => option.action === "submenu")
+    .map((option) => option.destination);
+
+  const hours = menu.businessHours;
+  for (const branch of [hours?.closed, hours?.holiday]) {
+    if (branch?.action === "submenu" && branch.destination) targets.push(branch.destination);
+  }
+
+  return targets.filter(Boolean);
+}
+
+/**
+ * Names along the first submenu cycle reachable from `startId`, or null
+ */
+export function findSubmenuCycle(menus: IvrMenuGraphNode[], startId: string): string[] | null {
+  const byId = new Map(menus.map((menu) => [menu.id, menu]));
+  const done = new Set<string>();
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    const index = path.indexOf(id);
+    if (index !== -1) return [...path.slice(index), id];
+    if (done.has(id)) return null;
+
+    const menu = byId.get(id);
+    if (!menu) return null;
+
+    for (const target of submenuTargets(menu)) {
+      const cycle = visit(target, [...path, id]);
+      if (cycle) return cycle;
+    }
+    done.add(id);
+    return null;
+  };
+
+  const cycle = visit(startId, []);
+  return cycle ? cycle.map((id) => byId.get(id)?.name ?? id) : null;
+}
+
+/**
+ * Check that the submenus referenced by a menu being saved exist in the
+ * tenant and do not lead back to it. Throws with a user-facing message.
+ */
+export async function validateIvrMenuGraph(
+  tenantId: string,
+  menu: Partial<IvrMenuGraphNode> & { id?: string },
+): Promise<void> {
+  const menus = await storage.getIvrs(tenantId);
+  const id = menu.id ?? "__new__";
+  const existing = menus.find((m) => m.id === id);
+
+  const candidate: IvrMenuGraphNode = {
+    id,
+    name: menu.name ?? existing?.name ?? "IVR",
+    menuOptions: menu.menuOptions !== undefined ? menu.menuOptions : existing?.menuOptions ?? [],
+    businessHours: menu.businessHours !== undefined ? menu.businessHours : existing?.businessHours ?? null,
+  };
+
+  const ids = new Set(menus.map((m) => m.id));
+  for (const target of submenuTargets(candidate)) {
+    if (!ids.has(target)) {
+      throw new Error(`Submenu not found: ${target}`);
+    }
+  }
+
+  const graph = [...menus.filter((m) => m.id !== id), candidate];
+  const cycle = findSubmenuCycle(graph, id);
+  if (cycle) {
+    throw new Error(`Submenu cycle detected: ${cycle.join(" → ")}`);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Twilio side of call queues
+ *
+ * A queued caller loops on the wait webhook: each pass offers the call to
+ * the agents picked by the queue strategy (../call-queue.ts) and comes back
+ * when the Dial ends unanswered, until the queue's max wait sends the call
+ * to its overflow destination.
+ */
+
+import type { Conversation, Queue } from "@shared/schema";
+import { applyCallAction, CallStateError } from "../call-state";
+import { resolveTransferTarget } from "../call-transfer";
+import { hasExceededMaxWait, overflowConversation, selectQueueAgents } from "../call-queue";
+import * as twiml from "./twiml";
+
+export type QueueWaitOutcome = "offered" | "waiting" | "overflow" | "completed";
+
+const WAIT_TEXT = "Todos nuestros agentes están ocupados. Por favor, permanezca en línea.";
+const OVERFLOW_TEXT = "Lo sentimos, no hay agentes disponibles en este momento.";
+const GOODBYE_TEXT = "Gracias por llamar. Hasta pronto.";
+const WAIT_PAUSE_SEC = 15;
+
+export function queueWaitUrl(queueId: string, triedExtensionIds: string[] = []): string {
+  const tried = triedExtensionIds.length ? `?tried=${triedExtensionIds.join(",")}` : "";
+  return `/webhook/queue/${queueId}/wait${tried}`;
+}
+
+export function queueConnectedUrl(queue: Queue, conversationId: string, extensionId: string): string {
+  const params = new URLSearchParams({ tenantId: queue.tenantId, conversationId, extensionId });
+  return `/webhook/queue/${queue.id}/connected?${params}`;
+}
+
+async function renderOverflow(queue: Queue, conversation: Conversation): Promise<string> {
+  if (queue.overflowTarget) {
+    try {
+      const target = await resolveTransferTarget(queue.tenantId, queue.overflowTarget);
+
+      if (target.targetType === "queue" && target.queueId !== queue.id) {
+        return twiml.response(twiml.redirect(queueWaitUrl(target.queueId!)));
+      }
+      if (target.targetType === "extension") {
+        return twiml.response(
+          twiml.dialSip(twiml.extensionSipUri(queue.tenantId, target.target)),
+          twiml.say(GOODBYE_TEXT),
+          twiml.hangup(),
+        );
+      }
+      if (target.targetType === "external") {
+        return twiml.response(twiml.dialNumber(target.target), twiml.say(GOODBYE_TEXT), twiml.hangup());
+      }
+    } catch (error) {
+      if (!(error instanceof CallStateError)) throw error;
+      console.warn(`⚠️ Queue ${queue.name}: overflow target ${queue.overflowTarget} unavailable: ${error.message}`);
+    }
+  }
+
+  await applyCallAction(conversation.id, conversation.tenantId, "hangup", {
+    reason: "queue_overflow",
+    metadata: { queueId: queue.id },
+  });
+  return twiml.response(twiml.say(OVERFLOW_TEXT), twiml.hangup());
+}
+
+/**
+ * Next TwiML for a caller waiting in `queue`. `dialStatus` is Twilio's
+ * DialCallStatus when coming back from an offer.
+ */
+export async function handleQueueWait(options: {
+  queue: Queue;
+  conversation: Conversation;
+  triedExtensionIds: string[];
+  dialStatus?: string;
+}): Promise<{ outcome: QueueWaitOutcome; twiml: string }> {
+  const { queue, conversation, triedExtensionIds, dialStatus } = options;
+
+  // An agent took the call and it has now finished
+  if (dialStatus === "completed" || dialStatus === "answered") {
+    await applyCallAction(conversation.id, conversation.tenantId, "hangup", {
+      metadata: { queueId: queue.id },
+    });
+    return { outcome: "completed", twiml: twiml.response(twiml.hangup()) };
+  }
+
+  if (hasExceededMaxWait(conversation, queue)) {
+    await overflowConversation(conversation, queue);
+    return { outcome: "overflow", twiml: await renderOverflow(queue, conversation) };
+  }
+
+  const agents = await selectQueueAgents(queue, triedExtensionIds);
+  if (agents.length === 0) {
+    return {
+      outcome: "waiting",
+      twiml: twiml.response(
+        twiml.say(WAIT_TEXT),
+        twiml.pause(WAIT_PAUSE_SEC),
+        twiml.redirect(queueWaitUrl(queue.id)),
+      ),
+    };
+  }
+
+  const tried = [...triedExtensionIds, ...agents.map((agent) => agent.extensionId)];
+  return {
+    outcome: "offered",
+    twiml: twiml.response(
+      twiml.dialSipEndpoints(
+        agents.map((agent) => ({
+          uri: twiml.extensionSipUri(queue.tenantId, agent.extensionNumber),
+          url: queueConnectedUrl(queue, conversation.id, agent.extensionId),
+        })),
+        { timeoutSec: queue.ringTimeoutSec, actionUrl: queueWaitUrl(queue.id, tried) },
+      ),
+    ),
+  };
+}
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import twilio from "twilio";
+import type { Queue } from "@shared/schema";
+import { aiSpeechUrl, DEFAULT_AI_AGENT } from "../ai-agents";
+import { queueConnectedUrl, queueWaitUrl } from "./queue";
+import { absoluteUrl, isTwilioWebhookAuthorized } from "./twiml";
+
+const AUTH_TOKEN = "twilio-auth-token";
+const QUEUE = { id: "queue-1", tenantId: "tenant-1" } as Queue;
+
+// A callback as Express hands it to the route: `originalUrl` is the path
+// Twilio requested, the parameters come form-encoded
+function callback(originalUrl: string, body: Record<string, string>, signature?: string) {
+  return {
+    originalUrl,
+    body,
+    get: ((name: string) => (name.toLowerCase() === "x-twilio-signature" ? signature : undefined)) as any,
+  };
+}
+
+function signed(url: string, body: Record<string, string>, token = AUTH_TOKEN) {
+  return callback(url, body, twilio.getExpectedTwilioSignature(token, absoluteUrl(url), body));
+}
+
+describe("isTwilioWebhookAuthorized", () => {
+  const previousToken = process.env.TWILIO_AUTH_TOKEN;
+
+  beforeEach(() => {
+    process.env.TWILIO_AUTH_TOKEN = AUTH_TOKEN;
+  });
+
+  afterEach(() => {
+    if (previousToken === undefined) delete process.env.TWILIO_AUTH_TOKEN;
+    else process.env.TWILIO_AUTH_TOKEN = previousToken;
+  });
+
+  it("accepts callbacks signed with the account auth token", () => {
+    const body = { CallSid: "CA1", DialCallStatus: "completed" };
+    expect(isTwilioWebhookAuthorized(signed(queueWaitUrl("queue-1", ["extension-1"]), body))).toBe(true);
+    expect(isTwilioWebhookAuthorized(signed(aiSpeechUrl({ ...DEFAULT_AI_AGENT, id: "agent-1" }), { SpeechResult: "Hola" }))).toBe(true);
+  });
+
+  it("rejects a callback whose query string was changed", () => {
+    const body = { CallSid: "CA1" };
+    const original = signed(queueConnectedUrl(QUEUE, "conversation-1", "extension-1"), body);
+    const tampered = { ...original, originalUrl: queueConnectedUrl(QUEUE, "conversation-2", "extension-1") };
+
+    expect(isTwilioWebhookAuthorized(original)).toBe(true);
+    expect(isTwilioWebhookAuthorized(tampered)).toBe(false);
+  });
+
+  it("rejects a callback whose parameters were changed", () => {
+    const request = signed(queueWaitUrl("queue-1"), { CallSid: "CA1", DialCallStatus: "no-answer" });
+    request.body = { ...request.body, DialCallStatus: "completed" };
+    expect(isTwilioWebhookAuthorized(request)).toBe(false);
+  });
+
+  it("rejects callbacks signed with another token", () => {
+    const body = { SpeechResult: "Hola" };
+    expect(isTwilioWebhookAuthorized(signed("/webhook/twilio-process-speech", body, "other-token"))).toBe(false);
+  });
+
+  it("rejects unsigned callbacks", () => {
+    expect(isTwilioWebhookAuthorized(callback("/webhook/ai/transfer-ended", { CallSid: "CA1" }))).toBe(false);
+  });
+
+  it("rejects every callback while no auth token is configured", () => {
+    const request = signed("/webhook/ai/transfer-ended", { CallSid: "CA1" });
+    delete process.env.TWILIO_AUTH_TOKEN;
+    expect(isTwilioWebhookAuthorized(request)).toBe(false);
+  });
+});
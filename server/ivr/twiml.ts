@@ -0,0 +1,115 @@
+/**
+ * TwiML rendering for IVR steps
+ *
+ * Kept free of storage access so the documents can be built from any
+ * resolved step (see ./index.ts).
+ */
+
+import twilio from "twilio";
+import type { Request } from "express";
+import config from "../config";
+
+export const SAY_LANGUAGE = "es-MX";
+export const SAY_VOICE = "Polly.Lupe-Neural";
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Twilio fetches <Play> URLs itself, so local uploads need an absolute URL
+export function absoluteUrl(url: string): string {
+  if (/^https?:\/\//i.test(url)) return url;
+  return `${config.webhooks.baseUrl.replace(/\/$/, "")}/${url.replace(/^\//, "")}`;
+}
+
+/**
+ * Whether a Twilio voice callback (the action and status URLs below) is
+ * signed: X-Twilio-Signature covers the public URL, query string included,
+ * and the POSTed parameters, keyed with TWILIO_AUTH_TOKEN
+ */
+export function isTwilioWebhookAuthorized(req: Pick<Request, "originalUrl" | "body" | "get">): boolean {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const signature = req.get("x-twilio-signature");
+  if (!authToken || !signature) return false;
+  return twilio.validateRequest(authToken, signature, absoluteUrl(req.originalUrl), req.body ?? {});
+}
+
+// Tenant extensions register on the tenant's own SIP domain
+export function extensionSipUri(tenantId: string, extensionNumber: string): string {
+  return `sip:${extensionNumber}@${tenantId}.gueswi.com`;
+}
+
+export function say(text: string, voice: { language: string; voice: string } = { language: SAY_LANGUAGE, voice: SAY_VOICE }): string {
+  return `<Say language="${escapeXml(voice.language)}" voice="${escapeXml(voice.voice)}">${escapeXml(text)}</Say>`;
+}
+
+export function play(url: string): string {
+  return `<Play>${escapeXml(absoluteUrl(url))}</Play>`;
+}
+
+export function response(...verbs: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<Response>\n  ${verbs.filter(Boolean).join("\n  ")}\n</Response>`;
+}
+
+/**
+ * Play the prompt inside a single-digit DTMF Gather; when the caller enters
+ * nothing Twilio falls through to the Redirect, which posts back without Digits.
+ */
+export function gather(prompt: string, actionUrl: string, timeoutSec = 5): string {
+  const action = escapeXml(actionUrl);
+  return [
+    `<Gather input="dtmf" numDigits="1" timeout="${timeoutSec}" action="${action}" method="POST">${prompt}</Gather>`,
+    `<Redirect method="POST">${action}</Redirect>`,
+  ].join("\n  ");
+}
+
+// Speech Gather for the AI assistant; Twilio posts SpeechResult to the action
+export function speechGather(prompt: string, actionUrl: string, language: string): string {
+  return `<Gather input="speech" language="${escapeXml(language)}" speechTimeout="auto" action="${escapeXml(actionUrl)}" method="POST">${prompt}</Gather>`;
+}
+
+export const RECORDING_CALLBACK_PATH = "/webhook/twilio-recording";
+
+// Every connected call is recorded; Twilio posts the media URL when ready
+function recordingAttrs(): string {
+  const callback = escapeXml(absoluteUrl(RECORDING_CALLBACK_PATH));
+  return `record="record-from-answer" recordingStatusCallback="${callback}" recordingStatusCallbackEvent="completed"`;
+}
+
+export function dialSip(uri: string, timeoutSec = 30): string {
+  return `<Dial timeout="${timeoutSec}" ${recordingAttrs()}><Sip>${escapeXml(uri)}</Sip></Dial>`;
+}
+
+export function dialNumber(number: string, timeoutSec = 30): string {
+  return `<Dial timeout="${timeoutSec}" ${recordingAttrs()}>${escapeXml(number)}</Dial>`;
+}
+
+// Ring several SIP endpoints at once; `url` runs on the agent leg when it answers
+export function dialSipEndpoints(
+  endpoints: { uri: string; url?: string }[],
+  options: { timeoutSec: number; actionUrl: string },
+): string {
+  const sips = endpoints
+    .map(({ uri, url }) => url
+      ? `<Sip url="${escapeXml(url)}" method="POST">${escapeXml(uri)}</Sip>`
+      : `<Sip>${escapeXml(uri)}</Sip>`)
+    .join("");
+  return `<Dial timeout="${options.timeoutSec}" action="${escapeXml(options.actionUrl)}" method="POST" ${recordingAttrs()}>${sips}</Dial>`;
+}
+
+export function pause(lengthSec: number): string {
+  return `<Pause length="${lengthSec}"/>`;
+}
+
+export function redirect(url: string): string {
+  return `<Redirect method="POST">${escapeXml(url)}</Redirect>`;
+}
+
+export function hangup(): string {
+  return "<Hangup/>";
+}
@@ -0,0 +1,79 @@
+/**
+ * Splitting documents into passages for retrieval
+ *
+ * Paragraphs (blank-line separated, so markdown headings stay with their
+ * section) are packed into chunks of up to `maxChars`; longer paragraphs
+ * are split by sentence, and sentences by word. Each chunk starts with the
+ * last sentences of the previous one (up to `overlapChars`) so an answer
+ * spanning a boundary is still found whole.
+ */
+
+export interface ChunkOptions {
+  maxChars: number;
+  overlapChars: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { maxChars: 1000, overlapChars: 150 };
+
+function splitLong(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const sentences = text.split(/(?<=[.!?;:])\s+/);
+  if (sentences.length > 1) return sentences.flatMap((sentence) => splitLong(sentence, maxChars));
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/)) {
+    if (current && current.length + 1 + word.length > maxChars) {
+      pieces.push(current);
+      current = "";
+    }
+    // A single word longer than a chunk is cut
+    for (let start = 0; start < word.length; start += maxChars) {
+      const part = word.slice(start, start + maxChars);
+      current = current ? `${current} ${part}` : part;
+      if (current.length >= maxChars) {
+        pieces.push(current);
+        current = "";
+      }
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+export function chunkText(text: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): string[] {
+  const units = text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/[^\S\n]+/g, " ").trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => splitLong(paragraph, options.maxChars));
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const unit of units) {
+    if (current.length > 0 && length + 2 + unit.length > options.maxChars) {
+      chunks.push(current.join("\n\n"));
+
+      // Carry the tail of the chunk over, sentence by sentence
+      const tail = current[current.length - 1].split(/(?<=[.!?])\s+/);
+      const overlap: string[] = [];
+      let overlapLength = 0;
+      for (let i = tail.length - 1; i >= 0; i--) {
+        if (overlapLength + tail[i].length > options.overlapChars) break;
+        overlap.unshift(tail[i]);
+        overlapLength += tail[i].length + 1;
+      }
+      current = overlap.length > 0 && overlapLength + 2 + unit.length <= options.maxChars ? [overlap.join(" ")] : [];
+      length = current.length > 0 ? overlapLength : 0;
+    }
+    current.push(unit);
+    length += (current.length > 1 ? 2 : 0) + unit.length;
+  }
+  if (current.length > 0) chunks.push(current.join("\n\n"));
+
+  return chunks;
+}
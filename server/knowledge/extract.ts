@@ -0,0 +1,79 @@
+/**
+ * Text of uploaded knowledge files (PDF, plain text, markdown)
+ */
+
+import path from "path";
+import type { KnowledgeSource } from "@shared/schema";
+import { extractPdfText, PdfError } from "./pdf";
+
+export class KnowledgeError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+    this.name = "KnowledgeError";
+  }
+}
+
+export const MAX_KNOWLEDGE_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_DOCUMENT_CHARS = 500_000;
+// Content streams hold positioning and font operators besides the text, and
+// the embedded fonts are inflated too
+const MAX_PDF_INFLATED_BYTES = MAX_DOCUMENT_CHARS * 100;
+
+const SOURCES_BY_EXTENSION: Record<string, KnowledgeSource> = {
+  ".pdf": "pdf",
+  ".txt": "text",
+  ".md": "markdown",
+  ".markdown": "markdown",
+};
+
+const SOURCES_BY_MIME_TYPE: Record<string, KnowledgeSource> = {
+  "application/pdf": "pdf",
+  "text/plain": "text",
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+};
+
+/**
+ * Kind of an uploaded file, from its extension (browsers often send
+ * markdown as application/octet-stream) or else its MIME type
+ */
+export function knowledgeSourceOf(fileName: string, mimeType: string): KnowledgeSource | null {
+  return SOURCES_BY_EXTENSION[path.extname(fileName).toLowerCase()] ?? SOURCES_BY_MIME_TYPE[mimeType] ?? null;
+}
+
+export async function extractDocumentText(file: { buffer: Buffer; originalname: string; mimetype: string }): Promise<{
+  source: KnowledgeSource;
+  content: string;
+}> {
+  const source = knowledgeSourceOf(file.originalname, file.mimetype);
+  if (!source || source === "faq") {
+    throw new KnowledgeError("Unsupported file type. Upload a PDF, text or markdown file.");
+  }
+
+  let content: string;
+  if (source === "pdf") {
+    try {
+      content = await extractPdfText(file.buffer, MAX_PDF_INFLATED_BYTES);
+    } catch (error) {
+      if (error instanceof PdfError) {
+        throw new KnowledgeError(error.message, error.status);
+      }
+      throw new KnowledgeError(`Could not read the PDF: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else {
+    content = file.buffer.toString("utf8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").trim();
+  }
+
+  if (!content) {
+    throw new KnowledgeError(source === "pdf"
+      ? "The PDF has no readable text (scanned pages). Upload it as text instead."
+      : "The file is empty");
+  }
+  if (content.length > MAX_DOCUMENT_CHARS) {
+    throw new KnowledgeError(`The document is too long (more than ${MAX_DOCUMENT_CHARS} characters). Split it into several files.`);
+  }
+  return { source, content };
+}
@@ -0,0 +1,241 @@
+/**
+ * Knowledge base of the AI agents, with a pluggable embedding provider
+ *
+ * Tenants upload files (./extract.ts) or write FAQs. Each document is
+ * split into passages (./chunking.ts) in the background and, when an
+ * embedding provider is configured, every passage is embedded; the model
+ * is recorded on the document. A search ranks passages by cosine
+ * similarity when all of them were embedded with the current model and by
+ * BM25 (./lexical.ts) otherwise, or when embedding the query fails. On
+ * each AI turn the best passages for what the caller said are added to
+ * the agent's prompt (../ai-agents.ts).
+ *
+ * Passages are scored in memory: meant for the handful of documents a
+ * tenant's receptionist needs, not for large corpora.
+ *
+ * Environment Variables Contract:
+ * ==============================
+ * EMBEDDING_PROVIDER=openai|none (default: none, lexical search only)
+ * EMBEDDING_TIMEOUT_MS (optional, defaults to 15000) per request
+ *
+ * OpenAI-compatible (OpenAI or any server exposing /embeddings):
+ * - OPENAI_API_KEY (required for api.openai.com)
+ * - EMBEDDING_BASE_URL (optional, defaults to LLM_BASE_URL or 'https://api.openai.com/v1')
+ * - EMBEDDING_MODEL (optional, defaults to 'text-embedding-3-small')
+ */
+
+import type { KnowledgeDocument, KnowledgePassage, KnowledgeSearchResult } from "@shared/schema";
+import { storage } from "../storage";
+import { chunkText } from "./chunking";
+import { rankLexical } from "./lexical";
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  // One vector per text, in order; aborting `signal` must reject
+  embed(texts: string[], signal: AbortSignal): Promise<number[][]>;
+}
+
+export const DEFAULT_KNOWLEDGE_PASSAGES = 3;
+const MIN_SIMILARITY = 0.3;
+const EMBEDDING_BATCH_SIZE = 64;
+const MAX_PROMPT_CHARS = 3000;
+
+let provider: EmbeddingProvider | null | undefined;
+let queue: Promise<void> = Promise.resolve();
+const queued = new Set<string>();
+
+/**
+ * Provider selected by EMBEDDING_PROVIDER, created once; null without one
+ */
+export async function getEmbeddingProvider(): Promise<EmbeddingProvider | null> {
+  if (provider !== undefined) return provider;
+
+  const name = process.env.EMBEDDING_PROVIDER || "none";
+  switch (name) {
+    case "openai": {
+      const { OpenAIEmbeddingProvider } = await import("./providers/openai.js");
+      provider = new OpenAIEmbeddingProvider();
+      break;
+    }
+    case "none":
+      provider = null;
+      break;
+    default:
+      throw new Error(`Unsupported embedding provider: ${name}. Supported: openai, none`);
+  }
+  return provider;
+}
+
+/**
+ * Swap the provider (null: lexical search only; undefined: back to the
+ * environment's)
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider | null | undefined): void {
+  provider = next;
+}
+
+// Recorded on documents: passages embedded with another model are not comparable
+function embeddingModelOf(embedder: EmbeddingProvider): string {
+  return `${embedder.name}:${embedder.model}`;
+}
+
+async function embed(embedder: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+  const timeoutMs = parseInt(process.env.EMBEDDING_TIMEOUT_MS || "", 10) || 15000;
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+    vectors.push(...await embedder.embed(batch, AbortSignal.timeout(timeoutMs)));
+  }
+  return vectors;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// FAQs are one passage: the question is what callers ask
+function documentPassages(document: KnowledgeDocument): string[] {
+  return document.source === "faq"
+    ? [`Pregunta: ${document.title}\nRespuesta: ${document.content}`]
+    : chunkText(document.content);
+}
+
+/**
+ * Split (and embed) a document now, replacing its passages. Without
+ * embeddings (no provider, provider failure) the document is still
+ * searchable lexically; the failure is kept as `error`.
+ */
+export async function indexKnowledgeDocument(document: KnowledgeDocument): Promise<KnowledgeDocument | undefined> {
+  try {
+    const passages = documentPassages(document);
+
+    let embeddings: (number[] | null)[] = passages.map(() => null);
+    let embeddingModel: string | null = null;
+    let warning: string | null = null;
+    try {
+      const embedder = await getEmbeddingProvider();
+      if (embedder && passages.length > 0) {
+        // The title gives passages of long documents their context
+        embeddings = await embed(embedder, passages.map((passage) => `${document.title}\n${passage}`));
+        embeddingModel = embeddingModelOf(embedder);
+      }
+    } catch (error) {
+      warning = `Embeddings unavailable, lexical search only: ${error instanceof Error ? error.message : String(error)}`;
+      console.warn(`⚠️ Knowledge document ${document.id}: ${warning}`);
+    }
+
+    await storage.replaceKnowledgeChunks(
+      document,
+      passages.map((content, i) => ({ content, embedding: embeddings[i] })),
+    );
+    return await storage.updateKnowledgeDocument(document.id, {
+      status: "ready",
+      error: warning,
+      chunkCount: passages.length,
+      embeddingModel,
+    });
+  } catch (error) {
+    console.error(`❌ Indexing of knowledge document ${document.id} failed:`, error);
+    return await storage.updateKnowledgeDocument(document.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Index the document in the background, after the jobs already queued.
+ * A document already waiting is not queued twice.
+ */
+export function queueKnowledgeIndexing(document: KnowledgeDocument): void {
+  if (queued.has(document.id)) return;
+  queued.add(document.id);
+
+  queue = queue
+    .then(async () => {
+      queued.delete(document.id);
+      await indexKnowledgeDocument(document);
+    })
+    .catch((error) => console.error("❌ Knowledge indexing job failed:", error));
+}
+
+/**
+ * The tenant's passages most relevant to `query`, best first
+ */
+export async function searchKnowledge(
+  tenantId: string,
+  query: string,
+  limit = DEFAULT_KNOWLEDGE_PASSAGES,
+): Promise<KnowledgeSearchResult> {
+  const chunks = await storage.getKnowledgeChunks(tenantId);
+  const toPassage = (chunk: (typeof chunks)[number], score: number): KnowledgePassage => ({
+    chunkId: chunk.id,
+    documentId: chunk.documentId,
+    title: chunk.title,
+    content: chunk.content,
+    score: Math.round(score * 1000) / 1000,
+  });
+
+  try {
+    const embedder = await getEmbeddingProvider();
+    const model = embedder && embeddingModelOf(embedder);
+    if (embedder && chunks.length > 0 && chunks.every((chunk) => chunk.embedding && chunk.embeddingModel === model)) {
+      const [vector] = await embed(embedder, [query]);
+      const passages = chunks
+        .map((chunk) => ({ chunk, score: cosineSimilarity(vector, chunk.embedding!) }))
+        .filter(({ score }) => score >= MIN_SIMILARITY)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ chunk, score }) => toPassage(chunk, score));
+      return { method: "embedding", passages };
+    }
+  } catch (error) {
+    console.warn(`⚠️ Knowledge embedding search failed for tenant ${tenantId}, using lexical search:`, error);
+  }
+
+  const scores = rankLexical(query, chunks.map((chunk) => `${chunk.title}\n${chunk.content}`));
+  const passages = chunks
+    .map((chunk, i) => ({ chunk, score: scores[i] }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ chunk, score }) => toPassage(chunk, score));
+  return { method: "lexical", passages };
+}
+
+/**
+ * Passages for the agent's system prompt about what the caller said; null
+ * when nothing matches. A failing search never breaks the call.
+ */
+export async function knowledgeInstructions(tenantId: string, query: string): Promise<string | null> {
+  if (!query.trim()) return null;
+
+  try {
+    const { passages } = await searchKnowledge(tenantId, query);
+    if (passages.length === 0) return null;
+
+    let budget = MAX_PROMPT_CHARS;
+    const excerpts: string[] = [];
+    for (const passage of passages) {
+      const excerpt = `[${passage.title}]\n${passage.content}`.slice(0, budget);
+      excerpts.push(excerpt);
+      budget -= excerpt.length;
+      if (budget <= 0) break;
+    }
+    return "Información de la base de conocimiento del negocio. Úsala para responder; " +
+      "si no contiene la respuesta, dilo en lugar de inventarla.\n\n" + excerpts.join("\n\n");
+  } catch (error) {
+    console.error(`❌ Knowledge search failed for tenant ${tenantId}:`, error);
+    return null;
+  }
+}
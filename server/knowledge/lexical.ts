@@ -0,0 +1,69 @@
+/**
+ * Lexical ranking of passages (BM25), used when no embedding provider is
+ * configured or the passages were not embedded with the current one
+ *
+ * Words are compared without accents or case, common Spanish and English
+ * words are ignored and plurals are reduced to the singular, so "horarios"
+ * finds "Horario de apertura".
+ */
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  // Spanish
+  "a", "al", "algo", "como", "con", "cual", "cuando", "de", "del", "donde", "e", "el", "ella", "en", "era", "es",
+  "esa", "ese", "eso", "esta", "este", "esto", "estoy", "ha", "hay", "la", "las", "le", "les", "lo", "los", "mas",
+  "me", "mi", "mis", "muy", "no", "nos", "o", "para", "pero", "por", "que", "quiero", "se", "si", "sin", "sobre",
+  "son", "su", "sus", "te", "tengo", "ti", "tu", "tus", "un", "una", "uno", "unos", "unas", "usted", "y", "ya", "yo",
+  "puedo", "puede", "hola", "gracias", "saber", "favor",
+  // English
+  "an", "and", "are", "as", "at", "be", "by", "can", "do", "for", "from", "how", "i", "in", "is", "it", "my", "of",
+  "on", "or", "the", "to", "what", "when", "where", "which", "with", "you", "your",
+]);
+
+function singular(word: string): string {
+  if (word.length > 4 && /[lnrdzj]es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s")) return word.slice(0, -1);
+  return word;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map(singular);
+}
+
+/**
+ * BM25 score of each text for `query`, in input order (0: no shared words)
+ */
+export function rankLexical(query: string, texts: string[]): number[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0 || texts.length === 0) return texts.map(() => 0);
+
+  const documents = texts.map((text) => {
+    const counts = new Map<string, number>();
+    const words = tokenize(text);
+    for (const word of words) counts.set(word, (counts.get(word) ?? 0) + 1);
+    return { counts, length: words.length };
+  });
+  const averageLength = documents.reduce((sum, document) => sum + document.length, 0) / documents.length || 1;
+
+  const idf = new Map(terms.map((term) => {
+    const containing = documents.filter((document) => document.counts.has(term)).length;
+    return [term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))];
+  }));
+
+  return documents.map((document) =>
+    terms.reduce((score, term) => {
+      const frequency = document.counts.get(term) ?? 0;
+      if (frequency === 0) return score;
+      const norm = frequency + K1 * (1 - B + (B * document.length) / averageLength);
+      return score + idf.get(term)! * ((frequency * (K1 + 1)) / norm);
+    }, 0),
+  );
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { deflateSync } from "zlib";
+import { extractDocumentText, KnowledgeError } from "./extract";
+import { extractPdfText, PdfError } from "./pdf";
+
+type PdfObject = string | { dict?: string; stream: Buffer | string; filter?: string };
+
+// Smallest PDF pdf.js opens: numbered objects, an xref table and a trailer
+function buildPdf(objects: PdfObject[], trailer = ""): Buffer {
+  const parts = [Buffer.from("%PDF-1.5\n")];
+  let length = parts[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    let body: Buffer;
+    if (typeof object === "string") {
+      body = Buffer.from(`${index + 1} 0 obj\n${object}\nendobj\n`);
+    } else {
+      const filter = object.filter ?? "/FlateDecode";
+      const raw = Buffer.from(object.stream);
+      const data = filter === "/FlateDecode" ? deflateSync(raw) : raw;
+      body = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n<< ${object.dict ?? ""} /Filter ${filter} /Length ${data.length} >>\nstream\n`),
+        data,
+        Buffer.from("\nendstream\nendobj\n"),
+      ]);
+    }
+    offsets.push(length);
+    parts.push(body);
+    length += body.length;
+  });
+
+  const xref = [
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`,
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`),
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R ${trailer}>>\nstartxref\n${length}\n%%EOF\n`,
+  ].join("");
+  return Buffer.concat([...parts, Buffer.from(xref)]);
+}
+
+// One page drawing `content` with font object 5 (and what follows it)
+function page(content: string, font: PdfObject[]): PdfObject[] {
+  return [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>",
+    { stream: content },
+    ...font,
+  ];
+}
+
+const HELVETICA = ["<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"];
+
+// Glyph ids 1-4 of an embedded CID font, mapped to "Holá" only by ToUnicode
+const TO_UNICODE = `/CIDInit /ProcSet findresource begin 12 dict begin begincmap /CMapName /Test def
+1 begincodespacerange <0000> <FFFF> endcodespacerange
+4 beginbfchar <0001> <0048> <0002> <006F> <0003> <006C> <0004> <00E1> endbfchar
+endcmap CMapName currentdict /CMap defineresource pop end end`;
+
+function cidFont(toUnicode: boolean): PdfObject[] {
+  return [
+    `<< /Type /Font /Subtype /Type0 /BaseFont /Test /Encoding /Identity-H /DescendantFonts [6 0 R]${toUnicode ? " /ToUnicode 8 0 R" : ""} >>`,
+    "<< /Type /Font /Subtype /CIDFontType2 /BaseFont /Test /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor 7 0 R /CIDToGIDMap /Identity >>",
+    "<< /Type /FontDescriptor /FontName /Test /Flags 4 /FontBBox [0 0 1000 1000] /ItalicAngle 0 /Ascent 800 /Descent -200 /CapHeight 700 /StemV 80 >>",
+    { stream: TO_UNICODE },
+  ];
+}
+
+const MB = 1_000_000;
+
+async function rejection(promise: Promise<unknown>): Promise<PdfError> {
+  const error = await promise.then(() => null, (error) => error);
+  expect(error).toBeInstanceOf(PdfError);
+  return error;
+}
+
+describe("extractPdfText", () => {
+  it("reads text lines of simple fonts", async () => {
+    const pdf = buildPdf(page("BT /F1 12 Tf 72 700 Td (Horario: lunes a viernes) Tj 0 -14 Td (de 9 a 18 h. Tel\\351fono) Tj ET", HELVETICA));
+    const text = await extractPdfText(pdf, MB);
+    expect(text).toContain("Horario: lunes a viernes");
+    expect(text).toContain("Teléfono");
+  });
+
+  it("decodes CID fonts through their ToUnicode map", async () => {
+    const pdf = buildPdf(page("BT /F1 12 Tf 72 700 Td <0001000200030004> Tj ET", cidFont(true)));
+    expect(await extractPdfText(pdf, MB)).toBe("Holá");
+  });
+
+  it("rejects text in fonts without a Unicode mapping", async () => {
+    const pdf = buildPdf(page("BT /F1 12 Tf 72 700 Td <0001000200030004> Tj ET", cidFont(false)));
+    const error = await rejection(extractPdfText(pdf, MB));
+    expect(error.status).toBe(400);
+    expect(error.message).toMatch(/Unicode mapping/);
+  });
+
+  it("rejects streams that inflate past the budget before parsing", async () => {
+    // 8 KB deflated
+    const bomb = { dict: "/Type /XObject /Subtype /Form", stream: Buffer.alloc(8 * MB) };
+    const pdf = buildPdf([...page("BT /F1 12 Tf 72 700 Td (Hola) Tj ET", HELVETICA), bomb]);
+    expect(pdf.length).toBeLessThan(100_000);
+
+    const error = await rejection(extractPdfText(pdf, 4 * MB));
+    expect(error.status).toBe(413);
+    expect(error.message).toMatch(/more than 4 MB/);
+  });
+
+  it("counts the budget across streams", async () => {
+    const streams = [1, 2, 3].map(() => ({ stream: Buffer.alloc(2 * MB) }));
+    const pdf = buildPdf([...page("BT /F1 12 Tf 72 700 Td (Hola) Tj ET", HELVETICA), ...streams]);
+    expect((await rejection(extractPdfText(pdf, 5 * MB))).status).toBe(413);
+  });
+
+  it("does not count image streams", async () => {
+    const image = { dict: "/Type /XObject /Subtype /Image /Width 2000 /Height 1000 /ColorSpace /DeviceRGB /BitsPerComponent 8", stream: Buffer.alloc(6 * MB) };
+    const pdf = buildPdf([...page("BT /F1 12 Tf 72 700 Td (Hola) Tj ET", HELVETICA), image]);
+    expect(await extractPdfText(pdf, 4 * MB)).toBe("Hola");
+  });
+
+  it("rejects compressions it cannot measure", async () => {
+    const pdf = buildPdf([...page("BT /F1 12 Tf 72 700 Td (Hola) Tj ET", HELVETICA), { stream: "\x80\x0b\x60\x50", filter: "/LZWDecode" }]);
+    expect((await rejection(extractPdfText(pdf, MB))).message).toMatch(/unsupported compression \(LZWDecode\)/);
+  });
+
+  it("rejects encrypted documents", async () => {
+    const pdf = buildPdf(
+      [...page("BT /F1 12 Tf 72 700 Td (Hola) Tj ET", HELVETICA), "<< /Filter /Standard /V 2 /R 3 /Length 128 /P -4 /O <00> /U <00> >>"],
+      "/Encrypt 6 0 R ",
+    );
+    expect((await rejection(extractPdfText(pdf, MB))).message).toMatch(/Encrypted/);
+  });
+
+  it("rejects files that are not PDFs", async () => {
+    await rejection(extractPdfText(Buffer.from("Horario: lunes a viernes"), MB));
+  });
+});
+
+describe("extractDocumentText", () => {
+  it("reports PDF errors with their status", async () => {
+    const pdf = buildPdf(page("BT /F1 12 Tf 72 700 Td <0001000200030004> Tj ET", cidFont(false)));
+    await expect(extractDocumentText({ buffer: pdf, originalname: "horario.pdf", mimetype: "application/pdf" })).rejects.toMatchObject({
+      name: "KnowledgeError",
+      status: 400,
+    });
+  });
+
+  it("rejects PDFs without text", async () => {
+    const pdf = buildPdf(page("", HELVETICA));
+    await expect(extractDocumentText({ buffer: pdf, originalname: "escaneo.pdf", mimetype: "application/pdf" })).rejects.toThrow(KnowledgeError);
+  });
+
+  it("returns the text of plain files without a BOM", async () => {
+    const file = { buffer: Buffer.from("\uFEFFLunes\r\nMartes"), originalname: "horario.txt", mimetype: "text/plain" };
+    expect(await extractDocumentText(file)).toEqual({ source: "text", content: "Lunes\nMartes" });
+  });
+});
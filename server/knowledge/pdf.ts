@@ -0,0 +1,145 @@
+/**
+ * Plain-text extraction from PDF files
+ *
+ * Text comes from pdf.js, which decodes font encodings, ToUnicode maps and
+ * CID fonts. Glyphs no map translates come out as control or private-use
+ * characters: a document made mostly of those is rejected rather than
+ * indexed as garbage. Scanned pages have no text at all.
+ *
+ * pdf.js inflates streams without a limit, and a few kilobytes of deflated
+ * zeros expand to gigabytes. The streams are inflated here first against a
+ * byte budget, and a document over budget is rejected before parsing.
+ */
+
+import { constants, inflateSync } from "zlib";
+import { getDocument, VerbosityLevel } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+const STREAM = Buffer.from("stream");
+const END_STREAM = Buffer.from("endstream");
+
+// Image codecs: pdf.js decodes those only to render, never for text
+const IMAGE_FILTERS = new Set(["/DCTDecode", "/JPXDecode", "/JBIG2Decode", "/CCITTFaxDecode"]);
+
+// Share of undecodable characters above which the text is garbage
+const MAX_UNDECODABLE_SHARE = 0.1;
+
+export class PdfError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+    this.name = "PdfError";
+  }
+}
+
+/**
+ * Inflate every compressed stream pdf.js could read for text, throwing a
+ * PdfError (413) once more than `maxInflatedBytes` come out in total
+ */
+function checkInflatedSize(pdf: Buffer, maxInflatedBytes: number): void {
+  const tooLarge = () =>
+    new PdfError(
+      `The PDF content expands to more than ${Math.round(maxInflatedBytes / 1_000_000)} MB. Split it into several files.`,
+      413,
+    );
+  let position = 0;
+  let inflated = 0;
+
+  while (true) {
+    const keyword = pdf.indexOf(STREAM, position);
+    if (keyword === -1) break;
+    position = keyword + STREAM.length;
+    // "endstream" also contains the keyword
+    if (pdf.subarray(keyword - 3, keyword).toString("latin1") === "end") continue;
+
+    let start = position;
+    if (pdf[start] === 0x0d) start++;
+    if (pdf[start] === 0x0a) start++;
+    const end = pdf.indexOf(END_STREAM, start);
+    if (end === -1) break;
+    position = end + END_STREAM.length;
+
+    const header = pdf.toString("latin1", Math.max(0, pdf.lastIndexOf("obj", keyword)), keyword);
+    const filters = header.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1].match(/\/\w+/g) ?? [];
+    if (filters.length === 0 || /\/Subtype\s*\/Image\b/.test(header)) continue;
+    if (filters.some((filter) => IMAGE_FILTERS.has(filter))) continue;
+    // Other filters expand too, and only Flate is measured here
+    const unsupported = filters.find((filter) => filter !== "/FlateDecode");
+    if (unsupported) {
+      throw new PdfError(`The PDF uses an unsupported compression (${unsupported.slice(1)})`);
+    }
+
+    const remaining = maxInflatedBytes - inflated;
+    if (remaining <= 0) throw tooLarge();
+    try {
+      // Truncated streams are read as far as they go, as pdf.js does
+      inflated += inflateSync(pdf.subarray(start, end), {
+        maxOutputLength: remaining,
+        finishFlush: constants.Z_SYNC_FLUSH,
+      }).length;
+    } catch (error: any) {
+      if (error?.code === "ERR_BUFFER_TOO_LARGE") throw tooLarge();
+      // Corrupt stream: pdf.js cannot inflate it either
+    }
+  }
+}
+
+// Control characters (other than line breaks and tabs), private-use
+// characters and the replacement character
+function isUndecodable(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return (code < 0x20 && char !== "\n" && char !== "\t") || (code >= 0xe000 && code <= 0xf8ff) || code === 0xfffd;
+}
+
+/**
+ * Text of a PDF, one line per text line of the pages; empty when the file
+ * has no readable text. Throws a PdfError for documents that cannot be
+ * read, are encrypted, inflate past `maxInflatedBytes` or decode to garbage.
+ */
+export async function extractPdfText(pdf: Buffer, maxInflatedBytes: number): Promise<string> {
+  if (pdf.subarray(0, 5).toString("latin1") !== "%PDF-") {
+    throw new PdfError("Not a PDF file");
+  }
+  // Encrypted streams cannot be measured before pdf.js decrypts them
+  if (/\/Encrypt\b/.test(pdf.toString("latin1"))) {
+    throw new PdfError("Encrypted PDFs are not supported. Remove the password or upload it as text instead.");
+  }
+  checkInflatedSize(pdf, maxInflatedBytes);
+
+  const document = await getDocument({
+    data: new Uint8Array(pdf),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: VerbosityLevel.ERRORS,
+  }).promise;
+
+  let text = "";
+  try {
+    for (let number = 1; number <= document.numPages; number++) {
+      const page = await document.getPage(number);
+      const content = await page.getTextContent();
+      for (const item of content.items) {
+        if ("str" in item) text += item.str + (item.hasEOL ? "\n" : "");
+      }
+      text += "\n\n";
+      page.cleanup();
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  const characters = Array.from(text.replace(/\s+/g, ""));
+  const undecodable = characters.filter(isUndecodable).length;
+  if (undecodable > characters.length * MAX_UNDECODABLE_SHARE) {
+    throw new PdfError("The PDF uses fonts without a Unicode mapping and its text cannot be read. Upload it as text instead.");
+  }
+
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[^\S\n]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
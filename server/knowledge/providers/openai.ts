@@ -0,0 +1,59 @@
+/**
+ * OpenAI-compatible embeddings
+ *
+ * Works with OpenAI and with any server implementing POST
+ * {baseUrl}/embeddings (vLLM, Ollama, LM Studio, gateways).
+ *
+ * Required Environment Variables:
+ * - OPENAI_API_KEY: API key (required for api.openai.com, sent when set)
+ * - EMBEDDING_BASE_URL: API root (optional, defaults to LLM_BASE_URL or 'https://api.openai.com/v1')
+ * - EMBEDDING_MODEL: Model to use (optional, defaults to 'text-embedding-3-small')
+ */
+
+import type { EmbeddingProvider } from "../index.js";
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly model: string;
+  private readonly apiKey: string | undefined;
+  private readonly baseUrl: string;
+
+  constructor() {
+    this.apiKey = process.env.OPENAI_API_KEY;
+    this.baseUrl = (process.env.EMBEDDING_BASE_URL || process.env.LLM_BASE_URL || OPENAI_BASE_URL).replace(/\/$/, "");
+    this.model = process.env.EMBEDDING_MODEL || "text-embedding-3-small";
+
+    if (!this.apiKey && this.baseUrl === OPENAI_BASE_URL) {
+      throw new Error("OPENAI_API_KEY environment variable is required");
+    }
+  }
+
+  async embed(texts: string[], signal: AbortSignal): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Embedding API error: ${response.status} ${errorText.slice(0, 500)}`);
+    }
+
+    const data = await response.json().catch(() => null);
+    const items: { index: number; embedding: unknown }[] = Array.isArray(data?.data) ? data.data : [];
+    const vectors = [...items]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+    if (vectors.length !== texts.length || !vectors.every((vector) => Array.isArray(vector) && vector.length > 0)) {
+      throw new Error("Embedding response does not match the input");
+    }
+    return vectors as number[][];
+  }
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from "vitest";
+import { storage } from "../storage";
+import { completeChat, LLMError, setLLMProvider, type ChatCompletionRequest, type LLMProvider } from "./index";
+import { MockLLMProvider } from "./providers/mock";
+
+const REQUEST: ChatCompletionRequest = {
+  model: "gpt-4o-mini",
+  messages: [
+    { role: "system", content: "Eres la recepcionista de la clínica." },
+    { role: "user", content: "Quiero hablar con una persona" },
+  ],
+  maxTokens: 200,
+  temperature: 0.3,
+  tools: [{ name: "transfer_to_queue", description: "Pasar con un agente", parameters: { type: "object" } }],
+};
+
+const REPLY = { content: "Hola", toolCalls: [], model: "gpt-4o-mini", usage: { promptTokens: 12, completionTokens: 3 } };
+
+// Provider answering with `outcomes` in turn: a result, an error to throw,
+// or "hang" to wait until the request is aborted
+function scripted(...outcomes: (typeof REPLY | Error | "hang")[]) {
+  const complete = vi.fn((_request: ChatCompletionRequest, signal: AbortSignal) => {
+    const outcome = outcomes.shift() ?? REPLY;
+    if (outcome === "hang") {
+      return new Promise<never>((_resolve, reject) => {
+        signal.addEventListener("abort", () => reject(new Error("aborted")), { once: true });
+      });
+    }
+    return outcome instanceof Error ? Promise.reject(outcome) : Promise.resolve(outcome);
+  });
+  const provider: LLMProvider = { name: "scripted", complete };
+  setLLMProvider(provider);
+  return complete;
+}
+
+let recordUsage: MockInstance<typeof storage.recordLlmUsage>;
+
+beforeEach(() => {
+  recordUsage = vi.spyOn(storage, "recordLlmUsage").mockResolvedValue();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setLLMProvider(null);
+  delete process.env.LLM_TIMEOUT_MS;
+  delete process.env.LLM_MAX_RETRIES;
+});
+
+describe("completeChat", () => {
+  it("retries rate limits and server errors, recording the tokens of the answer", async () => {
+    const complete = scripted(
+      new LLMError("Too many requests", 429, "rate_limited", true),
+      new Error("socket hang up"),
+      REPLY,
+    );
+
+    expect(await completeChat(REQUEST, { tenantId: "tenant-1" })).toEqual(REPLY);
+    expect(complete).toHaveBeenCalledTimes(3);
+    expect(recordUsage).toHaveBeenCalledOnce();
+    expect(recordUsage).toHaveBeenCalledWith("tenant-1", { promptTokens: 12, completionTokens: 3, failed: false });
+  });
+
+  it("gives up at once on errors a retry cannot fix and records the failure", async () => {
+    const complete = scripted(new LLMError("Invalid model", 400, "provider_error"));
+
+    await expect(completeChat(REQUEST, { tenantId: "tenant-1" })).rejects.toMatchObject({ status: 400, code: "provider_error" });
+    expect(complete).toHaveBeenCalledOnce();
+    expect(recordUsage).toHaveBeenCalledWith("tenant-1", { promptTokens: 0, completionTokens: 0, failed: true });
+  });
+
+  it("times out attempts after LLM_TIMEOUT_MS", async () => {
+    process.env.LLM_TIMEOUT_MS = "20";
+    process.env.LLM_MAX_RETRIES = "1";
+    const complete = scripted("hang", "hang");
+
+    await expect(completeChat(REQUEST)).rejects.toMatchObject({ status: 504, code: "timeout", retryable: true });
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(recordUsage).not.toHaveBeenCalled();
+  });
+
+  it("stops at the caller's deadline, also while waiting to retry", async () => {
+    const complete = scripted(new LLMError("Bad gateway", 502, "provider_error", true));
+    const started = Date.now();
+
+    await expect(completeChat(REQUEST, { signal: AbortSignal.timeout(100) })).rejects.toMatchObject({
+      message: "LLM request deadline exceeded",
+      code: "timeout",
+      retryable: false,
+    });
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(complete).toHaveBeenCalledOnce();
+  });
+
+  it("does not start a request once the deadline has passed", async () => {
+    const complete = scripted(REPLY);
+    await expect(completeChat(REQUEST, { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(LLMError);
+    expect(complete).not.toHaveBeenCalled();
+  });
+});
+
+describe("MockLLMProvider", () => {
+  it("calls the offered tools from the caller's words", async () => {
+    setLLMProvider(new MockLLMProvider());
+    const result = await completeChat(REQUEST);
+
+    expect(result.content).toBe("");
+    expect(result.toolCalls).toEqual([expect.objectContaining({ name: "transfer_to_queue" })]);
+    expect(result.usage.promptTokens).toBeGreaterThan(0);
+  });
+
+  it("answers the same conversation the same way", async () => {
+    setLLMProvider(new MockLLMProvider());
+    const request = { ...REQUEST, tools: undefined, messages: [{ role: "user" as const, content: "¿Abren los sábados?" }] };
+    const first = await completeChat(request);
+
+    expect(first.content).toContain("¿Abren los sábados?");
+    expect(await completeChat(request)).toEqual(first);
+  });
+});
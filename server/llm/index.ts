@@ -0,0 +1,211 @@
+/**
+ * LLM chat completions with provider abstraction, the backend of the AI
+ * voice agents (../ai-agents.ts)
+ *
+ * Every request runs with a per-attempt timeout and is retried on
+ * timeouts, rate limits and server errors. Callers that must answer in time
+ * (voice webhooks) pass a signal: once it aborts, the attempt in flight is
+ * cancelled and no retry follows. The tokens used (and failed
+ * requests) are added to the tenant's `ai_metrics` row of the day. Failures
+ * surface as LLMError with an HTTP status and a stable code for responses.
+ *
+ * Environment Variables Contract:
+ * ==============================
+ * LLM_PROVIDER=openai|mock (default: openai when OPENAI_API_KEY is set;
+ *   otherwise mock outside production, not_configured in production)
+ * LLM_TIMEOUT_MS (optional, defaults to 15000) per attempt
+ * LLM_MAX_RETRIES (optional, defaults to 2) after the first attempt
+ *
+ * OpenAI-compatible (OpenAI or any server exposing /chat/completions):
+ * - OPENAI_API_KEY (required for api.openai.com)
+ * - LLM_BASE_URL (optional, defaults to 'https://api.openai.com/v1')
+ *
+ * Mock (development and tests, no network):
+ * - Deterministic reply (and tool call) built from the last user message
+ */
+
+import { storage } from "../storage";
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+// Function the model may call instead of (or besides) answering;
+// `parameters` is a JSON Schema object
+export interface ChatTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ChatToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  tools?: ChatTool[];
+}
+
+export interface ChatCompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// `content` may be empty when the model only called tools
+export interface ChatCompletionResult {
+  content: string;
+  toolCalls: ChatToolCall[];
+  model: string;
+  usage: ChatCompletionUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  // Aborting `signal` must reject the pending request
+  complete(request: ChatCompletionRequest, signal: AbortSignal): Promise<ChatCompletionResult>;
+}
+
+export type LLMErrorCode = "timeout" | "rate_limited" | "provider_error" | "invalid_response" | "not_configured";
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: LLMErrorCode,
+    public retryable = false,
+  ) {
+    super(message);
+    this.name = "LLMError";
+  }
+}
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Provider without LLM_PROVIDER: deployments from before it called OpenAI
+ * directly, and canned mock replies must never reach real callers
+ */
+function defaultLLMProvider(): string {
+  if (process.env.OPENAI_API_KEY) return "openai";
+  if (process.env.NODE_ENV === "production") {
+    throw new LLMError("LLM_PROVIDER is not set and OPENAI_API_KEY is missing", 503, "not_configured");
+  }
+  return "mock";
+}
+
+/**
+ * Provider selected by LLM_PROVIDER, created once
+ */
+export async function getLLMProvider(): Promise<LLMProvider> {
+  if (provider) return provider;
+
+  const name = process.env.LLM_PROVIDER || defaultLLMProvider();
+  switch (name) {
+    case "openai": {
+      const { OpenAICompatibleProvider } = await import("./providers/openai.js");
+      provider = new OpenAICompatibleProvider();
+      break;
+    }
+    case "mock": {
+      const { MockLLMProvider } = await import("./providers/mock.js");
+      provider = new MockLLMProvider();
+      break;
+    }
+    default:
+      throw new LLMError(`Unsupported LLM provider: ${name}. Supported: openai, mock`, 503, "not_configured");
+  }
+  return provider;
+}
+
+/**
+ * Swap the provider (tests use the mock)
+ */
+export function setLLMProvider(next: LLMProvider | null): void {
+  provider = next;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Resolves early when `signal` aborts
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+function recordUsage(tenantId: string | undefined, usage: ChatCompletionUsage, failed: boolean): void {
+  if (!tenantId) return;
+  storage
+    .recordLlmUsage(tenantId, { ...usage, failed })
+    .catch((error) => console.error("❌ Failed to record LLM usage:", error));
+}
+
+async function attempt(
+  current: LLMProvider,
+  request: ChatCompletionRequest,
+  timeoutMs: number,
+  deadline?: AbortSignal,
+): Promise<ChatCompletionResult> {
+  const deadlineExceeded = () => new LLMError("LLM request deadline exceeded", 504, "timeout");
+  if (deadline?.aborted) throw deadlineExceeded();
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const abort = () => controller.abort();
+  deadline?.addEventListener("abort", abort, { once: true });
+
+  try {
+    return await current.complete(request, controller.signal);
+  } catch (error) {
+    if (deadline?.aborted) throw deadlineExceeded();
+    if (controller.signal.aborted) {
+      throw new LLMError(`LLM request timed out after ${timeoutMs} ms`, 504, "timeout", true);
+    }
+    if (error instanceof LLMError) throw error;
+    // Network failures (DNS, connection reset) are worth another attempt
+    throw new LLMError(error instanceof Error ? error.message : String(error), 502, "provider_error", true);
+  } finally {
+    clearTimeout(timer);
+    deadline?.removeEventListener("abort", abort);
+  }
+}
+
+/**
+ * Run a chat completion for `tenantId` (usage is only recorded with one),
+ * giving up with a timeout LLMError once `signal` aborts
+ */
+export async function completeChat(
+  request: ChatCompletionRequest,
+  context: { tenantId?: string; signal?: AbortSignal } = {},
+): Promise<ChatCompletionResult> {
+  const current = await getLLMProvider();
+  const timeoutMs = envInt("LLM_TIMEOUT_MS", 15000);
+  const maxRetries = envInt("LLM_MAX_RETRIES", 2);
+
+  for (let retry = 0; ; retry++) {
+    try {
+      const result = await attempt(current, request, timeoutMs, context.signal);
+      recordUsage(context.tenantId, result.usage, false);
+      return result;
+    } catch (error) {
+      const llmError = error as LLMError;
+      if (!llmError.retryable || retry >= maxRetries) {
+        console.error(`❌ LLM ${current.name} request failed (${llmError.code}):`, llmError.message);
+        recordUsage(context.tenantId, { promptTokens: 0, completionTokens: 0 }, true);
+        throw llmError;
+      }
+      console.warn(`⚠️ LLM ${current.name} ${llmError.code}, retry ${retry + 1}/${maxRetries}`);
+      await delay(250 * 2 ** retry, context.signal);
+    }
+  }
+}
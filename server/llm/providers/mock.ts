@@ -0,0 +1,124 @@
+/**
+ * Mock LLM provider
+ *
+ * No network: the reply is built from the last user message, so the same
+ * conversation always gets the same answer. When the request offers tools,
+ * a few phrases call them (asking for a person, an extension, an
+ * appointment and then a time for it, showing interest or saying goodbye),
+ * which exercises the agents' actions. Token counts are estimated at ~4 characters per token.
+ */
+
+import type { ChatCompletionRequest, ChatCompletionResult, ChatToolCall, LLMProvider } from "../index.js";
+
+const HANDOFF_KEYWORDS = ["humano", "persona", "agente", "operador", "asesor"];
+const APPOINTMENT_KEYWORDS = ["cita", "reserva", "reservar"];
+const LEAD_KEYWORDS = ["me interesa", "presupuesto", "cotización"];
+const GOODBYE_KEYWORDS = ["adiós", "adios", "eso es todo", "nada más"];
+const EXTENSION_PATTERN = /extensi[oó]n\s*(\d{2,6})/;
+const TIME_PATTERN = /\b(\d{1,2})[:.](\d{2})\b/;
+const DATE_PATTERN = /\b\d{4}-\d{2}-\d{2}\b/;
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function includesAny(text: string, keywords: string[]): boolean {
+  return keywords.some((keyword) => text.includes(keyword));
+}
+
+// Day the caller asked for: an explicit date, "mañana", "pasado mañana" or today
+function requestedDate(text: string): string {
+  const explicit = text.match(DATE_PATTERN);
+  if (explicit) return explicit[0];
+
+  const days = text.includes("pasado mañana") ? 2 : text.includes("mañana") ? 1 : 0;
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// What the caller has said so far, as the handoff summary
+function summarize(request: ChatCompletionRequest): string {
+  const said = request.messages
+    .filter((message) => message.role === "user")
+    .map((message) => message.content.trim())
+    .filter(Boolean);
+  return `El cliente dijo: ${said.map((text) => `"${text}"`).join(", ")}`.slice(0, 500);
+}
+
+function pickToolCall(request: ChatCompletionRequest, said: string): ChatToolCall | null {
+  const offered = new Set((request.tools || []).map((tool) => tool.name));
+  const text = said.toLowerCase();
+  const summary = summarize(request);
+
+  const extension = text.match(EXTENSION_PATTERN);
+  if (extension && offered.has("transfer_to_extension")) {
+    return { name: "transfer_to_extension", arguments: { extension: extension[1], summary } };
+  }
+  if (includesAny(text, HANDOFF_KEYWORDS) && offered.has("transfer_to_queue")) {
+    return { name: "transfer_to_queue", arguments: { summary, reason: "El cliente pidió hablar con una persona" } };
+  }
+  // A time after asking for an appointment books it; the request names the service
+  const time = text.match(TIME_PATTERN);
+  const appointmentRequest = request.messages
+    .filter((message) => message.role === "user" && includesAny(message.content.toLowerCase(), APPOINTMENT_KEYWORDS))
+    .pop();
+  if (time && appointmentRequest && offered.has("book_appointment")) {
+    const requested = appointmentRequest.content.toLowerCase();
+    return {
+      name: "book_appointment",
+      arguments: {
+        service: requested,
+        date: requestedDate(requested),
+        time: `${time[1]}:${time[2]}`,
+        customerName: "Cliente telefónico",
+      },
+    };
+  }
+  if (includesAny(text, APPOINTMENT_KEYWORDS) && offered.has("find_appointment_slots")) {
+    return { name: "find_appointment_slots", arguments: { service: text, date: requestedDate(text) } };
+  }
+  if (includesAny(text, LEAD_KEYWORDS) && offered.has("create_lead")) {
+    return { name: "create_lead", arguments: { name: "Cliente telefónico", notes: summary } };
+  }
+  if (includesAny(text, GOODBYE_KEYWORDS) && offered.has("end_call")) {
+    return { name: "end_call", arguments: { reason: "El cliente se despidió" } };
+  }
+  return null;
+}
+
+export class MockLLMProvider implements LLMProvider {
+  readonly name = "mock";
+
+  async complete(request: ChatCompletionRequest, signal: AbortSignal): Promise<ChatCompletionResult> {
+    if (signal.aborted) throw new Error("Request aborted");
+
+    const lastUserMessage = [...request.messages].reverse().find((message) => message.role === "user");
+    const said = lastUserMessage?.content.trim() ?? "";
+    const toolCall = said ? pickToolCall(request, said) : null;
+
+    let content: string;
+    if (!said) {
+      content = "Disculpa, no te he entendido. ¿Puedes repetirlo?";
+    } else if (toolCall) {
+      // The action decides what the caller hears
+      content = "";
+    } else if (HANDOFF_KEYWORDS.some((keyword) => said.toLowerCase().includes(keyword))) {
+      content = "Lo siento, ahora mismo no puedo transferir la llamada. ¿Te puedo ayudar yo?";
+    } else {
+      content = `Entendido: "${said.slice(0, 120)}". ¿Te puedo ayudar con algo más?`;
+    }
+
+    // Respect max_tokens like a real model would
+    const maxChars = request.maxTokens * 4;
+    if (content.length > maxChars) content = content.slice(0, maxChars);
+
+    return {
+      content,
+      toolCalls: toolCall ? [toolCall] : [],
+      model: `mock:${request.model}`,
+      usage: {
+        promptTokens: estimateTokens(request.messages.map((message) => message.content).join("\n")),
+        completionTokens: estimateTokens(content + (toolCall ? JSON.stringify(toolCall) : "")),
+      },
+    };
+  }
+}
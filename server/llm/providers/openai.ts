@@ -0,0 +1,102 @@
+/**
+ * OpenAI-compatible chat completions
+ *
+ * Works with OpenAI and with any server implementing POST
+ * {baseUrl}/chat/completions (vLLM, Ollama, LM Studio, gateways).
+ *
+ * Required Environment Variables:
+ * - OPENAI_API_KEY: API key (required for api.openai.com, sent when set)
+ * - LLM_BASE_URL: API root (optional, defaults to 'https://api.openai.com/v1')
+ */
+
+import {
+  LLMError,
+  type ChatCompletionRequest,
+  type ChatCompletionResult,
+  type ChatToolCall,
+  type LLMProvider,
+} from "../index.js";
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// Function calls of the reply; arguments arrive as a JSON string, and calls
+// whose arguments do not parse are dropped
+function parseToolCalls(raw: unknown): ChatToolCall[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((call) => {
+    if (call?.type !== "function" || typeof call.function?.name !== "string") return [];
+    try {
+      const args = JSON.parse(call.function.arguments || "{}");
+      return args && typeof args === "object" && !Array.isArray(args)
+        ? [{ name: call.function.name, arguments: args }]
+        : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  private readonly apiKey: string | undefined;
+  private readonly baseUrl: string;
+
+  constructor() {
+    this.apiKey = process.env.OPENAI_API_KEY;
+    this.baseUrl = (process.env.LLM_BASE_URL || OPENAI_BASE_URL).replace(/\/$/, "");
+
+    if (!this.apiKey && this.baseUrl === OPENAI_BASE_URL) {
+      throw new LLMError("OPENAI_API_KEY environment variable is required", 503, "not_configured");
+    }
+  }
+
+  async complete(request: ChatCompletionRequest, signal: AbortSignal): Promise<ChatCompletionResult> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map((tool) => ({ type: "function", function: tool })),
+              tool_choice: "auto",
+            }
+          : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      const message = `LLM API error: ${response.status} ${errorText.slice(0, 500)}`;
+      if (response.status === 429) throw new LLMError(message, 429, "rate_limited", true);
+      if (response.status >= 500) throw new LLMError(message, 502, "provider_error", true);
+      throw new LLMError(message, 502, "provider_error");
+    }
+
+    const data = await response.json().catch(() => null);
+    const message = data?.choices?.[0]?.message;
+    const content = typeof message?.content === "string" ? message.content.trim() : "";
+    const toolCalls = parseToolCalls(message?.tool_calls);
+    if (!content && toolCalls.length === 0) {
+      throw new LLMError("LLM response has no message content", 502, "invalid_response", true);
+    }
+
+    return {
+      content,
+      toolCalls,
+      model: data.model || request.model,
+      usage: {
+        promptTokens: Number(data.usage?.prompt_tokens) || 0,
+        completionTokens: Number(data.usage?.completion_tokens) || 0,
+      },
+    };
+  }
+}
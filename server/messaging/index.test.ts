@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHmac } from "crypto";
+import type { Conversation, InboundNumber, Message, User } from "@shared/schema";
+import { storage } from "../storage";
+import {
+  onConversationMessage,
+  receiveInboundMessage,
+  sendConversationMessage,
+  setMessagingProvider,
+  type MessagingWebhookRequest,
+} from "./index";
+import { FakeMessagingProvider } from "./providers/fake";
+
+const SECRET = "messaging-secret";
+
+function webhook(body: object, secret = SECRET): MessagingWebhookRequest {
+  const rawBody = Buffer.from(JSON.stringify(body));
+  const signature = `sha256=${createHmac("sha256", secret).update(rawBody).digest("hex")}`;
+  return { url: "https://example.com/webhook/messaging/inbound", headers: { "x-messaging-signature": signature }, body, rawBody };
+}
+
+const THREAD = {
+  id: "conversation-1",
+  tenantId: "tenant-1",
+  channel: "whatsapp",
+  callId: "whatsapp:+34600000000",
+  phoneNumber: "+34600000000",
+  channelAddress: "+34910000000",
+  status: "active",
+} as Conversation;
+
+describe("FakeMessagingProvider", () => {
+  const provider = new FakeMessagingProvider();
+
+  beforeEach(() => {
+    process.env.MESSAGING_WEBHOOK_SECRET = SECRET;
+  });
+
+  afterEach(() => {
+    delete process.env.MESSAGING_WEBHOOK_SECRET;
+  });
+
+  it("accepts webhooks signed with the shared secret", () => {
+    expect(provider.verifyWebhook(webhook({ id: "m1", status: "delivered" }))).toBe(true);
+  });
+
+  it("rejects bodies changed after signing, other secrets and unsigned webhooks", () => {
+    const tampered = webhook({ id: "m1", status: "delivered" });
+    tampered.rawBody = Buffer.from(JSON.stringify({ id: "m1", status: "failed" }));
+
+    expect(provider.verifyWebhook(tampered)).toBe(false);
+    expect(provider.verifyWebhook(webhook({ id: "m1" }, "other-secret"))).toBe(false);
+    expect(provider.verifyWebhook({ ...webhook({ id: "m1" }), headers: {} })).toBe(false);
+  });
+
+  it("rejects every webhook while no secret is configured", () => {
+    const request = webhook({ id: "m1" });
+    delete process.env.MESSAGING_WEBHOOK_SECRET;
+    expect(provider.verifyWebhook(request)).toBe(false);
+  });
+
+  it("parses inbound messages of messaging channels only", () => {
+    const inbound = { id: "m1", channel: "sms", from: "+34600000000", to: "+34910000000", body: "Hola" };
+    expect(provider.parseInbound(webhook(inbound))).toEqual({ externalId: "m1", channel: "sms", from: "+34600000000", to: "+34910000000", body: "Hola" });
+    expect(provider.parseInbound(webhook({ ...inbound, channel: "voice" }))).toBeNull();
+    expect(provider.parseStatus(webhook({ id: "m1", status: "read-ish" }))).toBeNull();
+  });
+});
+
+describe("receiveInboundMessage", () => {
+  const inbound = { externalId: "m1", channel: "whatsapp" as const, from: "600 000 000", to: "+34 910 000 000", body: "Hola" };
+
+  it("opens a thread for a new contact and notifies listeners", async () => {
+    vi.spyOn(storage, "getMessageByExternalId").mockResolvedValue(undefined);
+    const lookup = vi
+      .spyOn(storage, "getInboundNumberByPhone")
+      .mockResolvedValue({ tenantId: "tenant-1", phoneNumber: "+34910000000", isActive: true } as InboundNumber);
+    vi.spyOn(storage, "getConversationByCallId").mockResolvedValue(undefined);
+    const created = vi.spyOn(storage, "createConversation").mockResolvedValue(THREAD);
+    vi.spyOn(storage, "createConversationEvent").mockResolvedValue({} as any);
+    vi.spyOn(storage, "createMessage").mockImplementation(async (data) => ({ id: "message-1", ...data }) as Message);
+    const listener = vi.fn();
+    const stop = onConversationMessage(listener);
+
+    const message = await receiveInboundMessage(inbound);
+    stop();
+
+    expect(lookup).toHaveBeenCalledWith("+34910000000");
+    expect(created).toHaveBeenCalledWith(expect.objectContaining({ channel: "whatsapp", channelAddress: "+34910000000", status: "active" }));
+    expect(message).toMatchObject({ conversationId: "conversation-1", from: "customer", deliveryStatus: "received" });
+    expect(listener).toHaveBeenCalledWith(message, THREAD);
+  });
+
+  it("ignores provider retries of a stored message", async () => {
+    vi.spyOn(storage, "getMessageByExternalId").mockResolvedValue({ id: "message-1" } as Message);
+    const createMessage = vi.spyOn(storage, "createMessage");
+
+    expect(await receiveInboundMessage(inbound)).toBeNull();
+    expect(createMessage).not.toHaveBeenCalled();
+  });
+
+  it("refuses messages to numbers no tenant has active", async () => {
+    vi.spyOn(storage, "getMessageByExternalId").mockResolvedValue(undefined);
+    vi.spyOn(storage, "getInboundNumberByPhone").mockResolvedValue(undefined);
+    await expect(receiveInboundMessage(inbound)).rejects.toMatchObject({ status: 404, code: "NUMBER_NOT_FOUND" });
+  });
+});
+
+describe("sendConversationMessage", () => {
+  const agent = { id: "user-1" } as User;
+  let provider: FakeMessagingProvider;
+
+  beforeEach(() => {
+    provider = new FakeMessagingProvider();
+    setMessagingProvider(provider);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(storage, "createMessage").mockImplementation(async (data) => ({ id: "message-1", ...data }) as Message);
+    vi.spyOn(storage, "updateMessageDelivery").mockImplementation(async (id, data) => ({ id, ...data }) as Message);
+  });
+
+  afterEach(() => {
+    setMessagingProvider(null);
+  });
+
+  it("sends the reply from the thread's number", async () => {
+    const message = await sendConversationMessage(THREAD, "Le atendemos el lunes", agent);
+
+    expect(provider.sent).toEqual([
+      expect.objectContaining({ channel: "whatsapp", from: "+34910000000", to: "+34600000000", body: "Le atendemos el lunes" }),
+    ]);
+    expect(message).toMatchObject({ deliveryStatus: "sent", externalId: provider.sent[0].externalId });
+  });
+
+  it("keeps a reply the provider refused as a failed delivery", async () => {
+    provider.failWith(new Error("Number not on WhatsApp"));
+    const message = await sendConversationMessage(THREAD, "Hola", agent);
+    expect(message).toMatchObject({ deliveryStatus: "failed", deliveryError: "Number not on WhatsApp" });
+  });
+
+  it("refuses replies on calls", async () => {
+    await expect(sendConversationMessage({ ...THREAD, channel: "voice" }, "Hola", agent)).rejects.toMatchObject({ status: 409 });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Messaging channels (SMS, WhatsApp) with provider abstraction
+ *
+ * Each contact gets one conversation per channel (`callId` is
+ * "<channel>:<contact number>"), tied to the tenant number it runs on
+ * (`channelAddress`, an inbound number of the tenant). Inbound messages
+ * arrive through /webhook/messaging/inbound, checked with the provider's
+ * signature scheme; agent replies go out through the provider and their
+ * delivery progress comes back through /webhook/messaging/status.
+ *
+ * Environment Variables Contract:
+ * ==============================
+ * MESSAGING_PROVIDER=twilio|fake (default: fake)
+ *
+ * Twilio (SMS and WhatsApp through the Messages API):
+ * - TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN (also validates X-Twilio-Signature)
+ * - WEBHOOK_BASE_URL must be the public URL Twilio posts to (signed URL)
+ *
+ * Fake (local development and tests):
+ * - MESSAGING_WEBHOOK_SECRET (HMAC-SHA256 of the raw body, x-messaging-signature)
+ */
+
+import type { Response } from "express";
+import type {
+  Conversation,
+  Message,
+  MessageDeliveryStatus,
+  MessagingChannel,
+  User,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { CallStateError } from "../call-state";
+import { normalizePhoneNumber } from "../ivr";
+
+export interface OutboundMessage {
+  channel: MessagingChannel;
+  from: string;
+  to: string;
+  body: string;
+}
+
+export interface SentMessage {
+  externalId: string;
+  status: MessageDeliveryStatus;
+}
+
+export interface InboundMessage {
+  externalId: string;
+  channel: MessagingChannel;
+  from: string; // the contact
+  to: string; // the tenant number
+  body: string;
+}
+
+export interface DeliveryStatusUpdate {
+  externalId: string;
+  status: MessageDeliveryStatus;
+  error?: string;
+}
+
+export interface MessagingWebhookRequest {
+  // Full public URL the provider posted to
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: any;
+  rawBody?: Buffer;
+}
+
+export interface MessagingProvider {
+  readonly name: string;
+  send(message: OutboundMessage): Promise<SentMessage>;
+  verifyWebhook(request: MessagingWebhookRequest): boolean;
+  // null: the payload is not an inbound message / status update
+  parseInbound(request: MessagingWebhookRequest): InboundMessage | null;
+  parseStatus(request: MessagingWebhookRequest): DeliveryStatusUpdate | null;
+  // What the provider expects back from a webhook
+  acknowledge(res: Response): void;
+}
+
+type MessageListener = (message: Message, conversation: Pick<Conversation, "id" | "tenantId">) => void;
+
+let provider: MessagingProvider | null = null;
+const listeners = new Set<MessageListener>();
+
+/**
+ * Provider selected by MESSAGING_PROVIDER, created once
+ */
+export async function getMessagingProvider(): Promise<MessagingProvider> {
+  if (provider) return provider;
+
+  const name = process.env.MESSAGING_PROVIDER || "fake";
+  switch (name) {
+    case "twilio": {
+      const { TwilioMessagingProvider } = await import("./providers/twilio.js");
+      provider = new TwilioMessagingProvider();
+      break;
+    }
+    case "fake": {
+      const { FakeMessagingProvider } = await import("./providers/fake.js");
+      provider = new FakeMessagingProvider();
+      break;
+    }
+    default:
+      throw new Error(`Unsupported messaging provider: ${name}. Supported: twilio, fake`);
+  }
+  return provider;
+}
+
+/**
+ * Swap the provider (tests use the fake)
+ */
+export function setMessagingProvider(next: MessagingProvider | null): void {
+  provider = next;
+}
+
+export function onConversationMessage(listener: MessageListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(message: Message, conversation: Pick<Conversation, "id" | "tenantId">): Message {
+  listeners.forEach((listener) => listener(message, conversation));
+  return message;
+}
+
+export function messagingThreadId(channel: MessagingChannel, contact: string): string {
+  return `${channel}:${normalizePhoneNumber(contact)}`;
+}
+
+async function findOrCreateThread(
+  tenantId: string,
+  channel: MessagingChannel,
+  contact: string,
+  channelAddress: string,
+): Promise<Conversation> {
+  const callId = messagingThreadId(channel, contact);
+  const existing = await storage.getConversationByCallId(tenantId, callId);
+  if (existing) return existing;
+
+  // Call state does not apply to messaging threads; "active" keeps them out
+  // of the terminal-status call reports
+  const conversation = await storage.createConversation({
+    tenantId,
+    channel,
+    callId,
+    phoneNumber: normalizePhoneNumber(contact),
+    channelAddress,
+    direction: "inbound",
+    status: "active",
+  });
+  await storage.createConversationEvent({
+    tenantId,
+    conversationId: conversation.id,
+    type: "created",
+    metadata: { channel, channelAddress },
+  });
+  return conversation;
+}
+
+/**
+ * Store a message received on one of the tenant's numbers. Provider
+ * retries of the same message are ignored (null).
+ */
+export async function receiveInboundMessage(inbound: InboundMessage): Promise<Message | null> {
+  if (await storage.getMessageByExternalId(inbound.externalId)) return null;
+
+  const number = await storage.getInboundNumberByPhone(normalizePhoneNumber(inbound.to));
+  if (!number || !number.isActive) {
+    throw new CallStateError(`No active inbound number ${inbound.to}`, 404, "NUMBER_NOT_FOUND");
+  }
+
+  const conversation = await findOrCreateThread(number.tenantId, inbound.channel, inbound.from, number.phoneNumber);
+  const message = await storage.createMessage({
+    conversationId: conversation.id,
+    from: "customer",
+    content: inbound.body,
+    externalId: inbound.externalId,
+    deliveryStatus: "received",
+  });
+  return notify(message, conversation);
+}
+
+/**
+ * Agent reply on a messaging thread. The message is stored first, so a
+ * provider failure shows up on it as a failed delivery.
+ */
+export async function sendConversationMessage(
+  conversation: Conversation,
+  content: string,
+  agent: User,
+): Promise<Message> {
+  if (conversation.channel === "voice" || !conversation.phoneNumber || !conversation.channelAddress) {
+    throw new CallStateError("Replies need a messaging conversation", 409, "NOT_A_MESSAGING_THREAD");
+  }
+
+  const queued = await storage.createMessage({
+    conversationId: conversation.id,
+    from: "agent",
+    content,
+    userId: agent.id,
+    deliveryStatus: "queued",
+  });
+
+  let message: Message;
+  try {
+    const messaging = await getMessagingProvider();
+    const sent = await messaging.send({
+      channel: conversation.channel,
+      from: conversation.channelAddress,
+      to: conversation.phoneNumber,
+      body: content,
+    });
+    message = await storage.updateMessageDelivery(queued.id, {
+      externalId: sent.externalId,
+      deliveryStatus: sent.status,
+    });
+  } catch (error) {
+    console.error("❌ Message send failed:", error);
+    message = await storage.updateMessageDelivery(queued.id, {
+      deliveryStatus: "failed",
+      deliveryError: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return notify(message, conversation);
+}
+
+/**
+ * Delivery progress reported by the provider. Unknown ids are ignored
+ * (null), e.g. messages sent outside the app.
+ */
+export async function applyDeliveryStatus(update: DeliveryStatusUpdate): Promise<Message | null> {
+  const message = await storage.getMessageByExternalId(update.externalId);
+  if (!message) return null;
+
+  const updated = await storage.updateMessageDelivery(message.id, {
+    deliveryStatus: update.status,
+    deliveryError: update.error ?? null,
+  });
+  return notify(updated, { id: message.conversationId, tenantId: message.tenantId });
+}
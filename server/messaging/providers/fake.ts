@@ -0,0 +1,83 @@
+/**
+ * Fake messaging provider
+ *
+ * Local development and tests: outbound messages are kept in `sent`
+ * instead of leaving the server, and webhooks take a plain JSON body
+ * signed with MESSAGING_WEBHOOK_SECRET:
+ *
+ *   x-messaging-signature: sha256=<hex HMAC-SHA256 of the raw body>
+ *   inbound: { id, channel, from, to, body }
+ *   status:  { id, status, error? }
+ *
+ * `failWith` makes the next sends throw to exercise failed deliveries.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { Response } from "express";
+import { CONVERSATION_CHANNELS, MESSAGE_DELIVERY_STATUSES } from "@shared/schema";
+import type { MessageDeliveryStatus, MessagingChannel } from "@shared/schema";
+import type {
+  DeliveryStatusUpdate,
+  InboundMessage,
+  MessagingProvider,
+  MessagingWebhookRequest,
+  OutboundMessage,
+  SentMessage,
+} from "../index.js";
+
+export class FakeMessagingProvider implements MessagingProvider {
+  readonly name = "fake";
+  readonly sent: (OutboundMessage & { externalId: string })[] = [];
+  private failure: Error | null = null;
+
+  failWith(error: Error | null): void {
+    this.failure = error;
+  }
+
+  async send(message: OutboundMessage): Promise<SentMessage> {
+    if (this.failure) throw this.failure;
+
+    const externalId = `fake-${randomUUID()}`;
+    this.sent.push({ ...message, externalId });
+    return { externalId, status: "sent" };
+  }
+
+  verifyWebhook(request: MessagingWebhookRequest): boolean {
+    const secret = process.env.MESSAGING_WEBHOOK_SECRET;
+    const header = request.headers["x-messaging-signature"];
+    if (!secret || typeof header !== "string" || !request.rawBody) return false;
+
+    const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(request.rawBody).digest("hex")}`);
+    const supplied = Buffer.from(header);
+    return expected.length === supplied.length && timingSafeEqual(expected, supplied);
+  }
+
+  parseInbound(request: MessagingWebhookRequest): InboundMessage | null {
+    const { id, channel, from, to, body } = request.body ?? {};
+    if (!id || !from || !to || typeof body !== "string") return null;
+    if (channel === "voice" || !CONVERSATION_CHANNELS.includes(channel)) return null;
+
+    return {
+      externalId: String(id),
+      channel: channel as MessagingChannel,
+      from: String(from),
+      to: String(to),
+      body,
+    };
+  }
+
+  parseStatus(request: MessagingWebhookRequest): DeliveryStatusUpdate | null {
+    const { id, status, error } = request.body ?? {};
+    if (!id || !MESSAGE_DELIVERY_STATUSES.includes(status)) return null;
+
+    return {
+      externalId: String(id),
+      status: status as MessageDeliveryStatus,
+      error: error ? String(error) : undefined,
+    };
+  }
+
+  acknowledge(res: Response): void {
+    res.json({ ok: true });
+  }
+}
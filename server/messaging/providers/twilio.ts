@@ -0,0 +1,122 @@
+/**
+ * Twilio messaging provider
+ *
+ * SMS and WhatsApp go through the same Messages API; WhatsApp addresses
+ * carry a `whatsapp:` prefix. Delivery progress is reported to
+ * /webhook/messaging/status (StatusCallback), and webhooks are checked
+ * against X-Twilio-Signature with the account auth token.
+ */
+
+import twilio from "twilio";
+import type { Response } from "express";
+import type { MessageDeliveryStatus, MessagingChannel } from "@shared/schema";
+import type {
+  DeliveryStatusUpdate,
+  InboundMessage,
+  MessagingProvider,
+  MessagingWebhookRequest,
+  OutboundMessage,
+  SentMessage,
+} from "../index.js";
+import config from "../../config";
+
+const WHATSAPP_PREFIX = "whatsapp:";
+
+// Twilio MessageStatus → delivery status; unlisted states are not reported
+const TWILIO_STATUSES: Record<string, MessageDeliveryStatus> = {
+  accepted: "queued",
+  queued: "queued",
+  sending: "queued",
+  sent: "sent",
+  delivered: "delivered",
+  read: "read",
+  undelivered: "failed",
+  failed: "failed",
+};
+
+function toAddress(channel: MessagingChannel, number: string): string {
+  return channel === "whatsapp" ? `${WHATSAPP_PREFIX}${number}` : number;
+}
+
+function fromAddress(address: string): { channel: MessagingChannel; number: string } {
+  return address.startsWith(WHATSAPP_PREFIX)
+    ? { channel: "whatsapp", number: address.slice(WHATSAPP_PREFIX.length) }
+    : { channel: "sms", number: address };
+}
+
+export class TwilioMessagingProvider implements MessagingProvider {
+  readonly name = "twilio";
+  private readonly accountSid: string;
+  private readonly authToken: string;
+
+  constructor() {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    if (!accountSid || !authToken) {
+      throw new Error("TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN are required for Twilio messaging");
+    }
+    this.accountSid = accountSid;
+    this.authToken = authToken;
+  }
+
+  async send(message: OutboundMessage): Promise<SentMessage> {
+    const params = new URLSearchParams({
+      From: toAddress(message.channel, message.from),
+      To: toAddress(message.channel, message.to),
+      Body: message.body,
+      StatusCallback: `${config.webhooks.baseUrl}/webhook/messaging/status`,
+    });
+
+    const credentials = `${this.accountSid}:${this.authToken}`;
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(credentials).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params,
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Twilio message failed: ${data.message || `${response.status} ${response.statusText}`}`);
+    }
+    return { externalId: data.sid, status: TWILIO_STATUSES[data.status] ?? "queued" };
+  }
+
+  verifyWebhook(request: MessagingWebhookRequest): boolean {
+    const signature = request.headers["x-twilio-signature"];
+    if (typeof signature !== "string") return false;
+    return twilio.validateRequest(this.authToken, signature, request.url, request.body ?? {});
+  }
+
+  parseInbound(request: MessagingWebhookRequest): InboundMessage | null {
+    const { MessageSid, From, To, Body } = request.body ?? {};
+    if (!MessageSid || !From || !To) return null;
+
+    const { channel, number: from } = fromAddress(String(From));
+    return {
+      externalId: String(MessageSid),
+      channel,
+      from,
+      to: fromAddress(String(To)).number,
+      body: String(Body ?? ""),
+    };
+  }
+
+  parseStatus(request: MessagingWebhookRequest): DeliveryStatusUpdate | null {
+    const { MessageSid, MessageStatus, ErrorMessage, ErrorCode } = request.body ?? {};
+    const status = TWILIO_STATUSES[String(MessageStatus)];
+    if (!MessageSid || !status) return null;
+
+    return {
+      externalId: String(MessageSid),
+      status,
+      error: status === "failed" ? String(ErrorMessage || ErrorCode || "undelivered") : undefined,
+    };
+  }
+
+  acknowledge(res: Response): void {
+    res.type("text/xml").send("<Response/>");
+  }
+}
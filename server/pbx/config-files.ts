@@ -0,0 +1,90 @@
+/**
+ * Shared plumbing of the config-file PBX adapters (Asterisk, FreeSWITCH)
+ *
+ * Every provisioned object owns one file, so create/update is a write and
+ * delete an unlink. Files are written to a temp name and renamed, so a PBX
+ * reload never reads half a file. PBX_RELOAD_COMMAND runs after each change.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { exec } from "child_process";
+import { promisify } from "util";
+import type { IvrMenuOption } from "@shared/schema";
+
+const execAsync = promisify(exec);
+
+const RELOAD_TIMEOUT_MS = 15_000;
+
+export const MANAGED_HEADER = "Managed by Gueswi provisioning, manual changes are overwritten";
+
+export function pbxConfigDir(provider: string): string {
+  return path.resolve(process.env.PBX_CONFIG_DIR || path.join("storage", "pbx", provider));
+}
+
+/**
+ * Resolve a path under `root`, rejecting anything that escapes it (names
+ * come from tenant data)
+ */
+export function configPath(root: string, ...segments: string[]): string {
+  const absPath = path.resolve(root, ...segments);
+  if (!absPath.startsWith(root + path.sep)) {
+    throw new Error("PBX config path outside the config directory");
+  }
+  return absPath;
+}
+
+export async function writeConfigFile(absPath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(absPath), { recursive: true });
+  const tmpPath = `${absPath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, content);
+  await fs.rename(tmpPath, absPath);
+}
+
+export async function removeConfigPath(absPath: string): Promise<void> {
+  await fs.rm(absPath, { recursive: true, force: true });
+}
+
+export async function reloadPbx(): Promise<void> {
+  const command = process.env.PBX_RELOAD_COMMAND;
+  if (!command) return;
+  await execAsync(command, { timeout: RELOAD_TIMEOUT_MS });
+}
+
+/**
+ * Queues (ACD, overflow) run in the application, server/call-queue.ts, and
+ * have no PBX definition: a menu with a queue option fails its sync rather
+ * than dial a queue that does not exist
+ */
+export function queueOptionError(option: IvrMenuOption): Error {
+  return new Error(`Option ${option.key} goes to a queue, which only the application IVR can route`);
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Dialplan-safe token: digits, letters, +, * and # only
+ */
+export function dialToken(value: string): string {
+  return value.replace(/[^0-9A-Za-z+*#]/g, "");
+}
+
+/**
+ * Local file behind an uploaded greeting (`/uploads/...`), null for
+ * anything the PBX cannot play from disk
+ */
+export function greetingFilePath(greetingAudioUrl: string | null): string | null {
+  if (!greetingAudioUrl?.startsWith("/uploads/")) return null;
+  try {
+    return configPath(path.resolve("uploads"), greetingAudioUrl.slice("/uploads/".length));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import os from "os";
+import path from "path";
+import type { Extension, IvrMenu } from "@shared/schema";
+import { storage } from "../storage";
+import { provisionExtension, provisionIvr, provisionTenant, setPbxProvisioner, tenantSipDomain } from "./index";
+import { InMemoryProvisioner } from "./providers/memory";
+import { AsteriskProvisioner, renderIvrContext } from "./providers/asterisk";
+import { renderIvrMenu } from "./providers/freeswitch";
+
+const TENANT = { tenantId: "tenant-1", sipDomain: tenantSipDomain("tenant-1") };
+
+function extension(overrides: Partial<Extension> = {}): Extension {
+  return {
+    id: "extension-1",
+    tenantId: "tenant-1",
+    number: "101",
+    userName: "Ana López",
+    sipPassword: "sip-secret",
+    status: "ACTIVE",
+    voicemailEnabled: true,
+    voicemailPin: "1234",
+    voicemailGreetingUrl: null,
+    ...overrides,
+  } as Extension;
+}
+
+function menu(menuOptions: object[]): IvrMenu {
+  return { id: "ivr-1", tenantId: "tenant-1", name: "Principal", greetingAudioUrl: null, menuOptions } as IvrMenu;
+}
+
+const QUEUE_OPTION = { key: "2", action: "queue", destination: "queue-1" };
+
+let pbx: InMemoryProvisioner;
+
+beforeEach(() => {
+  pbx = new InMemoryProvisioner();
+  setPbxProvisioner(pbx);
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.spyOn(storage, "updateExtensionProvisioning").mockImplementation(async (id, state) => ({ ...extension({ id }), ...state }));
+  vi.spyOn(storage, "updateIvrProvisioning").mockImplementation(async (_id, state) => ({ ...menu([]), ...state }));
+});
+
+afterEach(() => {
+  setPbxProvisioner(null);
+});
+
+describe("provisionExtension", () => {
+  it("creates the SIP account, dialplan entry and mailbox", async () => {
+    const updated = await provisionExtension(extension());
+
+    expect(updated).toMatchObject({ provisioningStatus: "provisioned", provisioningError: null });
+    const tenant = pbx.getTenant("tenant-1")!;
+    expect(tenant.accounts.get("extension-1")).toMatchObject({
+      username: "101",
+      domain: "tenant-1.gueswi.com",
+      enabled: true,
+      voicemail: { pin: "1234", greetingUrl: null },
+    });
+    expect(tenant.dialplan.get("101")).toBe("extension-1");
+  });
+
+  it("moves the dialplan entry of a renumbered extension", async () => {
+    await provisionExtension(extension());
+    await provisionExtension(extension({ number: "102" }));
+    expect(Array.from(pbx.getTenant("tenant-1")!.dialplan.keys())).toEqual(["102"]);
+  });
+
+  it("stores a PBX failure on the row instead of throwing", async () => {
+    pbx.failWith(new Error("PBX unreachable"));
+    expect(await provisionExtension(extension())).toMatchObject({
+      provisioningStatus: "failed",
+      provisioningError: "PBX unreachable",
+      provisionedAt: null,
+    });
+  });
+});
+
+describe("provisionTenant", () => {
+  it("rebuilds the tenant and counts what failed", async () => {
+    await pbx.upsertExtension(TENANT, extension({ id: "deleted", number: "199" }));
+    vi.spyOn(storage, "getExtensionsByTenant").mockResolvedValue([extension()]);
+    vi.spyOn(storage, "getIvrs").mockResolvedValue([menu([{ key: "1", action: "transfer", destination: "101" }])]);
+
+    expect(await provisionTenant("tenant-1")).toEqual({
+      provider: "memory",
+      sipDomain: "tenant-1.gueswi.com",
+      extensions: { provisioned: 1, failed: 0 },
+      ivrs: { provisioned: 1, failed: 0 },
+    });
+    const tenant = pbx.getTenant("tenant-1")!;
+    expect(Array.from(tenant.accounts.keys())).toEqual(["extension-1"]);
+    expect(tenant.ivrs.get("ivr-1")?.options).toEqual({ "1": "transfer:101" });
+  });
+});
+
+describe("IVR menus on config-file PBXs", () => {
+  const options = [
+    { key: "1", action: "transfer", destination: "101" },
+    { key: "3", action: "ai_agent", destination: "" },
+    { key: "default", action: "hangup", destination: "" },
+  ];
+
+  it("renders transfers, AI agents and the fallback", () => {
+    const asterisk = renderIvrContext(TENANT, menu(options));
+    expect(asterisk).toContain("exten => 1,1,Goto(tenant-tenant-1,101,1)");
+    expect(asterisk).toContain("exten => 3,1,Goto(gueswi-ai,s,1)");
+    expect(asterisk).toContain("exten => i,1,Hangup()");
+
+    const freeswitch = renderIvrMenu(TENANT, menu(options));
+    expect(freeswitch).toContain('<entry action="menu-exec-app" digits="1" param="transfer 101 XML tenant-tenant-1"/>');
+    expect(freeswitch).toMatch(/<entry action="menu-exit" digits="\/\^\.\$\/"\/>\n  <\/menu>/);
+  });
+
+  it("refuses queue options, which only the application IVR routes", () => {
+    const queued = menu([...options, QUEUE_OPTION]);
+    expect(() => renderIvrContext(TENANT, queued)).toThrow("Option 2 goes to a queue");
+    expect(() => renderIvrMenu(TENANT, queued)).toThrow("Option 2 goes to a queue");
+  });
+
+  it("fails the sync of a menu with a queue option", async () => {
+    process.env.PBX_CONFIG_DIR = path.join(os.tmpdir(), "pbx-test");
+    try {
+      setPbxProvisioner(new AsteriskProvisioner());
+      expect(await provisionIvr(menu([QUEUE_OPTION]))).toMatchObject({
+        provisioningStatus: "failed",
+        provisioningError: expect.stringContaining("only the application IVR"),
+      });
+    } finally {
+      delete process.env.PBX_CONFIG_DIR;
+    }
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * PBX provisioning with provider abstraction
+ *
+ * Extensions become SIP accounts plus a dialplan entry in the tenant
+ * context; IVR menus become IVR contexts. Routes call provisionExtension /
+ * provisionIvr after every change and deprovision* after deletes; the
+ * outcome is stored per row (`provisioningStatus`, `provisioningError`), so
+ * a PBX outage never fails the API call and a later sync catches up.
+ *
+ * Environment Variables Contract:
+ * ==============================
+ * PBX_PROVIDER=asterisk|freeswitch|memory (default: memory)
+ *
+ * Browser softphone (SIP over WebSocket):
+ * - PBX_WS_URL (optional, e.g. wss://pbx.example.com:8089/ws; unset keeps the softphone REST-only)
+ * - PBX_ICE_SERVERS (optional, comma-separated STUN/TURN URLs, defaults to stun:stun.l.google.com:19302)
+ *
+ * Asterisk / FreeSWITCH (config-file adapters):
+ * - PBX_CONFIG_DIR (optional, defaults to storage/pbx/<provider>)
+ * - PBX_RELOAD_COMMAND (optional, run after every change, e.g. `asterisk -rx "core reload"`)
+ * - PBX_OUTBOUND_TRUNK (optional, trunk used for external numbers)
+ */
+
+import type { Extension, IvrMenu, ProvisioningState, SoftphoneCredentials } from "@shared/schema";
+import { storage } from "../storage";
+
+export interface PbxTenant {
+  tenantId: string;
+  sipDomain: string;
+}
+
+export interface PbxProvisioner {
+  readonly name: string;
+  provisionTenant(tenant: PbxTenant): Promise<void>;
+  upsertExtension(tenant: PbxTenant, extension: Extension): Promise<void>;
+  deleteExtension(tenant: PbxTenant, extension: Extension): Promise<void>;
+  upsertIvr(tenant: PbxTenant, ivr: IvrMenu): Promise<void>;
+  deleteIvr(tenant: PbxTenant, ivr: IvrMenu): Promise<void>;
+  // Drops everything provisioned for the tenant (before a full resync)
+  removeTenant(tenant: PbxTenant): Promise<void>;
+}
+
+export interface SipAccount {
+  username: string;
+  password: string;
+  domain: string;
+  server: string;
+}
+
+export interface TenantProvisioningResult {
+  provider: string;
+  sipDomain: string;
+  extensions: { provisioned: number; failed: number };
+  ivrs: { provisioned: number; failed: number };
+}
+
+let provisioner: PbxProvisioner | null = null;
+
+// Same domain the IVR dials extensions on (ivr/twiml.ts extensionSipUri)
+export function tenantSipDomain(tenantId: string): string {
+  return `${tenantId}.gueswi.com`;
+}
+
+function pbxTenant(tenantId: string): PbxTenant {
+  return { tenantId, sipDomain: tenantSipDomain(tenantId) };
+}
+
+export function sipAccountFor(extension: Extension): SipAccount {
+  const domain = tenantSipDomain(extension.tenantId);
+  return {
+    username: extension.number,
+    password: extension.sipPassword,
+    domain,
+    server: domain,
+  };
+}
+
+/**
+ * What the browser softphone needs to register as `extension`
+ */
+export function softphoneCredentialsFor(extension: Extension): SoftphoneCredentials {
+  const account = sipAccountFor(extension);
+  const iceServers = (process.env.PBX_ICE_SERVERS || "stun:stun.l.google.com:19302")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean)
+    .map((urls) => ({ urls }));
+
+  return {
+    extensionId: extension.id,
+    extensionNumber: extension.number,
+    displayName: extension.userName,
+    username: account.username,
+    password: account.password,
+    domain: account.domain,
+    wsServer: process.env.PBX_WS_URL || null,
+    iceServers,
+  };
+}
+
+/**
+ * Provider selected by PBX_PROVIDER, created once
+ */
+export async function getPbxProvisioner(): Promise<PbxProvisioner> {
+  if (provisioner) return provisioner;
+
+  const provider = process.env.PBX_PROVIDER || "memory";
+  switch (provider) {
+    case "asterisk": {
+      const { AsteriskProvisioner } = await import("./providers/asterisk.js");
+      provisioner = new AsteriskProvisioner();
+      break;
+    }
+    case "freeswitch": {
+      const { FreeSwitchProvisioner } = await import("./providers/freeswitch.js");
+      provisioner = new FreeSwitchProvisioner();
+      break;
+    }
+    case "memory": {
+      const { InMemoryProvisioner } = await import("./providers/memory.js");
+      provisioner = new InMemoryProvisioner();
+      break;
+    }
+    default:
+      throw new Error(`Unsupported PBX provider: ${provider}. Supported: asterisk, freeswitch, memory`);
+  }
+  return provisioner;
+}
+
+/**
+ * Swap the provider (tests use the in-memory fake)
+ */
+export function setPbxProvisioner(next: PbxProvisioner | null): void {
+  provisioner = next;
+}
+
+function provisioningState(error?: unknown): ProvisioningState {
+  if (error) {
+    return {
+      provisioningStatus: "failed",
+      provisioningError: error instanceof Error ? error.message : String(error),
+      provisionedAt: null,
+    };
+  }
+  return { provisioningStatus: "provisioned", provisioningError: null, provisionedAt: new Date() };
+}
+
+async function attempt(label: string, task: () => Promise<void>): Promise<ProvisioningState> {
+  try {
+    await task();
+    return provisioningState();
+  } catch (error) {
+    console.error(`❌ PBX provisioning failed (${label}):`, error);
+    return provisioningState(error);
+  }
+}
+
+/**
+ * Create or update the extension's SIP account and dialplan entry.
+ * Returns the row with its new provisioning status.
+ */
+export async function provisionExtension(extension: Extension): Promise<Extension> {
+  const state = await attempt(`extension ${extension.number}`, async () => {
+    const pbx = await getPbxProvisioner();
+    await pbx.upsertExtension(pbxTenant(extension.tenantId), extension);
+  });
+  return storage.updateExtensionProvisioning(extension.id, state);
+}
+
+/**
+ * Remove a deleted extension from the PBX. Failures are only logged, the
+ * row is already gone.
+ */
+export async function deprovisionExtension(extension: Extension): Promise<void> {
+  await attempt(`delete extension ${extension.number}`, async () => {
+    const pbx = await getPbxProvisioner();
+    await pbx.deleteExtension(pbxTenant(extension.tenantId), extension);
+  });
+}
+
+export async function provisionIvr(ivr: IvrMenu): Promise<IvrMenu> {
+  const state = await attempt(`IVR ${ivr.name}`, async () => {
+    const pbx = await getPbxProvisioner();
+    await pbx.upsertIvr(pbxTenant(ivr.tenantId), ivr);
+  });
+  return storage.updateIvrProvisioning(ivr.id, state);
+}
+
+export async function deprovisionIvr(ivr: IvrMenu): Promise<void> {
+  await attempt(`delete IVR ${ivr.name}`, async () => {
+    const pbx = await getPbxProvisioner();
+    await pbx.deleteIvr(pbxTenant(ivr.tenantId), ivr);
+  });
+}
+
+/**
+ * Full resync of a tenant: drop whatever the PBX has, then provision every
+ * extension and IVR again
+ */
+export async function provisionTenant(tenantId: string): Promise<TenantProvisioningResult> {
+  const pbx = await getPbxProvisioner();
+  const tenant = pbxTenant(tenantId);
+
+  await pbx.removeTenant(tenant);
+  await pbx.provisionTenant(tenant);
+
+  const result: TenantProvisioningResult = {
+    provider: pbx.name,
+    sipDomain: tenant.sipDomain,
+    extensions: { provisioned: 0, failed: 0 },
+    ivrs: { provisioned: 0, failed: 0 },
+  };
+
+  for (const extension of await storage.getExtensionsByTenant(tenantId)) {
+    const updated = await provisionExtension(extension);
+    result.extensions[updated.provisioningStatus === "provisioned" ? "provisioned" : "failed"]++;
+  }
+  for (const ivr of await storage.getIvrs(tenantId)) {
+    const updated = await provisionIvr(ivr);
+    result.ivrs[updated.provisioningStatus === "provisioned" ? "provisioned" : "failed"]++;
+  }
+
+  return result;
+}
+
@@ -0,0 +1,271 @@
+/**
+ * Asterisk PBX provider (PJSIP + extensions.conf)
+ *
+ * Writes one file per object under PBX_CONFIG_DIR:
+ *   pjsip.d/<tenantId>/<extensionId>.conf          endpoint, auth and aor
+ *   extensions.d/<tenantId>/00-tenant.conf         [tenant-<tenantId>] context
+ *   extensions.d/<tenantId>/ext-<extensionId>.conf dialplan entry, appended with (+)
+ *   extensions.d/<tenantId>/ivr-<ivrId>.conf       [ivr-<ivrId>] menu context
+ *   voicemail.d/<tenantId>/00-tenant.conf          [tenant-<tenantId>] mailbox context
+ *   voicemail.d/<tenantId>/<extensionId>.conf      mailbox, appended with (+)
+ *
+ * The Asterisk side only needs, once:
+ *   pjsip.conf:      #tryinclude <PBX_CONFIG_DIR>/pjsip.d/*\/*.conf
+ *   extensions.conf: #tryinclude <PBX_CONFIG_DIR>/extensions.d/*\/*.conf
+ *   voicemail.conf:  #tryinclude <PBX_CONFIG_DIR>/voicemail.d/*\/*.conf
+ *
+ * IVR options for an AI agent go to the `gueswi-ai` context, which hands
+ * the call to the AI media bridge. Business-hours branches and queues stay
+ * with the application IVR (server/ivr).
+ */
+
+import path from "path";
+import type { Extension, IvrMenu, IvrMenuOption } from "@shared/schema";
+import type { PbxProvisioner, PbxTenant } from "../index.js";
+import { parseMenuOptions } from "../../ivr";
+import {
+  MANAGED_HEADER,
+  configPath,
+  dialToken,
+  greetingFilePath,
+  pbxConfigDir,
+  queueOptionError,
+  reloadPbx,
+  removeConfigPath,
+  writeConfigFile,
+} from "../config-files.js";
+
+const DIAL_TIMEOUT_SEC = 30;
+const MENU_WAIT_SEC = 5;
+
+function tenantContext(tenantId: string): string {
+  return `tenant-${tenantId}`;
+}
+
+function endpointName(tenantId: string, extensionNumber: string): string {
+  return `${tenantId}_${dialToken(extensionNumber)}`;
+}
+
+// Config values end at a newline or a `;` comment
+function configValue(value: string): string {
+  return value.replace(/[\r\n;]/g, " ").trim();
+}
+
+export function renderEndpoint(tenant: PbxTenant, extension: Extension): string {
+  const name = endpointName(tenant.tenantId, extension.number);
+  const number = dialToken(extension.number);
+
+  return [
+    `; ${MANAGED_HEADER}`,
+    `[${name}]`,
+    "type=endpoint",
+    `context=${tenantContext(tenant.tenantId)}`,
+    "disallow=all",
+    "allow=opus,ulaw,alaw",
+    `auth=${name}-auth`,
+    `aors=${name}`,
+    `callerid="${configValue(extension.userName).replace(/"/g, "")}" <${number}>`,
+    "identify_by=auth_username",
+    "webrtc=yes",
+    "",
+    `[${name}-auth]`,
+    "type=auth",
+    "auth_type=userpass",
+    `username=${number}`,
+    `password=${configValue(extension.sipPassword)}`,
+    `realm=${tenant.sipDomain}`,
+    "",
+    `[${name}]`,
+    "type=aor",
+    "max_contacts=5",
+    "remove_existing=yes",
+    "",
+  ].join("\n");
+}
+
+export function renderTenantContext(tenant: PbxTenant): string {
+  const lines = [`; ${MANAGED_HEADER}`, `[${tenantContext(tenant.tenantId)}]`];
+
+  const trunk = process.env.PBX_OUTBOUND_TRUNK;
+  if (trunk) {
+    // Explicit extension numbers win over these patterns
+    lines.push(
+      `exten => _+X.,1,Dial(PJSIP/\${EXTEN}@${trunk})`,
+      `exten => _X.,1,Dial(PJSIP/\${EXTEN}@${trunk})`,
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function renderExtensionDialplan(tenant: PbxTenant, extension: Extension): string {
+  const number = dialToken(extension.number);
+  const lines = [
+    `; ${MANAGED_HEADER}`,
+    `[${tenantContext(tenant.tenantId)}](+)`,
+    `exten => ${number},1,NoOp(${configValue(extension.userName).replace(/[(),]/g, " ")})`,
+    ` same => n,Dial(PJSIP/${endpointName(tenant.tenantId, extension.number)},${DIAL_TIMEOUT_SEC})`,
+  ];
+
+  if (extension.voicemailEnabled) {
+    // A custom greeting replaces the stock "unavailable" message (s option)
+    const greeting = greetingFilePath(extension.voicemailGreetingUrl);
+    const mailbox = `${number}@${tenantContext(tenant.tenantId)}`;
+    if (greeting) {
+      lines.push(
+        ` same => n,Playback(${greeting.slice(0, greeting.length - path.extname(greeting).length)})`,
+        ` same => n,VoiceMail(${mailbox},s)`,
+      );
+    } else {
+      lines.push(` same => n,VoiceMail(${mailbox},u)`);
+    }
+  }
+
+  lines.push(" same => n,Hangup()", "");
+  return lines.join("\n");
+}
+
+export function renderVoicemailContext(tenant: PbxTenant): string {
+  return [`; ${MANAGED_HEADER}`, `[${tenantContext(tenant.tenantId)}]`, ""].join("\n");
+}
+
+export function renderMailbox(tenant: PbxTenant, extension: Extension): string {
+  // mailbox => pin,full name,email (Asterisk sends its own copy when set)
+  return [
+    `; ${MANAGED_HEADER}`,
+    `[${tenantContext(tenant.tenantId)}](+)`,
+    `${dialToken(extension.number)} => ${dialToken(extension.voicemailPin)},${configValue(extension.userName).replace(/,/g, " ")}`,
+    "",
+  ].join("\n");
+}
+
+function optionApplication(tenant: PbxTenant, ivr: IvrMenu, option: IvrMenuOption): string {
+  const destination = dialToken(option.destination);
+
+  switch (option.action) {
+    case "transfer":
+      return `Goto(${tenantContext(tenant.tenantId)},${destination},1)`;
+    case "queue":
+      throw queueOptionError(option);
+    case "submenu":
+      return `Goto(ivr-${option.destination.replace(/[^0-9a-f-]/gi, "")},s,1)`;
+    case "repeat":
+      return `Goto(ivr-${ivr.id},s,menu)`;
+    case "ai_agent":
+      return `Goto(gueswi-ai,${destination || "s"},1)`;
+    case "hangup":
+      return "Hangup()";
+  }
+}
+
+export function renderIvrContext(tenant: PbxTenant, ivr: IvrMenu): string {
+  const greeting = greetingFilePath(ivr.greetingAudioUrl);
+  const options = parseMenuOptions(ivr);
+  const fallback = options.find((option) => option.key === "default");
+
+  // Background takes the sound file without its extension
+  const sound = greeting ? greeting.slice(0, greeting.length - path.extname(greeting).length) : "silence/1";
+
+  const lines = [
+    `; ${MANAGED_HEADER}`,
+    `; ${configValue(ivr.name)}`,
+    `[ivr-${ivr.id}]`,
+    "exten => s,1,Answer()",
+    ` same => n(menu),Background(${sound})`,
+    ` same => n,WaitExten(${MENU_WAIT_SEC})`,
+  ];
+
+  for (const option of options) {
+    if (option.key === "default") continue;
+    lines.push(`exten => ${dialToken(option.key)},1,${optionApplication(tenant, ivr, option)}`);
+  }
+
+  // Invalid and missing input share the "default" option when there is one
+  const fallbackApp = fallback ? optionApplication(tenant, ivr, fallback) : null;
+  lines.push(
+    `exten => i,1,${fallbackApp ?? "Goto(s,menu)"}`,
+    `exten => t,1,${fallbackApp ?? "Hangup()"}`,
+    "",
+  );
+  return lines.join("\n");
+}
+
+export class AsteriskProvisioner implements PbxProvisioner {
+  readonly name = "asterisk";
+  private readonly root = pbxConfigDir("asterisk");
+
+  async provisionTenant(tenant: PbxTenant): Promise<void> {
+    await writeConfigFile(this.tenantContextFile(tenant.tenantId), renderTenantContext(tenant));
+    await reloadPbx();
+  }
+
+  async upsertExtension(tenant: PbxTenant, extension: Extension): Promise<void> {
+    // The (+) entry needs the tenant context to exist
+    await writeConfigFile(this.tenantContextFile(tenant.tenantId), renderTenantContext(tenant));
+
+    if (extension.status === "ACTIVE") {
+      await writeConfigFile(this.endpointFile(tenant.tenantId, extension.id), renderEndpoint(tenant, extension));
+      await writeConfigFile(this.dialplanFile(tenant.tenantId, extension.id), renderExtensionDialplan(tenant, extension));
+      if (extension.voicemailEnabled) {
+        await writeConfigFile(this.voicemailContextFile(tenant.tenantId), renderVoicemailContext(tenant));
+        await writeConfigFile(this.mailboxFile(tenant.tenantId, extension.id), renderMailbox(tenant, extension));
+      } else {
+        await removeConfigPath(this.mailboxFile(tenant.tenantId, extension.id));
+      }
+    } else {
+      await this.removeExtensionFiles(tenant.tenantId, extension.id);
+    }
+    await reloadPbx();
+  }
+
+  async deleteExtension(tenant: PbxTenant, extension: Extension): Promise<void> {
+    await this.removeExtensionFiles(tenant.tenantId, extension.id);
+    await reloadPbx();
+  }
+
+  async upsertIvr(tenant: PbxTenant, ivr: IvrMenu): Promise<void> {
+    await writeConfigFile(this.ivrFile(tenant.tenantId, ivr.id), renderIvrContext(tenant, ivr));
+    await reloadPbx();
+  }
+
+  async deleteIvr(tenant: PbxTenant, ivr: IvrMenu): Promise<void> {
+    await removeConfigPath(this.ivrFile(tenant.tenantId, ivr.id));
+    await reloadPbx();
+  }
+
+  async removeTenant(tenant: PbxTenant): Promise<void> {
+    await removeConfigPath(configPath(this.root, "pjsip.d", tenant.tenantId));
+    await removeConfigPath(configPath(this.root, "extensions.d", tenant.tenantId));
+    await removeConfigPath(configPath(this.root, "voicemail.d", tenant.tenantId));
+    await reloadPbx();
+  }
+
+  private async removeExtensionFiles(tenantId: string, extensionId: string): Promise<void> {
+    await removeConfigPath(this.endpointFile(tenantId, extensionId));
+    await removeConfigPath(this.dialplanFile(tenantId, extensionId));
+    await removeConfigPath(this.mailboxFile(tenantId, extensionId));
+  }
+
+  private tenantContextFile(tenantId: string): string {
+    return configPath(this.root, "extensions.d", tenantId, "00-tenant.conf");
+  }
+
+  private endpointFile(tenantId: string, extensionId: string): string {
+    return configPath(this.root, "pjsip.d", tenantId, `${extensionId}.conf`);
+  }
+
+  private dialplanFile(tenantId: string, extensionId: string): string {
+    return configPath(this.root, "extensions.d", tenantId, `ext-${extensionId}.conf`);
+  }
+
+  private voicemailContextFile(tenantId: string): string {
+    return configPath(this.root, "voicemail.d", tenantId, "00-tenant.conf");
+  }
+
+  private mailboxFile(tenantId: string, extensionId: string): string {
+    return configPath(this.root, "voicemail.d", tenantId, `${extensionId}.conf`);
+  }
+
+  private ivrFile(tenantId: string, ivrId: string): string {
+    return configPath(this.root, "extensions.d", tenantId, `ivr-${ivrId}.conf`);
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * FreeSWITCH PBX provider (XML directory, dialplan and IVR menus)
+ *
+ * Writes one file per object under PBX_CONFIG_DIR:
+ *   directory/<sipDomain>.xml                         domain, includes its users
+ *   directory/<sipDomain>/<extensionId>.xml           user (SIP account)
+ *   dialplan/tenant-<tenantId>.xml                    tenant context
+ *   dialplan/tenant-<tenantId>/ext-<extensionId>.xml  extension entry
+ *   dialplan/tenant-<tenantId>/ivr-<ivrId>.xml        entry that runs the menu
+ *   ivr_menus/<tenantId>/<ivrId>.xml                  menu definition
+ *
+ * freeswitch.xml needs X-PRE-PROCESS includes of directory/*.xml,
+ * dialplan/*.xml and ivr_menus/*\/*.xml. IVR options for an AI agent
+ * transfer to the `gueswi-ai` context (AI media bridge). Business-hours
+ * branches and queues stay with the application IVR (server/ivr).
+ */
+
+import type { Extension, IvrMenu, IvrMenuOption } from "@shared/schema";
+import type { PbxProvisioner, PbxTenant } from "../index.js";
+import { parseMenuOptions } from "../../ivr";
+import {
+  MANAGED_HEADER,
+  configPath,
+  dialToken,
+  escapeXml,
+  greetingFilePath,
+  pbxConfigDir,
+  queueOptionError,
+  reloadPbx,
+  removeConfigPath,
+  writeConfigFile,
+} from "../config-files.js";
+
+const DIAL_TIMEOUT_SEC = 30;
+
+function tenantContext(tenantId: string): string {
+  return `tenant-${tenantId}`;
+}
+
+function xmlDocument(body: string): string {
+  return `<!-- ${MANAGED_HEADER} -->\n<include>\n${body}\n</include>\n`;
+}
+
+export function renderDomain(tenant: PbxTenant): string {
+  return xmlDocument([
+    `  <domain name="${escapeXml(tenant.sipDomain)}">`,
+    "    <params>",
+    `      <param name="dial-string" value="{presence_id=\${dialed_user}@\${dialed_domain}}\${sofia_contact(\${dialed_user}@\${dialed_domain})}"/>`,
+    "    </params>",
+    "    <groups>",
+    `      <group name="default"><users><X-PRE-PROCESS cmd="include" data="${escapeXml(tenant.sipDomain)}/*.xml"/></users></group>`,
+    "    </groups>",
+    "  </domain>",
+  ].join("\n"));
+}
+
+export function renderUser(tenant: PbxTenant, extension: Extension): string {
+  const number = dialToken(extension.number);
+  return xmlDocument([
+    `  <user id="${number}">`,
+    "    <params>",
+    `      <param name="password" value="${escapeXml(extension.sipPassword)}"/>`,
+    `      <param name="vm-password" value="${escapeXml(extension.voicemailPin)}"/>`,
+    `      <param name="vm-enabled" value="${extension.voicemailEnabled}"/>`,
+    "    </params>",
+    "    <variables>",
+    `      <variable name="user_context" value="${tenantContext(tenant.tenantId)}"/>`,
+    `      <variable name="effective_caller_id_name" value="${escapeXml(extension.userName)}"/>`,
+    `      <variable name="effective_caller_id_number" value="${number}"/>`,
+    "    </variables>",
+    "  </user>",
+  ].join("\n"));
+}
+
+export function renderTenantContext(tenant: PbxTenant): string {
+  const context = tenantContext(tenant.tenantId);
+  const lines = [
+    `  <context name="${context}">`,
+    `    <X-PRE-PROCESS cmd="include" data="${context}/*.xml"/>`,
+  ];
+
+  const trunk = process.env.PBX_OUTBOUND_TRUNK;
+  if (trunk) {
+    // Included extensions come first, so only unknown numbers go out
+    lines.push(
+      '    <extension name="outbound">',
+      '      <condition field="destination_number" expression="^(\\+?\\d{5,})$">',
+      `        <action application="bridge" data="sofia/gateway/${escapeXml(trunk)}/$1"/>`,
+      "      </condition>",
+      "    </extension>",
+    );
+  }
+  lines.push("  </context>");
+  return xmlDocument(lines.join("\n"));
+}
+
+export function renderExtensionDialplan(tenant: PbxTenant, extension: Extension): string {
+  const number = dialToken(extension.number);
+  const lines = [
+    `  <extension name="ext-${number}">`,
+    `    <condition field="destination_number" expression="^${number.replace(/[+*]/g, "\\$&")}$">`,
+    `      <action application="set" data="call_timeout=${DIAL_TIMEOUT_SEC}"/>`,
+  ];
+
+  if (extension.voicemailEnabled) {
+    // Unanswered calls fall through to the box; a custom greeting replaces
+    // the stock one
+    const greeting = greetingFilePath(extension.voicemailGreetingUrl);
+    lines.push(
+      '      <action application="set" data="continue_on_fail=true"/>',
+      '      <action application="set" data="hangup_after_bridge=true"/>',
+      `      <action application="bridge" data="user/${number}@${escapeXml(tenant.sipDomain)}"/>`,
+      '      <action application="answer"/>',
+    );
+    if (greeting) {
+      lines.push(
+        `      <action application="playback" data="${escapeXml(greeting)}"/>`,
+        '      <action application="set" data="skip_greeting=true"/>',
+      );
+    }
+    lines.push(`      <action application="voicemail" data="default ${escapeXml(tenant.sipDomain)} ${number}"/>`);
+  } else {
+    lines.push(`      <action application="bridge" data="user/${number}@${escapeXml(tenant.sipDomain)}"/>`);
+  }
+
+  lines.push("    </condition>", "  </extension>");
+  return xmlDocument(lines.join("\n"));
+}
+
+function menuEntry(tenant: PbxTenant, option: IvrMenuOption): { action: string; param?: string } {
+  const destination = dialToken(option.destination);
+  const context = tenantContext(tenant.tenantId);
+
+  switch (option.action) {
+    case "transfer":
+      return { action: "menu-exec-app", param: `transfer ${destination} XML ${context}` };
+    case "queue":
+      throw queueOptionError(option);
+    case "submenu":
+      return { action: "menu-sub", param: `ivr-${option.destination.replace(/[^0-9a-f-]/gi, "")}` };
+    case "repeat":
+      return { action: "menu-top" };
+    case "ai_agent":
+      return { action: "menu-exec-app", param: `transfer ${destination || "s"} XML gueswi-ai` };
+    case "hangup":
+      return { action: "menu-exit" };
+  }
+}
+
+export function renderIvrMenu(tenant: PbxTenant, ivr: IvrMenu): string {
+  const greeting = greetingFilePath(ivr.greetingAudioUrl) ?? "silence_stream://1000";
+  const lines = [
+    `  <menu name="ivr-${ivr.id}" description="${escapeXml(ivr.name)}"`,
+    `        greet-long="${escapeXml(greeting)}" greet-short="${escapeXml(greeting)}"`,
+    '        invalid-sound="ivr/ivr-that_was_an_invalid_entry.wav" exit-sound="voicemail/vm-goodbye.wav"',
+    '        timeout="5000" inter-digit-timeout="2000" max-failures="3" max-timeouts="3" digit-len="1">',
+  ];
+
+  // The "default" option catches any other digit, so it goes last
+  const options = parseMenuOptions(ivr).sort((a, b) => Number(a.key === "default") - Number(b.key === "default"));
+  for (const option of options) {
+    const { action, param } = menuEntry(tenant, option);
+    const digits = option.key === "default" ? "/^.$/" : dialToken(option.key);
+    lines.push(
+      `    <entry action="${action}" digits="${escapeXml(digits)}"${param ? ` param="${escapeXml(param)}"` : ""}/>`,
+    );
+  }
+
+  lines.push("  </menu>");
+  return xmlDocument(lines.join("\n"));
+}
+
+export function renderIvrDialplan(ivr: IvrMenu): string {
+  return xmlDocument([
+    `  <extension name="ivr-${ivr.id}">`,
+    `    <condition field="destination_number" expression="^ivr-${ivr.id}$">`,
+    '      <action application="answer"/>',
+    `      <action application="ivr" data="ivr-${ivr.id}"/>`,
+    "    </condition>",
+    "  </extension>",
+  ].join("\n"));
+}
+
+export class FreeSwitchProvisioner implements PbxProvisioner {
+  readonly name = "freeswitch";
+  private readonly root = pbxConfigDir("freeswitch");
+
+  async provisionTenant(tenant: PbxTenant): Promise<void> {
+    await this.writeTenantFiles(tenant);
+    await reloadPbx();
+  }
+
+  async upsertExtension(tenant: PbxTenant, extension: Extension): Promise<void> {
+    await this.writeTenantFiles(tenant);
+
+    if (extension.status === "ACTIVE") {
+      await writeConfigFile(this.userFile(tenant, extension.id), renderUser(tenant, extension));
+      await writeConfigFile(this.dialplanFile(tenant.tenantId, `ext-${extension.id}`), renderExtensionDialplan(tenant, extension));
+    } else {
+      await this.removeExtensionFiles(tenant, extension.id);
+    }
+    await reloadPbx();
+  }
+
+  async deleteExtension(tenant: PbxTenant, extension: Extension): Promise<void> {
+    await this.removeExtensionFiles(tenant, extension.id);
+    await reloadPbx();
+  }
+
+  async upsertIvr(tenant: PbxTenant, ivr: IvrMenu): Promise<void> {
+    await this.writeTenantFiles(tenant);
+    await writeConfigFile(this.ivrMenuFile(tenant.tenantId, ivr.id), renderIvrMenu(tenant, ivr));
+    await writeConfigFile(this.dialplanFile(tenant.tenantId, `ivr-${ivr.id}`), renderIvrDialplan(ivr));
+    await reloadPbx();
+  }
+
+  async deleteIvr(tenant: PbxTenant, ivr: IvrMenu): Promise<void> {
+    await removeConfigPath(this.ivrMenuFile(tenant.tenantId, ivr.id));
+    await removeConfigPath(this.dialplanFile(tenant.tenantId, `ivr-${ivr.id}`));
+    await reloadPbx();
+  }
+
+  async removeTenant(tenant: PbxTenant): Promise<void> {
+    const context = tenantContext(tenant.tenantId);
+    await removeConfigPath(configPath(this.root, "dialplan", `${context}.xml`));
+    await removeConfigPath(configPath(this.root, "dialplan", context));
+    await removeConfigPath(configPath(this.root, "ivr_menus", tenant.tenantId));
+    await removeConfigPath(configPath(this.root, "directory", `${tenant.sipDomain}.xml`));
+    await removeConfigPath(configPath(this.root, "directory", tenant.sipDomain));
+    await reloadPbx();
+  }
+
+  private async writeTenantFiles(tenant: PbxTenant): Promise<void> {
+    await writeConfigFile(configPath(this.root, "directory", `${tenant.sipDomain}.xml`), renderDomain(tenant));
+    await writeConfigFile(
+      configPath(this.root, "dialplan", `${tenantContext(tenant.tenantId)}.xml`),
+      renderTenantContext(tenant),
+    );
+  }
+
+  private async removeExtensionFiles(tenant: PbxTenant, extensionId: string): Promise<void> {
+    await removeConfigPath(this.userFile(tenant, extensionId));
+    await removeConfigPath(this.dialplanFile(tenant.tenantId, `ext-${extensionId}`));
+  }
+
+  private userFile(tenant: PbxTenant, extensionId: string): string {
+    return configPath(this.root, "directory", tenant.sipDomain, `${extensionId}.xml`);
+  }
+
+  private dialplanFile(tenantId: string, name: string): string {
+    return configPath(this.root, "dialplan", tenantContext(tenantId), `${name}.xml`);
+  }
+
+  private ivrMenuFile(tenantId: string, ivrId: string): string {
+    return configPath(this.root, "ivr_menus", tenantId, `${ivrId}.xml`);
+  }
+}
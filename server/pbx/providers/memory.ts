@@ -0,0 +1,119 @@
+/**
+ * In-memory PBX provider
+ *
+ * Keeps what would have been provisioned in plain maps. Default in
+ * development, and the fake for tests: `failWith` makes the next operations
+ * throw to exercise the failed provisioning status.
+ */
+
+import type { Extension, IvrMenu } from "@shared/schema";
+import type { PbxProvisioner, PbxTenant } from "../index.js";
+import { parseMenuOptions } from "../../ivr";
+
+export interface MemorySipAccount {
+  extensionId: string;
+  username: string;
+  password: string;
+  domain: string;
+  displayName: string;
+  enabled: boolean;
+  voicemail: { pin: string; greetingUrl: string | null } | null; // null: box disabled
+}
+
+export interface MemoryIvrContext {
+  ivrId: string;
+  name: string;
+  greetingAudioUrl: string | null;
+  options: Record<string, string>; // DTMF key → "<action>:<destination>"
+}
+
+interface MemoryTenant {
+  tenant: PbxTenant;
+  accounts: Map<string, MemorySipAccount>;
+  dialplan: Map<string, string>; // extension number → extension id
+  ivrs: Map<string, MemoryIvrContext>;
+}
+
+export class InMemoryProvisioner implements PbxProvisioner {
+  readonly name = "memory";
+  private readonly tenants = new Map<string, MemoryTenant>();
+  private failure: Error | null = null;
+
+  failWith(error: Error | null): void {
+    this.failure = error;
+  }
+
+  getTenant(tenantId: string): MemoryTenant | undefined {
+    return this.tenants.get(tenantId);
+  }
+
+  async provisionTenant(tenant: PbxTenant): Promise<void> {
+    this.ensureTenant(tenant);
+  }
+
+  async upsertExtension(tenant: PbxTenant, extension: Extension): Promise<void> {
+    const entry = this.ensureTenant(tenant);
+
+    // A renumbered extension leaves its old dialplan entry behind otherwise
+    const previous = entry.accounts.get(extension.id);
+    if (previous && previous.username !== extension.number) {
+      entry.dialplan.delete(previous.username);
+    }
+
+    entry.accounts.set(extension.id, {
+      extensionId: extension.id,
+      username: extension.number,
+      password: extension.sipPassword,
+      domain: tenant.sipDomain,
+      displayName: extension.userName,
+      enabled: extension.status === "ACTIVE",
+      voicemail: extension.voicemailEnabled
+        ? { pin: extension.voicemailPin, greetingUrl: extension.voicemailGreetingUrl }
+        : null,
+    });
+    entry.dialplan.set(extension.number, extension.id);
+  }
+
+  async deleteExtension(tenant: PbxTenant, extension: Extension): Promise<void> {
+    const entry = this.ensureTenant(tenant);
+    const account = entry.accounts.get(extension.id);
+    entry.accounts.delete(extension.id);
+    entry.dialplan.delete(account?.username ?? extension.number);
+  }
+
+  async upsertIvr(tenant: PbxTenant, ivr: IvrMenu): Promise<void> {
+    const entry = this.ensureTenant(tenant);
+    entry.ivrs.set(ivr.id, {
+      ivrId: ivr.id,
+      name: ivr.name,
+      greetingAudioUrl: ivr.greetingAudioUrl,
+      options: Object.fromEntries(
+        parseMenuOptions(ivr).map((option) => [option.key, `${option.action}:${option.destination}`]),
+      ),
+    });
+  }
+
+  async deleteIvr(tenant: PbxTenant, ivr: IvrMenu): Promise<void> {
+    this.ensureTenant(tenant).ivrs.delete(ivr.id);
+  }
+
+  async removeTenant(tenant: PbxTenant): Promise<void> {
+    this.checkFailure();
+    this.tenants.delete(tenant.tenantId);
+  }
+
+  private ensureTenant(tenant: PbxTenant): MemoryTenant {
+    this.checkFailure();
+
+    let entry = this.tenants.get(tenant.tenantId);
+    if (!entry) {
+      entry = { tenant, accounts: new Map(), dialplan: new Map(), ivrs: new Map() };
+      this.tenants.set(tenant.tenantId, entry);
+    }
+    return entry;
+  }
+
+  private checkFailure(): void {
+    if (this.failure) throw this.failure;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Real-time event hub for the softphone and inbox
+ *
+ * Runs a WebSocket endpoint on the same HTTP server as Express (path /ws).
+ * Connections are authenticated with the existing express-session cookie and
+ * joined to per-tenant (`tenant:<id>`) and per-user (`user:<id>`) channels.
+ * Pongs and client pings double as the agent's presence heartbeat.
+ */
+
+import type { Server, IncomingMessage } from "http";
+import type { RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+
+export const REALTIME_PATH = "/ws";
+
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+export interface RealtimeHandler {
+  broadcast: (channel: string, data: any) => void;
+}
+
+export interface RealtimeOptions {
+  // Called on connect and on every sign of life from the client
+  onHeartbeat?: (identity: { userId: string; tenantId: string }) => void;
+}
+
+interface ClientState {
+  userId: string;
+  tenantId: string;
+  channels: Set<string>;
+  isAlive: boolean;
+}
+
+/**
+ * Resolve the logged-in user from the upgrade request by running the
+ * express-session middleware against it (the same store Express uses).
+ */
+async function authenticateUpgrade(
+  req: IncomingMessage,
+  sessionMiddleware: RequestHandler,
+): Promise<{ userId: string; tenantId: string } | null> {
+  await new Promise<void>((resolve, reject) => {
+    sessionMiddleware(req as any, {} as Response, (err?: any) =>
+      err ? reject(err) : resolve(),
+    );
+  });
+
+  const sessionUser = (req as any).session?.passport?.user;
+  if (!sessionUser?.id) return null;
+
+  // Session payload may predate tenant bootstrap, so re-read the user
+  const user = await storage.getUser(sessionUser.id);
+  if (!user?.tenantId) return null;
+
+  return { userId: user.id, tenantId: user.tenantId };
+}
+
+export function setupRealtime(
+  server: Server,
+  sessionMiddleware: RequestHandler,
+  options: RealtimeOptions = {},
+): RealtimeHandler {
+  const wss = new WebSocketServer({ noServer: true });
+  const clients = new Map<WebSocket, ClientState>();
+
+  server.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+
+    // Leave other upgrade requests (e.g. Vite HMR) to their own handlers
+    if (pathname !== REALTIME_PATH) return;
+
+    try {
+      const identity = await authenticateUpgrade(req, sessionMiddleware);
+      if (!identity) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        clients.set(ws, {
+          ...identity,
+          channels: new Set([
+            `tenant:${identity.tenantId}`,
+            `user:${identity.userId}`,
+          ]),
+          isAlive: true,
+        });
+        wss.emit("connection", ws, req);
+      });
+    } catch (error) {
+      console.error("❌ WebSocket upgrade failed:", error);
+      socket.write("HTTP/1.1 500 Internal Server Error\r\n\r\n");
+      socket.destroy();
+    }
+  });
+
+  wss.on("connection", (ws: WebSocket) => {
+    const state = clients.get(ws);
+    if (!state) return ws.close();
+
+    const heartbeat = () => options.onHeartbeat?.({ userId: state.userId, tenantId: state.tenantId });
+    heartbeat();
+
+    console.log(
+      `🔌 WebSocket connected: user ${state.userId} [${Array.from(state.channels).join(", ")}]`,
+    );
+
+    ws.send(
+      JSON.stringify({
+        type: "connected",
+        channels: Array.from(state.channels),
+      }),
+    );
+
+    ws.on("pong", () => {
+      state.isAlive = true;
+      heartbeat();
+    });
+
+    ws.on("message", (raw) => {
+      try {
+        const message = JSON.parse(raw.toString());
+        if (message?.type === "ping") {
+          heartbeat();
+          ws.send(JSON.stringify({ type: "pong", ts: Date.now() }));
+        }
+      } catch {
+        // Ignore malformed client frames
+      }
+    });
+
+    ws.on("close", () => {
+      clients.delete(ws);
+    });
+
+    ws.on("error", (error) => {
+      console.error("❌ WebSocket client error:", error);
+      clients.delete(ws);
+    });
+  });
+
+  // Drop connections that stopped answering pings (e.g. sleeping laptops)
+  const heartbeat = setInterval(() => {
+    clients.forEach((state, ws) => {
+      if (!state.isAlive) {
+        clients.delete(ws);
+        return ws.terminate();
+      }
+      state.isAlive = false;
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  server.on("close", () => {
+    clearInterval(heartbeat);
+    wss.close();
+  });
+
+  return {
+    broadcast: (channel: string, data: any) => {
+      const payload = JSON.stringify({ channel, ...data });
+      let delivered = 0;
+
+      clients.forEach((state, ws) => {
+        if (state.channels.has(channel) && ws.readyState === WebSocket.OPEN) {
+          ws.send(payload);
+          delivered++;
+        }
+      });
+
+      console.log(`📡 WebSocket broadcast [${channel}] → ${delivered} client(s):`, data.type);
+    },
+  };
+}
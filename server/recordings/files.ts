@@ -0,0 +1,49 @@
+/**
+ * On-disk layout of call recordings
+ *
+ * Recordings live under RECORDINGS_DIR (never the public /uploads mount):
+ *   <RECORDINGS_DIR>/<tenantId>/<yyyy>/<mm>/<recordingId>.<ext>
+ * `recordings.storagePath` keeps the part after RECORDINGS_DIR. Every read
+ * resolves it against the owning tenant's directory, so a row can never
+ * point at another tenant's audio.
+ */
+
+import path from "path";
+
+export const RECORDINGS_DIR = path.resolve(process.env.RECORDINGS_DIR || "storage/recordings");
+
+export const RECORDING_MIME_TYPES: Record<string, string> = {
+  ".wav": "audio/wav",
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".ogg": "audio/ogg",
+};
+
+export function recordingStreamUrl(recordingId: string): string {
+  return `/api/recordings/${recordingId}/audio`;
+}
+
+export function recordingExtension(mimeType: string): string {
+  const entry = Object.entries(RECORDING_MIME_TYPES).find(([, type]) => type === mimeType);
+  return entry ? entry[0] : ".wav";
+}
+
+export function recordingStoragePath(tenantId: string, fileName: string, date: Date = new Date()): string {
+  const year = String(date.getFullYear());
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  return path.posix.join(tenantId, year, month, fileName);
+}
+
+/**
+ * Absolute path of a tenant's recording; throws when `storagePath` escapes
+ * the tenant directory.
+ */
+export function resolveRecordingFile(tenantId: string, storagePath: string): string {
+  const tenantDir = path.join(RECORDINGS_DIR, tenantId);
+  const absPath = path.resolve(RECORDINGS_DIR, storagePath);
+
+  if (!absPath.startsWith(tenantDir + path.sep)) {
+    throw new Error("Recording path outside tenant storage");
+  }
+  return absPath;
+}
@@ -0,0 +1,275 @@
+/**
+ * Call recordings: capture when a call ends and authenticated streaming
+ *
+ * A recording is captured once per answered conversation. The audio comes
+ * from the telephony provider (Twilio posts the RecordingUrl once the media
+ * is ready); in development, calls without provider media get a silent
+ * placeholder so the whole flow can be exercised locally. The hangup stores
+ * the placeholder before Twilio's media arrives, so the media replaces it.
+ *
+ * Streaming honours single HTTP byte ranges so the browser audio element
+ * can seek.
+ */
+
+import { promises as fs, createReadStream } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Request, Response } from "express";
+import type { Conversation, Recording } from "@shared/schema";
+import config from "../config";
+import { storage } from "../storage";
+import {
+  RECORDING_MIME_TYPES,
+  recordingExtension,
+  recordingStoragePath,
+  recordingStreamUrl,
+  resolveRecordingFile,
+} from "./files";
+
+export interface RecordingAudioSource {
+  url: string;
+  durationSec?: number;
+}
+
+export interface RecordingAudio {
+  data: Buffer;
+  mimeType: string;
+}
+
+// Keeps development placeholders small whatever the call length
+const MOCK_MAX_SEC = 120;
+const MOCK_SAMPLE_RATE = 8000;
+
+/**
+ * Silent 8 kHz mono PCM WAV of `durationSec` (capped)
+ */
+export function createMockRecording(durationSec: number): RecordingAudio {
+  const numSamples = MOCK_SAMPLE_RATE * Math.min(Math.max(durationSec, 1), MOCK_MAX_SEC);
+  const buffer = Buffer.alloc(44 + numSamples * 2);
+
+  buffer.write("RIFF", 0);
+  buffer.writeUInt32LE(36 + numSamples * 2, 4);
+  buffer.write("WAVE", 8);
+  buffer.write("fmt ", 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(MOCK_SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(MOCK_SAMPLE_RATE * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write("data", 36);
+  buffer.writeUInt32LE(numSamples * 2, 40);
+
+  return { data: buffer, mimeType: "audio/wav" };
+}
+
+/**
+ * Twilio-hosted recording media (the only URLs the recording webhook accepts)
+ */
+export function isTwilioRecordingUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "https:" && parsed.hostname === "api.twilio.com";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetch provider media. Twilio recording URLs come without an extension
+ * and need the account credentials.
+ */
+export async function downloadRecording(source: RecordingAudioSource): Promise<RecordingAudio> {
+  const isTwilio = isTwilioRecordingUrl(source.url);
+  const url = isTwilio && !path.extname(new URL(source.url).pathname) ? `${source.url}.mp3` : source.url;
+
+  const headers: Record<string, string> = {};
+  if (isTwilio && process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN) {
+    const credentials = `${process.env.TWILIO_ACCOUNT_SID}:${process.env.TWILIO_AUTH_TOKEN}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    throw new Error(`Recording download failed: ${response.status} ${response.statusText}`);
+  }
+
+  const mimeType = response.headers.get("content-type")?.split(";")[0].trim()
+    || RECORDING_MIME_TYPES[path.extname(new URL(url).pathname)]
+    || "audio/mpeg";
+  return { data: Buffer.from(await response.arrayBuffer()), mimeType };
+}
+
+/**
+ * Store the recording of an ended call, or the provider media of one that
+ * only has a placeholder. Returns null when there is nothing new to store:
+ * unanswered call, already captured, or no media available.
+ */
+export async function captureCallRecording(
+  conversation: Conversation,
+  source?: RecordingAudioSource,
+): Promise<Recording | null> {
+  if (!conversation.answeredAt) return null;
+  const existing = await storage.getRecordingByConversation(conversation.id);
+  if (existing && !(source && existing.placeholder)) return null;
+
+  const durationSec = source?.durationSec ?? conversation.duration ?? 0;
+  let audio: RecordingAudio;
+  if (source) {
+    audio = await downloadRecording(source);
+  } else if (config.isDevelopment) {
+    audio = createMockRecording(durationSec);
+  } else {
+    return null;
+  }
+
+  const id = randomUUID();
+  const startedAt = new Date(conversation.answeredAt);
+  const storagePath = recordingStoragePath(
+    conversation.tenantId,
+    `${id}${recordingExtension(audio.mimeType)}`,
+    startedAt,
+  );
+  const absPath = resolveRecordingFile(conversation.tenantId, storagePath);
+
+  await fs.mkdir(path.dirname(absPath), { recursive: true });
+  await fs.writeFile(absPath, audio.data);
+
+  if (existing) {
+    let recording: Recording;
+    try {
+      recording = await storage.updateRecordingAudio(existing.id, {
+        durationSec,
+        sizeBytes: audio.data.length,
+        storagePath,
+        mimeType: audio.mimeType,
+        placeholder: false,
+      });
+    } catch (error) {
+      await fs.unlink(absPath).catch(() => {});
+      throw error;
+    }
+    if (existing.storagePath) {
+      await fs.unlink(resolveRecordingFile(existing.tenantId, existing.storagePath)).catch(() => {});
+    }
+    return recording;
+  }
+
+  try {
+    return await storage.createRecording({
+      id,
+      tenantId: conversation.tenantId,
+      conversationId: conversation.id,
+      callId: conversation.callId,
+      startedAt,
+      durationSec,
+      sizeBytes: audio.data.length,
+      url: recordingStreamUrl(id),
+      storagePath,
+      mimeType: audio.mimeType,
+      placeholder: !source,
+    });
+  } catch (error: any) {
+    await fs.unlink(absPath).catch(() => {});
+    // Both call legs reported the end at once; the other capture won
+    if (error?.code === "23505") return null;
+    throw error;
+  }
+}
+
+/**
+ * Parse a `Range: bytes=...` header against a file of `size` bytes.
+ * Multiple ranges are not supported and fall back to the whole file.
+ */
+export function parseByteRange(
+  header: string | undefined,
+  size: number,
+): { start: number; end: number } | "unsatisfiable" | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return null;
+
+  const [, startText, endText] = match;
+  if (!startText && !endText) return null;
+
+  let start: number;
+  let end: number;
+  if (!startText) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(endText));
+    end = size - 1;
+  } else {
+    start = Number(startText);
+    end = endText ? Math.min(Number(endText), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
+
+/**
+ * Send a recording's audio, honouring Range requests
+ */
+export async function streamRecording(req: Request, res: Response, recording: Recording): Promise<void> {
+  if (!recording.storagePath) {
+    res.status(404).json({ message: "Recording audio not available" });
+    return;
+  }
+
+  const absPath = resolveRecordingFile(recording.tenantId, recording.storagePath);
+  await streamAudioFile(req, res, {
+    absPath,
+    mimeType: recording.mimeType,
+    downloadName: `recording-${recording.callId}${path.extname(absPath)}`,
+  });
+}
+
+/**
+ * Send a private audio file (recordings, voicemail), honouring Range
+ * requests; `?download` makes it an attachment named `downloadName`
+ */
+export async function streamAudioFile(
+  req: Request,
+  res: Response,
+  file: { absPath: string; mimeType: string; downloadName: string },
+): Promise<void> {
+  const stat = await fs.stat(file.absPath).catch(() => null);
+  if (!stat?.isFile()) {
+    res.status(404).json({ message: "Audio file not found" });
+    return;
+  }
+
+  res.setHeader("Content-Type", file.mimeType);
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("Cache-Control", "private, no-store");
+  if (req.query.download) {
+    res.setHeader("Content-Disposition", `attachment; filename="${file.downloadName}"`);
+  }
+
+  const range = parseByteRange(req.headers.range, stat.size);
+  if (range === "unsatisfiable") {
+    res.setHeader("Content-Range", `bytes */${stat.size}`);
+    res.status(416).end();
+    return;
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${stat.size}`);
+    res.setHeader("Content-Length", range.end - range.start + 1);
+  } else {
+    res.setHeader("Content-Length", stat.size);
+  }
+
+  if (req.method === "HEAD") {
+    res.end();
+    return;
+  }
+
+  const stream = createReadStream(file.absPath, range ?? undefined);
+  stream.on("error", (error) => {
+    console.error("❌ Audio stream failed:", error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+}
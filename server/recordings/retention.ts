@@ -0,0 +1,162 @@
+/**
+ * Recording retention and per-plan storage quota
+ *
+ * A daily purge (PURGE_HOUR, server time) goes through every tenant with
+ * recordings and deletes:
+ *   1. recordings older than `tenants.recordingRetentionDays` (null keeps them)
+ *   2. then the oldest recordings until usage fits RECORDING_QUOTA_BYTES[plan]
+ * Files are removed before their rows, so a failed run never leaves rows
+ * pointing at nothing that the UI would still list as playable.
+ */
+
+import { promises as fs } from "fs";
+import {
+  RECORDING_QUOTA_BYTES,
+  type Recording,
+  type RecordingStorageSummary,
+  type Tenant,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { resolveRecordingFile } from "./files";
+
+export const PURGE_HOUR = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const QUOTA_BATCH_SIZE = 100;
+
+export interface PurgeResult {
+  expired: number;
+  overQuota: number;
+  freedBytes: number;
+}
+
+/**
+ * First purge run strictly after `after`
+ */
+export function nextPurgeRun(after: Date = new Date()): Date {
+  const run = new Date(after);
+  run.setHours(PURGE_HOUR, 0, 0, 0);
+  if (run <= after) run.setDate(run.getDate() + 1);
+  return run;
+}
+
+export function retentionCutoff(retentionDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
+
+async function removeRecordings(tenantId: string, list: Recording[]): Promise<number> {
+  let freedBytes = 0;
+
+  for (const recording of list) {
+    if (recording.storagePath) {
+      try {
+        await fs.unlink(resolveRecordingFile(tenantId, recording.storagePath));
+      } catch (error: any) {
+        // Already gone is fine, anything else keeps the row for the next run
+        if (error?.code !== "ENOENT") throw error;
+      }
+    }
+    freedBytes += recording.sizeBytes;
+  }
+
+  await storage.deleteRecordings(tenantId, list.map((recording) => recording.id));
+  return freedBytes;
+}
+
+export async function purgeTenantRecordings(tenant: Tenant, now: Date = new Date()): Promise<PurgeResult> {
+  const result: PurgeResult = { expired: 0, overQuota: 0, freedBytes: 0 };
+
+  if (tenant.recordingRetentionDays) {
+    const expired = await storage.getRecordingsStartedBefore(
+      tenant.id,
+      retentionCutoff(tenant.recordingRetentionDays, now),
+    );
+    result.freedBytes += await removeRecordings(tenant.id, expired);
+    result.expired = expired.length;
+  }
+
+  const quota = RECORDING_QUOTA_BYTES[tenant.plan];
+  let { totalBytes } = await storage.getRecordingUsage(tenant.id);
+
+  while (totalBytes > quota) {
+    const oldest = await storage.getOldestRecordings(tenant.id, QUOTA_BATCH_SIZE);
+    if (oldest.length === 0) break;
+
+    // Only as many as needed to get back under the quota
+    const batch: Recording[] = [];
+    for (const recording of oldest) {
+      if (totalBytes <= quota) break;
+      batch.push(recording);
+      totalBytes -= recording.sizeBytes;
+    }
+
+    result.freedBytes += await removeRecordings(tenant.id, batch);
+    result.overQuota += batch.length;
+  }
+
+  return result;
+}
+
+export async function getRecordingStorageSummary(
+  tenant: Tenant,
+  now: Date = new Date(),
+): Promise<RecordingStorageSummary> {
+  const usage = await storage.getRecordingUsage(tenant.id);
+  const quotaBytes = RECORDING_QUOTA_BYTES[tenant.plan];
+
+  let nextPurgeAt: Date | null = null;
+  if (usage.totalBytes > quotaBytes) {
+    nextPurgeAt = nextPurgeRun(now);
+  } else if (tenant.recordingRetentionDays && usage.oldestStartedAt) {
+    const expiresAt = new Date(usage.oldestStartedAt.getTime() + tenant.recordingRetentionDays * DAY_MS);
+    nextPurgeAt = nextPurgeRun(expiresAt > now ? expiresAt : now);
+  }
+
+  return {
+    usedBytes: usage.totalBytes,
+    quotaBytes,
+    recordingCount: usage.count,
+    retentionDays: tenant.recordingRetentionDays,
+    nextPurgeAt,
+  };
+}
+
+export async function runRecordingPurge(now: Date = new Date()): Promise<void> {
+  const tenantList = await storage.getTenantsWithRecordings();
+
+  for (const tenant of tenantList) {
+    try {
+      const result = await purgeTenantRecordings(tenant, now);
+      if (result.expired || result.overQuota) {
+        console.log(
+          `🧹 Recordings purged for tenant ${tenant.id}: ${result.expired} expired, ${result.overQuota} over quota (${result.freedBytes} bytes)`,
+        );
+      }
+    } catch (error) {
+      // One tenant's storage trouble must not block the others
+      console.error(`❌ Recording purge failed for tenant ${tenant.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Run the purge every day at PURGE_HOUR. Returns a function that stops it.
+ */
+export function scheduleRecordingPurge(): () => void {
+  let timer: ReturnType<typeof setTimeout>;
+
+  const scheduleNext = () => {
+    timer = setTimeout(async () => {
+      try {
+        await runRecordingPurge();
+      } catch (error) {
+        console.error("❌ Recording purge failed:", error);
+      }
+      scheduleNext();
+    }, nextPurgeRun().getTime() - Date.now());
+    timer.unref?.();
+  };
+
+  scheduleNext();
+  return () => clearTimeout(timer);
+}
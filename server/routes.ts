@@ -1,19 +1,95 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import fs from "fs";
 import fsp from "fs/promises";
 import path from "path";
-import { randomUUID } from "crypto";
+import { randomUUID, timingSafeEqual } from "crypto";
 
-// Extend Server type to include wsHandler
-interface ServerWithWebSocket extends Server {
-  wsHandler?: {
-    broadcast: (channel: string, data: any) => void;
-  };
-}
 import Stripe from "stripe";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
+import { setupRealtime, type RealtimeHandler } from "./realtime";
+import { startCall, applyCallAction, isTerminalStatus, CallStateError } from "./call-state";
+import { startTransfer, completeTransfer, cancelTransfer } from "./call-transfer";
+import { getQueuesWithStats, enqueueConversation } from "./call-queue";
+import { handleQueueWait } from "./ivr/queue";
+import { isTwilioWebhookAuthorized } from "./ivr/twiml";
+import { declineInboundCall, offerInboundCall, onInboundCallEvent, ringInboundCall, settleInboundCall } from "./inbound-calls";
+import { BookingError, findAvailableSlots, validateAppointmentTime } from "./booking";
+import { queueKnowledgeIndexing, searchKnowledge } from "./knowledge";
+import { ttsSettings } from "./tts";
+import { collectPromptGarbage, deletePrompt, getOrCreatePrompt, getPromptLibrary, PromptError } from "./tts/prompts";
+import { extractDocumentText, knowledgeSourceOf, KnowledgeError, MAX_KNOWLEDGE_FILE_BYTES } from "./knowledge/extract";
+import { captureCallRecording, isTwilioRecordingUrl, streamRecording, type RecordingAudioSource } from "./recordings";
+import {
+  deleteVoicemailAudio,
+  onVoicemailMessage,
+  storeVoicemailMessage,
+  streamVoicemail,
+  verifyVoicemailPin,
+} from "./voicemail";
+import { recordCallDetail } from "./call-records";
+import { markInboxConversationRead, onInboxUpdate, updateInboxConversation } from "./inbox";
+import { onTranscriptSegment, syncCallTranscription } from "./transcription";
+import { setupCallAudioIngest } from "./stt/media";
+import { onConversationAnalyzed, queueConversationAnalysis } from "./analysis";
+import {
+  applyDeliveryStatus,
+  getMessagingProvider,
+  onConversationMessage,
+  receiveInboundMessage,
+  sendConversationMessage,
+  type MessagingWebhookRequest,
+} from "./messaging";
+import { getRecordingStorageSummary } from "./recordings/retention";
+import {
+  provisionExtension,
+  deprovisionExtension,
+  provisionIvr,
+  provisionTenant,
+  sipAccountFor,
+  softphoneCredentialsFor,
+} from "./pbx";
+import {
+  getTenantPresence,
+  getUserPresence,
+  onPresenceChange,
+  recordHeartbeat,
+  releaseAgent,
+  setAgentPresence,
+  syncCallPresence,
+} from "./agent-presence";
+import {
+  enterIvrMenu,
+  findAiAgentForInboundNumber,
+  findIvrForInboundNumber,
+  validateIvrMenuGraph,
+  renderIvrStep,
+  resolveIvrInput,
+  normalizePhoneNumber,
+  IVR_MAX_ATTEMPTS,
+} from "./ivr";
+import {
+  agentCompletionRequest,
+  aiCallMessages,
+  AI_SPEECH_TURN_TIMEOUT_MS,
+  findOrStartAiCall,
+  handleAiTransferEnded,
+  renderAiError,
+  renderAiGreeting,
+  renderAiReply,
+  renderAiTurn,
+  resolveAiAgent,
+  runAiTurn,
+  DEFAULT_AI_AGENT,
+  type AiAgentProfile,
+} from "./ai-agents";
+import { completeChat, LLMError } from "./llm";
+
+// Extend Server type to include wsHandler
+interface ServerWithWebSocket extends Server {
+  wsHandler?: RealtimeHandler;
+}
 import {
   createPaypalOrder,
   capturePaypalOrder,
@@ -24,8 +100,23 @@ import {
   insertBankTransferSchema,
   insertExtensionSchema,
   insertIvrMenuSchema,
+  insertAiAgentSchema,
+  insertInboundNumberSchema,
   insertQueueSchema,
+  queueMembersSchema,
+  agentPresenceSchema,
   insertRecordingSchema,
+  recordingRetentionSchema,
+  voicemailSettingsSchema,
+  inboxUpdateSchema,
+  sendMessageSchema,
+  aiGatewaySchema,
+  knowledgeFaqSchema,
+  ttsSettingsSchema,
+  ttsRequestSchema,
+  ttsPromptUpdateSchema,
+  knowledgeSearchSchema,
+  INBOX_VIEWS,
   insertPipelineStageSchema,
   insertLeadSchema,
   insertLeadActivitySchema,
@@ -74,23 +165,66 @@ const upload = multer({
   },
 });
 
+// Knowledge base files are read in memory and only their text is kept
+const knowledgeUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_KNOWLEDGE_FILE_BYTES },
+  fileFilter: (req: any, file: any, cb: any) => {
+    if (knowledgeSourceOf(file.originalname, file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new KnowledgeError("Unsupported file type. Upload a PDF, text or markdown file."));
+    }
+  },
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server and setup WebSocket support
   const server = createServer(app) as ServerWithWebSocket;
 
-  // Mock WebSocket handler for softphone (dev implementation)
-  const wsHandler = {
-    broadcast: (channel: string, data: any) => {
-      console.log(`📡 WebSocket broadcast [${channel}]:`, data);
-      // TODO: Implement real WebSocket broadcasting when WebSocket server is added
+  // Setup authentication
+  const sessionMiddleware = setupAuth(app);
+
+  // Real-time WebSocket hub (session-authenticated, per-tenant channels)
+  server.wsHandler = setupRealtime(server, sessionMiddleware, {
+    onHeartbeat: ({ tenantId, userId }) => {
+      recordHeartbeat(tenantId, userId).catch((error) =>
+        console.error("❌ Presence heartbeat failed:", error),
+      );
     },
+  });
+
+  // PBX call notifications and call audio, authenticated with PBX_WEBHOOK_SECRET
+  const isPbxWebhookAuthorized = (header: string | undefined) => {
+    const secret = process.env.PBX_WEBHOOK_SECRET;
+    if (!secret || !header) return false;
+    const expected = Buffer.from(secret);
+    const supplied = Buffer.from(header);
+    return expected.length === supplied.length && timingSafeEqual(expected, supplied);
   };
 
-  // Attach WebSocket handler to server
-  server.wsHandler = wsHandler;
+  // Live call audio forked by the PBX, transcribed while the call is up
+  setupCallAudioIngest(server, (req) => {
+    const header = req.headers["x-pbx-secret"];
+    return isPbxWebhookAuthorized(typeof header === "string" ? header : undefined);
+  });
 
-  // Setup authentication
-  setupAuth(app);
+  // Transcript of live calls (server/transcription.ts): interim text is
+  // only shown, final segments are the stored messages
+  onTranscriptSegment((conversation, segment, message) => {
+    server.wsHandler?.broadcast(`tenant:${conversation.tenantId}`, {
+      type: "transcript",
+      conversationId: conversation.id,
+      speaker: segment.speaker,
+      text: segment.text,
+      isFinal: segment.isFinal,
+      messageId: message?.id ?? null,
+    });
+  });
+
+  onPresenceChange((tenantId, info) => {
+    server.wsHandler?.broadcast(`tenant:${tenantId}`, { type: "presence_update", ...info });
+  });
 
   // Bootstrap middleware - automatically create tenant for users without one
   app.use("/api", async (req, res, next) => {
@@ -167,6 +301,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       await storage.resetTenantData(req.user.tenantId);
+      await provisionTenant(req.user.tenantId);
 
       res.json({
         success: true,
@@ -178,59 +313,198 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Softphone API endpoints (mock)
+  // Broadcast a call's persisted state to everyone in its tenant; the
+  // agent's presence follows every call event
+  const broadcastCallEvent = (
+    type: string,
+    conversation: schema.Conversation,
+    extra: Record<string, any> = {},
+  ) => {
+    server.wsHandler?.broadcast(`tenant:${conversation.tenantId}`, {
+      type,
+      conversationId: conversation.id,
+      callId: conversation.callId,
+      status: conversation.status,
+      isMuted: conversation.isMuted,
+      isOnHold: conversation.isOnHold,
+      phoneNumber: conversation.phoneNumber,
+      direction: conversation.direction,
+      userId: conversation.userId,
+      missed: !!conversation.missedAt,
+      ...extra,
+    });
+
+    settleInboundCall(conversation);
+    syncCallPresence(conversation).catch((error) =>
+      console.error("❌ Presence sync failed:", error),
+    );
+    // Ended calls are analyzed once their transcript is complete
+    syncCallTranscription(conversation)
+      .catch((error) => console.error("❌ Transcription sync failed:", error))
+      .then(() => {
+        if (isTerminalStatus(conversation.status)) queueConversationAnalysis(conversation);
+      });
+    if (isTerminalStatus(conversation.status)) {
+      captureRecording(conversation);
+      recordCallDetail(conversation).catch((error) =>
+        console.error("❌ Call detail record failed:", error),
+      );
+    }
+  };
+
+  // Store an ended call's audio and let the recordings list refresh
+  const captureRecording = (conversation: schema.Conversation, source?: RecordingAudioSource) =>
+    captureCallRecording(conversation, source)
+      .then((recording) => {
+        if (recording) {
+          server.wsHandler?.broadcast(`tenant:${conversation.tenantId}`, {
+            type: "recording_created",
+            recordingId: recording.id,
+            conversationId: conversation.id,
+          });
+        }
+      })
+      .catch((error) => console.error("❌ Recording capture failed:", error));
+
+  // A completed transfer ends the call for the agent who handed it over
+  const releaseTransferringAgent = (conversation: schema.Conversation) => {
+    const transfer = conversation.transferChain?.at(-1);
+    if (!transfer) return;
+
+    releaseAgent(
+      conversation.tenantId,
+      { extensionId: transfer.fromExtensionId, userId: transfer.fromUserId },
+      true,
+    ).catch((error) => console.error("❌ Presence release failed:", error));
+  };
+
+  const broadcastQueueUpdate = (tenantId: string, queueId: string) => {
+    server.wsHandler?.broadcast(`tenant:${tenantId}`, { type: "queue_update", queueId });
+  };
+
+  const sendCallError = (res: Response, error: any) => {
+    if (error instanceof CallStateError) {
+      return res
+        .status(error.status)
+        .json({ code: error.code, message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  };
+
+  // Offers, timeouts and voicemail of rung inbound calls (server/inbound-calls.ts)
+  onInboundCallEvent((type, conversation) => broadcastCallEvent(type, conversation));
+
+  // Inbox triage changes (server/inbox.ts)
+  onInboxUpdate((conversation) => {
+    server.wsHandler?.broadcast(`tenant:${conversation.tenantId}`, {
+      type: "inbox_update",
+      conversationId: conversation.id,
+      inboxStatus: conversation.inboxStatus,
+      userId: conversation.userId,
+    });
+  });
+
+  // Post-call analysis results (server/analysis)
+  onConversationAnalyzed((conversation) => {
+    server.wsHandler?.broadcast(`tenant:${conversation.tenantId}`, {
+      type: "analysis_update",
+      conversationId: conversation.id,
+      analysisStatus: conversation.analysisStatus,
+    });
+  });
+
+  // SMS / WhatsApp messages and their delivery updates (server/messaging)
+  onConversationMessage((message, conversation) => {
+    server.wsHandler?.broadcast(`tenant:${conversation.tenantId}`, {
+      type: "message_created",
+      conversationId: conversation.id,
+      messageId: message.id,
+      from: message.from,
+      deliveryStatus: message.deliveryStatus,
+    });
+  });
+
+  // New messages refresh the voicemail inbox of the box owner
+  onVoicemailMessage((message, extension) => {
+    server.wsHandler?.broadcast(`tenant:${message.tenantId}`, {
+      type: "voicemail_created",
+      messageId: message.id,
+      extensionId: extension.id,
+      userId: extension.userId,
+      callerNumber: message.callerNumber,
+    });
+  });
+
+  // Softphone API endpoints
+
+  // SIP account of the user's extension for the browser softphone
+  app.get("/api/softphone/credentials", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const extension = await storage.getExtensionForUser(req.user.tenantId, req.user.id);
+      if (!extension || extension.status !== "ACTIVE") {
+        return res.status(404).json({ code: "NO_EXTENSION", message: "No active extension assigned to this user" });
+      }
+
+      res.setHeader("Cache-Control", "private, no-store");
+      res.json(softphoneCredentialsFor(extension));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.post("/api/softphone/calls/dial", async (req, res) => {
     try {
       if (!req.isAuthenticated() || !req.user.tenantId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      const { to } = req.body;
+      const { to, sipCallId } = req.body;
       if (!to) {
         return res.status(400).json({ message: "Phone number required" });
       }
 
-      // Create new conversation
-      const callId = `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const conversation = await storage.createConversation({
-        tenantId: req.user.tenantId,
-        userId: req.user.id,
-        callId,
-        phoneNumber: to,
-        status: "ringing",
-      });
-
-      // Emit WebSocket event for ringing
-      if (server.wsHandler) {
-        server.wsHandler.broadcast(`tenant:${req.user.tenantId}`, {
-          type: "call_status",
-          conversationId: conversation.id,
+      // Calls placed by the browser softphone keep their SIP Call-ID
+      const callId = sipCallId
+        ? String(sipCallId)
+        : `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const conversation = await startCall(
+        {
+          tenantId: req.user.tenantId,
+          userId: req.user.id,
           callId,
-          status: "ringing",
           phoneNumber: to,
-        });
-      }
+          direction: "outbound",
+          status: "ringing",
+        },
+        { userId: req.user.id, metadata: { direction: "outbound" } },
+      );
 
-      // Mock call progression after 2 seconds
-      setTimeout(async () => {
-        try {
-          // Update conversation status in database
-          await storage.updateConversationStatus(conversation.id, "answered");
-
-          // Broadcast WebSocket event
-          if (server.wsHandler) {
-            server.wsHandler.broadcast(`tenant:${req.user.tenantId}`, {
-              type: "call_status",
-              conversationId: conversation.id,
-              callId,
-              status: "answered",
-              phoneNumber: to,
-            });
+      broadcastCallEvent("call_status", conversation);
+
+      // Development only: without a SIP session nothing reports call
+      // progress, so simulate the far end picking up. Goes through the state
+      // machine, so a call hung up in the meantime simply stays ended.
+      if (config.isDevelopment && !sipCallId) {
+        setTimeout(async () => {
+          try {
+            const { conversation: answered, changed } = await applyCallAction(
+              conversation.id,
+              conversation.tenantId,
+              "answer",
+              { metadata: { simulated: true } },
+            );
+            if (changed) broadcastCallEvent("call_status", answered);
+          } catch (error) {
+            if (!(error instanceof CallStateError)) {
+              console.error("❌ Error updating call status:", error);
+            }
           }
-        } catch (error) {
-          console.error("❌ Error updating call status:", error);
-        }
-      }, 2000);
+        }, 2000);
+      }
 
       res.json({ callId, status: "ringing", conversationId: conversation.id });
     } catch (error: any) {
@@ -251,25 +525,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.user.id,
       );
 
-      console.log(
-        `🔍 Status: Active conversation check:`,
-        activeConversation
-          ? `${activeConversation.id} (${activeConversation.status})`
-          : "none",
-      );
-
       if (!activeConversation) {
         return res.json(null); // No active call - clean state
       }
 
-      // Return call status data
+      // Talk time counts from answer; ringing calls count from start
+      const since = activeConversation.answeredAt || activeConversation.startedAt;
+
       res.json({
         number: activeConversation.phoneNumber,
+        direction: activeConversation.direction,
         status: activeConversation.status,
-        duration: Math.floor(
-          (Date.now() - new Date(activeConversation.createdAt).getTime()) /
-            1000,
-        ),
+        isMuted: activeConversation.isMuted,
+        isOnHold: activeConversation.isOnHold,
+        duration: Math.floor((Date.now() - new Date(since).getTime()) / 1000),
+        answeredAt: activeConversation.answeredAt,
+        pendingTransfer: activeConversation.pendingTransfer,
+        aiHandoff: activeConversation.aiHandoff,
         conversationId: activeConversation.id,
       });
     } catch (error: any) {
@@ -277,6 +549,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Incoming SIP call ringing on the browser softphone
+  app.post("/api/softphone/calls/inbound", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { sipCallId, from } = req.body;
+      if (!sipCallId) {
+        return res.status(400).json({ message: "SIP Call-ID required" });
+      }
+
+      // Both the INVITE retransmission and a reload report the same call
+      const existing = await storage.getConversationByCallId(req.user.tenantId, String(sipCallId));
+      if (existing) {
+        return res.json({ callId: existing.callId, status: existing.status, conversationId: existing.id });
+      }
+
+      const extension = await storage.getExtensionForUser(req.user.tenantId, req.user.id);
+      const conversation = await startCall(
+        {
+          tenantId: req.user.tenantId,
+          userId: req.user.id,
+          extensionId: extension?.id,
+          callId: String(sipCallId),
+          phoneNumber: from ? String(from) : undefined,
+          direction: "inbound",
+          status: "ringing",
+        },
+        { userId: req.user.id, metadata: { direction: "inbound", source: "webrtc" } },
+      );
+
+      broadcastCallEvent("call_status", conversation);
+
+      res.json({ callId: conversation.callId, status: conversation.status, conversationId: conversation.id });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Call progress reported by the PBX or the browser softphone
+  app.post("/api/softphone/calls/:conversationId/answer", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { conversation, changed } = await applyCallAction(
+        req.params.conversationId,
+        req.user.tenantId,
+        "answer",
+        { userId: req.user.id },
+      );
+
+      if (changed) broadcastCallEvent("call_status", conversation);
+
+      res.json({ success: true, conversationId: conversation.id, status: conversation.status });
+    } catch (error: any) {
+      sendCallError(res, error);
+    }
+  });
+
   app.post("/api/softphone/calls/:conversationId/mute", async (req, res) => {
     try {
       if (!req.isAuthenticated() || !req.user.tenantId) {
@@ -284,20 +618,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { conversationId } = req.params;
-      const { muted } = req.body;
+      const current = await storage.getConversation(conversationId, req.user.tenantId);
+      if (!current) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
 
-      // Emit WebSocket event
-      if (server.wsHandler) {
-        server.wsHandler.broadcast(`tenant:${req.user.tenantId}`, {
-          type: "call_mute",
-          conversationId,
-          muted,
-        });
+      // Explicit flag wins; no body toggles the persisted state
+      const muted =
+        typeof req.body?.muted === "boolean" ? req.body.muted : !current.isMuted;
+
+      const { conversation, changed } = await applyCallAction(
+        conversationId,
+        req.user.tenantId,
+        muted ? "mute" : "unmute",
+        { userId: req.user.id },
+      );
+
+      if (changed) {
+        broadcastCallEvent("call_mute", conversation, { muted: conversation.isMuted });
       }
 
-      res.json({ success: true, conversationId, muted });
+      res.json({ success: true, conversationId, muted: conversation.isMuted, status: conversation.status });
     } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      sendCallError(res, error);
     }
   });
 
@@ -308,20 +651,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { conversationId } = req.params;
-      const { held } = req.body;
+      const current = await storage.getConversation(conversationId, req.user.tenantId);
+      if (!current) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
 
-      // Emit WebSocket event
-      if (server.wsHandler) {
-        server.wsHandler.broadcast(`tenant:${req.user.tenantId}`, {
-          type: "call_hold",
-          conversationId,
-          held,
-        });
+      // Clients send either `held` or `onHold`; no body toggles
+      const requested = req.body?.held ?? req.body?.onHold;
+      const held = typeof requested === "boolean" ? requested : !current.isOnHold;
+
+      const { conversation, changed } = await applyCallAction(
+        conversationId,
+        req.user.tenantId,
+        held ? "hold" : "resume",
+        { userId: req.user.id },
+      );
+
+      if (changed) {
+        broadcastCallEvent("call_hold", conversation, { held: conversation.isOnHold });
       }
 
-      res.json({ success: true, conversationId, held });
+      res.json({ success: true, conversationId, held: conversation.isOnHold, status: conversation.status });
     } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      sendCallError(res, error);
     }
   });
 
@@ -333,27 +685,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const { conversationId } = req.params;
 
-      console.log(`🔧 Hangup: Ending conversation ${conversationId}`);
+      // Idempotent: hanging up an ended call is a no-op
+      const { conversation, changed } = await applyCallAction(
+        conversationId,
+        req.user.tenantId,
+        "hangup",
+        { userId: req.user.id },
+      );
 
-      // Update conversation status (idempotent - safe to call multiple times)
-      await storage.endConversationById(conversationId);
+      if (changed) broadcastCallEvent("ended", conversation);
 
-      console.log(`✅ Hangup: Conversation ${conversationId} ended`);
+      res.json({ ok: true, status: conversation.status, duration: conversation.duration });
+    } catch (error: any) {
+      sendCallError(res, error);
+    }
+  });
 
-      // Emit WebSocket event
-      if (server.wsHandler) {
-        server.wsHandler.broadcast(`tenant:${req.user.tenantId}`, {
-          type: "ended",
-          conversationId,
-        });
+  // Agent declines a ringing inbound call: the next agent or voicemail
+  // takes it; calls not rung by the server just fail
+  app.post("/api/softphone/calls/:conversationId/reject", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const current = await storage.getConversation(req.params.conversationId, req.user.tenantId);
+      if (!current) {
+        return res.status(404).json({ code: "CALL_NOT_FOUND", message: "Conversation not found" });
+      }
+      if (current.status !== "ringing" || current.userId !== req.user.id) {
+        return res.status(409).json({ code: "INVALID_CALL_TRANSITION", message: "No incoming call to reject" });
+      }
+
+      const declined = await declineInboundCall(current);
+      if (declined) {
+        return res.json({ ok: true, status: declined.status });
       }
 
-      res.json({ ok: true });
+      const { conversation, changed } = await applyCallAction(current.id, req.user.tenantId, "fail", {
+        userId: req.user.id,
+        reason: "rejected",
+      });
+      if (changed) broadcastCallEvent("ended", conversation);
+
+      res.json({ ok: true, status: conversation.status });
     } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      sendCallError(res, error);
+    }
+  });
+
+  // SIP call that never connected: rejected, busy, unreachable...
+  app.post("/api/softphone/calls/:conversationId/fail", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const reason = typeof req.body?.reason === "string" ? req.body.reason.slice(0, 100) : "unknown";
+      const { conversation, changed } = await applyCallAction(
+        req.params.conversationId,
+        req.user.tenantId,
+        "fail",
+        { userId: req.user.id, reason },
+      );
+
+      if (changed) broadcastCallEvent("ended", conversation);
+
+      res.json({ ok: true, status: conversation.status });
+    } catch (error: any) {
+      sendCallError(res, error);
     }
   });
 
+  // Blind (default) or attended transfer to an extension, queue or number
   app.post(
     "/api/softphone/calls/:conversationId/transfer",
     async (req, res) => {
@@ -363,28 +767,151 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         const { conversationId } = req.params;
-        const { to } = req.body;
+        const { to, type, mode } = req.body;
 
         if (!to) {
           return res.status(400).json({ message: "Transfer target required" });
         }
+        if (type && !["extension", "queue", "external"].includes(type)) {
+          return res.status(400).json({ message: "Invalid transfer target type" });
+        }
+        if (mode && !["blind", "attended"].includes(mode)) {
+          return res.status(400).json({ message: "Invalid transfer mode" });
+        }
+
+        const { started, completed } = await startTransfer(
+          conversationId,
+          req.user.tenantId,
+          { to, type, mode },
+          req.user.id,
+        );
 
-        // Emit WebSocket event
-        if (server.wsHandler) {
-          server.wsHandler.broadcast(`tenant:${req.user.tenantId}`, {
-            type: "call_transfer",
-            conversationId,
-            transferTo: to,
+        const transfer = started.conversation.pendingTransfer;
+        broadcastCallEvent("call_transfer", started.conversation, {
+          transferTo: transfer?.target,
+          transfer,
+        });
+        if (completed) {
+          broadcastCallEvent("call_status", completed.conversation, {
+            transferTo: transfer?.target,
           });
+          releaseTransferringAgent(completed.conversation);
+          if (transfer?.queueId) broadcastQueueUpdate(req.user.tenantId, transfer.queueId);
         }
 
-        res.json({ success: true, conversationId, transferTo: to });
+        const conversation = (completed ?? started).conversation;
+        res.json({
+          success: true,
+          conversationId,
+          transferTo: transfer?.target,
+          transfer,
+          status: conversation.status,
+        });
       } catch (error: any) {
-        res.status(500).json({ message: error.message });
+        sendCallError(res, error);
+      }
+    },
+  );
+
+  // Attended transfer: hand the caller over after consulting the target
+  app.post(
+    "/api/softphone/calls/:conversationId/transfer/complete",
+    async (req, res) => {
+      try {
+        if (!req.isAuthenticated() || !req.user.tenantId) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+
+        const { conversation } = await completeTransfer(
+          req.params.conversationId,
+          req.user.tenantId,
+          req.user.id,
+        );
+        const transfer = conversation.transferChain?.at(-1);
+
+        broadcastCallEvent("call_status", conversation, {
+          transferTo: transfer?.target,
+        });
+        releaseTransferringAgent(conversation);
+        if (transfer?.queueId) broadcastQueueUpdate(req.user.tenantId, transfer.queueId);
+
+        res.json({ success: true, conversationId: conversation.id, transfer, status: conversation.status });
+      } catch (error: any) {
+        sendCallError(res, error);
+      }
+    },
+  );
+
+  // Attended transfer: target declined, return to the caller
+  app.post(
+    "/api/softphone/calls/:conversationId/transfer/cancel",
+    async (req, res) => {
+      try {
+        if (!req.isAuthenticated() || !req.user.tenantId) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+
+        const { conversation } = await cancelTransfer(
+          req.params.conversationId,
+          req.user.tenantId,
+          req.user.id,
+        );
+
+        broadcastCallEvent("call_status", conversation);
+
+        res.json({ success: true, conversationId: conversation.id, status: conversation.status });
+      } catch (error: any) {
+        sendCallError(res, error);
       }
     },
   );
 
+  // Ring an inbound call on the softphones of an extension or queue
+  app.post("/api/calls/inbound", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { from, target } = req.body;
+      if (!target) {
+        return res.status(400).json({ message: "Target extension or queue required" });
+      }
+
+      const conversation = await ringInboundCall({
+        tenantId: req.user.tenantId,
+        callId: req.body.callId
+          ? String(req.body.callId)
+          : `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        from: from ? String(from) : undefined,
+        target: String(target),
+      });
+
+      res.status(201).json({ conversationId: conversation.id, callId: conversation.callId, status: conversation.status });
+    } catch (error: any) {
+      sendCallError(res, error);
+    }
+  });
+
+  // Inbound calls nobody answered, newest first; ?mine=true for the
+  // current user's only
+  app.get("/api/calls/missed", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const limit = Math.min(parseInt(String(req.query.limit)) || 50, 200);
+      const missed = await storage.getMissedCalls(req.user.tenantId, {
+        userId: req.query.mine === "true" ? req.user.id : undefined,
+        limit,
+      });
+      res.json(missed);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.post("/api/calls/:callId/notes", async (req, res) => {
     try {
       if (!req.isAuthenticated() || !req.user.tenantId) {
@@ -425,14 +952,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // List conversations
-  app.get("/api/conversations", async (req, res) => {
+  // Call state timeline for a conversation
+  app.get("/api/conversations/:id/timeline", async (req, res) => {
     try {
       if (!req.isAuthenticated() || !req.user.tenantId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      const { page = 1, pageSize = 10 } = req.query;
+      const events = await storage.getConversationEvents(
+        req.params.id,
+        req.user.tenantId,
+      );
+
+      res.json(events);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Run the post-call analysis again (e.g. after a failure)
+  app.post("/api/conversations/:id/analysis", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const conversation = await storage.getConversation(req.params.id, req.user.tenantId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (conversation.channel === "voice" && !isTerminalStatus(conversation.status)) {
+        return res.status(409).json({ code: "CALL_IN_PROGRESS", message: "The call has not ended yet" });
+      }
+
+      queueConversationAnalysis(conversation);
+      res.status(202).json({ conversationId: conversation.id, analysisStatus: "pending" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // List conversations
+  app.get("/api/conversations", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { page = 1, pageSize = 10 } = req.query;
       const conversations = await storage.getConversations(
         req.user.tenantId,
         parseInt(page as string),
@@ -445,6 +1012,132 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Inbox: views, counts and triage of conversations (server/inbox.ts)
+  app.get("/api/inbox", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const view = String(req.query.view || "open");
+      if (!INBOX_VIEWS.includes(view as schema.InboxView)) {
+        return res.status(400).json({ message: `Unknown inbox view: ${view}` });
+      }
+
+      const { page = 1, pageSize = 25 } = req.query;
+      res.json(await storage.getInboxConversations(req.user.tenantId, {
+        view: view as schema.InboxView,
+        userId: req.user.id,
+        q: req.query.q ? String(req.query.q) : undefined,
+        page: Math.max(1, parseInt(page as string) || 1),
+        pageSize: Math.min(100, Math.max(1, parseInt(pageSize as string) || 25)),
+      }));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/inbox/counts", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      res.json(await storage.getInboxCounts(req.user.tenantId, req.user.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Assign, close / reopen and annotate a conversation
+  app.patch("/api/inbox/:id", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const conversation = await storage.getConversation(req.params.id, req.user.tenantId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const parsed = inboxUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid inbox update" });
+      }
+
+      const updated = await updateInboxConversation(conversation, parsed.data, req.user);
+      // Messaging threads have no call end; closing one is the end of the conversation
+      if (updated.channel !== "voice" && updated.inboxStatus === "closed" && conversation.inboxStatus !== "closed") {
+        queueConversationAnalysis(updated);
+      }
+      res.json(updated);
+    } catch (error: any) {
+      sendCallError(res, error);
+    }
+  });
+
+  app.post("/api/inbox/:id/read", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const conversation = await storage.getConversation(req.params.id, req.user.tenantId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      res.json(await markInboxConversationRead(conversation));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Agent reply on an SMS / WhatsApp thread
+  app.post("/api/inbox/:id/messages", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const conversation = await storage.getConversation(req.params.id, req.user.tenantId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const parsed = sendMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid message" });
+      }
+
+      res.status(201).json(await sendConversationMessage(conversation, parsed.data.content, req.user));
+    } catch (error: any) {
+      sendCallError(res, error);
+    }
+  });
+
+  // Every conversation with the same contact, across channels
+  app.get("/api/inbox/:id/contact", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const conversation = await storage.getConversationWithMessages(req.params.id, req.user.tenantId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      // Hidden caller numbers only match their own conversation
+      res.json(conversation.phoneNumber
+        ? await storage.getContactConversations(req.user.tenantId, conversation.phoneNumber)
+        : [conversation]);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // PayPal routes
   app.get("/api/paypal/setup", async (req, res) => {
     await loadPaypalDefault(req, res);
@@ -773,23 +1466,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // PBX Provisioning endpoints (mock)
+  // PBX provisioning endpoints (see server/pbx)
   app.post("/api/provision/tenant", async (req, res) => {
     try {
-      if (!req.isAuthenticated()) {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
         return res.sendStatus(401);
       }
 
-      // Mock PBX tenant provisioning
-      const tenantConfig = {
-        tenantId: req.user.tenantId,
-        pbxId: `pbx_${Math.random().toString(36).substr(2, 9)}`,
-        sipDomain: `${req.user.tenantId}.gueswi.com`,
-        status: "provisioned",
-      };
+      if (req.user.role !== "owner" && req.user.role !== "admin") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
-      // TODO: Integrate with real PBX provisioning API
-      res.json(tenantConfig);
+      const result = await provisionTenant(req.user.tenantId);
+      res.json({ tenantId: req.user.tenantId, ...result });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -808,23 +1497,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: req.body.status,
       });
 
-      const extensionWithTenant = {
+      const created = await storage.createExtension({
         ...validatedExtension,
-        tenantId: req.user.tenantId || "",
-        sipPassword: Math.random().toString(36).substr(2, 12),
-      };
-
-      const extension = await storage.createExtension(extensionWithTenant);
-
-      // Mock SIP account creation
-      const sipConfig = {
-        extension: extension.number,
-        sipUsername: extension.number,
-        sipPassword: Math.random().toString(36).substr(2, 12),
-        sipServer: `${req.user.tenantId}.gueswi.com`,
-      };
+        tenantId: req.user.tenantId,
+      });
+      const extension = await provisionExtension(created);
 
-      res.json({ extension, sipConfig });
+      res.json({ extension, sipConfig: sipAccountFor(extension) });
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
@@ -832,79 +1511,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/provision/ivr", async (req, res) => {
     try {
-      if (!req.isAuthenticated()) {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
         return res.sendStatus(401);
       }
 
-      // Mock IVR provisioning
-      const ivrConfig = {
-        ivrId: `ivr_${Math.random().toString(36).substr(2, 9)}`,
-        tenantId: req.user.tenantId,
-        menu: req.body.menu || {},
-        status: "active",
-      };
+      const existing = req.body.ivrId
+        ? await storage.getIvr(String(req.body.ivrId), req.user.tenantId)
+        : undefined;
+      if (!existing) {
+        return res.status(404).json({ message: "IVR not found" });
+      }
 
-      res.json(ivrConfig);
+      res.json(await provisionIvr(existing));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
   // TTS (Text-to-Speech) synthesis endpoint
-  // Production-ready TTS with provider support and development fallback
+  // Identical text + voice + engine reuses the tenant's prompt library audio
+  // (server/tts/prompts.ts); development falls back to a silent placeholder
   app.post("/api/ivr/tts", async (req, res) => {
     try {
       if (!req.isAuthenticated() || !req.user?.tenantId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      const { text, voice } = req.body;
-      if (!text || typeof text !== "string" || text.trim().length < 10) {
-        return res
-          .status(400)
-          .json({ message: "Text must be at least 10 characters" });
-      }
-      if (!voice || typeof voice !== "object") {
-        return res
-          .status(400)
-          .json({ message: "Voice configuration is required" });
+      const parsed = ttsRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid TTS request" });
       }
 
-      // Generate unique audio ID
-      const audioId = `ivr_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-
-      // Determine file extension based on TTS provider
-      const ttsProvider = process.env.TTS_PROVIDER || "mock";
-      const fileExtension = ttsProvider === "elevenlabs" ? "mp3" : "wav";
-      const fileName = `${audioId}.${fileExtension}`;
-
-      // Full path for TTS output
-      const uploadsDir = path.resolve("uploads/ivr");
-      const absPath = path.join(uploadsDir, fileName);
-
-      // Use the new TTS system
-      const { synthesizeTTS } = await import("./tts/index.js");
+      // The tenant's engine, else TTS_PROVIDER
+      const tenant = await storage.getTenant(req.user.tenantId);
+      if (!tenant) {
+        return res.status(404).json({ message: "Tenant not found" });
+      }
 
-      const result = await synthesizeTTS({
-        text: text.trim(),
-        voice: {
-          gender: voice.gender || "mujer",
-          style: voice.style || "amable",
-        },
-        outPath: absPath,
-      });
+      const { prompt, cached } = await getOrCreatePrompt(tenant, parsed.data);
 
       console.log(
-        `🔊 TTS synthesized: ${ttsProvider} → ${result.url} (${result.durationSec}s)`,
+        `🔊 TTS ${cached ? "cache hit" : "synthesized"}: ${prompt.provider} → ${prompt.audioUrl} (${prompt.durationSec}s)`,
       );
 
       return res.json({
-        url: result.url,
-        duration: result.durationSec,
-        voice,
-        text,
-        audioId,
-        provider: ttsProvider !== "mock" ? ttsProvider : "development",
+        url: prompt.audioUrl,
+        duration: prompt.durationSec,
+        voice: parsed.data.voice,
+        text: prompt.text,
+        audioId: prompt.id,
+        promptId: prompt.id,
+        cached,
+        provider: prompt.provider !== "mock" ? prompt.provider : "development",
       });
     } catch (err: any) {
       console.error("❌ IVR TTS error:", err);
@@ -914,6 +1572,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Prompt library: generated audio and the IVRs / voicemail boxes playing it
+  app.get("/api/tts/prompts", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      res.json(await getPromptLibrary(req.user.tenantId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/tts/prompts/:id", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const parsed = ttsPromptUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid prompt" });
+      }
+
+      const prompt = await storage.renameTtsPrompt(req.params.id, req.user.tenantId, parsed.data.name);
+      if (!prompt) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      res.json(prompt);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/tts/prompts/:id", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      await deletePrompt(req.user.tenantId, req.params.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error instanceof PromptError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Run now what the daily cleanup would do with the tenant's prompts
+  app.post("/api/tts/prompts/cleanup", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+      if (req.user.role !== "owner" && req.user.role !== "admin") {
+        return res.sendStatus(403);
+      }
+
+      res.json(await collectPromptGarbage({ tenantId: req.user.tenantId }));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Speech synthesis engine of the tenant (server/tts)
+  app.get("/api/tts/settings", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const tenant = await storage.getTenant(req.user.tenantId);
+      if (!tenant) {
+        return res.status(404).json({ message: "Tenant not found" });
+      }
+      res.json(ttsSettings(tenant.ttsProvider));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/tts/settings", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+      if (req.user.role !== "owner" && req.user.role !== "admin") {
+        return res.sendStatus(403);
+      }
+
+      const { provider } = ttsSettingsSchema.parse(req.body);
+      const tenant = await storage.updateTenantTtsProvider(req.user.tenantId, provider);
+      res.json(ttsSettings(tenant.ttsProvider));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   // AI metrics endpoints
   app.get("/api/ai/metrics", async (req, res) => {
     try {
@@ -979,7 +1737,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       const extension = await storage.createExtension(extensionWithTenant);
-      res.json(extension);
+      res.json(await provisionExtension(extension));
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
@@ -991,12 +1749,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.sendStatus(401);
       }
 
+      const existing = await storage.getExtension(req.params.id, req.user.tenantId);
+      if (!existing) {
+        return res.status(404).json({ message: "Extension not found" });
+      }
+
       const extensionData = insertExtensionSchema.partial().parse(req.body);
       const extension = await storage.updateExtension(
         req.params.id,
         extensionData,
       );
-      res.json(extension);
+      res.json(await provisionExtension(extension));
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
@@ -1008,185 +1771,806 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.sendStatus(401);
       }
 
+      const existing = await storage.getExtension(req.params.id, req.user.tenantId);
+      if (!existing) {
+        return res.status(404).json({ message: "Extension not found" });
+      }
+
       await storage.deleteExtension(req.params.id);
+      await deprovisionExtension(existing);
       res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/extensions/:id/reset-pin", async (req, res) => {
+  app.post("/api/extensions/:id/reset-pin", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const existing = await storage.getExtension(req.params.id, req.user.tenantId);
+      if (!existing) {
+        return res.status(404).json({ message: "Extension not found" });
+      }
+      // The response carries the new credentials of the SIP account
+      const isAdmin = req.user.role === "owner" || req.user.role === "admin";
+      if (!isAdmin && existing.userId !== req.user.id) {
+        return res.sendStatus(403);
+      }
+
+      // Resets the voicemail PIN and the SIP password, so the PBX account
+      // changes with them
+      const extension = await provisionExtension(await storage.resetExtensionPin(req.params.id));
+      res.json({ extension, newPin: extension.voicemailPin, sipPassword: extension.sipPassword });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Voicemail box settings: on/off, greeting audio and email copies
+  app.put("/api/extensions/:id/voicemail", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const existing = await storage.getExtension(req.params.id, req.user.tenantId);
+      if (!existing) {
+        return res.status(404).json({ message: "Extension not found" });
+      }
+      const isAdmin = req.user.role === "owner" || req.user.role === "admin";
+      if (!isAdmin && existing.userId !== req.user.id) {
+        return res.sendStatus(403);
+      }
+
+      const settings = voicemailSettingsSchema.parse(req.body);
+      const extension = await storage.updateExtensionVoicemail(req.params.id, {
+        voicemailEnabled: settings.enabled,
+        voicemailGreetingUrl: settings.greetingUrl,
+        voicemailEmail: settings.email,
+      });
+      res.json(await provisionExtension(extension));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Agent presence endpoints
+  app.get("/api/presence", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      res.json(await getTenantPresence(req.user.tenantId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/presence/me", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      res.json(await getUserPresence(req.user.tenantId, req.user.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/presence/me", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const parsed = agentPresenceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid presence" });
+      }
+
+      res.json(await setAgentPresence(req.user.tenantId, req.user.id, parsed.data.presence));
+    } catch (error: any) {
+      sendCallError(res, error);
+    }
+  });
+
+  // Fallback heartbeat while the WebSocket is down
+  app.post("/api/presence/heartbeat", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      res.json(await recordHeartbeat(req.user.tenantId, req.user.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // IVR endpoints
+  app.get("/api/ivrs", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const ivrs = await storage.getIvrs(req.user.tenantId);
+      res.json(ivrs);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/ivrs", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const validatedIvr = insertIvrMenuSchema.parse(req.body);
+      await validateIvrMenuGraph(req.user.tenantId, validatedIvr);
+
+      const ivrWithTenant = {
+        ...validatedIvr,
+        tenantId: req.user.tenantId,
+      };
+
+      const ivr = await storage.createIvr(ivrWithTenant);
+      res.json(await provisionIvr(ivr));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/ivrs/:id", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const existing = await storage.getIvr(req.params.id, req.user.tenantId);
+      if (!existing) {
+        return res.status(404).json({ message: "IVR not found" });
+      }
+
+      const ivrData = insertIvrMenuSchema.partial().parse(req.body);
+      await validateIvrMenuGraph(req.user.tenantId, { ...ivrData, id: existing.id });
+
+      const ivr = await storage.updateIvr(req.params.id, ivrData);
+      res.json(await provisionIvr(ivr));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // AI voice agents (server/ai-agents.ts)
+  app.get("/api/ai-agents", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      res.json(await storage.getAiAgents(req.user.tenantId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/ai-agents", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const data = insertAiAgentSchema.parse(req.body);
+      const agent = await storage.createAiAgent({ ...data, tenantId: req.user.tenantId });
+      res.json(agent);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/ai-agents/:id", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const data = insertAiAgentSchema.partial().parse(req.body);
+      const agent = await storage.updateAiAgent(req.params.id, req.user.tenantId, data);
+      if (!agent) {
+        return res.status(404).json({ message: "AI agent not found" });
+      }
+      res.json(agent);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // IVR options still naming a deleted agent fall back to the tenant default
+  app.delete("/api/ai-agents/:id", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const deleted = await storage.deleteAiAgent(req.params.id, req.user.tenantId);
+      if (!deleted) {
+        return res.status(404).json({ message: "AI agent not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Knowledge base of the AI agents (server/knowledge)
+  app.get("/api/knowledge/documents", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      res.json(await storage.getKnowledgeDocuments(req.user.tenantId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Multipart "file"; indexing runs in the background (status "processing")
+  app.post(
+    "/api/knowledge/documents",
+    (req, res, next) => {
+      knowledgeUpload.single("file")(req, res, (error: any) => {
+        if (error) {
+          return res.status(400).json({ message: error.message });
+        }
+        next();
+      });
+    },
+    async (req, res) => {
+      try {
+        if (!req.isAuthenticated() || !req.user.tenantId) {
+          return res.sendStatus(401);
+        }
+        if (!req.file) {
+          return res.status(400).json({ message: "A file is required" });
+        }
+
+        const { source, content } = await extractDocumentText(req.file);
+        const document = await storage.createKnowledgeDocument({
+          tenantId: req.user.tenantId,
+          title: req.file.originalname,
+          source,
+          content,
+        });
+        queueKnowledgeIndexing(document);
+        const { content: _content, ...summary } = document;
+        res.json(summary);
+      } catch (error: any) {
+        if (error instanceof KnowledgeError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        res.status(500).json({ message: error.message });
+      }
+    },
+  );
+
+  app.post("/api/knowledge/faqs", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const { question, answer } = knowledgeFaqSchema.parse(req.body);
+      const document = await storage.createKnowledgeDocument({
+        tenantId: req.user.tenantId,
+        title: question,
+        source: "faq",
+        content: answer,
+      });
+      queueKnowledgeIndexing(document);
+      const { content: _content, ...summary } = document;
+      res.json(summary);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // After changing the embedding provider, or when indexing failed
+  app.post("/api/knowledge/documents/:id/reindex", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const document = await storage.getKnowledgeDocument(req.params.id, req.user.tenantId);
+      if (!document) {
+        return res.status(404).json({ message: "Knowledge document not found" });
+      }
+      const updated = await storage.updateKnowledgeDocument(document.id, { status: "processing", error: null });
+      queueKnowledgeIndexing(document);
+      const { content: _content, ...summary } = updated ?? document;
+      res.json(summary);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/knowledge/documents/:id", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const deleted = await storage.deleteKnowledgeDocument(req.params.id, req.user.tenantId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Knowledge document not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // What the agents would get for a question, to try the knowledge base out
+  app.post("/api/knowledge/search", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const parsed = knowledgeSearchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "query is required" });
+      }
+
+      res.json(await searchKnowledge(req.user.tenantId, parsed.data.query, parsed.data.limit));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Inbound number → IVR / AI agent mapping
+  app.get("/api/inbound-numbers", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const numbers = await storage.getInboundNumbers(req.user.tenantId);
+      res.json(numbers);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/inbound-numbers", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const data = insertInboundNumberSchema.parse(req.body);
+      if (data.ivrMenuId && !(await storage.getIvr(data.ivrMenuId, req.user.tenantId))) {
+        return res.status(400).json({ message: "IVR not found" });
+      }
+      if (data.aiAgentId && !(await storage.getAiAgent(data.aiAgentId, req.user.tenantId))) {
+        return res.status(400).json({ message: "AI agent not found" });
+      }
+      if (await storage.getInboundNumberByPhone(data.phoneNumber)) {
+        return res.status(409).json({ message: "Phone number already in use" });
+      }
+
+      const inbound = await storage.createInboundNumber({
+        ...data,
+        tenantId: req.user.tenantId,
+      });
+      res.json(inbound);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/inbound-numbers/:id", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const data = insertInboundNumberSchema.partial().parse(req.body);
+      if (data.ivrMenuId && !(await storage.getIvr(data.ivrMenuId, req.user.tenantId))) {
+        return res.status(400).json({ message: "IVR not found" });
+      }
+      if (data.aiAgentId && !(await storage.getAiAgent(data.aiAgentId, req.user.tenantId))) {
+        return res.status(400).json({ message: "AI agent not found" });
+      }
+      if (data.phoneNumber) {
+        const existing = await storage.getInboundNumberByPhone(data.phoneNumber);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ message: "Phone number already in use" });
+        }
+      }
+
+      const inbound = await storage.updateInboundNumber(req.params.id, req.user.tenantId, data);
+      if (!inbound) {
+        return res.status(404).json({ message: "Inbound number not found" });
+      }
+      res.json(inbound);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/inbound-numbers/:id", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const deleted = await storage.deleteInboundNumber(req.params.id, req.user.tenantId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Inbound number not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Queue endpoints
+  app.get("/api/queues", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const queues = await getQueuesWithStats(req.user.tenantId);
+      res.json(queues);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/queues", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const queueData = insertQueueSchema.parse(req.body);
+      const queueWithTenant = {
+        ...queueData,
+        tenantId: req.user.tenantId,
+      };
+
+      const queue = await storage.createQueue(queueWithTenant);
+      res.json(queue);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/queues/:id", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const existing = await storage.getQueue(req.params.id, req.user.tenantId);
+      if (!existing) {
+        return res.status(404).json({ message: "Queue not found" });
+      }
+
+      const queueData = insertQueueSchema.partial().parse(req.body);
+      const queue = await storage.updateQueue(req.params.id, queueData);
+      res.json(queue);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/queues/:id/members", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const queue = await storage.getQueue(req.params.id, req.user.tenantId);
+      if (!queue) {
+        return res.status(404).json({ message: "Queue not found" });
+      }
+
+      const members = await storage.getQueueMembers(req.user.tenantId, queue.id);
+      res.json(members);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Replace the queue membership with the given extensions
+  app.put("/api/queues/:id/members", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const queue = await storage.getQueue(req.params.id, req.user.tenantId);
+      if (!queue) {
+        return res.status(404).json({ message: "Queue not found" });
+      }
+
+      const { members } = queueMembersSchema.parse(req.body);
+      const extensions = await storage.getExtensionsByTenant(req.user.tenantId);
+      const unknown = members.find((m) => !extensions.some((ext) => ext.id === m.extensionId));
+      if (unknown) {
+        return res.status(400).json({ message: `Extension not found: ${unknown.extensionId}` });
+      }
+
+      await storage.replaceQueueMembers(queue.id, req.user.tenantId, members);
+      const updated = await storage.getQueueMembers(req.user.tenantId, queue.id);
+      broadcastQueueUpdate(req.user.tenantId, queue.id);
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Recordings endpoints
+  app.get("/api/recordings", async (req, res) => {
+    try {
+      if (!req.isAuthenticated() || !req.user.tenantId) {
+        return res.sendStatus(401);
+      }
+
+      const { from, to, page = 1, pageSize = 10 } = req.query;
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+
+      const result = await storage.getRecordings(
+        req.user.tenantId,
+        fromDate,
+        toDate,
+        parseInt(page as string),
+        parseInt(pageSize as string),
+      );
+
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Storage used against the plan quota and the next purge
+  app.get("/api/recordings/storage", async (req, res) => {
     try {
       if (!req.isAuthenticated() || !req.user.tenantId) {
         return res.sendStatus(401);
       }
 
-      const extension = await storage.resetExtensionPin(req.params.id);
-      res.json({ extension, newPin: extension.sipPassword });
+      const tenant = await storage.getTenant(req.user.tenantId);
+      if (!tenant) {
+        return res.status(404).json({ message: "Tenant not found" });
+      }
+
+      res.json(await getRecordingStorageSummary(tenant));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // IVR endpoints
-  app.get("/api/ivrs", async (req, res) => {
+  app.put("/api/recordings/retention", async (req, res) => {
     try {
       if (!req.isAuthenticated() || !req.user.tenantId) {
         return res.sendStatus(401);
       }
+      if (req.user.role !== "owner" && req.user.role !== "admin") {
+        return res.sendStatus(403);
+      }
 
-      const ivrs = await storage.getIvrs(req.user.tenantId);
-      res.json(ivrs);
+      const parsed = recordingRetentionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid retention" });
+      }
+
+      const tenant = await storage.updateTenantRecordingRetention(req.user.tenantId, parsed.data.retentionDays);
+      res.json(await getRecordingStorageSummary(tenant));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/ivrs", async (req, res) => {
+  // Audio of a recording (tenant-checked, supports Range for seeking)
+  app.get("/api/recordings/:id/audio", async (req, res) => {
     try {
       if (!req.isAuthenticated() || !req.user.tenantId) {
         return res.sendStatus(401);
       }
 
-      const validatedIvr = insertIvrMenuSchema.parse(req.body);
-      const ivrWithTenant = {
-        ...validatedIvr,
-        tenantId: req.user.tenantId,
-      };
+      const recording = await storage.getRecording(req.params.id, req.user.tenantId);
+      if (!recording) {
+        return res.status(404).json({ message: "Recording not found" });
+      }
 
-      const ivr = await storage.createIvr(ivrWithTenant);
-      res.json(ivr);
+      await streamRecording(req, res, recording);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      if (!res.headersSent) {
+        res.status(500).json({ message: error.message });
+      }
     }
   });
 
-  app.patch("/api/ivrs/:id", async (req, res) => {
-    try {
-      if (!req.isAuthenticated() || !req.user.tenantId) {
-        return res.sendStatus(401);
-      }
+  // Voicemail inbox: owners and admins see every box, agents their own
+  const findVoicemailForUser = async (user: Express.User, id: string) => {
+    const message = await storage.getVoicemailMessage(id, user.tenantId!);
+    if (!message || user.role === "owner" || user.role === "admin") return message;
 
-      const ivrData = insertIvrMenuSchema.partial().parse(req.body);
-      const ivr = await storage.updateIvr(req.params.id, ivrData);
-      res.json(ivr);
-    } catch (error: any) {
-      res.status(400).json({ message: error.message });
-    }
-  });
+    const extension = await storage.getExtensionForUser(user.tenantId!, user.id);
+    return extension?.id === message.extensionId ? message : undefined;
+  };
 
-  // Queue endpoints
-  app.get("/api/queues", async (req, res) => {
+  app.get("/api/voicemail", async (req, res) => {
     try {
       if (!req.isAuthenticated() || !req.user.tenantId) {
         return res.sendStatus(401);
       }
 
-      const queues = await storage.getQueues(req.user.tenantId);
-      res.json(queues);
+      let extensionId = req.query.extensionId ? String(req.query.extensionId) : undefined;
+      if (req.user.role !== "owner" && req.user.role !== "admin") {
+        const extension = await storage.getExtensionForUser(req.user.tenantId, req.user.id);
+        if (!extension) {
+          return res.json({ messages: [], unreadCount: 0 });
+        }
+        extensionId = extension.id;
+      }
+
+      const [messages, unreadCount] = await Promise.all([
+        storage.getVoicemailMessages(req.user.tenantId, {
+          extensionId,
+          unreadOnly: req.query.unread === "true",
+          limit: req.query.limit ? Math.min(Number(req.query.limit) || 100, 500) : undefined,
+        }),
+        storage.countUnreadVoicemail(req.user.tenantId, extensionId),
+      ]);
+      res.json({ messages, unreadCount });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/queues", async (req, res) => {
+  app.get("/api/voicemail/:id/audio", async (req, res) => {
     try {
       if (!req.isAuthenticated() || !req.user.tenantId) {
         return res.sendStatus(401);
       }
 
-      const queueData = insertQueueSchema.parse(req.body);
-      const queueWithTenant = {
-        ...queueData,
-        tenantId: req.user.tenantId,
-      };
+      const message = await findVoicemailForUser(req.user, req.params.id);
+      if (!message) {
+        return res.status(404).json({ message: "Voicemail not found" });
+      }
 
-      const queue = await storage.createQueue(queueWithTenant);
-      res.json(queue);
+      await streamVoicemail(req, res, message);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      if (!res.headersSent) {
+        res.status(500).json({ message: error.message });
+      }
     }
   });
 
-  app.patch("/api/queues/:id", async (req, res) => {
+  app.patch("/api/voicemail/:id", async (req, res) => {
     try {
       if (!req.isAuthenticated() || !req.user.tenantId) {
         return res.sendStatus(401);
       }
 
-      const queueData = insertQueueSchema.partial().parse(req.body);
-      const queue = await storage.updateQueue(req.params.id, queueData);
-      res.json(queue);
+      const message = await findVoicemailForUser(req.user, req.params.id);
+      if (!message) {
+        return res.status(404).json({ message: "Voicemail not found" });
+      }
+      if (typeof req.body.isRead !== "boolean") {
+        return res.status(400).json({ message: "isRead must be a boolean" });
+      }
+
+      const updated = await storage.updateVoicemailMessage(message.id, {
+        readAt: req.body.isRead ? message.readAt ?? new Date() : null,
+      });
+      res.json(updated);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      res.status(500).json({ message: error.message });
     }
   });
 
-  // Recordings endpoints
-  app.get("/api/recordings", async (req, res) => {
+  app.delete("/api/voicemail/:id", async (req, res) => {
     try {
       if (!req.isAuthenticated() || !req.user.tenantId) {
         return res.sendStatus(401);
       }
 
-      const { from, to, page = 1, pageSize = 10 } = req.query;
-      const fromDate = from ? new Date(from as string) : undefined;
-      const toDate = to ? new Date(to as string) : undefined;
-
-      const result = await storage.getRecordings(
-        req.user.tenantId,
-        fromDate,
-        toDate,
-        parseInt(page as string),
-        parseInt(pageSize as string),
-      );
+      const message = await findVoicemailForUser(req.user, req.params.id);
+      if (!message) {
+        return res.status(404).json({ message: "Voicemail not found" });
+      }
 
-      res.json(result);
+      await storage.deleteVoicemailMessage(message.id);
+      await deleteVoicemailAudio(message);
+      res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
-  // Gateway OpenAI para Twilio Voice AI
+
+  // Gateway OpenAI para Twilio Voice AI: a signed-in user or the PBX
+  // (x-pbx-secret with the tenant in the body) talks to one of the tenant's
+  // agents. Actions come back structured; with the PBX call id, transfers
+  // ring the target's softphones with the AI handoff.
   app.post("/api/ai-gateway", async (req, res) => {
     try {
-      const { messages, context } = req.body;
+      const tenantId = req.isAuthenticated() && req.user.tenantId
+        ? req.user.tenantId
+        : isPbxWebhookAuthorized(req.get("x-pbx-secret")) && typeof req.body.tenantId === "string"
+          ? req.body.tenantId
+          : undefined;
+      if (!tenantId) {
+        return res.sendStatus(401);
+      }
 
-      const response = await fetch(
-        "https://api.openai.com/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-          },
-          body: JSON.stringify({
-            model: "gpt-4o-mini",
-            messages: [
-              {
-                role: "system",
-                content:
-                  "Eres un asistente virtual de Gueswi. Responde de forma concisa (máximo 2-3 frases) y natural. Si el cliente quiere hablar con un humano, indica que vas a transferir la llamada.",
-              },
-              ...messages,
-            ],
-            max_tokens: 150,
-            temperature: 0.7,
-          }),
-        },
+      const parsed = aiGatewaySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ code: "invalid_request", message: "messages must be a non-empty list of chat messages" });
+      }
+
+      const { agentId, callId, from, messages } = parsed.data;
+      const agent = await resolveAiAgent(tenantId, agentId);
+      const conversation = callId ? await findOrStartAiCall(tenantId, { callId, from }) : null;
+      const turn = await runAiTurn(
+        { tenantId, agent, conversation, callerNumber: from ?? conversation?.phoneNumber },
+        messages,
       );
 
-      const data = await response.json();
-      const aiMessage = data.choices[0].message.content;
+      const { action } = turn;
+      let current = turn.conversation;
+      if (current && action?.completed && action.transfer) {
+        current = await offerInboundCall(current, action.transfer.queueId ?? action.transfer.target);
+      }
+      if (current && isTerminalStatus(current.status)) {
+        broadcastCallEvent("ended", current);
+      }
 
       res.json({
-        response: aiMessage,
-        actions: aiMessage.toLowerCase().includes("transferir")
-          ? ["transfer"]
+        response: turn.reply,
+        agentId: agent.id,
+        conversationId: current?.id ?? null,
+        usage: turn.usage,
+        actions: action?.completed
+          ? [{
+              type: action.type,
+              ...(action.transfer
+                ? {
+                    targetType: action.transfer.targetType,
+                    target: action.transfer.target,
+                    extensionId: action.transfer.extensionId,
+                    queueId: action.transfer.queueId,
+                  }
+                : {}),
+              ...(action.leadId ? { leadId: action.leadId } : {}),
+              ...(action.appointmentId ? { appointmentId: action.appointmentId } : {}),
+            }]
           : [],
       });
     } catch (error: any) {
       console.log(`AI Gateway error: ${error.message}`);
-      res.status(500).json({ error: "AI processing failed" });
+      if (error instanceof CallStateError) {
+        return sendCallError(res, error);
+      }
+      if (error instanceof LLMError) {
+        return res.status(error.status).json({ code: error.code, message: error.message, retryable: error.retryable });
+      }
+      res.status(500).json({ code: "internal_error", message: "AI processing failed" });
     }
   });
 
@@ -1922,175 +3306,514 @@ export async function registerRoutes(app: Express): Promise<Server> {
         )
         .limit(1);
 
-      const wonCount =
-        wonStage.length > 0
-          ? await db
-              .select({ count: sql<number>`count(*)` })
-              .from(schema.leads)
-              .where(eq(schema.leads.stageId, wonStage[0].id))
-          : [{ count: 0 }];
+      const wonCount =
+        wonStage.length > 0
+          ? await db
+              .select({ count: sql<number>`count(*)` })
+              .from(schema.leads)
+              .where(eq(schema.leads.stageId, wonStage[0].id))
+          : [{ count: 0 }];
+
+      const totalCount = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(schema.leads)
+        .where(
+          and(
+            eq(schema.leads.tenantId, req.user.tenantId),
+            eq(schema.leads.pipelineId, pipelineId as string),
+          ),
+        );
+
+      const conversionRate =
+        Number(totalCount[0]?.count) > 0
+          ? (Number(wonCount[0]?.count) / Number(totalCount[0]?.count)) * 100
+          : 0;
+
+      // Tiempo promedio de cierre (en días)
+      const avgClosingTime =
+        wonStage.length > 0
+          ? await db
+              .select({
+                avg: sql<number>`AVG(EXTRACT(EPOCH FROM (${schema.leads.closedAt} - ${schema.leads.createdAt})) / 86400)`,
+              })
+              .from(schema.leads)
+              .where(
+                and(
+                  eq(schema.leads.stageId, wonStage[0].id),
+                  sql`${schema.leads.closedAt} IS NOT NULL`,
+                ),
+              )
+          : [{ avg: 0 }];
+
+      // Valor ganado
+      const wonValue =
+        wonStage.length > 0
+          ? await db
+              .select({
+                sum: sql<string>`COALESCE(SUM(${schema.leads.value}), 0)`,
+              })
+              .from(schema.leads)
+              .where(eq(schema.leads.stageId, wonStage[0].id))
+          : [{ sum: "0" }];
+
+      // Etapa "Perdido" y valor perdido
+      const lostStage = await db
+        .select()
+        .from(schema.pipelineStages)
+        .where(
+          and(
+            eq(schema.pipelineStages.tenantId, req.user.tenantId),
+            eq(schema.pipelineStages.pipelineId, pipelineId as string),
+            eq(schema.pipelineStages.isFixed, true),
+            sql`${schema.pipelineStages.name} ILIKE '%perdido%'`,
+          ),
+        )
+        .limit(1);
+
+      const lostValue =
+        lostStage.length > 0
+          ? await db
+              .select({
+                sum: sql<string>`COALESCE(SUM(${schema.leads.value}), 0)`,
+              })
+              .from(schema.leads)
+              .where(eq(schema.leads.stageId, lostStage[0].id))
+          : [{ sum: "0" }];
+
+      res.json({
+        totalValue: Number(totalValue[0]?.sum || 0),
+        conversionRate: Math.round(conversionRate * 10) / 10,
+        avgClosingDays: Math.round(Number(avgClosingTime[0]?.avg || 0)),
+        wonCount: Number(wonCount[0]?.count || 0),
+        wonValue: Number(wonValue[0]?.sum || 0),
+        lostValue: Number(lostValue[0]?.sum || 0),
+        totalCount: Number(totalCount[0]?.count || 0),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // A call for an extension or queue starts ringing
+  app.post("/webhook/pbx/inbound-call", async (req, res) => {
+    try {
+      if (!isPbxWebhookAuthorized(req.get("x-pbx-secret"))) {
+        return res.sendStatus(401);
+      }
+
+      const { tenantId, callId, from, target } = req.body;
+      if (!tenantId || !callId || !target) {
+        return res.status(400).json({ message: "tenantId, callId and target are required" });
+      }
+
+      const conversation = await ringInboundCall({
+        tenantId: String(tenantId),
+        callId: String(callId),
+        from: from ? String(from) : undefined,
+        target: String(target),
+      });
+      res.json({ conversationId: conversation.id, status: conversation.status });
+    } catch (error: any) {
+      sendCallError(res, error);
+    }
+  });
+
+  // The caller hung up (or the PBX dropped the call)
+  app.post("/webhook/pbx/call-ended", async (req, res) => {
+    try {
+      if (!isPbxWebhookAuthorized(req.get("x-pbx-secret"))) {
+        return res.sendStatus(401);
+      }
+
+      const { tenantId, callId } = req.body;
+      const current = tenantId && callId
+        ? await storage.getConversationByCallId(String(tenantId), String(callId))
+        : undefined;
+      if (!current) {
+        return res.status(404).json({ code: "CALL_NOT_FOUND", message: "Call not found" });
+      }
+
+      const { conversation, changed } = await applyCallAction(current.id, current.tenantId, "hangup", {
+        reason: req.body.reason ? String(req.body.reason) : "caller_hangup",
+      });
+      if (changed) broadcastCallEvent("ended", conversation);
+
+      res.json({ ok: true, status: conversation.status });
+    } catch (error: any) {
+      sendCallError(res, error);
+    }
+  });
+
+  // A caller left a message in an extension's box; the PBX posts where to
+  // fetch the audio
+  app.post("/webhook/pbx/voicemail", async (req, res) => {
+    try {
+      if (!isPbxWebhookAuthorized(req.get("x-pbx-secret"))) {
+        return res.sendStatus(401);
+      }
+
+      const { tenantId, extension: number, callId, from, callerName, recordingUrl, durationSec } = req.body;
+      if (!tenantId || !number || !recordingUrl) {
+        return res.status(400).json({ message: "tenantId, extension and recordingUrl are required" });
+      }
+
+      const extension = (await storage.getExtensionsByTenant(String(tenantId))).find(
+        (ext) => ext.number === String(number),
+      );
+      if (!extension) {
+        return res.status(404).json({ message: "Extension not found" });
+      }
+
+      const conversation = callId
+        ? await storage.getConversationByCallId(extension.tenantId, String(callId))
+        : undefined;
+      const message = await storeVoicemailMessage({
+        extension,
+        conversation,
+        callerNumber: from ? String(from) : undefined,
+        callerName: callerName ? String(callerName) : undefined,
+        source: { url: String(recordingUrl), durationSec: Number(durationSec) || 0 },
+      });
+      res.json({ ok: true, messageId: message?.id ?? null });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Dial-in access to a box: check the voicemail PIN
+  app.post("/webhook/pbx/voicemail/auth", async (req, res) => {
+    try {
+      if (!isPbxWebhookAuthorized(req.get("x-pbx-secret"))) {
+        return res.sendStatus(401);
+      }
+
+      const { tenantId, extension: number, pin } = req.body;
+      const extension = tenantId && number
+        ? (await storage.getExtensionsByTenant(String(tenantId))).find((ext) => ext.number === String(number))
+        : undefined;
+
+      res.json({ valid: !!extension?.voicemailEnabled && !!pin && verifyVoicemailPin(extension, String(pin)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Messaging provider webhooks, checked with the provider's signature
+  const messagingWebhookRequest = (req: Request): MessagingWebhookRequest => ({
+    url: `${config.webhooks.baseUrl.replace(/\/$/, "")}${req.originalUrl}`,
+    headers: req.headers,
+    body: req.body,
+    rawBody: req.rawBody,
+  });
+
+  // SMS / WhatsApp message received on one of the tenants' numbers
+  app.post("/webhook/messaging/inbound", async (req, res) => {
+    try {
+      const messaging = await getMessagingProvider();
+      const request = messagingWebhookRequest(req);
+      if (!messaging.verifyWebhook(request)) {
+        return res.sendStatus(401);
+      }
+
+      const inbound = messaging.parseInbound(request);
+      if (!inbound) {
+        return res.status(400).json({ message: "Not an inbound message" });
+      }
+
+      await receiveInboundMessage(inbound);
+      messaging.acknowledge(res);
+    } catch (error: any) {
+      sendCallError(res, error);
+    }
+  });
+
+  // Delivery progress of messages sent by agents
+  app.post("/webhook/messaging/status", async (req, res) => {
+    try {
+      const messaging = await getMessagingProvider();
+      const request = messagingWebhookRequest(req);
+      if (!messaging.verifyWebhook(request)) {
+        return res.sendStatus(401);
+      }
+
+      const update = messaging.parseStatus(request);
+      if (update) await applyDeliveryStatus(update);
+      messaging.acknowledge(res);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Inbound calls: the called number selects the tenant IVR; numbers
+  // without a menu are answered by their AI agent
+  app.post("/webhook/twilio-voice", async (req, res) => {
+    res.type("text/xml");
+
+    try {
+      const menu = req.body.To ? await findIvrForInboundNumber(req.body.To) : undefined;
+      if (menu) {
+        console.log(`📞 Inbound call ${req.body.CallSid} to ${req.body.To} → IVR ${menu.name}`);
+        return res.send(renderIvrStep(await enterIvrMenu(menu)));
+      }
+
+      const agent = req.body.To ? await findAiAgentForInboundNumber(req.body.To) : undefined;
+      if (agent) {
+        console.log(`📞 Inbound call ${req.body.CallSid} to ${req.body.To} → AI agent ${agent.name}`);
+        return res.send(renderAiGreeting(agent));
+      }
+    } catch (error) {
+      console.error("❌ IVR lookup failed:", error);
+    }
+
+    res.send(renderAiGreeting());
+  });
 
-      const totalCount = await db
-        .select({ count: sql<number>`count(*)` })
-        .from(schema.leads)
-        .where(
-          and(
-            eq(schema.leads.tenantId, req.user.tenantId),
-            eq(schema.leads.pipelineId, pipelineId as string),
-          ),
+  // DTMF input (or Gather timeout) for an IVR menu
+  app.post("/webhook/ivr/:menuId/gather", async (req, res) => {
+    // Digits route the call to queues, extensions and AI agents
+    if (!isTwilioWebhookAuthorized(req)) {
+      return res.sendStatus(403);
+    }
+    res.type("text/xml");
+
+    try {
+      // The menu must belong to the tenant that owns the called number
+      const inbound = req.body.To
+        ? await storage.getInboundNumberByPhone(normalizePhoneNumber(req.body.To))
+        : undefined;
+      const menu = inbound && await storage.getIvr(req.params.menuId, inbound.tenantId);
+      if (!menu) {
+        return res.send(renderAiGreeting());
+      }
+
+      const attempt = Math.min(Math.max(parseInt(String(req.query.attempt)) || 1, 1), IVR_MAX_ATTEMPTS);
+      const step = await resolveIvrInput(menu, req.body.Digits, attempt);
+      console.log(`📞 IVR ${menu.name}: digits="${req.body.Digits ?? ""}" attempt=${attempt} → ${step.type}`);
+      res.send(renderIvrStep(step));
+    } catch (error) {
+      console.error("❌ IVR gather failed:", error);
+      res.send(renderAiGreeting());
+    }
+  });
+
+  // Queued callers loop here until an agent answers or the queue overflows
+  app.post("/webhook/queue/:queueId/wait", async (req, res) => {
+    // DialCallStatus hangs up or re-enqueues the caller
+    if (!isTwilioWebhookAuthorized(req)) {
+      return res.sendStatus(403);
+    }
+    res.type("text/xml");
+
+    try {
+      const inbound = req.body.To
+        ? await storage.getInboundNumberByPhone(normalizePhoneNumber(req.body.To))
+        : undefined;
+      const queue = inbound && await storage.getQueue(req.params.queueId, inbound.tenantId);
+      if (!queue || !req.body.CallSid) {
+        return res.send(renderAiGreeting());
+      }
+
+      let conversation = await storage.getConversationByCallId(queue.tenantId, req.body.CallSid)
+        ?? await startCall(
+          { tenantId: queue.tenantId, callId: req.body.CallSid, phoneNumber: req.body.From, direction: "inbound" },
+          { metadata: { direction: "inbound", to: req.body.To } },
         );
 
-      const conversionRate =
-        Number(totalCount[0]?.count) > 0
-          ? (Number(wonCount[0]?.count) / Number(totalCount[0]?.count)) * 100
-          : 0;
+      const entering = !conversation.answeredAt && (conversation.queueId !== queue.id || !conversation.queuedAt);
+      if (entering) {
+        conversation = await enqueueConversation(conversation, queue);
+      }
 
-      // Tiempo promedio de cierre (en días)
-      const avgClosingTime =
-        wonStage.length > 0
-          ? await db
-              .select({
-                avg: sql<number>`AVG(EXTRACT(EPOCH FROM (${schema.leads.closedAt} - ${schema.leads.createdAt})) / 86400)`,
-              })
-              .from(schema.leads)
-              .where(
-                and(
-                  eq(schema.leads.stageId, wonStage[0].id),
-                  sql`${schema.leads.closedAt} IS NOT NULL`,
-                ),
-              )
-          : [{ avg: 0 }];
+      const triedExtensionIds = String(req.query.tried || "").split(",").filter(Boolean);
+      const result = await handleQueueWait({
+        queue,
+        conversation,
+        triedExtensionIds,
+        dialStatus: req.body.DialCallStatus,
+      });
 
-      // Valor ganado
-      const wonValue =
-        wonStage.length > 0
-          ? await db
-              .select({
-                sum: sql<string>`COALESCE(SUM(${schema.leads.value}), 0)`,
-              })
-              .from(schema.leads)
-              .where(eq(schema.leads.stageId, wonStage[0].id))
-          : [{ sum: "0" }];
+      console.log(`📞 Queue ${queue.name}: call ${req.body.CallSid} → ${result.outcome}`);
+      if (entering || result.outcome !== "offered") {
+        broadcastQueueUpdate(queue.tenantId, queue.id);
+      }
+      if (result.outcome === "completed" || result.outcome === "overflow") {
+        const latest = await storage.getConversation(conversation.id, queue.tenantId);
+        if (latest && isTerminalStatus(latest.status)) broadcastCallEvent("ended", latest);
+      }
+      res.send(result.twiml);
+    } catch (error) {
+      console.error("❌ Queue wait failed:", error);
+      res.send(renderAiGreeting());
+    }
+  });
 
-      // Etapa "Perdido" y valor perdido
-      const lostStage = await db
-        .select()
-        .from(schema.pipelineStages)
-        .where(
-          and(
-            eq(schema.pipelineStages.tenantId, req.user.tenantId),
-            eq(schema.pipelineStages.pipelineId, pipelineId as string),
-            eq(schema.pipelineStages.isFixed, true),
-            sql`${schema.pipelineStages.name} ILIKE '%perdido%'`,
-          ),
-        )
-        .limit(1);
+  // Twilio RecordingStatusCallback for recorded <Dial>s (see ivr/twiml.ts)
+  app.post("/webhook/twilio-recording", async (req, res) => {
+    try {
+      if (!isTwilioWebhookAuthorized(req)) {
+        return res.sendStatus(403);
+      }
 
-      const lostValue =
-        lostStage.length > 0
-          ? await db
-              .select({
-                sum: sql<string>`COALESCE(SUM(${schema.leads.value}), 0)`,
-              })
-              .from(schema.leads)
-              .where(eq(schema.leads.stageId, lostStage[0].id))
-          : [{ sum: "0" }];
+      const { CallSid, RecordingUrl, RecordingStatus, RecordingDuration } = req.body;
+      if (RecordingStatus && RecordingStatus !== "completed") {
+        return res.sendStatus(204);
+      }
+      // Downloaded with the account credentials: never anything but Twilio's media
+      if (RecordingUrl && !isTwilioRecordingUrl(String(RecordingUrl))) {
+        return res.sendStatus(400);
+      }
 
-      res.json({
-        totalValue: Number(totalValue[0]?.sum || 0),
-        conversionRate: Math.round(conversionRate * 10) / 10,
-        avgClosingDays: Math.round(Number(avgClosingTime[0]?.avg || 0)),
-        wonCount: Number(wonCount[0]?.count || 0),
-        wonValue: Number(wonValue[0]?.sum || 0),
-        lostValue: Number(lostValue[0]?.sum || 0),
-        totalCount: Number(totalCount[0]?.count || 0),
+      const conversation = CallSid && await storage.findConversationByCallId(CallSid);
+      if (!conversation || !RecordingUrl) {
+        console.warn(`⚠️ Recording for unknown call ${CallSid}`);
+        return res.sendStatus(204);
+      }
+
+      await captureRecording(conversation, {
+        url: RecordingUrl,
+        durationSec: parseInt(RecordingDuration) || undefined,
       });
+      res.sendStatus(204);
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      console.error("❌ Recording webhook failed:", error);
+      res.sendStatus(500);
     }
   });
 
-  app.post("/webhook/twilio-voice", (req, res) => {
-    const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-  <Response>
-    <Say language="es-MX" voice="Polly.Lupe-Neural">
-      Hola, soy el asistente virtual de Gueswi. ¿En qué puedo ayudarte?
-    </Say>
-    <Gather 
-      input="speech" 
-      language="es-ES"
-      speechTimeout="auto"
-      action="/webhook/twilio-process-speech"
-      method="POST">
-    </Gather>
-    <Say language="es-MX" voice="Polly.Lupe-Neural">
-      No te escuché. Por favor, llama de nuevo.
-    </Say>
-  </Response>`;
-
+  // Runs on the agent leg when an offered agent picks up
+  app.post("/webhook/queue/:queueId/connected", async (req, res) => {
+    // The signed URL carries the call, tenant and extension being answered
+    if (!isTwilioWebhookAuthorized(req)) {
+      return res.sendStatus(403);
+    }
     res.type("text/xml");
-    res.send(twiml);
+
+    try {
+      const { tenantId, conversationId, extensionId } = req.query as Record<string, string>;
+      const extension = (await storage.getExtensionsByTenant(tenantId)).find((ext) => ext.id === extensionId);
+      if (extension) {
+        const { conversation } = await applyCallAction(conversationId, tenantId, "answer", {
+          userId: extension.userId ?? undefined,
+          metadata: { queueId: req.params.queueId, extensionId },
+          data: { extensionId, userId: extension.userId },
+        });
+        broadcastCallEvent("call_status", conversation);
+        broadcastQueueUpdate(tenantId, req.params.queueId);
+      }
+    } catch (error) {
+      // Another agent may have answered first with ring-all
+      console.warn("⚠️ Queue connect:", (error as Error).message);
+    }
+
+    res.send('<?xml version="1.0" encoding="UTF-8"?>\n<Response></Response>');
   });
 
-  // Procesar respuesta del usuario
+  // Procesar respuesta del usuario con el agente de la llamada (?agentId,
+  // tenant del número llamado). The turn is kept on the call's conversation
+  // and the agent's actions (transfer, hang up) shape the TwiML.
   app.post("/webhook/twilio-process-speech", async (req, res) => {
+    // The turn runs the agent's actions (bookings, leads, transfers, hangup)
+    if (!isTwilioWebhookAuthorized(req)) {
+      return res.sendStatus(403);
+    }
     const userSpeech = req.body.SpeechResult || "";
+    // Counted from the request: lookups and actions take their share too
+    const signal = AbortSignal.timeout(AI_SPEECH_TURN_TIMEOUT_MS);
+    res.type("text/xml");
 
+    let agent: AiAgentProfile = DEFAULT_AI_AGENT;
     try {
-      // Llamar a OpenAI
-      const response = await fetch(
-        "https://api.openai.com/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-          },
-          body: JSON.stringify({
-            model: "gpt-4o-mini",
-            messages: [
-              {
-                role: "system",
-                content:
-                  "Eres un asistente de Gueswi. Responde en máximo 2 frases.",
-              },
-              {
-                role: "user",
-                content: userSpeech,
-              },
-            ],
-            max_tokens: 100,
-          }),
-        },
+      const inbound = req.body.To
+        ? await storage.getInboundNumberByPhone(normalizePhoneNumber(req.body.To))
+        : undefined;
+      if (!inbound || !req.body.CallSid) {
+        // Numbers of no tenant get the built-in assistant, without actions
+        const completion = await completeChat(
+          agentCompletionRequest({ ...agent, allowedActions: [] }, [{ role: "user", content: userSpeech }]),
+          { signal },
+        );
+        return res.send(renderAiReply(agent, completion.content));
+      }
+
+      agent = await resolveAiAgent(inbound.tenantId, typeof req.query.agentId === "string" ? req.query.agentId : undefined);
+      const conversation = await findOrStartAiCall(inbound.tenantId, {
+        callId: req.body.CallSid,
+        from: req.body.From,
+        to: req.body.To,
+      });
+      const turn = await runAiTurn(
+        { tenantId: inbound.tenantId, agent, conversation, callerNumber: req.body.From },
+        await aiCallMessages(conversation, userSpeech),
+        { signal },
       );
 
-      const data = await response.json();
-      const aiResponse = data.choices[0].message.content;
+      if (turn.action?.completed) {
+        console.log(`🤖 AI agent ${agent.name}: call ${req.body.CallSid} → ${turn.action.type}`);
+      }
+      if (turn.conversation && isTerminalStatus(turn.conversation.status)) {
+        broadcastCallEvent("ended", turn.conversation);
+      }
+      res.send(renderAiTurn(agent, turn));
+    } catch (error: any) {
+      // The caller hears an apology; the error code is for the logs
+      console.error(`❌ AI speech turn failed (${error instanceof LLMError ? error.code : "internal_error"}):`, error.message);
+      res.send(renderAiError(agent));
+    }
+  });
 
-      const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-  <Response>
-    <Say language="es-MX" voice="Polly.Lupe-Neural">${aiResponse}</Say>
-    <Gather 
-      input="speech" 
-      language="es-ES"
-      speechTimeout="auto"
-      action="/webhook/twilio-process-speech"
-      method="POST">
-    </Gather>
-    <Say language="es-MX" voice="Polly.Lupe-Neural">Gracias por llamar. Hasta pronto.</Say>
-  </Response>`;
+  // Runs on the agent leg when the extension an AI agent transferred to picks up
+  app.post("/webhook/ai/connected", async (req, res) => {
+    // Same check as the queue callback: the signed URL names the handoff
+    if (!isTwilioWebhookAuthorized(req)) {
+      return res.sendStatus(403);
+    }
+    res.type("text/xml");
 
-      res.type("text/xml");
-      res.send(twiml);
-    } catch (error: any) {
-      const errorTwiml = `<?xml version="1.0" encoding="UTF-8"?>
-  <Response>
-    <Say language="es-MX" voice="Polly.Lupe-Neural">
-      Lo siento, tengo problemas técnicos. Por favor llama más tarde.
-    </Say>
-  </Response>`;
-      res.type("text/xml");
-      res.send(errorTwiml);
+    try {
+      const { tenantId, conversationId, extensionId } = req.query as Record<string, string>;
+      const extension = (await storage.getExtensionsByTenant(tenantId)).find((ext) => ext.id === extensionId);
+      if (extension) {
+        const { conversation } = await applyCallAction(conversationId, tenantId, "answer", {
+          userId: extension.userId ?? undefined,
+          metadata: { extensionId, aiHandoff: true },
+          data: { extensionId, userId: extension.userId },
+        });
+        broadcastCallEvent("call_status", conversation);
+      }
+    } catch (error) {
+      console.warn("⚠️ AI transfer connect:", (error as Error).message);
+    }
+
+    res.send('<?xml version="1.0" encoding="UTF-8"?>\n<Response></Response>');
+  });
+
+  // Dial of an AI transfer to an extension finished (answered or not)
+  app.post("/webhook/ai/transfer-ended", async (req, res) => {
+    // DialCallStatus decides whether the call ends or goes back to the agent
+    if (!isTwilioWebhookAuthorized(req)) {
+      return res.sendStatus(403);
+    }
+    res.type("text/xml");
+
+    let agent: AiAgentProfile = DEFAULT_AI_AGENT;
+    try {
+      const inbound = req.body.To
+        ? await storage.getInboundNumberByPhone(normalizePhoneNumber(req.body.To))
+        : undefined;
+      const conversation = inbound && await storage.getConversation(String(req.query.conversationId), inbound.tenantId);
+      if (!inbound || !conversation) {
+        return res.send(renderAiError());
+      }
+
+      agent = await resolveAiAgent(inbound.tenantId, typeof req.query.agentId === "string" ? req.query.agentId : undefined);
+      const result = await handleAiTransferEnded({ agent, conversation, dialStatus: req.body.DialCallStatus });
+      if (isTerminalStatus(result.conversation.status)) {
+        broadcastCallEvent("ended", result.conversation);
+      }
+      res.send(result.twiml);
+    } catch (error) {
+      console.error("❌ AI transfer end failed:", error);
+      res.send(renderAiError(agent));
     }
   });
 
@@ -3390,178 +5113,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Missing parameters" });
       }
 
-      // Obtener ubicación para timezone
-      const location = await db.query.locations.findFirst({
-        where: eq(schema.locations.id, locationId as string),
-      });
-
-      if (!location) {
-        return res.status(404).json({ error: "Location not found" });
-      }
-
-      const timezone = location.timezone || "Europe/Madrid";
-
-      // Calcular offset de timezone en minutos
-      const getTimezoneOffset = (tz: string, date: Date): number => {
-        const utcDate = new Date(
-          date.toLocaleString("en-US", { timeZone: "UTC" }),
-        );
-        const tzDate = new Date(date.toLocaleString("en-US", { timeZone: tz }));
-        return (tzDate.getTime() - utcDate.getTime()) / (1000 * 60);
-      };
-
-      const service = await db.query.services.findFirst({
-        where: eq(schema.services.id, serviceId as string),
-      });
-
-      if (!service) {
-        return res.status(404).json({ error: "Service not found" });
-      }
-
-      const staff = await db.query.staffMembers.findFirst({
-        where: eq(schema.staffMembers.id, staffId as string),
-      });
-
-      if (!staff) {
-        return res.status(404).json({ error: "Staff not found" });
-      }
-
-      let schedules = staff.schedulesByLocation;
-      if (typeof schedules === "string") {
-        try {
-          schedules = JSON.parse(schedules);
-        } catch {
-          return res.json({ slots: [] });
-        }
-      }
-
-      if (!schedules) {
-        return res.json({ slots: [] });
-      }
-
-      const locationSchedule = schedules[locationId as string];
-      if (!locationSchedule) {
-        return res.json({ slots: [] });
-      }
-
-      let dateStr = date as string;
-      if (dateStr.includes("T")) {
-        dateStr = dateStr.split("T")[0];
-      }
-
-      const [year, month, day] = dateStr.split("-").map(Number);
-
-      // Crear fecha a mediodía UTC para evitar problemas de zona horaria
-      const requestedDateUTC = new Date(
-        Date.UTC(year, month - 1, day, 12, 0, 0),
-      );
-      const dayOfWeek = requestedDateUTC.getUTCDay();
-
-      console.log(
-        `📅 Date: ${dateStr}, UTC Day: ${dayOfWeek}, Day name: ${["Dom", "Lun", "Mar", "Mié", "Jue", "Vie", "Sáb"][dayOfWeek]}`,
-      );
-
-      const daySchedule = locationSchedule[dayOfWeek];
-
-      console.log(
-        `🔍 Looking for dayOfWeek ${dayOfWeek}, found:`,
-        daySchedule ? "YES" : "NO",
-      );
-      if (daySchedule) {
-        console.log(
-          `🔍 Enabled: ${daySchedule.enabled}, Blocks:`,
-          daySchedule.blocks,
-        );
-      }
-
-      if (!daySchedule?.enabled || !daySchedule.blocks) {
-        console.log(
-          `❌ Returning empty slots - daySchedule enabled: ${daySchedule?.enabled}, has blocks: ${!!daySchedule?.blocks}`,
-        );
-        return res.json({ slots: [] });
-      }
-
-      // Calcular offset para este día específico (maneja DST)
-      const offsetMinutes = getTimezoneOffset(timezone, requestedDateUTC);
-
-      const startOfDayUTC = new Date(
-        Date.UTC(year, month - 1, day, 0, 0, 0) - offsetMinutes * 60 * 1000,
-      );
-      const endOfDayUTC = new Date(
-        Date.UTC(year, month - 1, day, 23, 59, 59, 999) -
-          offsetMinutes * 60 * 1000,
-      );
-
-      const existingAppointments = await db.query.appointments.findMany({
-        where: and(
-          eq(schema.appointments.staffId, staffId as string),
-          eq(schema.appointments.locationId, locationId as string),
-          gte(schema.appointments.startTime, startOfDayUTC),
-          lte(schema.appointments.startTime, endOfDayUTC),
-          ne(schema.appointments.status, "cancelled"),
-        ),
-      });
-
-      const slots: any[] = [];
-      const serviceDuration = service.duration;
-      const nowUTC = new Date();
-
-      daySchedule.blocks.forEach((block: any) => {
-        const [startH, startM] = block.start.split(":").map(Number);
-        const [endH, endM] = block.end.split(":").map(Number);
-
-        // Los horarios están en hora LOCAL (Madrid)
-        // Para convertir a UTC: restar el offset
-        // Ejemplo: 15:00 Madrid (UTC+2) = 13:00 UTC
-        const localTime = new Date(year, month - 1, day, startH, startM, 0, 0);
-        let currentTimeUTC = new Date(
-          localTime.getTime() - offsetMinutes * 60 * 1000,
-        );
-
-        const localTimeEnd = new Date(year, month - 1, day, endH, endM, 0, 0);
-        const blockEndUTCAdjusted = new Date(
-          localTimeEnd.getTime() - offsetMinutes * 60 * 1000,
-        );
-
-        console.log(
-          `🔍 Block ${startH}:${startM}-${endH}:${endM} → UTC: ${currentTimeUTC.toISOString()} - ${blockEndUTCAdjusted.toISOString()}`,
-        );
-
-        while (currentTimeUTC < blockEndUTCAdjusted) {
-          const slotEndUTC = new Date(currentTimeUTC);
-          slotEndUTC.setUTCMinutes(
-            slotEndUTC.getUTCMinutes() + serviceDuration,
-          );
-
-          if (slotEndUTC <= blockEndUTCAdjusted) {
-            const isFuture = currentTimeUTC.getTime() > nowUTC.getTime();
-
-            const isOccupied = existingAppointments.some((apt) => {
-              const aptStart = new Date(apt.startTime);
-              const aptEnd = new Date(apt.endTime);
-              return (
-                (currentTimeUTC >= aptStart && currentTimeUTC < aptEnd) ||
-                (slotEndUTC > aptStart && slotEndUTC <= aptEnd) ||
-                (currentTimeUTC <= aptStart && slotEndUTC >= aptEnd)
-              );
-            });
-
-            if (isFuture && !isOccupied) {
-              slots.push({
-                startTime: currentTimeUTC.toISOString(),
-                endTime: slotEndUTC.toISOString(),
-              });
-            }
-          }
-
-          currentTimeUTC.setUTCMinutes(
-            currentTimeUTC.getUTCMinutes() + serviceDuration,
-          );
-        }
+      const slots = await findAvailableSlots({
+        serviceId: serviceId as string,
+        staffId: staffId as string,
+        locationId: locationId as string,
+        date: date as string,
       });
-
       res.json({ slots });
     } catch (error: any) {
+      if (error instanceof BookingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("❌ Slots error:", error);
       res.status(500).json({ error: error.message });
     }
@@ -3612,124 +5174,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Función auxiliar mejorada para validar horarios con múltiples bloques
-  const validateStaffAvailability = (
-    staffSchedule: any,
-    dayOfWeek: number,
-    startMinutes: number,
-    endMinutes: number,
-  ): { valid: boolean; message?: string } => {
-    const daySchedule = staffSchedule[dayOfWeek];
-
-    if (!daySchedule || !daySchedule.enabled) {
-      return {
-        valid: false,
-        message: `El personal no trabaja este día`,
-      };
-    }
-
-    // Verificar que la cita esté COMPLETAMENTE dentro de ALGUNO de los bloques
-    const isWithinAnyBlock = daySchedule.blocks?.some((block: any) => {
-      const [startH, startM] = block.start.split(":").map(Number);
-      const [endH, endM] = block.end.split(":").map(Number);
-      const blockStart = startH * 60 + startM;
-      const blockEnd = endH * 60 + endM;
-
-      // La cita COMPLETA debe estar dentro del bloque
-      return startMinutes >= blockStart && endMinutes <= blockEnd;
-    });
-
-    if (!isWithinAnyBlock) {
-      const blocksStr = daySchedule.blocks
-        .map((b: any) => `${b.start}-${b.end}`)
-        .join(", ");
-      return {
-        valid: false,
-        message: `El personal solo trabaja en estos horarios: ${blocksStr}`,
-      };
-    }
-
-    return { valid: true };
-  };
-
-  // Función helper para validar horario de citas
-  const validateAppointmentTime = async (
-    locationId: string,
-    staffId: string,
-    startTime: Date,
-    endTime: Date,
-  ) => {
-    // Validar horario de la ubicación
-    const location = await db.query.locations.findFirst({
-      where: eq(schema.locations.id, locationId),
-    });
-
-    if (!location) {
-      throw new Error("Location not found");
-    }
-
-    const dayOfWeek = startTime.getDay();
-    const operatingHours = location.operatingHours as any;
-    const daySchedule = operatingHours?.[dayOfWeek];
-
-    if (!daySchedule?.enabled) {
-      const dayNames = [
-        "Sunday",
-        "Monday",
-        "Tuesday",
-        "Wednesday",
-        "Thursday",
-        "Friday",
-        "Saturday",
-      ];
-      throw new Error(`This location is closed on ${dayNames[dayOfWeek]}`);
-    }
-
-    const startMinutes = startTime.getHours() * 60 + startTime.getMinutes();
-    const endMinutes = endTime.getHours() * 60 + endTime.getMinutes();
-
-    const isWithinLocationBlocks = daySchedule.blocks?.some((block: any) => {
-      const [startH, startM] = block.start.split(":").map(Number);
-      const [endH, endM] = block.end.split(":").map(Number);
-      const blockStart = startH * 60 + startM;
-      const blockEnd = endH * 60 + endM;
-      return startMinutes >= blockStart && endMinutes <= blockEnd;
-    });
-
-    if (!isWithinLocationBlocks) {
-      throw new Error("Appointment time is outside location operating hours");
-    }
-
-    // Validar horario del staff
-    const staff = await db.query.staffMembers.findFirst({
-      where: eq(schema.staffMembers.id, staffId),
-    });
-
-    if (!staff) {
-      throw new Error("Staff member not found");
-    }
-
-    const staffSchedules = staff.schedulesByLocation as any;
-    const staffScheduleForLocation = staffSchedules?.[locationId];
-
-    if (!staffScheduleForLocation) {
-      throw new Error("El personal no trabaja en esta ubicación");
-    }
-
-    const validation = validateStaffAvailability(
-      staffScheduleForLocation,
-      dayOfWeek,
-      startMinutes,
-      endMinutes,
-    );
-
-    if (!validation.valid) {
-      throw new Error(validation.message);
-    }
-
-    return true;
-  };
-
   app.post("/api/appointments", async (req, res) => {
     if (!req.isAuthenticated() || !req.user.tenantId) {
       return res.sendStatus(401);
@@ -3750,6 +5194,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validar horario de la ubicación y staff
       if (validatedData.locationId && validatedData.staffId) {
         await validateAppointmentTime(
+          req.user.tenantId,
           validatedData.locationId,
           validatedData.staffId,
           startTime,
@@ -3819,6 +5264,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const locationId = validatedData.locationId || existing.locationId;
         const staffId = validatedData.staffId || existing.staffId;
         await validateAppointmentTime(
+          req.user.tenantId,
           locationId,
           staffId,
           newStartTime,
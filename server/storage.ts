@@ -5,11 +5,28 @@ import {
   bankTransfers, 
   callRecords, 
   aiMetrics,
+  aiAgents,
   ivrMenus,
+  inboundNumbers,
   queues,
+  queueMembers,
   recordings,
+  voicemailMessages,
   conversations,
+  conversationEvents,
   messages,
+  pipelines,
+  pipelineStages,
+  leads,
+  leadActivities,
+  locations,
+  services,
+  staffMembers,
+  staffServices,
+  appointments,
+  knowledgeDocuments,
+  knowledgeChunks,
+  ttsPrompts,
   type User, 
   type InsertUser, 
   type Tenant, 
@@ -18,26 +35,75 @@ import {
   type InsertBankTransfer,
   type Extension,
   type InsertExtension,
+  type ProvisioningState,
   type CallRecord,
   type AiMetric,
+  CALL_RATES,
+  CALL_INTENT_LABELS,
+  type CallIntent,
+  type AiAgent,
+  type InsertAiAgent,
   type IvrMenu,
   type InsertIvrMenu,
+  type InboundNumber,
+  type InsertInboundNumber,
   type Queue,
   type InsertQueue,
+  type QueueMember,
   type Recording,
+  type RecordingWithAnalysis,
   type InsertRecording,
+  type VoicemailMessage,
   type Conversation,
+  type InboxConversation,
+  type ContactConversation,
+  type InboxCounts,
+  type InboxView,
   type InsertConversation,
+  type ConversationEvent,
+  type InsertConversationEvent,
   type Message,
-  type InsertMessage
+  type InsertMessage,
+  type AiHandoff,
+  type Lead,
+  type Location,
+  type Service,
+  type StaffMember,
+  type StaffService,
+  type Appointment,
+  type KnowledgeDocument,
+  type KnowledgeDocumentSummary,
+  type KnowledgeChunk,
+  type TtsPrompt,
+  type TtsPromptUsage,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, gte, lte, count, sum, sql, isNull } from "drizzle-orm";
+import { eq, and, asc, desc, gte, lt, lte, ne, count, sum, sql, isNull, isNotNull, inArray, getTableColumns, type SQL } from "drizzle-orm";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import { promises as fs } from "fs";
+import path from "path";
+import { randomInt, randomUUID } from "crypto";
+import { RECORDINGS_DIR, recordingStoragePath, recordingStreamUrl, resolveRecordingFile } from "./recordings/files";
+import { VOICEMAIL_DIR } from "./voicemail/files";
 
 const MemoryStore = createMemoryStore(session);
 
+export interface QueueCallStatsRow {
+  queueId: string;
+  waiting: number;
+  longestWaitSec: number;
+  avgWaitSec: number;
+  answered: number;
+}
+
+export interface ExtensionCallActivityRow {
+  extensionId: string;
+  callsAnswered: number;
+  lastCallEndedAt: Date | null;
+  activeCalls: number;
+}
+
 export interface IStorage {
   sessionStore: any;
   
@@ -76,6 +142,10 @@ export interface IStorage {
     aiMinutes: AiMetric[];
   }>;
 
+  recordLlmUsage(tenantId: string, usage: { promptTokens: number; completionTokens: number; failed: boolean }): Promise<void>;
+  createCallRecord(data: typeof callRecords.$inferInsert): Promise<CallRecord | undefined>;
+  hasAiMessages(conversationId: string): Promise<boolean>;
+
   getAdvancedMetrics(tenantId: string): Promise<{
     roiSavings: number;
     roiChange: number;
@@ -97,19 +167,119 @@ export interface IStorage {
     pageSize: number;
   }>;
   updateExtension(id: string, data: Partial<InsertExtension>): Promise<Extension>;
+  getExtension(id: string, tenantId: string): Promise<Extension | undefined>;
+  getExtensionForUser(tenantId: string, userId: string): Promise<Extension | undefined>;
+  updateExtensionPresence(id: string, data: Partial<Pick<Extension, "presence" | "presenceChangedAt" | "wrapUpUntil" | "lastSeenAt">>): Promise<Extension>;
   deleteExtension(id: string): Promise<void>;
   resetExtensionPin(id: string): Promise<Extension>;
+  updateExtensionProvisioning(id: string, state: ProvisioningState): Promise<Extension>;
   
   getIvrs(tenantId: string): Promise<IvrMenu[]>;
   createIvr(ivr: InsertIvrMenu & { tenantId: string }): Promise<IvrMenu>;
   updateIvr(id: string, data: Partial<InsertIvrMenu>): Promise<IvrMenu>;
+  getIvr(id: string, tenantId: string): Promise<IvrMenu | undefined>;
+  updateIvrProvisioning(id: string, state: ProvisioningState): Promise<IvrMenu>;
+
+  getAiAgents(tenantId: string): Promise<AiAgent[]>;
+  getAiAgent(id: string, tenantId: string): Promise<AiAgent | undefined>;
+  createAiAgent(agent: InsertAiAgent & { tenantId: string }): Promise<AiAgent>;
+  updateAiAgent(id: string, tenantId: string, data: Partial<InsertAiAgent>): Promise<AiAgent | undefined>;
+  deleteAiAgent(id: string, tenantId: string): Promise<boolean>;
+  createAiAgentLead(
+    tenantId: string,
+    data: { name: string; phone?: string | null; email?: string | null; company?: string | null; notes?: string | null; conversationId?: string },
+  ): Promise<Lead | undefined>;
+
+  // AI agents' knowledge base (see server/knowledge)
+  getKnowledgeDocuments(tenantId: string): Promise<KnowledgeDocumentSummary[]>;
+  getKnowledgeDocument(id: string, tenantId: string): Promise<KnowledgeDocument | undefined>;
+  createKnowledgeDocument(data: typeof knowledgeDocuments.$inferInsert): Promise<KnowledgeDocument>;
+  updateKnowledgeDocument(
+    id: string,
+    data: Partial<Pick<KnowledgeDocument, "status" | "error" | "chunkCount" | "embeddingModel">>,
+  ): Promise<KnowledgeDocument | undefined>;
+  deleteKnowledgeDocument(id: string, tenantId: string): Promise<boolean>;
+  replaceKnowledgeChunks(
+    document: Pick<KnowledgeDocument, "id" | "tenantId">,
+    chunks: { content: string; embedding: number[] | null }[],
+  ): Promise<void>;
+  getKnowledgeChunks(tenantId: string): Promise<(KnowledgeChunk & { title: string; embeddingModel: string | null })[]>;
+
+  // Calendar (see server/booking.ts); without a tenant, any tenant's record
+  // (public booking pages)
+  getBookingLocation(id: string, tenantId?: string): Promise<Location | undefined>;
+  getBookingService(id: string, tenantId?: string): Promise<Service | undefined>;
+  getStaffMember(id: string, tenantId?: string): Promise<StaffMember | undefined>;
+  getBookingCatalog(tenantId: string): Promise<{
+    locations: Location[];
+    services: Service[];
+    staff: StaffMember[];
+    staffServices: StaffService[];
+  }>;
+  getStaffAppointments(staffId: string, locationId: string, from: Date, to: Date): Promise<Appointment[]>;
+  createAppointment(data: typeof appointments.$inferInsert): Promise<Appointment>;
+
+  getInboundNumbers(tenantId: string): Promise<InboundNumber[]>;
+  getInboundNumberByPhone(phoneNumber: string): Promise<InboundNumber | undefined>;
+  createInboundNumber(data: InsertInboundNumber & { tenantId: string }): Promise<InboundNumber>;
+  updateInboundNumber(id: string, tenantId: string, data: Partial<InsertInboundNumber>): Promise<InboundNumber | undefined>;
+  deleteInboundNumber(id: string, tenantId: string): Promise<boolean>;
   
   getQueues(tenantId: string): Promise<Queue[]>;
   createQueue(queue: InsertQueue & { tenantId: string }): Promise<Queue>;
   updateQueue(id: string, data: Partial<InsertQueue>): Promise<Queue>;
+  getQueue(id: string, tenantId: string): Promise<Queue | undefined>;
+  setQueueRoundRobinCursor(id: string, memberId: string): Promise<void>;
+  getQueueMembers(tenantId: string, queueId?: string): Promise<(QueueMember & { extension: Extension })[]>;
+  replaceQueueMembers(queueId: string, tenantId: string, members: { extensionId: string; priority: number; isPaused: boolean }[]): Promise<QueueMember[]>;
+  getQueueCallStats(tenantId: string, since: Date): Promise<QueueCallStatsRow[]>;
+  getExtensionCallActivity(tenantId: string, since: Date): Promise<ExtensionCallActivityRow[]>;
+  getConversationByCallId(tenantId: string, callId: string): Promise<Conversation | undefined>;
+  findConversationByCallId(callId: string): Promise<Conversation | undefined>;
+  getMissedCalls(tenantId: string, options?: { userId?: string; since?: Date; limit?: number }): Promise<Conversation[]>;
   
+  getTenantsWithRecordings(): Promise<Tenant[]>;
+  updateTenantRecordingRetention(id: string, retentionDays: number | null): Promise<Tenant>;
+  updateTenantTtsProvider(id: string, provider: Tenant["ttsProvider"]): Promise<Tenant>;
+
+  // Prompt library (see server/tts/prompts.ts); without a tenant, any tenant's
+  getTtsPrompts(tenantId: string): Promise<TtsPrompt[]>;
+  getTtsPrompt(id: string, tenantId: string): Promise<TtsPrompt | undefined>;
+  getTtsPromptByHash(contentHash: string, tenantId?: string): Promise<TtsPrompt | undefined>;
+  saveTtsPrompt(data: typeof ttsPrompts.$inferInsert): Promise<TtsPrompt>;
+  touchTtsPrompt(id: string): Promise<void>;
+  renameTtsPrompt(id: string, tenantId: string, name: string): Promise<TtsPrompt | undefined>;
+  deleteTtsPrompts(ids: string[]): Promise<void>;
+  getTtsPromptsUsedBefore(before: Date, tenantId?: string): Promise<TtsPrompt[]>;
+  getTtsPromptAudioUrls(): Promise<string[]>;
+  getGreetingAudioReferences(tenantId?: string): Promise<(TtsPromptUsage & { tenantId: string; url: string })[]>;
+  getRecordingUsage(tenantId: string): Promise<{ count: number; totalBytes: number; oldestStartedAt: Date | null }>;
+  getRecordingsStartedBefore(tenantId: string, before: Date): Promise<Recording[]>;
+  getOldestRecordings(tenantId: string, limit: number): Promise<Recording[]>;
+  deleteRecordings(tenantId: string, ids: string[]): Promise<void>;
+  getRecording(id: string, tenantId: string): Promise<Recording | undefined>;
+  getRecordingByConversation(conversationId: string): Promise<Recording | undefined>;
+  createRecording(data: typeof recordings.$inferInsert): Promise<Recording>;
+  updateRecordingAudio(
+    id: string,
+    data: Pick<Recording, "durationSec" | "sizeBytes" | "storagePath" | "mimeType" | "placeholder">,
+  ): Promise<Recording>;
+
+  updateExtensionVoicemail(
+    id: string,
+    data: Partial<Pick<Extension, "voicemailEnabled" | "voicemailGreetingUrl" | "voicemailEmail">>,
+  ): Promise<Extension>;
+  createVoicemailMessage(data: typeof voicemailMessages.$inferInsert): Promise<VoicemailMessage>;
+  getVoicemailMessages(
+    tenantId: string,
+    options?: { extensionId?: string; unreadOnly?: boolean; limit?: number },
+  ): Promise<VoicemailMessage[]>;
+  getVoicemailMessage(id: string, tenantId: string): Promise<VoicemailMessage | undefined>;
+  updateVoicemailMessage(id: string, data: Partial<Pick<VoicemailMessage, "readAt" | "emailedAt">>): Promise<VoicemailMessage>;
+  deleteVoicemailMessage(id: string): Promise<void>;
+  countUnreadVoicemail(tenantId: string, extensionId?: string): Promise<number>;
   getRecordings(tenantId: string, from?: Date, to?: Date, page?: number, pageSize?: number): Promise<{
-    data: Recording[];
+    data: RecordingWithAnalysis[];
     total: number;
     page: number;
     pageSize: number;
@@ -133,8 +303,73 @@ export interface IStorage {
     totalPages: number;
   }>;
   
+  // Call state machine persistence (see server/call-state.ts)
+  getConversation(id: string, tenantId: string): Promise<Conversation | undefined>;
+  transitionConversation(
+    id: string,
+    fromStatus: Conversation["status"],
+    data: Partial<Conversation>,
+    event: InsertConversationEvent & { tenantId: string },
+  ): Promise<Conversation | undefined>;
+  createConversationEvent(event: InsertConversationEvent & { tenantId: string }): Promise<ConversationEvent>;
+  saveConversationTranscript(id: string, transcript: string): Promise<Conversation>;
+  saveAiHandoff(id: string, handoff: AiHandoff): Promise<Conversation>;
+  saveConversationAnalysis(
+    id: string,
+    data: Partial<Pick<Conversation, "analysis" | "analysisStatus" | "analysisError" | "analyzedAt">>,
+  ): Promise<Conversation>;
+  getConversationEvents(conversationId: string, tenantId: string): Promise<ConversationEvent[]>;
+
+  // Inbox (see server/inbox.ts)
+  getInboxConversations(
+    tenantId: string,
+    options: { view: InboxView; userId: string; q?: string; page?: number; pageSize?: number },
+  ): Promise<{
+    data: InboxConversation[];
+    total: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+  }>;
+  getInboxCounts(tenantId: string, userId: string): Promise<InboxCounts>;
+  updateInboxConversation(
+    id: string,
+    data: Partial<Pick<Conversation, "inboxStatus" | "closedAt" | "userId" | "notes" | "lastReadAt">>,
+  ): Promise<Conversation>;
+  
   // Message methods
   createMessage(message: InsertMessage): Promise<Message>;
+  // Provider callbacks only know their message id; tenantId comes from the conversation
+  getMessageByExternalId(externalId: string): Promise<(Message & { tenantId: string }) | undefined>;
+  updateMessageDelivery(
+    id: string,
+    data: Partial<Pick<Message, "externalId" | "deliveryStatus" | "deliveryError">>,
+  ): Promise<Message>;
+  getContactConversations(tenantId: string, phoneNumber: string, limit?: number): Promise<ContactConversation[]>;
+}
+
+// Customer messages (and a missed call) since the conversation was last read.
+// Messages of voice calls are what was said (live transcript, AI turns), not
+// something to read: calls only count when missed.
+const inboxUnreadCount = sql<number>`((
+  SELECT count(*) FROM ${messages}
+  WHERE ${messages.conversationId} = ${conversations.id}
+    AND ${conversations.channel} <> 'voice'
+    AND ${messages.from} = 'customer'
+    AND ${messages.timestamp} > coalesce(${conversations.lastReadAt}, 'epoch'::timestamp)
+)::int + CASE WHEN ${conversations.missedAt} > coalesce(${conversations.lastReadAt}, 'epoch'::timestamp) THEN 1 ELSE 0 END)`;
+
+function inboxViewCondition(view: InboxView, userId: string): SQL {
+  switch (view) {
+    case "open":
+      return eq(conversations.inboxStatus, "open");
+    case "mine":
+      return and(eq(conversations.inboxStatus, "open"), eq(conversations.userId, userId))!;
+    case "unassigned":
+      return and(eq(conversations.inboxStatus, "open"), isNull(conversations.userId))!;
+    case "closed":
+      return eq(conversations.inboxStatus, "closed");
+  }
 }
 
 export class DatabaseStorage implements IStorage {
@@ -295,14 +530,33 @@ export class DatabaseStorage implements IStorage {
         gte(aiMetrics.date, today)
       ));
 
-    // Mock active calls (would come from real-time PBX data)
-    const activeCalls = Math.floor(Math.random() * 50);
-    
-    // Mock monthly cost calculation
-    const monthlyCost = 25.00; // Based on Growth plan
+    const [activeData] = await db
+      .select({ count: count() })
+      .from(conversations)
+      .where(and(
+        eq(conversations.tenantId, tenantId),
+        eq(conversations.channel, "voice"),
+        sql`${conversations.status} NOT IN ('ended', 'failed')`,
+        isNull(conversations.endedAt),
+        gte(conversations.startedAt, new Date(Date.now() - 12 * 60 * 60 * 1000))
+      ));
+
+    // Plan fee plus this month's call detail records
+    const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+    const [usage] = await db
+      .select({ totalCost: sum(callRecords.cost) })
+      .from(callRecords)
+      .where(and(
+        eq(callRecords.tenantId, tenantId),
+        gte(callRecords.createdAt, monthStart)
+      ));
+
+    const tenant = await this.getTenant(tenantId);
+    const monthlyFee = tenant ? CALL_RATES[tenant.plan].monthlyFee : 0;
+    const monthlyCost = Math.round((monthlyFee + (Number(usage.totalCost) || 0)) * 100) / 100;
 
     return {
-      activeCalls,
+      activeCalls: activeData.count,
       aiMinutes: Math.floor((Number(aiData.totalSeconds) || 0) / 60),
       extensions: extensionCount.count,
       monthlyCost,
@@ -336,6 +590,60 @@ export class DatabaseStorage implements IStorage {
     return { voiceMinutes, aiMinutes };
   }
 
+  // Adds to the tenant's ai_metrics row of the day, created on first use
+  async recordLlmUsage(
+    tenantId: string,
+    usage: { promptTokens: number; completionTokens: number; failed: boolean },
+  ): Promise<void> {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+
+    const [row] = await db
+      .select({ id: aiMetrics.id })
+      .from(aiMetrics)
+      .where(and(eq(aiMetrics.tenantId, tenantId), eq(aiMetrics.date, date)))
+      .limit(1);
+
+    if (row) {
+      await db
+        .update(aiMetrics)
+        .set({
+          llmRequests: sql`${aiMetrics.llmRequests} + 1`,
+          llmFailures: sql`${aiMetrics.llmFailures} + ${usage.failed ? 1 : 0}`,
+          promptTokens: sql`${aiMetrics.promptTokens} + ${usage.promptTokens}`,
+          completionTokens: sql`${aiMetrics.completionTokens} + ${usage.completionTokens}`,
+        })
+        .where(eq(aiMetrics.id, row.id));
+    } else {
+      await db.insert(aiMetrics).values({
+        tenantId,
+        date,
+        llmRequests: 1,
+        llmFailures: usage.failed ? 1 : 0,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+      });
+    }
+  }
+
+  async createCallRecord(data: typeof callRecords.$inferInsert): Promise<CallRecord | undefined> {
+    // One record per conversation; a repeated end event is a no-op
+    const [record] = await db
+      .insert(callRecords)
+      .values(data)
+      .onConflictDoNothing({ target: callRecords.conversationId })
+      .returning();
+    return record;
+  }
+
+  async hasAiMessages(conversationId: string): Promise<boolean> {
+    const [row] = await db
+      .select({ count: count() })
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), eq(messages.from, "ai")));
+    return row.count > 0;
+  }
+
   async getAdvancedMetrics(tenantId: string) {
     const now = new Date();
     const last30Days = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
@@ -420,82 +728,44 @@ export class DatabaseStorage implements IStorage {
       ? Math.round(((currentCSAT - previousCSAT) / previousCSAT) * 100)
       : 0;
 
-    // Detect intentions from conversations
-    const recentConversations = await db
-      .select()
+    // Intentions and sentiment from the post-call analyses (server/analysis)
+    const analyzedConversations = await db
+      .select({ analysis: conversations.analysis })
       .from(conversations)
       .where(and(
         eq(conversations.tenantId, tenantId),
-        gte(conversations.createdAt, last30Days)
-      ))
-      .limit(100);
-
-    const intentionCounts: Record<string, number> = {
-      'Consulta de saldo': 0,
-      'Cambio de plan': 0,
-      'Soporte técnico': 0,
-      'Facturación': 0,
-      'Otro': 0
-    };
+        eq(conversations.analysisStatus, "completed"),
+        gte(conversations.analyzedAt, last30Days)
+      ));
+    const analyses = analyzedConversations.flatMap((row) => (row.analysis ? [row.analysis] : []));
 
-    // Simple keyword-based intent detection
-    recentConversations.forEach(conv => {
-      const transcript = conv.transcript?.toLowerCase() || '';
-      if (transcript.includes('saldo') || transcript.includes('balance')) {
-        intentionCounts['Consulta de saldo']++;
-      } else if (transcript.includes('plan') || transcript.includes('cambiar')) {
-        intentionCounts['Cambio de plan']++;
-      } else if (transcript.includes('problema') || transcript.includes('ayuda') || transcript.includes('soporte')) {
-        intentionCounts['Soporte técnico']++;
-      } else if (transcript.includes('factura') || transcript.includes('pago') || transcript.includes('cobro')) {
-        intentionCounts['Facturación']++;
-      } else {
-        intentionCounts['Otro']++;
-      }
+    const intentionCounts = new Map<CallIntent, number>();
+    analyses.forEach((analysis) => {
+      analysis.intents.forEach((intent) => intentionCounts.set(intent, (intentionCounts.get(intent) ?? 0) + 1));
     });
 
-    const totalIntentions = Object.values(intentionCounts).reduce((a, b) => a + b, 0);
-    const intentions = Object.entries(intentionCounts)
+    // Percentages of analyzed conversations (a conversation may have several intents)
+    const intentions = Array.from(intentionCounts.entries())
       .map(([intent, count]) => ({
-        intent,
+        intent: CALL_INTENT_LABELS[intent],
         count,
-        percentage: totalIntentions > 0 ? Math.round((count / totalIntentions) * 100) : 0
+        percentage: Math.round((count / analyses.length) * 100)
       }))
-      .filter(i => i.count > 0)
       .sort((a, b) => b.count - a.count);
 
-    // Sentiment analysis from conversations
-    let sentimentPositive = 0;
-    let sentimentNeutral = 0;
-    let sentimentNegative = 0;
-
-    // Calculate sentiment from conversations using simple keyword analysis
-    recentConversations.forEach(conv => {
-      const transcript = conv.transcript?.toLowerCase() || '';
-      const positiveKeywords = ['gracias', 'excelente', 'perfecto', 'bien', 'bueno', 'genial', 'estupendo'];
-      const negativeKeywords = ['problema', 'mal', 'error', 'no funciona', 'terrible', 'horrible', 'mala'];
-      
-      const hasPositive = positiveKeywords.some(kw => transcript.includes(kw));
-      const hasNegative = negativeKeywords.some(kw => transcript.includes(kw));
-      
-      if (hasPositive && !hasNegative) {
-        sentimentPositive++;
-      } else if (hasNegative && !hasPositive) {
-        sentimentNegative++;
-      } else {
-        sentimentNeutral++;
-      }
+    const sentimentCounts = { positive: 0, neutral: 0, negative: 0 };
+    analyses.forEach((analysis) => {
+      sentimentCounts[analysis.sentiment]++;
     });
 
-    const totalSentiment = sentimentPositive + sentimentNeutral + sentimentNegative;
-    const sentiment = totalSentiment > 0 ? {
-      positive: Math.round((sentimentPositive / totalSentiment) * 100),
-      neutral: Math.round((sentimentNeutral / totalSentiment) * 100),
-      negative: Math.round((sentimentNegative / totalSentiment) * 100)
+    const sentiment = analyses.length > 0 ? {
+      positive: Math.round((sentimentCounts.positive / analyses.length) * 100),
+      neutral: Math.round((sentimentCounts.neutral / analyses.length) * 100),
+      negative: Math.round((sentimentCounts.negative / analyses.length) * 100)
     } : {
-      positive: 65,
-      neutral: 25,
-      negative: 10
+      positive: 0,
+      neutral: 0,
+      negative: 0
     };
 
     // Detect opportunities
@@ -504,10 +774,14 @@ export class DatabaseStorage implements IStorage {
     // Check for high wait times
     const [queueData] = await db
       .select({
-        avgWait: sql<number>`AVG(${queues.avgWaitSec})`
+        avgWait: sql<number>`AVG(EXTRACT(EPOCH FROM ${conversations.answeredAt} - ${conversations.queuedAt}))`
       })
-      .from(queues)
-      .where(eq(queues.tenantId, tenantId));
+      .from(conversations)
+      .where(and(
+        eq(conversations.tenantId, tenantId),
+        gte(conversations.queuedAt, last30Days),
+        sql`${conversations.answeredAt} >= ${conversations.queuedAt}`
+      ));
     
     if (Number(queueData?.avgWait) > 60) {
       opportunities.push({
@@ -537,9 +811,7 @@ export class DatabaseStorage implements IStorage {
       csat,
       csatChange,
       churnRisk,
-      intentions: intentions.length > 0 ? intentions : [
-        { intent: 'Consulta general', count: 10, percentage: 100 }
-      ],
+      intentions,
       sentiment,
       opportunities
     };
@@ -601,20 +873,77 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getExtension(id: string, tenantId: string): Promise<Extension | undefined> {
+    const [extension] = await db
+      .select()
+      .from(extensions)
+      .where(and(eq(extensions.id, id), eq(extensions.tenantId, tenantId)));
+    return extension;
+  }
+
+  // The user's default extension, else the first extension assigned to them
+  async getExtensionForUser(tenantId: string, userId: string): Promise<Extension | undefined> {
+    const user = await this.getUser(userId);
+    if (user?.defaultExtension) {
+      const extension = await this.getExtension(user.defaultExtension, tenantId);
+      if (extension) return extension;
+    }
+
+    const [extension] = await db
+      .select()
+      .from(extensions)
+      .where(and(eq(extensions.tenantId, tenantId), eq(extensions.userId, userId)))
+      .orderBy(extensions.number)
+      .limit(1);
+    return extension;
+  }
+
+  // Presence fields only: no updatedAt bump, heartbeats land here every 30s
+  async updateExtensionPresence(
+    id: string,
+    data: Partial<Pick<Extension, "presence" | "presenceChangedAt" | "wrapUpUntil" | "lastSeenAt">>,
+  ): Promise<Extension> {
+    const [updated] = await db
+      .update(extensions)
+      .set(data)
+      .where(eq(extensions.id, id))
+      .returning();
+    return updated;
+  }
+
   async deleteExtension(id: string): Promise<void> {
     await db.delete(extensions).where(eq(extensions.id, id));
   }
 
   async resetExtensionPin(id: string): Promise<Extension> {
     const newPassword = Math.random().toString(36).substr(2, 12);
+    const voicemailPin = String(randomInt(0, 1_000_000)).padStart(6, "0");
+    const [updated] = await db
+      .update(extensions)
+      .set({ sipPassword: newPassword, voicemailPin, updatedAt: new Date() })
+      .where(eq(extensions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async updateExtensionProvisioning(id: string, state: ProvisioningState): Promise<Extension> {
     const [updated] = await db
       .update(extensions)
-      .set({ sipPassword: newPassword, updatedAt: new Date() })
+      .set(state)
       .where(eq(extensions.id, id))
       .returning();
     return updated;
   }
 
+  async updateIvrProvisioning(id: string, state: ProvisioningState): Promise<IvrMenu> {
+    const [updated] = await db
+      .update(ivrMenus)
+      .set(state)
+      .where(eq(ivrMenus.id, id))
+      .returning();
+    return updated;
+  }
+
   async getIvrs(tenantId: string): Promise<IvrMenu[]> {
     return await db
       .select()
@@ -637,6 +966,277 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getIvr(id: string, tenantId: string): Promise<IvrMenu | undefined> {
+    const [ivr] = await db
+      .select()
+      .from(ivrMenus)
+      .where(and(eq(ivrMenus.id, id), eq(ivrMenus.tenantId, tenantId)));
+    return ivr;
+  }
+
+  async getAiAgents(tenantId: string): Promise<AiAgent[]> {
+    return await db
+      .select()
+      .from(aiAgents)
+      .where(eq(aiAgents.tenantId, tenantId))
+      .orderBy(aiAgents.createdAt);
+  }
+
+  async getAiAgent(id: string, tenantId: string): Promise<AiAgent | undefined> {
+    const [agent] = await db
+      .select()
+      .from(aiAgents)
+      .where(and(eq(aiAgents.id, id), eq(aiAgents.tenantId, tenantId)));
+    return agent;
+  }
+
+  async createAiAgent(agent: InsertAiAgent & { tenantId: string }): Promise<AiAgent> {
+    const [created] = await db.insert(aiAgents).values(agent).returning();
+    return created;
+  }
+
+  async updateAiAgent(id: string, tenantId: string, data: Partial<InsertAiAgent>): Promise<AiAgent | undefined> {
+    const [updated] = await db
+      .update(aiAgents)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(aiAgents.id, id), eq(aiAgents.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteAiAgent(id: string, tenantId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(aiAgents)
+      .where(and(eq(aiAgents.id, id), eq(aiAgents.tenantId, tenantId)))
+      .returning({ id: aiAgents.id });
+    return deleted.length > 0;
+  }
+
+  // Lead captured by an AI agent: first stage of the tenant's default
+  // pipeline; undefined when the tenant has no pipeline stages yet
+  async createAiAgentLead(
+    tenantId: string,
+    data: { name: string; phone?: string | null; email?: string | null; company?: string | null; notes?: string | null; conversationId?: string },
+  ): Promise<Lead | undefined> {
+    const [pipeline] = await db
+      .select()
+      .from(pipelines)
+      .where(eq(pipelines.tenantId, tenantId))
+      .orderBy(desc(pipelines.isDefault), pipelines.createdAt)
+      .limit(1);
+    if (!pipeline) return undefined;
+
+    const [stage] = await db
+      .select()
+      .from(pipelineStages)
+      .where(and(eq(pipelineStages.tenantId, tenantId), eq(pipelineStages.pipelineId, pipeline.id)))
+      .orderBy(asc(pipelineStages.order))
+      .limit(1);
+    if (!stage) return undefined;
+
+    return await db.transaction(async (tx) => {
+      const [lead] = await tx
+        .insert(leads)
+        .values({
+          tenantId,
+          pipelineId: pipeline.id,
+          stageId: stage.id,
+          name: data.name,
+          phone: data.phone,
+          email: data.email,
+          company: data.company,
+          notes: data.notes,
+          source: "ai_agent",
+          sourceId: data.conversationId,
+        })
+        .returning();
+
+      await tx.insert(leadActivities).values({
+        leadId: lead.id,
+        type: "note",
+        description: "Lead creado por el agente IA",
+        metadata: data.conversationId ? { conversationId: data.conversationId } : null,
+      });
+      return lead;
+    });
+  }
+
+  async getKnowledgeDocuments(tenantId: string): Promise<KnowledgeDocumentSummary[]> {
+    const { content: _content, ...summary } = getTableColumns(knowledgeDocuments);
+    return await db
+      .select(summary)
+      .from(knowledgeDocuments)
+      .where(eq(knowledgeDocuments.tenantId, tenantId))
+      .orderBy(desc(knowledgeDocuments.createdAt));
+  }
+
+  async getKnowledgeDocument(id: string, tenantId: string): Promise<KnowledgeDocument | undefined> {
+    const [document] = await db
+      .select()
+      .from(knowledgeDocuments)
+      .where(and(eq(knowledgeDocuments.id, id), eq(knowledgeDocuments.tenantId, tenantId)));
+    return document;
+  }
+
+  async createKnowledgeDocument(data: typeof knowledgeDocuments.$inferInsert): Promise<KnowledgeDocument> {
+    const [document] = await db.insert(knowledgeDocuments).values(data).returning();
+    return document;
+  }
+
+  async updateKnowledgeDocument(
+    id: string,
+    data: Partial<Pick<KnowledgeDocument, "status" | "error" | "chunkCount" | "embeddingModel">>,
+  ): Promise<KnowledgeDocument | undefined> {
+    const [document] = await db
+      .update(knowledgeDocuments)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(knowledgeDocuments.id, id))
+      .returning();
+    return document;
+  }
+
+  // Chunks go with the document (on delete cascade)
+  async deleteKnowledgeDocument(id: string, tenantId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(knowledgeDocuments)
+      .where(and(eq(knowledgeDocuments.id, id), eq(knowledgeDocuments.tenantId, tenantId)))
+      .returning({ id: knowledgeDocuments.id });
+    return deleted.length > 0;
+  }
+
+  async replaceKnowledgeChunks(
+    document: Pick<KnowledgeDocument, "id" | "tenantId">,
+    chunks: { content: string; embedding: number[] | null }[],
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(knowledgeChunks).where(eq(knowledgeChunks.documentId, document.id));
+      if (chunks.length === 0) return;
+      await tx.insert(knowledgeChunks).values(
+        chunks.map((chunk, position) => ({
+          tenantId: document.tenantId,
+          documentId: document.id,
+          position,
+          content: chunk.content,
+          embedding: chunk.embedding,
+        })),
+      );
+    });
+  }
+
+  // Chunks of the tenant's indexed documents, with the document's title
+  // and the model its chunks were embedded with
+  async getKnowledgeChunks(tenantId: string): Promise<(KnowledgeChunk & { title: string; embeddingModel: string | null })[]> {
+    return await db
+      .select({
+        ...getTableColumns(knowledgeChunks),
+        title: knowledgeDocuments.title,
+        embeddingModel: knowledgeDocuments.embeddingModel,
+      })
+      .from(knowledgeChunks)
+      .innerJoin(knowledgeDocuments, eq(knowledgeChunks.documentId, knowledgeDocuments.id))
+      .where(and(eq(knowledgeChunks.tenantId, tenantId), eq(knowledgeDocuments.status, "ready")))
+      .orderBy(knowledgeChunks.documentId, knowledgeChunks.position);
+  }
+
+  async getBookingLocation(id: string, tenantId?: string): Promise<Location | undefined> {
+    const [location] = await db
+      .select()
+      .from(locations)
+      .where(tenantId ? and(eq(locations.id, id), eq(locations.tenantId, tenantId)) : eq(locations.id, id));
+    return location;
+  }
+
+  async getBookingService(id: string, tenantId?: string): Promise<Service | undefined> {
+    const [service] = await db
+      .select()
+      .from(services)
+      .where(tenantId ? and(eq(services.id, id), eq(services.tenantId, tenantId)) : eq(services.id, id));
+    return service;
+  }
+
+  async getStaffMember(id: string, tenantId?: string): Promise<StaffMember | undefined> {
+    const [staff] = await db
+      .select()
+      .from(staffMembers)
+      .where(tenantId ? and(eq(staffMembers.id, id), eq(staffMembers.tenantId, tenantId)) : eq(staffMembers.id, id));
+    return staff;
+  }
+
+  // Active locations, services and staff of the tenant, with who offers what
+  async getBookingCatalog(tenantId: string) {
+    const [tenantLocations, tenantServices, staff, offered] = await Promise.all([
+      db.select().from(locations)
+        .where(and(eq(locations.tenantId, tenantId), eq(locations.isActive, true)))
+        .orderBy(locations.name),
+      db.select().from(services)
+        .where(and(eq(services.tenantId, tenantId), eq(services.isActive, true)))
+        .orderBy(services.name),
+      db.select().from(staffMembers)
+        .where(and(eq(staffMembers.tenantId, tenantId), eq(staffMembers.isActive, true)))
+        .orderBy(staffMembers.name),
+      db.select().from(staffServices).where(eq(staffServices.tenantId, tenantId)),
+    ]);
+    return { locations: tenantLocations, services: tenantServices, staff, staffServices: offered };
+  }
+
+  // Appointments of a staff member at a location starting in [from, to], cancelled ones excluded
+  async getStaffAppointments(staffId: string, locationId: string, from: Date, to: Date): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(and(
+        eq(appointments.staffId, staffId),
+        eq(appointments.locationId, locationId),
+        gte(appointments.startTime, from),
+        lte(appointments.startTime, to),
+        ne(appointments.status, "cancelled"),
+      ));
+  }
+
+  async createAppointment(data: typeof appointments.$inferInsert): Promise<Appointment> {
+    const [appointment] = await db.insert(appointments).values(data).returning();
+    return appointment;
+  }
+
+  async getInboundNumbers(tenantId: string): Promise<InboundNumber[]> {
+    return await db
+      .select()
+      .from(inboundNumbers)
+      .where(eq(inboundNumbers.tenantId, tenantId))
+      .orderBy(inboundNumbers.createdAt);
+  }
+
+  // Numbers are unique across tenants: the called number identifies the tenant
+  async getInboundNumberByPhone(phoneNumber: string): Promise<InboundNumber | undefined> {
+    const [inbound] = await db
+      .select()
+      .from(inboundNumbers)
+      .where(eq(inboundNumbers.phoneNumber, phoneNumber));
+    return inbound;
+  }
+
+  async createInboundNumber(data: InsertInboundNumber & { tenantId: string }): Promise<InboundNumber> {
+    const [created] = await db.insert(inboundNumbers).values(data).returning();
+    return created;
+  }
+
+  async updateInboundNumber(id: string, tenantId: string, data: Partial<InsertInboundNumber>): Promise<InboundNumber | undefined> {
+    const [updated] = await db
+      .update(inboundNumbers)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(inboundNumbers.id, id), eq(inboundNumbers.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteInboundNumber(id: string, tenantId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(inboundNumbers)
+      .where(and(eq(inboundNumbers.id, id), eq(inboundNumbers.tenantId, tenantId)))
+      .returning({ id: inboundNumbers.id });
+    return deleted.length > 0;
+  }
+
   async getQueues(tenantId: string): Promise<Queue[]> {
     return await db
       .select()
@@ -659,8 +1259,383 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getQueue(id: string, tenantId: string): Promise<Queue | undefined> {
+    const [queue] = await db
+      .select()
+      .from(queues)
+      .where(and(eq(queues.id, id), eq(queues.tenantId, tenantId)));
+    return queue;
+  }
+
+  async setQueueRoundRobinCursor(id: string, memberId: string): Promise<void> {
+    await db.update(queues).set({ lastMemberId: memberId }).where(eq(queues.id, id));
+  }
+
+  async getQueueMembers(tenantId: string, queueId?: string): Promise<(QueueMember & { extension: Extension })[]> {
+    const rows = await db
+      .select()
+      .from(queueMembers)
+      .innerJoin(extensions, eq(queueMembers.extensionId, extensions.id))
+      .where(
+        and(
+          eq(queueMembers.tenantId, tenantId),
+          queueId ? eq(queueMembers.queueId, queueId) : undefined
+        )
+      )
+      .orderBy(queueMembers.priority, queueMembers.createdAt);
+
+    return rows.map((row) => ({ ...row.queue_members, extension: row.extensions }));
+  }
+
+  async replaceQueueMembers(
+    queueId: string,
+    tenantId: string,
+    members: { extensionId: string; priority: number; isPaused: boolean }[]
+  ): Promise<QueueMember[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(queueMembers).where(eq(queueMembers.queueId, queueId));
+      if (members.length === 0) return [];
+      return await tx
+        .insert(queueMembers)
+        .values(members.map((member) => ({ ...member, queueId, tenantId })))
+        .returning();
+    });
+  }
+
+  // Waiting calls are those queued, ringing and younger than the queue's
+  // max wait (plus a minute of grace): older ones have overflowed or were
+  // abandoned without the PBX telling us. Calls transferred into a queue
+  // were answered before: only an answer after queuing counts.
+  async getQueueCallStats(tenantId: string, since: Date): Promise<QueueCallStatsRow[]> {
+    const isWaiting = sql`${conversations.status} = 'ringing' AND ${conversations.endedAt} IS NULL
+      AND ${conversations.queuedAt} > now() - make_interval(secs => ${queues.maxWaitSec} + 60)`;
+    const isAnswered = sql`${conversations.answeredAt} >= ${conversations.queuedAt} AND ${conversations.queuedAt} >= ${since}`;
+
+    const rows = await db
+      .select({
+        queueId: queues.id,
+        waiting: sql<number>`count(*) FILTER (WHERE ${isWaiting})`,
+        longestWaitSec: sql<number>`coalesce(max(extract(epoch FROM now() - ${conversations.queuedAt})) FILTER (WHERE ${isWaiting}), 0)`,
+        avgWaitSec: sql<number>`coalesce(avg(extract(epoch FROM ${conversations.answeredAt} - ${conversations.queuedAt})) FILTER (WHERE ${isAnswered}), 0)`,
+        answered: sql<number>`count(*) FILTER (WHERE ${isAnswered})`,
+      })
+      .from(conversations)
+      .innerJoin(queues, eq(conversations.queueId, queues.id))
+      .where(
+        and(
+          eq(conversations.tenantId, tenantId),
+          sql`${conversations.queuedAt} >= least(${since}, now() - interval '2 hours')`
+        )
+      )
+      .groupBy(queues.id);
+
+    return rows.map((row) => ({
+      queueId: row.queueId,
+      waiting: Number(row.waiting),
+      longestWaitSec: Math.round(Number(row.longestWaitSec)),
+      avgWaitSec: Math.round(Number(row.avgWaitSec)),
+      answered: Number(row.answered),
+    }));
+  }
+
+  async getExtensionCallActivity(tenantId: string, since: Date): Promise<ExtensionCallActivityRow[]> {
+    const twelveHoursAgo = new Date(Date.now() - 12 * 60 * 60 * 1000);
+
+    const rows = await db
+      .select({
+        extensionId: conversations.extensionId,
+        callsAnswered: sql<number>`count(*) FILTER (WHERE ${conversations.answeredAt} >= ${since})`,
+        lastCallEndedAt: sql<Date | null>`max(${conversations.endedAt})`,
+        activeCalls: sql<number>`count(*) FILTER (WHERE ${conversations.status} NOT IN ('ended', 'failed')
+          AND ${conversations.endedAt} IS NULL AND ${conversations.startedAt} >= ${twelveHoursAgo})`,
+      })
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.tenantId, tenantId),
+          sql`${conversations.extensionId} IS NOT NULL`
+        )
+      )
+      .groupBy(conversations.extensionId);
+
+    return rows.map((row) => ({
+      extensionId: row.extensionId!,
+      callsAnswered: Number(row.callsAnswered),
+      lastCallEndedAt: row.lastCallEndedAt ? new Date(row.lastCallEndedAt) : null,
+      activeCalls: Number(row.activeCalls),
+    }));
+  }
+
+  async getTenantsWithRecordings(): Promise<Tenant[]> {
+    return await db
+      .select()
+      .from(tenants)
+      .where(sql`EXISTS (SELECT 1 FROM ${recordings} WHERE ${recordings.tenantId} = ${tenants.id})`);
+  }
+
+  async updateTenantRecordingRetention(id: string, retentionDays: number | null): Promise<Tenant> {
+    const [tenant] = await db
+      .update(tenants)
+      .set({ recordingRetentionDays: retentionDays, updatedAt: new Date() })
+      .where(eq(tenants.id, id))
+      .returning();
+    return tenant;
+  }
+
+  async updateTenantTtsProvider(id: string, provider: Tenant["ttsProvider"]): Promise<Tenant> {
+    const [tenant] = await db
+      .update(tenants)
+      .set({ ttsProvider: provider, updatedAt: new Date() })
+      .where(eq(tenants.id, id))
+      .returning();
+    return tenant;
+  }
+
+  async getTtsPrompts(tenantId: string): Promise<TtsPrompt[]> {
+    return await db
+      .select()
+      .from(ttsPrompts)
+      .where(eq(ttsPrompts.tenantId, tenantId))
+      .orderBy(desc(ttsPrompts.lastUsedAt));
+  }
+
+  async getTtsPrompt(id: string, tenantId: string): Promise<TtsPrompt | undefined> {
+    const [prompt] = await db
+      .select()
+      .from(ttsPrompts)
+      .where(and(eq(ttsPrompts.id, id), eq(ttsPrompts.tenantId, tenantId)));
+    return prompt;
+  }
+
+  async getTtsPromptByHash(contentHash: string, tenantId?: string): Promise<TtsPrompt | undefined> {
+    const [prompt] = await db
+      .select()
+      .from(ttsPrompts)
+      .where(tenantId
+        ? and(eq(ttsPrompts.contentHash, contentHash), eq(ttsPrompts.tenantId, tenantId))
+        : eq(ttsPrompts.contentHash, contentHash))
+      .limit(1);
+    return prompt;
+  }
+
+  // Same content again (regenerated file): keeps the name the tenant gave it
+  async saveTtsPrompt(data: typeof ttsPrompts.$inferInsert): Promise<TtsPrompt> {
+    const now = new Date();
+    const [prompt] = await db
+      .insert(ttsPrompts)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [ttsPrompts.tenantId, ttsPrompts.contentHash],
+        set: { audioUrl: data.audioUrl, durationSec: data.durationSec, lastUsedAt: now, updatedAt: now },
+      })
+      .returning();
+    return prompt;
+  }
+
+  async touchTtsPrompt(id: string): Promise<void> {
+    await db.update(ttsPrompts).set({ lastUsedAt: new Date() }).where(eq(ttsPrompts.id, id));
+  }
+
+  async renameTtsPrompt(id: string, tenantId: string, name: string): Promise<TtsPrompt | undefined> {
+    const [prompt] = await db
+      .update(ttsPrompts)
+      .set({ name, updatedAt: new Date() })
+      .where(and(eq(ttsPrompts.id, id), eq(ttsPrompts.tenantId, tenantId)))
+      .returning();
+    return prompt;
+  }
+
+  async deleteTtsPrompts(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(ttsPrompts).where(inArray(ttsPrompts.id, ids));
+  }
+
+  async getTtsPromptsUsedBefore(before: Date, tenantId?: string): Promise<TtsPrompt[]> {
+    return await db
+      .select()
+      .from(ttsPrompts)
+      .where(tenantId
+        ? and(lt(ttsPrompts.lastUsedAt, before), eq(ttsPrompts.tenantId, tenantId))
+        : lt(ttsPrompts.lastUsedAt, before));
+  }
+
+  async getTtsPromptAudioUrls(): Promise<string[]> {
+    const rows = await db.selectDistinct({ audioUrl: ttsPrompts.audioUrl }).from(ttsPrompts);
+    return rows.map((row) => row.audioUrl);
+  }
+
+  // Audio files played by IVR greetings and voicemail greetings
+  async getGreetingAudioReferences(tenantId?: string): Promise<(TtsPromptUsage & { tenantId: string; url: string })[]> {
+    const menus = await db
+      .select({ id: ivrMenus.id, tenantId: ivrMenus.tenantId, name: ivrMenus.name, url: ivrMenus.greetingAudioUrl })
+      .from(ivrMenus)
+      .where(tenantId
+        ? and(isNotNull(ivrMenus.greetingAudioUrl), eq(ivrMenus.tenantId, tenantId))
+        : isNotNull(ivrMenus.greetingAudioUrl));
+    const boxes = await db
+      .select({
+        id: extensions.id,
+        tenantId: extensions.tenantId,
+        number: extensions.number,
+        userName: extensions.userName,
+        url: extensions.voicemailGreetingUrl,
+      })
+      .from(extensions)
+      .where(tenantId
+        ? and(isNotNull(extensions.voicemailGreetingUrl), eq(extensions.tenantId, tenantId))
+        : isNotNull(extensions.voicemailGreetingUrl));
+
+    return [
+      ...menus.map((menu) => ({ type: "ivr" as const, id: menu.id, tenantId: menu.tenantId, name: menu.name, url: menu.url! })),
+      ...boxes.map((box) => ({
+        type: "voicemail" as const,
+        id: box.id,
+        tenantId: box.tenantId,
+        name: `${box.number} · ${box.userName}`,
+        url: box.url!,
+      })),
+    ];
+  }
+
+  async getRecordingUsage(tenantId: string): Promise<{ count: number; totalBytes: number; oldestStartedAt: Date | null }> {
+    const [row] = await db
+      .select({
+        count: count(),
+        totalBytes: sql<number>`coalesce(sum(${recordings.sizeBytes}), 0)`,
+        oldestStartedAt: sql<Date | null>`min(${recordings.startedAt})`,
+      })
+      .from(recordings)
+      .where(eq(recordings.tenantId, tenantId));
+
+    return {
+      count: row.count,
+      totalBytes: Number(row.totalBytes),
+      oldestStartedAt: row.oldestStartedAt ? new Date(row.oldestStartedAt) : null,
+    };
+  }
+
+  async getRecordingsStartedBefore(tenantId: string, before: Date): Promise<Recording[]> {
+    return await db
+      .select()
+      .from(recordings)
+      .where(and(eq(recordings.tenantId, tenantId), lt(recordings.startedAt, before)));
+  }
+
+  async getOldestRecordings(tenantId: string, limit: number): Promise<Recording[]> {
+    return await db
+      .select()
+      .from(recordings)
+      .where(eq(recordings.tenantId, tenantId))
+      .orderBy(asc(recordings.startedAt))
+      .limit(limit);
+  }
+
+  async deleteRecordings(tenantId: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .delete(recordings)
+      .where(and(eq(recordings.tenantId, tenantId), inArray(recordings.id, ids)));
+  }
+
+  async getRecording(id: string, tenantId: string): Promise<Recording | undefined> {
+    const [recording] = await db
+      .select()
+      .from(recordings)
+      .where(and(eq(recordings.id, id), eq(recordings.tenantId, tenantId)));
+    return recording;
+  }
+
+  async getRecordingByConversation(conversationId: string): Promise<Recording | undefined> {
+    const [recording] = await db
+      .select()
+      .from(recordings)
+      .where(eq(recordings.conversationId, conversationId));
+    return recording;
+  }
+
+  async createRecording(data: typeof recordings.$inferInsert): Promise<Recording> {
+    const [recording] = await db.insert(recordings).values(data).returning();
+    return recording;
+  }
+
+  async updateRecordingAudio(
+    id: string,
+    data: Pick<Recording, "durationSec" | "sizeBytes" | "storagePath" | "mimeType" | "placeholder">,
+  ): Promise<Recording> {
+    const [recording] = await db.update(recordings).set(data).where(eq(recordings.id, id)).returning();
+    return recording;
+  }
+
+  async updateExtensionVoicemail(
+    id: string,
+    data: Partial<Pick<Extension, "voicemailEnabled" | "voicemailGreetingUrl" | "voicemailEmail">>,
+  ): Promise<Extension> {
+    const [updated] = await db
+      .update(extensions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(extensions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createVoicemailMessage(data: typeof voicemailMessages.$inferInsert): Promise<VoicemailMessage> {
+    const [message] = await db.insert(voicemailMessages).values(data).returning();
+    return message;
+  }
+
+  async getVoicemailMessages(
+    tenantId: string,
+    options: { extensionId?: string; unreadOnly?: boolean; limit?: number } = {},
+  ): Promise<VoicemailMessage[]> {
+    const conditions = [eq(voicemailMessages.tenantId, tenantId)];
+    if (options.extensionId) conditions.push(eq(voicemailMessages.extensionId, options.extensionId));
+    if (options.unreadOnly) conditions.push(isNull(voicemailMessages.readAt));
+
+    return await db
+      .select()
+      .from(voicemailMessages)
+      .where(and(...conditions))
+      .orderBy(desc(voicemailMessages.createdAt))
+      .limit(options.limit ?? 100);
+  }
+
+  async getVoicemailMessage(id: string, tenantId: string): Promise<VoicemailMessage | undefined> {
+    const [message] = await db
+      .select()
+      .from(voicemailMessages)
+      .where(and(eq(voicemailMessages.id, id), eq(voicemailMessages.tenantId, tenantId)));
+    return message;
+  }
+
+  async updateVoicemailMessage(
+    id: string,
+    data: Partial<Pick<VoicemailMessage, "readAt" | "emailedAt">>,
+  ): Promise<VoicemailMessage> {
+    const [updated] = await db
+      .update(voicemailMessages)
+      .set(data)
+      .where(eq(voicemailMessages.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteVoicemailMessage(id: string): Promise<void> {
+    await db.delete(voicemailMessages).where(eq(voicemailMessages.id, id));
+  }
+
+  async countUnreadVoicemail(tenantId: string, extensionId?: string): Promise<number> {
+    const conditions = [eq(voicemailMessages.tenantId, tenantId), isNull(voicemailMessages.readAt)];
+    if (extensionId) conditions.push(eq(voicemailMessages.extensionId, extensionId));
+
+    const [result] = await db
+      .select({ count: count() })
+      .from(voicemailMessages)
+      .where(and(...conditions));
+    return Number(result?.count ?? 0);
+  }
+
   async getRecordings(tenantId: string, from?: Date, to?: Date, page: number = 1, pageSize: number = 10): Promise<{
-    data: Recording[];
+    data: RecordingWithAnalysis[];
     total: number;
     page: number;
     pageSize: number;
@@ -682,16 +1657,25 @@ export class DatabaseStorage implements IStorage {
       .from(recordings)
       .where(whereCondition);
     
-    const data = await db
-      .select()
+    const rows = await db
+      .select({
+        recording: recordings,
+        analysis: conversations.analysis,
+        analysisStatus: conversations.analysisStatus,
+      })
       .from(recordings)
+      .leftJoin(conversations, eq(conversations.id, recordings.conversationId))
       .where(whereCondition)
       .limit(pageSize)
       .offset((page - 1) * pageSize)
       .orderBy(desc(recordings.startedAt));
     
     return {
-      data,
+      data: rows.map((row) => ({
+        ...row.recording,
+        analysis: row.analysis ?? null,
+        analysisStatus: row.analysisStatus ?? null,
+      })),
       total: totalCount.count,
       page,
       pageSize,
@@ -765,56 +1749,83 @@ export class DatabaseStorage implements IStorage {
       });
     }
 
-    // 2. Create 1 IVR Menu
+    // 2. Create 1 AI agent and 1 IVR Menu that falls back to it
+    const receptionist = await this.createAiAgent({
+      name: "Recepcionista",
+      systemPrompt: "Eres el asistente virtual de Gueswi. Responde de forma concisa (máximo 2-3 frases) y natural. Si el cliente quiere hablar con un humano, indica que vas a transferir la llamada.",
+      greeting: "Hola, soy el asistente virtual de Gueswi. ¿En qué puedo ayudarte?",
+      allowedActions: ["transfer_to_queue", "end_call"],
+      tenantId
+    });
+
     await this.createIvr({
       name: "Principal",
       menuOptions: [
         { key: "1", action: "queue", target: "ventas", description: "Queue Ventas" },
         { key: "2", action: "queue", target: "soporte", description: "Queue Soporte" },
-        { key: "default", action: "ai_agent", target: "demo", description: "Agente IA demo" }
+        { key: "default", action: "ai_agent", target: receptionist.id, description: "Agente IA demo" }
       ],
       tenantId
     });
 
-    // 3. Create 2 Queues  
-    await this.createQueue({
+    // 3. Create 2 Queues with their agents
+    const seededExtensions = await this.getExtensionsByTenant(tenantId);
+    const extensionByNumber = (number: string) => seededExtensions.find((ext) => ext.number === number)!;
+
+    const ventas = await this.createQueue({
       name: "Ventas",
+      strategy: "round_robin",
       tenantId
     });
+    await this.replaceQueueMembers(ventas.id, tenantId, [
+      { extensionId: extensionByNumber("1002").id, priority: 0, isPaused: false },
+      { extensionId: extensionByNumber("1001").id, priority: 1, isPaused: false },
+    ]);
 
-    await this.createQueue({
+    const soporte = await this.createQueue({
       name: "Soporte", 
+      strategy: "longest_idle",
+      overflowTarget: "1004",
       tenantId
     });
+    await this.replaceQueueMembers(soporte.id, tenantId, [
+      { extensionId: extensionByNumber("1003").id, priority: 0, isPaused: false },
+    ]);
 
-    // 4. Create 3 Demo Recordings
+    // 4. Create 3 Demo Recordings (the bundled sample, copied into tenant storage)
     const recordingsData = [
       {
         callId: "demo-call-001",
         startedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
         durationSec: 145,
-        sizeBytes: 2345678,
-        url: "/public/samples/demo-call.mp3"
       },
       {
         callId: "demo-call-002", 
         startedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000), // 1 day ago
         durationSec: 230,
-        sizeBytes: 3456789,
-        url: "/public/samples/demo-call.mp3"
       },
       {
         callId: "demo-call-003",
         startedAt: new Date(Date.now() - 3 * 60 * 60 * 1000), // 3 hours ago
         durationSec: 89,
-        sizeBytes: 1234567,
-        url: "/public/samples/demo-call.mp3"
       }
     ];
+    const sample = await fs.readFile(path.resolve("public/samples/demo-call.mp3"));
 
     for (const recData of recordingsData) {
+      const id = randomUUID();
+      const storagePath = recordingStoragePath(tenantId, `${id}.mp3`, recData.startedAt);
+      const absPath = resolveRecordingFile(tenantId, storagePath);
+      await fs.mkdir(path.dirname(absPath), { recursive: true });
+      await fs.writeFile(absPath, sample);
+
       await db.insert(recordings).values({
         ...recData,
+        id,
+        sizeBytes: sample.length,
+        url: recordingStreamUrl(id),
+        storagePath,
+        mimeType: "audio/mpeg",
         tenantId
       });
     }
@@ -827,8 +1838,13 @@ export class DatabaseStorage implements IStorage {
     
     // Delete existing data
     await db.delete(recordings).where(eq(recordings.tenantId, tenantId));
+    await fs.rm(path.join(RECORDINGS_DIR, tenantId), { recursive: true, force: true });
+    await db.delete(voicemailMessages).where(eq(voicemailMessages.tenantId, tenantId));
+    await fs.rm(path.join(VOICEMAIL_DIR, tenantId), { recursive: true, force: true });
     await db.delete(queues).where(eq(queues.tenantId, tenantId));
     await db.delete(ivrMenus).where(eq(ivrMenus.tenantId, tenantId));
+    await db.delete(aiAgents).where(eq(aiAgents.tenantId, tenantId));
+    await db.delete(callRecords).where(eq(callRecords.tenantId, tenantId));
     await db.delete(extensions).where(eq(extensions.tenantId, tenantId));
     
     // Reseed demo data
@@ -858,19 +1874,6 @@ export class DatabaseStorage implements IStorage {
       .where(eq(conversations.callId, callId));
   }
 
-  // End conversation by conversationId (for softphone controls)
-  async endConversationById(conversationId: string): Promise<void> {
-    const endedAt = new Date();
-    await db
-      .update(conversations)
-      .set({ 
-        status: 'ended', 
-        endedAt,
-        updatedAt: endedAt
-      })
-      .where(eq(conversations.id, conversationId));
-  }
-
   async updateConversationNotes(callId: string, notes: string): Promise<void> {
     await db
       .update(conversations)
@@ -901,9 +1904,10 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  // Get active conversation for softphone - STRICT FILTERING
+  // Get active conversation for softphone - any non-terminal call state
   async getActiveConversation(tenantId: string, userId: string): Promise<Conversation | undefined> {
-    const thirtySecsAgo = new Date(Date.now() - 30 * 1000);
+    // Staleness guard: calls never closed by the PBX should not haunt the UI forever
+    const twelveHoursAgo = new Date(Date.now() - 12 * 60 * 60 * 1000);
     
     const [conversation] = await db
       .select()
@@ -912,32 +1916,131 @@ export class DatabaseStorage implements IStorage {
         and(
           eq(conversations.tenantId, tenantId),
           eq(conversations.userId, userId),
-          // ONLY active calls: ringing or answered
-          sql`${conversations.status} IN ('ringing', 'answered')`,
-          // NOT ended (endedAt IS NULL)
+          eq(conversations.channel, "voice"),
+          sql`${conversations.status} NOT IN ('ended', 'failed')`,
           isNull(conversations.endedAt),
-          // Freshness guard: only recently updated calls (30s)
-          gte(conversations.updatedAt, thirtySecsAgo)
+          gte(conversations.startedAt, twelveHoursAgo)
         )
       )
       .orderBy(desc(conversations.createdAt));
 
-    console.log(`🔍 DB Query: Active conversation filter - status IN ('ringing','answered'), endedAt IS NULL, updatedAt > ${thirtySecsAgo.toISOString()}`);
     return conversation;
   }
 
-  // Update conversation status - ALWAYS update updatedAt
-  async updateConversationStatus(conversationId: string, status: "active" | "ended" | "ringing" | "answered"): Promise<void> {
-    const now = new Date();
-    await db
+  async getConversationByCallId(tenantId: string, callId: string): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.tenantId, tenantId), eq(conversations.callId, callId)))
+      .orderBy(desc(conversations.createdAt));
+    return conversation;
+  }
+
+  // Provider callbacks (e.g. Twilio recordings) only know the call SID,
+  // which is globally unique; never use this for user-facing lookups
+  async findConversationByCallId(callId: string): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.callId, callId))
+      .orderBy(desc(conversations.createdAt));
+    return conversation;
+  }
+
+  async getMissedCalls(
+    tenantId: string,
+    options: { userId?: string; since?: Date; limit?: number } = {},
+  ): Promise<Conversation[]> {
+    const conditions = [eq(conversations.tenantId, tenantId), isNotNull(conversations.missedAt)];
+    if (options.userId) conditions.push(eq(conversations.userId, options.userId));
+    if (options.since) conditions.push(gte(conversations.missedAt, options.since));
+
+    return await db
+      .select()
+      .from(conversations)
+      .where(and(...conditions))
+      .orderBy(desc(conversations.missedAt))
+      .limit(options.limit ?? 50);
+  }
+
+  async getConversation(id: string, tenantId: string): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.id, id), eq(conversations.tenantId, tenantId)));
+    return conversation;
+  }
+
+  // Apply a state transition and its timeline entry atomically. The update is
+  // guarded on the expected current status, so concurrent transitions on the
+  // same call cannot both win; returns undefined when the guard fails.
+  async transitionConversation(
+    id: string,
+    fromStatus: Conversation["status"],
+    data: Partial<Conversation>,
+    event: InsertConversationEvent & { tenantId: string },
+  ): Promise<Conversation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(conversations)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(conversations.id, id), eq(conversations.status, fromStatus)))
+        .returning();
+
+      if (!updated) return undefined;
+
+      await tx.insert(conversationEvents).values(event);
+      return updated;
+    });
+  }
+
+  async createConversationEvent(event: InsertConversationEvent & { tenantId: string }): Promise<ConversationEvent> {
+    const [created] = await db
+      .insert(conversationEvents)
+      .values(event)
+      .returning();
+    return created;
+  }
+
+  async saveConversationTranscript(id: string, transcript: string): Promise<Conversation> {
+    const [updated] = await db
       .update(conversations)
-      .set({ 
-        status,
-        updatedAt: now
-      })
-      .where(eq(conversations.id, conversationId));
-    
-    console.log(`📝 DB: Conversation ${conversationId} status updated to '${status}' at ${now.toISOString()}`);
+      .set({ transcript, transcribedAt: new Date(), updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async saveAiHandoff(id: string, handoff: AiHandoff): Promise<Conversation> {
+    const [updated] = await db
+      .update(conversations)
+      .set({ aiHandoff: handoff, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async saveConversationAnalysis(
+    id: string,
+    data: Partial<Pick<Conversation, "analysis" | "analysisStatus" | "analysisError" | "analyzedAt">>,
+  ): Promise<Conversation> {
+    const [updated] = await db
+      .update(conversations)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getConversationEvents(conversationId: string, tenantId: string): Promise<ConversationEvent[]> {
+    return await db
+      .select()
+      .from(conversationEvents)
+      .where(and(
+        eq(conversationEvents.conversationId, conversationId),
+        eq(conversationEvents.tenantId, tenantId)
+      ))
+      .orderBy(conversationEvents.createdAt);
   }
 
   async getConversations(tenantId: string, page = 1, pageSize = 10): Promise<{
@@ -974,12 +2077,179 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  async getInboxConversations(
+    tenantId: string,
+    options: { view: InboxView; userId: string; q?: string; page?: number; pageSize?: number },
+  ): Promise<{
+    data: InboxConversation[];
+    total: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+  }> {
+    const page = options.page ?? 1;
+    const pageSize = options.pageSize ?? 25;
+
+    const conditions = [eq(conversations.tenantId, tenantId), inboxViewCondition(options.view, options.userId)];
+    const q = options.q?.trim();
+    if (q) {
+      // Full-text over notes and messages; phone numbers by substring
+      const query = sql`plainto_tsquery('simple', ${q})`;
+      // Typed % and _ are literal characters, not wildcards
+      const phonePattern = `%${q.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(sql`(
+        to_tsvector('simple', coalesce(${conversations.notes}, '')) @@ ${query}
+        OR EXISTS (
+          SELECT 1 FROM ${messages}
+          WHERE ${messages.conversationId} = ${conversations.id}
+            AND to_tsvector('simple', ${messages.content}) @@ ${query}
+        )
+        OR ${conversations.phoneNumber} ILIKE ${phonePattern}
+      )`);
+    }
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(conversations)
+      .where(and(...conditions));
+
+    const rows = await db
+      .select({
+        conversation: conversations,
+        unreadCount: inboxUnreadCount,
+        lastMessage: sql<string | null>`(
+          SELECT ${messages.content} FROM ${messages}
+          WHERE ${messages.conversationId} = ${conversations.id}
+          ORDER BY ${messages.timestamp} DESC
+          LIMIT 1
+        )`,
+        assigneeFirstName: users.firstName,
+        assigneeLastName: users.lastName,
+        assigneeUsername: users.username,
+      })
+      .from(conversations)
+      .leftJoin(users, eq(users.id, conversations.userId))
+      .where(and(...conditions))
+      .orderBy(desc(sql`coalesce(${conversations.lastMessageAt}, ${conversations.startedAt})`))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    const total = totalResult.count;
+    return {
+      data: rows.map((row) => ({
+        ...row.conversation,
+        unreadCount: Number(row.unreadCount),
+        lastMessage: row.lastMessage,
+        assigneeName: row.assigneeUsername
+          ? [row.assigneeFirstName, row.assigneeLastName].filter(Boolean).join(" ") || row.assigneeUsername
+          : null,
+      })),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  async getInboxCounts(tenantId: string, userId: string): Promise<InboxCounts> {
+    const isOpen = eq(conversations.inboxStatus, "open");
+    const [result] = await db
+      .select({
+        open: sql<number>`count(*) FILTER (WHERE ${isOpen})`,
+        mine: sql<number>`count(*) FILTER (WHERE ${inboxViewCondition("mine", userId)})`,
+        unassigned: sql<number>`count(*) FILTER (WHERE ${inboxViewCondition("unassigned", userId)})`,
+        closed: sql<number>`count(*) FILTER (WHERE NOT ${isOpen})`,
+        unread: sql<number>`count(*) FILTER (WHERE ${isOpen} AND ${inboxUnreadCount} > 0)`,
+      })
+      .from(conversations)
+      .where(eq(conversations.tenantId, tenantId));
+
+    return {
+      open: Number(result?.open ?? 0),
+      mine: Number(result?.mine ?? 0),
+      unassigned: Number(result?.unassigned ?? 0),
+      closed: Number(result?.closed ?? 0),
+      unread: Number(result?.unread ?? 0),
+    };
+  }
+
+  async updateInboxConversation(
+    id: string,
+    data: Partial<Pick<Conversation, "inboxStatus" | "closedAt" | "userId" | "notes" | "lastReadAt">>,
+  ): Promise<Conversation> {
+    const [updated] = await db
+      .update(conversations)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return updated;
+  }
+
+  // New customer activity reopens a closed conversation
   async createMessage(message: InsertMessage): Promise<Message> {
-    const [newMessage] = await db
-      .insert(messages)
-      .values(message)
+    return await db.transaction(async (tx) => {
+      const [newMessage] = await tx
+        .insert(messages)
+        .values(message)
+        .returning();
+
+      await tx
+        .update(conversations)
+        .set({ lastMessageAt: newMessage.timestamp, updatedAt: new Date() })
+        .where(eq(conversations.id, newMessage.conversationId));
+
+      // A customer writing again reopens the thread; call speech does not
+      if (newMessage.from === "customer") {
+        await tx
+          .update(conversations)
+          .set({ inboxStatus: "open", closedAt: null })
+          .where(and(eq(conversations.id, newMessage.conversationId), ne(conversations.channel, "voice")));
+      }
+
+      return newMessage;
+    });
+  }
+
+  async getMessageByExternalId(externalId: string): Promise<(Message & { tenantId: string }) | undefined> {
+    const [row] = await db
+      .select({ message: messages, tenantId: conversations.tenantId })
+      .from(messages)
+      .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+      .where(eq(messages.externalId, externalId));
+    return row && { ...row.message, tenantId: row.tenantId };
+  }
+
+  async updateMessageDelivery(
+    id: string,
+    data: Partial<Pick<Message, "externalId" | "deliveryStatus" | "deliveryError">>,
+  ): Promise<Message> {
+    const [updated] = await db
+      .update(messages)
+      .set(data)
+      .where(eq(messages.id, id))
       .returning();
-    return newMessage;
+    return updated;
+  }
+
+  async getContactConversations(tenantId: string, phoneNumber: string, limit = 20): Promise<ContactConversation[]> {
+    const contactConversations = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.tenantId, tenantId), eq(conversations.phoneNumber, phoneNumber)))
+      .orderBy(desc(sql`coalesce(${conversations.lastMessageAt}, ${conversations.startedAt})`))
+      .limit(limit);
+    if (contactConversations.length === 0) return [];
+
+    const contactMessages = await db
+      .select()
+      .from(messages)
+      .where(inArray(messages.conversationId, contactConversations.map((c) => c.id)))
+      .orderBy(messages.timestamp);
+
+    return contactConversations.map((conversation) => ({
+      ...conversation,
+      messages: contactMessages.filter((message) => message.conversationId === conversation.id),
+    }));
   }
 }
 
@@ -0,0 +1,85 @@
+/**
+ * STT (Speech-to-Text) with provider abstraction, the counterpart of ../tts
+ *
+ * A provider opens one stream per call. Audio is written per speaker (the
+ * PBX forks each leg separately, see ./media.ts) and recognized text comes
+ * back through `onSegment`: interim hypotheses while someone is talking,
+ * then one final segment per utterance.
+ *
+ * Environment Variables Contract:
+ * ==============================
+ * STT_PROVIDER=deepgram|mock (default: mock)
+ * STT_LANGUAGE (optional, defaults to 'es')
+ *
+ * Deepgram (streaming API):
+ * - DEEPGRAM_API_KEY (required)
+ * - DEEPGRAM_MODEL (optional, defaults to 'nova-2')
+ * - Audio is expected as 8 kHz μ-law, what telephony media forks send
+ *
+ * Mock (development and tests):
+ * - Ignores the audio and plays a scripted dialogue chosen from the call id
+ * - STT_MOCK_INTERVAL_MS (optional, defaults to 4000) between utterances
+ */
+
+export type TranscriptSpeaker = "customer" | "agent";
+
+export interface TranscriptSegment {
+  speaker: TranscriptSpeaker;
+  text: string;
+  isFinal: boolean;
+}
+
+export interface STTStreamOptions {
+  callId: string;
+  language: string;
+  onSegment: (segment: TranscriptSegment) => void;
+  onError: (error: Error) => void;
+}
+
+export interface STTStream {
+  write(speaker: TranscriptSpeaker, audio: Buffer): void;
+  // Flushes pending audio; no segments are delivered afterwards
+  close(): Promise<void>;
+}
+
+export interface STTProvider {
+  readonly name: string;
+  startStream(options: STTStreamOptions): STTStream;
+}
+
+let provider: STTProvider | null = null;
+
+/**
+ * Provider selected by STT_PROVIDER, created once
+ */
+export async function getSTTProvider(): Promise<STTProvider> {
+  if (provider) return provider;
+
+  const name = process.env.STT_PROVIDER || "mock";
+  switch (name) {
+    case "deepgram": {
+      const { DeepgramProvider } = await import("./providers/deepgram.js");
+      provider = new DeepgramProvider();
+      break;
+    }
+    case "mock": {
+      const { MockSTTProvider } = await import("./providers/mock.js");
+      provider = new MockSTTProvider();
+      break;
+    }
+    default:
+      throw new Error(`Unsupported STT provider: ${name}. Supported: deepgram, mock`);
+  }
+  return provider;
+}
+
+/**
+ * Swap the provider (tests use the mock)
+ */
+export function setSTTProvider(next: STTProvider | null): void {
+  provider = next;
+}
+
+export function sttLanguage(): string {
+  return process.env.STT_LANGUAGE || "es";
+}
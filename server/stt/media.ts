@@ -0,0 +1,56 @@
+/**
+ * Call audio ingest for live transcription
+ *
+ * The PBX forks each leg of an answered call to a WebSocket on this server
+ * (Asterisk AudioSocket / FreeSWITCH mod_audio_fork):
+ *
+ *   /media/call-audio?tenantId=<id>&callId=<provider call id>&speaker=customer|agent
+ *   x-pbx-secret: <PBX_WEBHOOK_SECRET>
+ *
+ * Binary frames are raw 8 kHz μ-law audio, handed to the call's STT stream.
+ */
+
+import type { IncomingMessage, Server } from "http";
+import { WebSocketServer } from "ws";
+import { writeCallAudio } from "../transcription";
+import type { TranscriptSpeaker } from "./index.js";
+
+export const CALL_AUDIO_PATH = "/media/call-audio";
+
+const SPEAKERS: TranscriptSpeaker[] = ["customer", "agent"];
+
+export function setupCallAudioIngest(
+  server: Server,
+  isAuthorized: (req: IncomingMessage) => boolean,
+): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    // Leave other upgrade requests (/ws, Vite HMR) to their own handlers
+    if (url.pathname !== CALL_AUDIO_PATH) return;
+
+    if (!isAuthorized(req)) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    const tenantId = url.searchParams.get("tenantId");
+    const callId = url.searchParams.get("callId");
+    const speaker = url.searchParams.get("speaker") as TranscriptSpeaker;
+    if (!tenantId || !callId || !SPEAKERS.includes(speaker)) {
+      socket.write("HTTP/1.1 400 Bad Request\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      ws.on("message", (data, isBinary) => {
+        if (isBinary) writeCallAudio(tenantId, callId, speaker, data as Buffer);
+      });
+      ws.on("error", (error) => console.error("❌ Call audio stream error:", error));
+    });
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Deepgram STT Provider (streaming)
+ *
+ * One live connection per speaker, opened on the first audio of that leg,
+ * so segments keep their speaker without diarization.
+ *
+ * Required Environment Variables:
+ * - DEEPGRAM_API_KEY: Your Deepgram API key
+ * - DEEPGRAM_MODEL: Model to use (optional, defaults to 'nova-2')
+ */
+
+import WebSocket from "ws";
+import type { STTProvider, STTStream, STTStreamOptions, TranscriptSpeaker } from "../index.js";
+
+const LISTEN_URL = "wss://api.deepgram.com/v1/listen";
+const CLOSE_TIMEOUT_MS = 5000;
+
+class DeepgramStream implements STTStream {
+  private readonly sockets = new Map<TranscriptSpeaker, WebSocket>();
+  private closed = false;
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly model: string,
+    private readonly options: STTStreamOptions,
+  ) {}
+
+  private connect(speaker: TranscriptSpeaker): WebSocket {
+    const params = new URLSearchParams({
+      model: this.model,
+      language: this.options.language,
+      encoding: "mulaw",
+      sample_rate: "8000",
+      channels: "1",
+      interim_results: "true",
+      punctuate: "true",
+    });
+    const socket = new WebSocket(`${LISTEN_URL}?${params}`, {
+      headers: { Authorization: `Token ${this.apiKey}` },
+    });
+
+    socket.on("message", (data) => {
+      if (this.closed) return;
+      try {
+        const result = JSON.parse(data.toString());
+        const text = result.channel?.alternatives?.[0]?.transcript?.trim();
+        if (result.type === "Results" && text) {
+          this.options.onSegment({ speaker, text, isFinal: !!result.is_final });
+        }
+      } catch (error) {
+        this.options.onError(error as Error);
+      }
+    });
+    socket.on("error", (error) => this.options.onError(error));
+
+    this.sockets.set(speaker, socket);
+    return socket;
+  }
+
+  write(speaker: TranscriptSpeaker, audio: Buffer): void {
+    if (this.closed) return;
+    const socket = this.sockets.get(speaker) ?? this.connect(speaker);
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(audio);
+    } else if (socket.readyState === WebSocket.CONNECTING) {
+      socket.once("open", () => socket.send(audio));
+    }
+  }
+
+  async close(): Promise<void> {
+    // CloseStream makes Deepgram flush its last results before closing
+    await Promise.all(Array.from(this.sockets.values()).map((socket) => new Promise<void>((resolve) => {
+      if (socket.readyState !== WebSocket.OPEN) {
+        socket.terminate();
+        return resolve();
+      }
+      const timeout = setTimeout(() => socket.terminate(), CLOSE_TIMEOUT_MS);
+      socket.once("close", () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+      socket.send(JSON.stringify({ type: "CloseStream" }));
+    })));
+    this.closed = true;
+    this.sockets.clear();
+  }
+}
+
+export class DeepgramProvider implements STTProvider {
+  readonly name = "deepgram";
+  private readonly apiKey: string;
+  private readonly model: string;
+
+  constructor() {
+    this.apiKey = process.env.DEEPGRAM_API_KEY!;
+    this.model = process.env.DEEPGRAM_MODEL || "nova-2";
+
+    if (!this.apiKey) {
+      throw new Error("DEEPGRAM_API_KEY environment variable is required");
+    }
+  }
+
+  startStream(options: STTStreamOptions): STTStream {
+    return new DeepgramStream(this.apiKey, this.model, options);
+  }
+}
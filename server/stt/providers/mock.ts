@@ -0,0 +1,87 @@
+/**
+ * Mock STT provider
+ *
+ * Deterministic stand-in for a recognizer: audio is ignored and each call
+ * plays one of a few scripted dialogues (picked from the call id, so the
+ * same call always produces the same transcript). Every utterance is
+ * announced as an interim half before its final text.
+ */
+
+import { createHash } from "crypto";
+import type {
+  STTProvider,
+  STTStream,
+  STTStreamOptions,
+  TranscriptSpeaker,
+} from "../index.js";
+
+const DEFAULT_INTERVAL_MS = 4000;
+
+const SCRIPTS: [TranscriptSpeaker, string][][] = [
+  [
+    ["agent", "Buenos días, gracias por llamar. ¿En qué puedo ayudarle?"],
+    ["customer", "Hola, quería pedir una cita para la próxima semana."],
+    ["agent", "Claro, ¿qué día le vendría mejor?"],
+    ["customer", "El martes por la mañana, si es posible."],
+    ["agent", "Perfecto, le apunto el martes a las diez."],
+    ["customer", "Muchas gracias, hasta luego."],
+  ],
+  [
+    ["agent", "Hola, le atiende el servicio de soporte. ¿Qué necesita?"],
+    ["customer", "Tengo un problema con mi última factura."],
+    ["agent", "Lo reviso ahora mismo. ¿Me confirma su número de cliente?"],
+    ["customer", "Sí, es el cuatro cinco seis siete."],
+    ["agent", "Ya lo veo, había un cargo duplicado. Lo anulamos hoy."],
+    ["customer", "Estupendo, gracias por la ayuda."],
+  ],
+  [
+    ["agent", "Buenas tardes, ¿en qué le puedo ayudar?"],
+    ["customer", "Quería información sobre sus precios."],
+    ["agent", "Tenemos tres planes; le envío los detalles por correo."],
+    ["customer", "Perfecto, me interesa el plan básico."],
+  ],
+];
+
+function scriptFor(callId: string): [TranscriptSpeaker, string][] {
+  const index = createHash("sha256").update(callId).digest().readUInt32BE(0) % SCRIPTS.length;
+  return SCRIPTS[index];
+}
+
+class MockSTTStream implements STTStream {
+  private readonly timer: ReturnType<typeof setInterval>;
+  private step = 0;
+
+  constructor(private readonly options: STTStreamOptions, intervalMs: number) {
+    const script = scriptFor(options.callId);
+    // Two ticks per utterance: interim half, then the final text
+    this.timer = setInterval(() => {
+      const [speaker, text] = script[Math.floor(this.step / 2)];
+      const isFinal = this.step % 2 === 1;
+      const words = text.split(" ");
+      this.options.onSegment({
+        speaker,
+        text: isFinal ? text : words.slice(0, Math.ceil(words.length / 2)).join(" "),
+        isFinal,
+      });
+      this.step++;
+      if (this.step >= script.length * 2) clearInterval(this.timer);
+    }, intervalMs / 2);
+  }
+
+  write(): void {
+    // Audio is not needed for the scripted dialogue
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.timer);
+  }
+}
+
+export class MockSTTProvider implements STTProvider {
+  readonly name = "mock";
+  private readonly intervalMs = Number(process.env.STT_MOCK_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+
+  startStream(options: STTStreamOptions): STTStream {
+    return new MockSTTStream(options, this.intervalMs);
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Live call transcription into the conversation feed
+ *
+ * Every answered call gets an STT stream (./stt) for as long as it is up;
+ * call events drive it through syncCallTranscription, like agent presence.
+ * Final segments become `messages` rows (from: customer | agent), interim
+ * ones are only pushed to listeners so the call panel can show what is
+ * being said. When the call ends the stream is flushed and the whole feed
+ * is saved as the conversation's transcript.
+ */
+
+import type { Conversation, Message } from "@shared/schema";
+import { storage } from "./storage";
+import { isTerminalStatus } from "./call-state";
+import { getSTTProvider, sttLanguage, type STTStream, type TranscriptSegment, type TranscriptSpeaker } from "./stt";
+
+type TranscriptListener = (
+  conversation: Conversation,
+  segment: TranscriptSegment,
+  message: Message | null, // stored row of a final segment
+) => void;
+
+interface TranscriptionSession {
+  conversation: Conversation;
+  stream: Promise<STTStream | null>;
+  // Final segments are stored in the order they were recognized
+  writes: Promise<void>;
+}
+
+const SPEAKER_LABELS: Record<Message["from"], string> = {
+  customer: "Customer",
+  agent: "Agent",
+  ai: "AI",
+};
+
+const sessions = new Map<string, TranscriptionSession>(); // by conversation id
+const listeners = new Set<TranscriptListener>();
+
+export function onTranscriptSegment(listener: TranscriptListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(conversation: Conversation, segment: TranscriptSegment, message: Message | null): void {
+  listeners.forEach((listener) => listener(conversation, segment, message));
+}
+
+function handleSegment(session: TranscriptionSession, segment: TranscriptSegment): void {
+  const { conversation } = session;
+  if (!segment.isFinal) {
+    notify(conversation, segment, null);
+    return;
+  }
+
+  session.writes = session.writes
+    .then(async () => {
+      const message = await storage.createMessage({
+        conversationId: conversation.id,
+        from: segment.speaker,
+        content: segment.text,
+      });
+      notify(conversation, segment, message);
+    })
+    .catch((error) => console.error("❌ Transcript segment not stored:", error));
+}
+
+function startSession(conversation: Conversation): void {
+  const session: TranscriptionSession = {
+    conversation,
+    stream: Promise.resolve(null),
+    writes: Promise.resolve(),
+  };
+  session.stream = getSTTProvider()
+    .then((provider) => provider.startStream({
+      callId: conversation.callId,
+      language: sttLanguage(),
+      onSegment: (segment) => handleSegment(session, segment),
+      onError: (error) => console.error(`❌ Transcription error on ${conversation.callId}:`, error),
+    }))
+    .catch((error) => {
+      console.error("❌ Transcription not started:", error);
+      return null;
+    });
+  sessions.set(conversation.id, session);
+}
+
+/**
+ * Save the feed of an ended call as its transcript. Returns null when
+ * there is nothing to save (never answered, empty feed, already saved).
+ */
+async function finishCallTranscription(conversation: Conversation): Promise<Conversation | null> {
+  const session = sessions.get(conversation.id);
+  if (session) {
+    sessions.delete(conversation.id);
+    await (await session.stream)?.close();
+    await session.writes;
+  }
+  if (!conversation.answeredAt || conversation.transcribedAt) return null;
+
+  const feed = await storage.getConversationWithMessages(conversation.id, conversation.tenantId);
+  if (!feed || feed.messages.length === 0) return null;
+
+  const transcript = feed.messages
+    .map((message) => `${SPEAKER_LABELS[message.from]}: ${message.content}`)
+    .join("\n");
+  const updated = await storage.saveConversationTranscript(conversation.id, transcript);
+  await storage.createConversationEvent({
+    tenantId: conversation.tenantId,
+    conversationId: conversation.id,
+    type: "transcribed",
+    metadata: { messages: feed.messages.length },
+  });
+  return updated;
+}
+
+/**
+ * Follow a call event: answered calls are transcribed until they end, and
+ * ended calls get their transcript saved. Returns the conversation with
+ * its saved transcript, otherwise null.
+ */
+export async function syncCallTranscription(conversation: Conversation): Promise<Conversation | null> {
+  if (conversation.channel !== "voice") return null;
+  if (isTerminalStatus(conversation.status)) return finishCallTranscription(conversation);
+
+  if (conversation.answeredAt && !sessions.has(conversation.id)) startSession(conversation);
+  return null;
+}
+
+/**
+ * Audio of one leg of a live call (./stt/media.ts). Audio for calls that
+ * are not being transcribed is dropped.
+ */
+export function writeCallAudio(tenantId: string, callId: string, speaker: TranscriptSpeaker, audio: Buffer): void {
+  for (const session of Array.from(sessions.values())) {
+    if (session.conversation.tenantId === tenantId && session.conversation.callId === callId) {
+      session.stream.then((stream) => stream?.write(speaker, audio));
+      return;
+    }
+  }
+}
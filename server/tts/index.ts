@@ -1,78 +1,200 @@
 /**
- * Production-ready TTS (Text-to-Speech) system with provider abstraction
- * 
+ * TTS (Text-to-Speech) with provider abstraction, the counterpart of ../stt
+ *
+ * Tenants may pick their engine (`tenants.tts_provider`); otherwise
+ * TTS_PROVIDER applies. Providers write the audio file in their own format,
+ * so callers give the output path without extension. Outside production,
+ * an engine that is not installed or configured yields a silent
+ * placeholder instead of an error, so prompts can still be tried.
+ *
  * Environment Variables Contract:
  * ==============================
- * TTS_PROVIDER=elevenlabs|google|polly (default: mock for development)
- * 
+ * TTS_PROVIDER=local|elevenlabs|google|polly|mock (default: local)
+ *
+ * Local engine (offline, run as a child process):
+ * - TTS_LOCAL_ENGINE=espeak|piper (default: espeak)
+ * - ESPEAK_BIN (optional, defaults to 'espeak-ng'), ESPEAK_VOICE (optional, defaults to 'es')
+ * - PIPER_BIN (optional, defaults to 'piper'), PIPER_MODEL (required for piper, .onnx voice)
+ * - PIPER_MODEL_MALE (optional, voice for male prompts)
+ * - TTS_LOCAL_TIMEOUT_MS (optional, defaults to 20000)
+ *
  * ElevenLabs Provider:
  * - ELEVENLABS_API_KEY (required)
- * - ELEVENLABS_VOICE_ID (required) 
+ * - ELEVENLABS_VOICE_ID (required)
  * - ELEVENLABS_MODEL (optional, defaults to 'eleven_multilingual_v2')
- * 
+ *
  * Google Cloud TTS:
- * - GOOGLE_APPLICATION_CREDENTIALS (path to service account JSON)
+ * - GOOGLE_TTS_API_KEY, or GOOGLE_APPLICATION_CREDENTIALS (path to service account JSON)
  * - GOOGLE_TTS_LANGUAGE_CODE (optional, defaults to 'es-ES')
- * 
+ * - GOOGLE_TTS_VOICE_FEMALE / GOOGLE_TTS_VOICE_MALE (optional voice names)
+ *
  * AWS Polly:
  * - AWS_ACCESS_KEY_ID (required)
- * - AWS_SECRET_ACCESS_KEY (required) 
+ * - AWS_SECRET_ACCESS_KEY (required)
  * - AWS_REGION (required)
+ * - AWS_SESSION_TOKEN (optional, temporary credentials)
+ * - POLLY_VOICE_FEMALE / POLLY_VOICE_MALE (optional, default 'Lucia' / 'Sergio')
+ * - POLLY_ENGINE (optional, defaults to 'neural')
+ *
+ * Mock (development):
+ * - 2-second silent WAV
  */
 
 import { promises as fs } from 'fs';
 import path from 'path';
+import { TTS_PROVIDERS, TTS_PROVIDER_LABELS, type TtsProviderName, type TtsSettings } from '@shared/schema';
 
 export interface TTSVoiceOptions {
   gender: 'hombre' | 'mujer';
   style: 'neutral' | 'amable' | 'energético';
 }
 
+export type TTSAudioFormat = 'mp3' | 'wav';
+
 export interface TTSResult {
   url: string;
   durationSec: number;
 }
 
 export interface TTSProvider {
+  readonly name: string;
+  readonly format: TTSAudioFormat;
+  // `outPath` ends in `.${format}`
   synthesize(text: string, voice: TTSVoiceOptions, outPath: string): Promise<TTSResult>;
 }
 
+export interface TTSSynthesis extends TTSResult {
+  provider: string;
+  format: TTSAudioFormat;
+}
+
+/**
+ * The engine cannot run here (not installed, missing credentials)
+ */
+export class TTSUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TTSUnavailableError';
+  }
+}
+
+const providers = new Map<string, TTSProvider>();
+
+export function defaultTTSProvider(): string {
+  return process.env.TTS_PROVIDER || 'local';
+}
+
+/**
+ * Provider by name, created once
+ */
+export async function getTTSProvider(name: string): Promise<TTSProvider> {
+  const existing = providers.get(name);
+  if (existing) return existing;
+
+  let provider: TTSProvider;
+  switch (name) {
+    case 'local': {
+      const { LocalTTSProvider } = await import('./providers/local.js');
+      provider = new LocalTTSProvider();
+      break;
+    }
+    case 'elevenlabs': {
+      const { ElevenLabsProvider } = await import('./providers/elevenlabs.js');
+      provider = new ElevenLabsProvider();
+      break;
+    }
+    case 'google': {
+      const { GoogleTTSProvider } = await import('./providers/google.js');
+      provider = new GoogleTTSProvider();
+      break;
+    }
+    case 'polly': {
+      const { PollyTTSProvider } = await import('./providers/polly.js');
+      provider = new PollyTTSProvider();
+      break;
+    }
+    case 'mock':
+      provider = { name: 'mock', format: 'wav', synthesize: (text, _voice, outPath) => createMockTTS(text, outPath) };
+      break;
+    default:
+      throw new Error(`Unsupported TTS provider: ${name}. Supported: local, elevenlabs, google, polly, mock`);
+  }
+  providers.set(name, provider);
+  return provider;
+}
+
+/**
+ * Swap a provider (tests); null drops it so it is created again
+ */
+export function setTTSProvider(name: string, next: TTSProvider | null): void {
+  if (next) providers.set(name, next);
+  else providers.delete(name);
+}
+
 /**
- * Main TTS synthesis function with provider abstraction
+ * Main TTS synthesis function: `provider` is the tenant's choice, if any
  */
 export async function synthesizeTTS(options: {
   text: string;
   voice: TTSVoiceOptions;
-  outPath: string;
-}): Promise<TTSResult> {
-  const provider = process.env.TTS_PROVIDER || 'mock';
-  const isDevelopment = process.env.NODE_ENV !== 'production';
-  
+  outBase: string; // output path without extension
+  provider?: string | null;
+}): Promise<TTSSynthesis> {
+  const name = options.provider || defaultTTSProvider();
+
   // Ensure output directory exists
-  const outputDir = path.dirname(options.outPath);
-  await fs.mkdir(outputDir, { recursive: true });
-  
-  // In development without provider, use mock
-  if (isDevelopment && provider === 'mock') {
-    return createMockTTS(options.text, options.outPath);
+  await fs.mkdir(path.dirname(options.outBase), { recursive: true });
+
+  try {
+    const provider = await getTTSProvider(name);
+    const result = await provider.synthesize(options.text, options.voice, `${options.outBase}.${provider.format}`);
+    return { ...result, provider: provider.name, format: provider.format };
+  } catch (error) {
+    if (!(error instanceof TTSUnavailableError) || process.env.NODE_ENV === 'production') throw error;
+    console.warn(`⚠️ TTS ${name} unavailable, using a silent placeholder: ${error.message}`);
+    const result = await createMockTTS(options.text, `${options.outBase}.wav`);
+    return { ...result, provider: 'mock', format: 'wav' };
   }
-  
-  // Load and use the appropriate provider
-  switch (provider) {
-    case 'elevenlabs':
-      const { ElevenLabsProvider } = await import('./providers/elevenlabs.js');
-      const elevenLabs = new ElevenLabsProvider();
-      return elevenLabs.synthesize(options.text, options.voice, options.outPath);
-      
-    case 'google':
-      throw new Error('Google TTS provider not yet implemented. Set TTS_PROVIDER=elevenlabs or leave unset for development mock.');
-      
-    case 'polly':
-      throw new Error('AWS Polly provider not yet implemented. Set TTS_PROVIDER=elevenlabs or leave unset for development mock.');
-      
-    default:
-      throw new Error(`Unsupported TTS provider: ${provider}. Supported: elevenlabs (google and polly coming soon)`);
+}
+
+/**
+ * Public URL of a file written under uploads/
+ */
+export function uploadsUrl(outPath: string): string {
+  return `/uploads/${path.relative(path.resolve('uploads'), path.resolve(outPath)).split(path.sep).join('/')}`;
+}
+
+/**
+ * Rough length of `text` spoken (~3 words per second), for compressed audio
+ */
+export function estimateSpeechDuration(text: string): number {
+  const wordCount = text.split(/\s+/).filter(Boolean).length;
+  return Math.max(1, Math.ceil(wordCount / 3));
+}
+
+/**
+ * Length of a PCM WAV file from its header; null when it is not one
+ */
+export function wavDurationSec(wav: Buffer): number | null {
+  if (wav.length < 44 || wav.toString('latin1', 0, 4) !== 'RIFF' || wav.toString('latin1', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  // Walk the chunks: "fmt " gives the byte rate, "data" the size
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const id = wav.toString('latin1', offset, offset + 4);
+    const size = wav.readUInt32LE(offset + 4);
+    if (id === 'fmt ') byteRate = wav.readUInt32LE(offset + 16);
+    if (id === 'data' && byteRate > 0) {
+      // Streaming writers leave the size unset
+      const dataSize = size === 0 || size === 0xffffffff ? wav.length - offset - 8 : size;
+      return Math.round((dataSize / byteRate) * 10) / 10;
+    }
+    offset += 8 + size + (size % 2);
   }
+  return null;
 }
 
 /**
@@ -84,15 +206,15 @@ async function createMockTTS(text: string, outPath: string): Promise<TTSResult>
   const duration = 2; // seconds
   const numSamples = sampleRate * duration;
   const numChannels = 1;
-  
+
   // WAV header (44 bytes)
   const buffer = Buffer.alloc(44 + numSamples * 2);
-  
+
   // RIFF header
   buffer.write('RIFF', 0);
   buffer.writeUInt32LE(36 + numSamples * 2, 4);
   buffer.write('WAVE', 8);
-  
+
   // Format chunk
   buffer.write('fmt ', 12);
   buffer.writeUInt32LE(16, 16); // Chunk size
@@ -102,20 +224,18 @@ async function createMockTTS(text: string, outPath: string): Promise<TTSResult>
   buffer.writeUInt32LE(sampleRate * numChannels * 2, 28); // Byte rate
   buffer.writeUInt16LE(numChannels * 2, 32); // Block align
   buffer.writeUInt16LE(16, 34); // Bits per sample
-  
+
   // Data chunk
   buffer.write('data', 36);
   buffer.writeUInt32LE(numSamples * 2, 40);
-  
+
   // Audio data (silence - all zeros)
   buffer.fill(0, 44);
-  
+
   await fs.writeFile(outPath, buffer);
-  
-  // Return mock URL relative to uploads directory
-  const relativePath = path.relative('uploads', outPath);
+
   return {
-    url: `/uploads/${relativePath}`,
+    url: uploadsUrl(outPath),
     durationSec: duration
   };
 }
@@ -124,35 +244,56 @@ async function createMockTTS(text: string, outPath: string): Promise<TTSResult>
  * Validate required environment variables for a provider
  */
 export function validateTTSConfig(provider?: string): { valid: boolean; missing: string[] } {
-  const ttsProvider = provider || process.env.TTS_PROVIDER || 'mock';
+  const ttsProvider = provider || defaultTTSProvider();
   const missing: string[] = [];
-  
+
   switch (ttsProvider) {
+    case 'local':
+      // espeak-ng needs no configuration, only the binary
+      if (process.env.TTS_LOCAL_ENGINE === 'piper' && !process.env.PIPER_MODEL) missing.push('PIPER_MODEL');
+      break;
+
     case 'elevenlabs':
       if (!process.env.ELEVENLABS_API_KEY) missing.push('ELEVENLABS_API_KEY');
       if (!process.env.ELEVENLABS_VOICE_ID) missing.push('ELEVENLABS_VOICE_ID');
       break;
-      
+
     case 'google':
-      if (!process.env.GOOGLE_APPLICATION_CREDENTIALS) missing.push('GOOGLE_APPLICATION_CREDENTIALS');
+      if (!process.env.GOOGLE_TTS_API_KEY && !process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+        missing.push('GOOGLE_TTS_API_KEY or GOOGLE_APPLICATION_CREDENTIALS');
+      }
       break;
-      
+
     case 'polly':
       if (!process.env.AWS_ACCESS_KEY_ID) missing.push('AWS_ACCESS_KEY_ID');
       if (!process.env.AWS_SECRET_ACCESS_KEY) missing.push('AWS_SECRET_ACCESS_KEY');
       if (!process.env.AWS_REGION) missing.push('AWS_REGION');
       break;
-      
+
     case 'mock':
       // No config required for mock
       break;
-      
+
     default:
       missing.push(`Invalid TTS_PROVIDER: ${ttsProvider}`);
   }
-  
+
   return {
     valid: missing.length === 0,
     missing
   };
-}
\ No newline at end of file
+}
+
+/**
+ * A tenant's choice next to the engines the server is configured for
+ */
+export function ttsSettings(provider: TtsProviderName | null): TtsSettings {
+  return {
+    provider,
+    defaultProvider: defaultTTSProvider(),
+    providers: TTS_PROVIDERS.map((name) => {
+      const { valid, missing } = validateTTSConfig(name);
+      return { name, label: TTS_PROVIDER_LABELS[name], configured: valid, missing };
+    }),
+  };
+}
@@ -0,0 +1,173 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { existsSync, promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { Tenant, TtsPrompt } from "@shared/schema";
+import { storage } from "../storage";
+import { setTTSProvider, type TTSProvider } from "./index";
+
+const NOW = new Date("2030-01-07T12:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+// prompts.ts resolves uploads/ against the working directory when loaded
+let prompts: typeof import("./prompts");
+let root: string;
+const previousCwd = process.cwd();
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "prompts-test-"));
+  process.chdir(root);
+  prompts = await import("./prompts");
+});
+
+afterAll(async () => {
+  process.chdir(previousCwd);
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+afterEach(async () => {
+  await fs.rm(path.join(root, "uploads"), { recursive: true, force: true });
+});
+
+// An uploads/ file last written `age` ms before NOW; returns its URL
+async function upload(name: string, age = 2 * DAY): Promise<string> {
+  const file = path.join(root, "uploads", name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, "RIFF");
+  const mtime = new Date(NOW.getTime() - age);
+  await fs.utimes(file, mtime, mtime);
+  return `/uploads/${name}`;
+}
+
+function uploaded(url: string): boolean {
+  return existsSync(path.join(root, url));
+}
+
+function prompt(id: string, audioUrl: string, tenantId = "tenant-1"): TtsPrompt {
+  return { id, tenantId, name: id, text: "Bienvenido a Gueswi", audioUrl, lastUsedAt: new Date(NOW.getTime() - 2 * DAY) } as TtsPrompt;
+}
+
+function greeting(url: string, tenantId = "tenant-1") {
+  return { type: "ivr" as const, id: "menu-1", name: "Menú principal", tenantId, url };
+}
+
+describe("collectPromptGarbage", () => {
+  it("deletes stale prompts no greeting plays, then the files nothing points at", async () => {
+    const unused = await upload("tts/unused.wav");
+    const played = await upload("tts/played.wav");
+    const shared = await upload("tts/shared.wav");
+    const stray = await upload("tts/stray.wav");
+    const recent = await upload("tts/recent.wav", 60_000);
+    const legacy = await upload("ivr/ivr_1700000000.mp3");
+    const voicemail = await upload("ivr/buzon.mp3");
+
+    vi.spyOn(storage, "getGreetingAudioReferences").mockResolvedValue([greeting(played)]);
+    const usedBefore = vi
+      .spyOn(storage, "getTtsPromptsUsedBefore")
+      .mockResolvedValue([prompt("unused", unused), prompt("played", played), prompt("shared", shared)]);
+    const deleted = vi.spyOn(storage, "deleteTtsPrompts").mockResolvedValue();
+    // Another tenant still has the shared audio in its library
+    vi.spyOn(storage, "getTtsPromptAudioUrls").mockResolvedValue([played, shared]);
+
+    expect(await prompts.collectPromptGarbage({ now: NOW })).toEqual({ prompts: 2, files: 3 });
+
+    expect(usedBefore).toHaveBeenCalledWith(new Date(NOW.getTime() - prompts.PROMPT_GRACE_MS), undefined);
+    expect(deleted).toHaveBeenCalledWith(["unused", "shared"]);
+    expect([unused, stray, legacy].map(uploaded)).toEqual([false, false, false]);
+    expect([played, shared, recent, voicemail].map(uploaded)).toEqual([true, true, true, true]);
+  });
+
+  it("keeps a prompt only for the tenant whose greeting plays it", async () => {
+    const audio = await upload("tts/audio.wav");
+    vi.spyOn(storage, "getGreetingAudioReferences").mockResolvedValue([greeting(audio, "tenant-2")]);
+    vi.spyOn(storage, "getTtsPromptsUsedBefore").mockResolvedValue([prompt("prompt-1", audio)]);
+    const deleted = vi.spyOn(storage, "deleteTtsPrompts").mockResolvedValue();
+    vi.spyOn(storage, "getTtsPromptAudioUrls").mockResolvedValue([]);
+
+    expect(await prompts.collectPromptGarbage({ now: NOW })).toEqual({ prompts: 1, files: 0 });
+    expect(deleted).toHaveBeenCalledWith(["prompt-1"]);
+    expect(uploaded(audio)).toBe(true);
+  });
+
+  it("leaves stray files to the daily run when cleaning up one tenant", async () => {
+    const stray = await upload("tts/stray.wav");
+    vi.spyOn(storage, "getGreetingAudioReferences").mockResolvedValue([]);
+    const usedBefore = vi.spyOn(storage, "getTtsPromptsUsedBefore").mockResolvedValue([]);
+    vi.spyOn(storage, "deleteTtsPrompts").mockResolvedValue();
+
+    expect(await prompts.collectPromptGarbage({ tenantId: "tenant-1", now: NOW })).toEqual({ prompts: 0, files: 0 });
+    expect(usedBefore).toHaveBeenCalledWith(expect.any(Date), "tenant-1");
+    expect(uploaded(stray)).toBe(true);
+  });
+});
+
+describe("deletePrompt", () => {
+  it("refuses prompts a greeting plays", async () => {
+    const audio = await upload("tts/audio.wav");
+    vi.spyOn(storage, "getTtsPrompt").mockResolvedValue(prompt("prompt-1", audio));
+    vi.spyOn(storage, "getGreetingAudioReferences").mockResolvedValue([greeting(audio)]);
+    const deleted = vi.spyOn(storage, "deleteTtsPrompts");
+
+    await expect(prompts.deletePrompt("tenant-1", "prompt-1")).rejects.toMatchObject({
+      status: 409,
+      message: "Prompt in use by Menú principal",
+    });
+    expect(deleted).not.toHaveBeenCalled();
+  });
+
+  it("deletes the prompt and its file", async () => {
+    const audio = await upload("tts/audio.wav");
+    vi.spyOn(storage, "getTtsPrompt").mockResolvedValue(prompt("prompt-1", audio));
+    vi.spyOn(storage, "getGreetingAudioReferences").mockResolvedValue([]);
+    const deleted = vi.spyOn(storage, "deleteTtsPrompts").mockResolvedValue();
+    vi.spyOn(storage, "getTtsPromptAudioUrls").mockResolvedValue([]);
+
+    await prompts.deletePrompt("tenant-1", "prompt-1");
+    expect(deleted).toHaveBeenCalledWith(["prompt-1"]);
+    expect(uploaded(audio)).toBe(false);
+  });
+
+  it("answers 404 for prompts of other tenants", async () => {
+    vi.spyOn(storage, "getTtsPrompt").mockResolvedValue(undefined);
+    await expect(prompts.deletePrompt("tenant-1", "prompt-1")).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe("getOrCreatePrompt", () => {
+  const tenant = { id: "tenant-1", ttsProvider: "local" } as Tenant;
+  const request = { text: "Bienvenido a Gueswi", voice: { gender: "mujer", style: "amable" } } as const;
+  const synthesize = vi.fn<TTSProvider["synthesize"]>(async (_text, _voice, outPath) => {
+    await fs.writeFile(outPath, "RIFF");
+    return { url: outPath, durationSec: 2 };
+  });
+
+  beforeAll(() => setTTSProvider("local", { name: "local", format: "wav", synthesize }));
+  afterAll(() => setTTSProvider("local", null));
+
+  it("synthesizes the audio once and stores it under its content hash", async () => {
+    vi.spyOn(storage, "getTtsPromptByHash").mockResolvedValue(undefined);
+    const saved = vi.spyOn(storage, "saveTtsPrompt").mockImplementation(async (data) => data as TtsPrompt);
+
+    const { prompt: created, cached } = await prompts.getOrCreatePrompt(tenant, request);
+    const hash = prompts.promptHash("local", request.voice, request.text);
+    expect(cached).toBe(false);
+    expect(created).toMatchObject({ provider: "local", contentHash: hash, audioUrl: `/uploads/tts/${hash}.wav`, name: request.text });
+    expect(uploaded(created.audioUrl)).toBe(true);
+    expect(saved).toHaveBeenCalledOnce();
+
+    vi.spyOn(storage, "getTtsPromptByHash").mockResolvedValue(created);
+    const touched = vi.spyOn(storage, "touchTtsPrompt").mockResolvedValue();
+    expect(await prompts.getOrCreatePrompt(tenant, request)).toEqual({ prompt: created, cached: true });
+    expect(touched).toHaveBeenCalledOnce();
+    expect(synthesize).toHaveBeenCalledOnce();
+  });
+});
+
+describe("nextCleanupRun", () => {
+  it("runs at CLEANUP_HOUR later the same day, or else the next day", () => {
+    const day = (date: number, hour: number, minute = 0) => new Date(2030, 0, date, hour, minute);
+    expect(prompts.nextCleanupRun(day(7, 1))).toEqual(day(7, prompts.CLEANUP_HOUR));
+    expect(prompts.nextCleanupRun(day(7, prompts.CLEANUP_HOUR))).toEqual(day(8, prompts.CLEANUP_HOUR));
+    expect(prompts.nextCleanupRun(day(31, 23, 30))).toEqual(day(32, prompts.CLEANUP_HOUR));
+  });
+});
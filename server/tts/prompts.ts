@@ -0,0 +1,288 @@
+/**
+ * Prompt library and content-addressed TTS cache
+ *
+ * The audio of a prompt lives at uploads/tts/<hash>.<ext>, the hash covering
+ * engine, voice and text: asking again for the same prompt returns the
+ * stored file instead of synthesizing it. Files are shared between tenants;
+ * each tenant has its own library rows (name, last use) over them. Silent
+ * placeholders (engine unavailable outside production) are stored under the
+ * 'mock' engine, so the real audio is generated once the engine works.
+ *
+ * Garbage collection runs every day at CLEANUP_HOUR (and on demand for a
+ * tenant). It deletes:
+ *   1. prompts no IVR greeting or voicemail greeting plays, unless requested
+ *      within PROMPT_GRACE_MS (audio is generated before the menu is saved)
+ *   2. then the files no prompt or greeting points at, including the
+ *      per-request files (uploads/ivr/ivr_*) written before the cache existed
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  Tenant,
+  TtsLibraryPrompt,
+  TtsPrompt,
+  TtsPromptCleanup,
+  TtsRequest,
+  TtsVoice,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { defaultTTSProvider, synthesizeTTS, uploadsUrl, type TTSVoiceOptions } from './index.js';
+
+export const CLEANUP_HOUR = 4;
+export const PROMPT_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const UPLOADS_DIR = path.resolve('uploads');
+const PROMPTS_DIR = path.join(UPLOADS_DIR, 'tts');
+const LEGACY_DIR = path.join(UPLOADS_DIR, 'ivr');
+const LEGACY_PREFIX = 'ivr_';
+const NAME_LENGTH = 60;
+
+export class PromptError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+    this.name = 'PromptError';
+  }
+}
+
+export interface PromptResult {
+  prompt: TtsPrompt;
+  cached: boolean; // no synthesis was needed
+}
+
+export function promptHash(provider: string, voice: TtsVoice, text: string): string {
+  return createHash('sha256').update(JSON.stringify([provider, voice.gender, voice.style, text])).digest('hex');
+}
+
+// Providers spell the style with its accent
+function providerVoice(voice: TtsVoice): TTSVoiceOptions {
+  return { gender: voice.gender, style: voice.style === 'energetico' ? 'energético' : voice.style };
+}
+
+function defaultName(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > NAME_LENGTH ? `${line.slice(0, NAME_LENGTH - 1)}…` : line;
+}
+
+/**
+ * File behind an /uploads/ URL; null for anything outside uploads/
+ */
+function uploadsFile(url: string): string | null {
+  if (!url.startsWith('/uploads/')) return null;
+  const file = path.resolve(UPLOADS_DIR, decodeURIComponent(url.slice('/uploads/'.length)));
+  return file.startsWith(UPLOADS_DIR + path.sep) ? file : null;
+}
+
+async function audioExists(url: string): Promise<boolean> {
+  const file = uploadsFile(url);
+  if (!file) return false;
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The tenant's prompt for `request`, synthesized only when no stored audio
+ * matches it
+ */
+export async function getOrCreatePrompt(tenant: Tenant, request: TtsRequest): Promise<PromptResult> {
+  const { text, voice } = request;
+  const provider = tenant.ttsProvider || defaultTTSProvider();
+  const contentHash = promptHash(provider, voice, text);
+  const row = {
+    tenantId: tenant.id,
+    name: request.name || defaultName(text),
+    text,
+    voiceGender: voice.gender,
+    voiceStyle: voice.style,
+  };
+
+  const own = await storage.getTtsPromptByHash(contentHash, tenant.id);
+  if (own && (await audioExists(own.audioUrl))) {
+    await storage.touchTtsPrompt(own.id);
+    return { prompt: own, cached: true };
+  }
+
+  // Another tenant already has this audio (same hash, same file)
+  const shared = own ? undefined : await storage.getTtsPromptByHash(contentHash);
+  if (shared && (await audioExists(shared.audioUrl))) {
+    const prompt = await storage.saveTtsPrompt({
+      ...row,
+      provider: shared.provider,
+      contentHash,
+      audioUrl: shared.audioUrl,
+      durationSec: shared.durationSec,
+    });
+    return { prompt, cached: true };
+  }
+
+  // Written under a temporary name and renamed, so a cached file is never partial
+  const outBase = path.join(PROMPTS_DIR, `tmp_${randomUUID()}`);
+  const result = await synthesizeTTS({ text, voice: providerVoice(voice), outBase, provider });
+  const storedHash = result.provider === provider ? contentHash : promptHash(result.provider, voice, text);
+  const file = path.join(PROMPTS_DIR, `${storedHash}.${result.format}`);
+  await fs.rename(`${outBase}.${result.format}`, file);
+
+  const prompt = await storage.saveTtsPrompt({
+    ...row,
+    provider: result.provider,
+    contentHash: storedHash,
+    audioUrl: uploadsUrl(file),
+    durationSec: result.durationSec,
+  });
+  return { prompt, cached: false };
+}
+
+/**
+ * The tenant's prompts with the IVR menus and voicemail boxes playing each
+ */
+export async function getPromptLibrary(tenantId: string): Promise<TtsLibraryPrompt[]> {
+  const [prompts, references] = await Promise.all([
+    storage.getTtsPrompts(tenantId),
+    storage.getGreetingAudioReferences(tenantId),
+  ]);
+
+  return prompts.map((prompt) => ({
+    ...prompt,
+    usedBy: references
+      .filter((reference) => reference.url === prompt.audioUrl)
+      .map(({ type, id, name }) => ({ type, id, name })),
+  }));
+}
+
+/**
+ * Delete a prompt nothing plays, and its file unless another prompt shares it
+ */
+export async function deletePrompt(tenantId: string, id: string): Promise<void> {
+  const prompt = await storage.getTtsPrompt(id, tenantId);
+  if (!prompt) throw new PromptError('Prompt not found', 404);
+
+  const usedBy = (await storage.getGreetingAudioReferences(tenantId)).filter(
+    (reference) => reference.url === prompt.audioUrl,
+  );
+  if (usedBy.length > 0) {
+    throw new PromptError(`Prompt in use by ${usedBy.map((reference) => reference.name).join(', ')}`, 409);
+  }
+
+  await storage.deleteTtsPrompts([prompt.id]);
+  await removeUnreferencedFiles([prompt.audioUrl]);
+}
+
+/**
+ * Delete the files of `urls` that no prompt (of any tenant) or greeting
+ * points at. Returns how many were removed.
+ */
+async function removeUnreferencedFiles(urls: string[]): Promise<number> {
+  if (urls.length === 0) return 0;
+
+  const [promptUrls, references] = await Promise.all([
+    storage.getTtsPromptAudioUrls(),
+    storage.getGreetingAudioReferences(),
+  ]);
+  const kept = new Set([...promptUrls, ...references.map((reference) => reference.url)]);
+
+  let removed = 0;
+  for (const url of Array.from(new Set(urls))) {
+    const file = uploadsFile(url);
+    if (!file || kept.has(url)) continue;
+    try {
+      await fs.unlink(file);
+      removed++;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+  return removed;
+}
+
+/**
+ * URLs of the cache files (and legacy per-request files) older than `before`
+ */
+async function storedAudioBefore(before: Date): Promise<string[]> {
+  const urls: string[] = [];
+
+  for (const [dir, prefix] of [[PROMPTS_DIR, ''], [LEGACY_DIR, LEGACY_PREFIX]] as const) {
+    let names: string[];
+    try {
+      names = await fs.readdir(dir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') continue;
+      throw error;
+    }
+
+    for (const name of names) {
+      if (!name.startsWith(prefix)) continue;
+      const file = path.join(dir, name);
+      const stat = await fs.stat(file).catch(() => null);
+      if (stat?.isFile() && stat.mtime < before) urls.push(uploadsUrl(file));
+    }
+  }
+  return urls;
+}
+
+/**
+ * Garbage-collect prompts and audio files; with `tenantId`, only that
+ * tenant's prompts (stray files are left to the daily run)
+ */
+export async function collectPromptGarbage(
+  options: { tenantId?: string; now?: Date } = {},
+): Promise<TtsPromptCleanup> {
+  const cutoff = new Date((options.now ?? new Date()).getTime() - PROMPT_GRACE_MS);
+
+  const played = new Set(
+    (await storage.getGreetingAudioReferences(options.tenantId)).map(
+      (reference) => `${reference.tenantId}:${reference.url}`,
+    ),
+  );
+  const stale = (await storage.getTtsPromptsUsedBefore(cutoff, options.tenantId)).filter(
+    (prompt) => !played.has(`${prompt.tenantId}:${prompt.audioUrl}`),
+  );
+  await storage.deleteTtsPrompts(stale.map((prompt) => prompt.id));
+
+  const candidates = stale.map((prompt) => prompt.audioUrl);
+  if (!options.tenantId) candidates.push(...(await storedAudioBefore(cutoff)));
+
+  return { prompts: stale.length, files: await removeUnreferencedFiles(candidates) };
+}
+
+/**
+ * First cleanup run strictly after `after`
+ */
+export function nextCleanupRun(after: Date = new Date()): Date {
+  const run = new Date(after);
+  run.setHours(CLEANUP_HOUR, 0, 0, 0);
+  if (run <= after) run.setDate(run.getDate() + 1);
+  return run;
+}
+
+/**
+ * Collect garbage every day at CLEANUP_HOUR. Returns a function that stops it.
+ */
+export function schedulePromptCleanup(): () => void {
+  let timer: ReturnType<typeof setTimeout>;
+
+  const scheduleNext = () => {
+    timer = setTimeout(async () => {
+      try {
+        const result = await collectPromptGarbage();
+        if (result.prompts || result.files) {
+          console.log(`🧹 TTS prompts cleaned up: ${result.prompts} prompts, ${result.files} files`);
+        }
+      } catch (error) {
+        console.error('❌ TTS prompt cleanup failed:', error);
+      }
+      scheduleNext();
+    }, nextCleanupRun().getTime() - Date.now());
+    timer.unref?.();
+  };
+
+  scheduleNext();
+  return () => clearTimeout(timer);
+}
@@ -9,9 +9,11 @@
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import type { TTSProvider, TTSVoiceOptions, TTSResult } from '../index.js';
+import { TTSUnavailableError, type TTSProvider, type TTSVoiceOptions, type TTSResult } from '../index.js';
 
 export class ElevenLabsProvider implements TTSProvider {
+  readonly name = 'elevenlabs';
+  readonly format = 'mp3';
   private readonly apiKey: string;
   private readonly voiceId: string;
   private readonly model: string;
@@ -23,10 +25,10 @@ export class ElevenLabsProvider implements TTSProvider {
     this.model = process.env.ELEVENLABS_MODEL || 'eleven_multilingual_v2';
 
     if (!this.apiKey) {
-      throw new Error('ELEVENLABS_API_KEY environment variable is required');
+      throw new TTSUnavailableError('ELEVENLABS_API_KEY environment variable is required');
     }
     if (!this.voiceId) {
-      throw new Error('ELEVENLABS_VOICE_ID environment variable is required');
+      throw new TTSUnavailableError('ELEVENLABS_VOICE_ID environment variable is required');
     }
   }
 
@@ -0,0 +1,151 @@
+/**
+ * Google Cloud Text-to-Speech Provider
+ *
+ * Calls the REST API (text:synthesize) with an API key or, without one,
+ * an OAuth token obtained with the service account's key (JWT bearer
+ * grant), cached until shortly before it expires.
+ *
+ * Required Environment Variables:
+ * - GOOGLE_TTS_API_KEY: API key restricted to Text-to-Speech, or
+ * - GOOGLE_APPLICATION_CREDENTIALS: Path to the service account JSON
+ * - GOOGLE_TTS_LANGUAGE_CODE: Voice language (optional, defaults to 'es-ES')
+ * - GOOGLE_TTS_VOICE_FEMALE / GOOGLE_TTS_VOICE_MALE: Voice names (optional,
+ *   otherwise Google picks one by gender)
+ */
+
+import { createSign } from 'crypto';
+import { promises as fs } from 'fs';
+import {
+  TTSUnavailableError,
+  estimateSpeechDuration,
+  uploadsUrl,
+  type TTSProvider,
+  type TTSResult,
+  type TTSVoiceOptions,
+} from '../index.js';
+
+const API_URL = 'https://texttospeech.googleapis.com/v1/text:synthesize';
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const SCOPE = 'https://www.googleapis.com/auth/cloud-platform';
+
+interface ServiceAccount {
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+}
+
+function base64Url(data: string | Buffer): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+export class GoogleTTSProvider implements TTSProvider {
+  readonly name = 'google';
+  readonly format = 'mp3';
+  private readonly apiKey: string | undefined;
+  private readonly credentialsPath: string | undefined;
+  private readonly languageCode: string;
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor() {
+    this.apiKey = process.env.GOOGLE_TTS_API_KEY;
+    this.credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+    this.languageCode = process.env.GOOGLE_TTS_LANGUAGE_CODE || 'es-ES';
+
+    if (!this.apiKey && !this.credentialsPath) {
+      throw new TTSUnavailableError('GOOGLE_TTS_API_KEY or GOOGLE_APPLICATION_CREDENTIALS environment variable is required');
+    }
+  }
+
+  async synthesize(text: string, voice: TTSVoiceOptions, outPath: string): Promise<TTSResult> {
+    const voiceName = voice.gender === 'hombre' ? process.env.GOOGLE_TTS_VOICE_MALE : process.env.GOOGLE_TTS_VOICE_FEMALE;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    let url = API_URL;
+    if (this.apiKey) {
+      url += `?key=${encodeURIComponent(this.apiKey)}`;
+    } else {
+      headers.Authorization = `Bearer ${await this.accessToken()}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        input: { text },
+        voice: {
+          languageCode: this.languageCode,
+          ...(voiceName ? { name: voiceName } : { ssmlGender: voice.gender === 'hombre' ? 'MALE' : 'FEMALE' }),
+        },
+        audioConfig: { audioEncoding: 'MP3', ...this.mapAudioConfig(voice) },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Google TTS API error: ${response.status} ${errorText.slice(0, 500)}`);
+    }
+
+    const data = await response.json();
+    if (typeof data?.audioContent !== 'string') {
+      throw new Error('Google TTS response has no audio');
+    }
+    await fs.writeFile(outPath, Buffer.from(data.audioContent, 'base64'));
+
+    return {
+      url: uploadsUrl(outPath),
+      durationSec: estimateSpeechDuration(text),
+    };
+  }
+
+  /**
+   * Map the voice style to speaking rate and pitch (semitones)
+   */
+  private mapAudioConfig(voice: TTSVoiceOptions) {
+    switch (voice.style) {
+      case 'amable':
+        return { speakingRate: 0.95, pitch: 1 };
+      case 'energético':
+        return { speakingRate: 1.1, pitch: 2 };
+      default:
+        return { speakingRate: 1, pitch: 0 };
+    }
+  }
+
+  private async accessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now() + 60_000) return this.token.value;
+
+    let account: ServiceAccount;
+    try {
+      account = JSON.parse(await fs.readFile(this.credentialsPath!, 'utf8'));
+    } catch (error) {
+      throw new TTSUnavailableError(`Cannot read GOOGLE_APPLICATION_CREDENTIALS: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const tokenUrl = account.token_uri || TOKEN_URL;
+    const now = Math.floor(Date.now() / 1000);
+    const unsigned = `${base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))}.${base64Url(JSON.stringify({
+      iss: account.client_email,
+      scope: SCOPE,
+      aud: tokenUrl,
+      iat: now,
+      exp: now + 3600,
+    }))}`;
+    const signature = createSign('RSA-SHA256').update(unsigned).sign(account.private_key);
+
+    const response = await fetch(tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: `${unsigned}.${base64Url(signature)}`,
+      }),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Google OAuth error: ${response.status} ${errorText.slice(0, 500)}`);
+    }
+
+    const data = await response.json();
+    this.token = { value: data.access_token, expiresAt: Date.now() + (Number(data.expires_in) || 3600) * 1000 };
+    return this.token.value;
+  }
+}
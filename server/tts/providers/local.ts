@@ -0,0 +1,112 @@
+/**
+ * Local TTS engine (offline): espeak-ng or Piper run as a child process
+ *
+ * The text goes in on stdin and the engine writes a WAV file. espeak-ng is
+ * robotic but ships with most Linux distributions; Piper sounds natural
+ * and needs a downloaded voice model.
+ *
+ * Environment Variables:
+ * - TTS_LOCAL_ENGINE: espeak|piper (optional, defaults to 'espeak')
+ * - ESPEAK_BIN: Binary (optional, defaults to 'espeak-ng')
+ * - ESPEAK_VOICE: Language voice (optional, defaults to 'es')
+ * - PIPER_BIN: Binary (optional, defaults to 'piper')
+ * - PIPER_MODEL: Path to the .onnx voice (required for piper)
+ * - PIPER_MODEL_MALE: Voice for male prompts (optional, defaults to PIPER_MODEL)
+ * - TTS_LOCAL_TIMEOUT_MS: Time limit per prompt (optional, defaults to 20000)
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import {
+  TTSUnavailableError,
+  estimateSpeechDuration,
+  uploadsUrl,
+  wavDurationSec,
+  type TTSProvider,
+  type TTSResult,
+  type TTSVoiceOptions,
+} from '../index.js';
+
+type LocalEngine = 'espeak' | 'piper';
+
+// Words per minute (espeak) and length scale (piper, >1 is slower) per style
+const ESPEAK_SPEED: Record<TTSVoiceOptions['style'], number> = { neutral: 160, amable: 145, energético: 180 };
+const PIPER_LENGTH_SCALE: Record<TTSVoiceOptions['style'], number> = { neutral: 1, amable: 1.1, energético: 0.9 };
+
+function run(command: string, args: string[], input: string, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`${command} timed out after ${timeoutMs} ms`));
+    }, timeoutMs);
+
+    child.stderr.on('data', (chunk) => {
+      stderr = (stderr + chunk).slice(-1000);
+    });
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(error.code === 'ENOENT'
+        ? new TTSUnavailableError(`${command} is not installed (see TTS_LOCAL_ENGINE)`)
+        : error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+    });
+
+    // A missing binary closes stdin before the write; the error event reports it
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+  });
+}
+
+export class LocalTTSProvider implements TTSProvider {
+  readonly name = 'local';
+  readonly format = 'wav';
+  private readonly engine: LocalEngine;
+  private readonly timeoutMs: number;
+
+  constructor() {
+    const engine = process.env.TTS_LOCAL_ENGINE || 'espeak';
+    if (engine !== 'espeak' && engine !== 'piper') {
+      throw new Error(`Unsupported TTS_LOCAL_ENGINE: ${engine}. Supported: espeak, piper`);
+    }
+    if (engine === 'piper' && !process.env.PIPER_MODEL) {
+      throw new TTSUnavailableError('PIPER_MODEL environment variable is required for the piper engine');
+    }
+    this.engine = engine;
+    this.timeoutMs = parseInt(process.env.TTS_LOCAL_TIMEOUT_MS || '', 10) || 20000;
+  }
+
+  async synthesize(text: string, voice: TTSVoiceOptions, outPath: string): Promise<TTSResult> {
+    if (this.engine === 'piper') {
+      const model = voice.gender === 'hombre' && process.env.PIPER_MODEL_MALE
+        ? process.env.PIPER_MODEL_MALE
+        : process.env.PIPER_MODEL!;
+      await run(
+        process.env.PIPER_BIN || 'piper',
+        ['--model', model, '--output_file', outPath, '--length_scale', String(PIPER_LENGTH_SCALE[voice.style])],
+        text,
+        this.timeoutMs,
+      );
+    } else {
+      // espeak-ng variants: f3 / m3 are the most natural female and male ones
+      const variant = voice.gender === 'hombre' ? 'm3' : 'f3';
+      await run(
+        process.env.ESPEAK_BIN || 'espeak-ng',
+        ['-v', `${process.env.ESPEAK_VOICE || 'es'}+${variant}`, '-s', String(ESPEAK_SPEED[voice.style]), '-w', outPath, '--stdin'],
+        text,
+        this.timeoutMs,
+      );
+    }
+
+    const audio = await fs.readFile(outPath);
+    return {
+      url: uploadsUrl(outPath),
+      durationSec: wavDurationSec(audio) ?? estimateSpeechDuration(text),
+    };
+  }
+}
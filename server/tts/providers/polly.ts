@@ -0,0 +1,126 @@
+/**
+ * AWS Polly TTS Provider
+ *
+ * Calls SynthesizeSpeech over REST, signed with AWS Signature Version 4.
+ * The style becomes an SSML speaking rate (neural voices ignore pitch).
+ *
+ * Required Environment Variables:
+ * - AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_REGION
+ * - AWS_SESSION_TOKEN: Temporary credentials (optional)
+ * - POLLY_VOICE_FEMALE / POLLY_VOICE_MALE: Voice ids (optional, default 'Lucia' / 'Sergio')
+ * - POLLY_ENGINE: standard|neural|generative (optional, defaults to 'neural')
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import {
+  TTSUnavailableError,
+  estimateSpeechDuration,
+  uploadsUrl,
+  type TTSProvider,
+  type TTSResult,
+  type TTSVoiceOptions,
+} from '../index.js';
+
+const SPEAKING_RATE: Record<TTSVoiceOptions['style'], string> = { neutral: '100%', amable: '95%', energético: '110%' };
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+export class PollyTTSProvider implements TTSProvider {
+  readonly name = 'polly';
+  readonly format = 'mp3';
+  private readonly accessKeyId: string;
+  private readonly secretAccessKey: string;
+  private readonly sessionToken: string | undefined;
+  private readonly region: string;
+  private readonly engine: string;
+
+  constructor() {
+    this.accessKeyId = process.env.AWS_ACCESS_KEY_ID!;
+    this.secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY!;
+    this.sessionToken = process.env.AWS_SESSION_TOKEN;
+    this.region = process.env.AWS_REGION!;
+    this.engine = process.env.POLLY_ENGINE || 'neural';
+
+    if (!this.accessKeyId || !this.secretAccessKey || !this.region) {
+      throw new TTSUnavailableError('AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY and AWS_REGION environment variables are required');
+    }
+  }
+
+  async synthesize(text: string, voice: TTSVoiceOptions, outPath: string): Promise<TTSResult> {
+    const voiceId = voice.gender === 'hombre'
+      ? process.env.POLLY_VOICE_MALE || 'Sergio'
+      : process.env.POLLY_VOICE_FEMALE || 'Lucia';
+    const body = JSON.stringify({
+      Engine: this.engine,
+      OutputFormat: 'mp3',
+      Text: `<speak><prosody rate="${SPEAKING_RATE[voice.style]}">${escapeXml(text)}</prosody></speak>`,
+      TextType: 'ssml',
+      VoiceId: voiceId,
+    });
+
+    const host = `polly.${this.region}.amazonaws.com`;
+    const response = await fetch(`https://${host}/v1/speech`, {
+      method: 'POST',
+      headers: this.signedHeaders(host, '/v1/speech', body),
+      body,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`AWS Polly API error: ${response.status} ${errorText.slice(0, 500)}`);
+    }
+
+    await fs.writeFile(outPath, Buffer.from(await response.arrayBuffer()));
+    return {
+      url: uploadsUrl(outPath),
+      durationSec: estimateSpeechDuration(text),
+    };
+  }
+
+  /**
+   * Headers of a POST signed with SigV4 for the polly service
+   */
+  private signedHeaders(host: string, path: string, body: string): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+      host,
+      'x-amz-date': amzDate,
+      ...(this.sessionToken ? { 'x-amz-security-token': this.sessionToken } : {}),
+    };
+
+    const names = Object.keys(headers).sort();
+    const signedHeaderNames = names.join(';');
+    const canonicalRequest = [
+      'POST',
+      path,
+      '',
+      names.map((name) => `${name}:${headers[name]}\n`).join(''),
+      signedHeaderNames,
+      sha256(body),
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.region}/polly/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.secretAccessKey}`, dateStamp), this.region), 'polly'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host: _host, ...sent } = headers;
+    return {
+      ...sent,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames}, Signature=${signature}`,
+    };
+  }
+}
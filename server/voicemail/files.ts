@@ -0,0 +1,29 @@
+/**
+ * On-disk layout of voicemail messages
+ *
+ * Same scheme as call recordings (../recordings/files.ts), under its own
+ * root VOICEMAIL_DIR:
+ *   <VOICEMAIL_DIR>/<tenantId>/<yyyy>/<mm>/<messageId>.<ext>
+ */
+
+import path from "path";
+
+export const VOICEMAIL_DIR = path.resolve(process.env.VOICEMAIL_DIR || "storage/voicemail");
+
+export function voicemailStreamUrl(messageId: string): string {
+  return `/api/voicemail/${messageId}/audio`;
+}
+
+/**
+ * Absolute path of a tenant's voicemail audio; throws when `storagePath`
+ * escapes the tenant directory.
+ */
+export function resolveVoicemailFile(tenantId: string, storagePath: string): string {
+  const tenantDir = path.join(VOICEMAIL_DIR, tenantId);
+  const absPath = path.resolve(VOICEMAIL_DIR, storagePath);
+
+  if (!absPath.startsWith(tenantDir + path.sep)) {
+    throw new Error("Voicemail path outside tenant storage");
+  }
+  return absPath;
+}
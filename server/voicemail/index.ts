@@ -0,0 +1,158 @@
+/**
+ * Voicemail boxes: one per extension
+ *
+ * The PBX records the message after the box greeting (custom
+ * `voicemailGreetingUrl`, usually generated with /api/ivr/tts) and posts
+ * the audio to /webhook/pbx/voicemail; phone access to the box checks the
+ * extension's numeric `voicemailPin` through /webhook/pbx/voicemail/auth.
+ * In development, inbound calls sent to voicemail get a silent placeholder
+ * message so the inbox can be exercised locally.
+ *
+ * New messages are optionally copied by email to `voicemailEmail`.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID, timingSafeEqual } from "crypto";
+import type { Request, Response } from "express";
+import type { Conversation, Extension, VoicemailMessage } from "@shared/schema";
+import config from "../config";
+import { storage } from "../storage";
+import {
+  createMockRecording,
+  downloadRecording,
+  streamAudioFile,
+  type RecordingAudio,
+  type RecordingAudioSource,
+} from "../recordings";
+import { recordingExtension, recordingStoragePath } from "../recordings/files";
+import { resolveVoicemailFile, voicemailStreamUrl } from "./files";
+
+// Development placeholders, whatever the caller would have said
+const MOCK_MESSAGE_SEC = 8;
+
+export interface NewVoicemailMessage {
+  extension: Extension;
+  conversation?: Conversation | null;
+  callerNumber?: string | null;
+  callerName?: string | null;
+  // Provider media; without it only development stores a placeholder
+  source?: RecordingAudioSource;
+}
+
+type VoicemailListener = (message: VoicemailMessage, extension: Extension) => void;
+
+const listeners = new Set<VoicemailListener>();
+
+export function onVoicemailMessage(listener: VoicemailListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Store a message left in `extension`'s box. Returns null when the box is
+ * disabled or there is no audio to store.
+ */
+export async function storeVoicemailMessage(input: NewVoicemailMessage): Promise<VoicemailMessage | null> {
+  const { extension, conversation } = input;
+  if (!extension.voicemailEnabled) return null;
+
+  let audio: RecordingAudio;
+  let durationSec: number;
+  if (input.source) {
+    audio = await downloadRecording(input.source);
+    durationSec = input.source.durationSec ?? 0;
+  } else if (config.isDevelopment) {
+    audio = createMockRecording(MOCK_MESSAGE_SEC);
+    durationSec = MOCK_MESSAGE_SEC;
+  } else {
+    return null;
+  }
+
+  const id = randomUUID();
+  const storagePath = recordingStoragePath(extension.tenantId, `${id}${recordingExtension(audio.mimeType)}`);
+  const absPath = resolveVoicemailFile(extension.tenantId, storagePath);
+
+  await fs.mkdir(path.dirname(absPath), { recursive: true });
+  await fs.writeFile(absPath, audio.data);
+
+  let message: VoicemailMessage;
+  try {
+    message = await storage.createVoicemailMessage({
+      id,
+      tenantId: extension.tenantId,
+      extensionId: extension.id,
+      conversationId: conversation?.id ?? null,
+      callerNumber: input.callerNumber ?? conversation?.phoneNumber ?? null,
+      callerName: input.callerName ?? null,
+      durationSec,
+      sizeBytes: audio.data.length,
+      url: voicemailStreamUrl(id),
+      storagePath,
+      mimeType: audio.mimeType,
+    });
+  } catch (error) {
+    await fs.unlink(absPath).catch(() => {});
+    throw error;
+  }
+
+  listeners.forEach((listener) => listener(message, extension));
+
+  if (extension.voicemailEmail) {
+    emailVoicemailCopy(message, extension).catch((error) =>
+      console.error("❌ Voicemail email failed:", error),
+    );
+  }
+  return message;
+}
+
+async function emailVoicemailCopy(message: VoicemailMessage, extension: Extension): Promise<void> {
+  // email.ts throws at import time without an email configuration
+  const { sendCustomEmail } = await import("../email");
+
+  const caller = message.callerName
+    ? `${message.callerName} (${message.callerNumber ?? "unknown"})`
+    : message.callerNumber ?? "Unknown caller";
+  const inboxUrl = `${config.webhooks.baseUrl}/inbox`;
+
+  const result = await sendCustomEmail({
+    to: extension.voicemailEmail!,
+    subject: `New voicemail for extension ${extension.number} from ${caller}`,
+    text: [
+      `You have a new voicemail in extension ${extension.number} (${extension.userName}).`,
+      "",
+      `From: ${caller}`,
+      `Duration: ${message.durationSec}s`,
+      `Received: ${message.createdAt.toISOString()}`,
+      "",
+      `Listen to it in your inbox: ${inboxUrl}`,
+    ].join("\n"),
+  });
+  if (!result.success) throw new Error(result.error || "Email not sent");
+
+  await storage.updateVoicemailMessage(message.id, { emailedAt: new Date() });
+}
+
+/**
+ * Dial-in box access: compare the PIN in constant time
+ */
+export function verifyVoicemailPin(extension: Extension, pin: string): boolean {
+  const expected = Buffer.from(extension.voicemailPin);
+  const given = Buffer.from(String(pin));
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+export async function streamVoicemail(req: Request, res: Response, message: VoicemailMessage): Promise<void> {
+  const absPath = resolveVoicemailFile(message.tenantId, message.storagePath);
+  await streamAudioFile(req, res, {
+    absPath,
+    mimeType: message.mimeType,
+    downloadName: `voicemail-${(message.callerNumber || "").replace(/[^0-9A-Za-z+]/g, "") || message.id}${path.extname(absPath)}`,
+  });
+}
+
+export async function deleteVoicemailAudio(message: VoicemailMessage): Promise<void> {
+  await fs.unlink(resolveVoicemailFile(message.tenantId, message.storagePath)).catch(() => {});
+}
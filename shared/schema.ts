@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, decimal, uuid, jsonb, date, numeric, primaryKey, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, decimal, real, uuid, jsonb, date, numeric, primaryKey, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -22,6 +22,20 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Speech synthesis engines a tenant can pick for its prompts (see server/tts);
+// without a choice the TTS_PROVIDER of the server is used
+export const TTS_PROVIDERS = ["local", "elevenlabs", "google", "polly"] as const;
+export type TtsProviderName = typeof TTS_PROVIDERS[number];
+export const TTS_PROVIDER_LABELS: Record<TtsProviderName, string> = {
+  local: "Motor local (espeak-ng / Piper)",
+  elevenlabs: "ElevenLabs",
+  google: "Google Cloud Text-to-Speech",
+  polly: "Amazon Polly",
+};
+// Voices of generated prompts (IVR greetings, voicemail greetings)
+export const TTS_VOICE_GENDERS = ["hombre", "mujer"] as const;
+export const TTS_VOICE_STYLES = ["neutral", "amable", "energetico"] as const;
+
 // Tenants table
 export const tenants = pgTable("tenants", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -31,10 +45,22 @@ export const tenants = pgTable("tenants", {
   estimatedExtensions: integer("estimated_extensions"),
   plan: text("plan", { enum: ["starter", "growth"] }).default("starter").notNull(),
   status: text("status", { enum: ["active", "inactive", "suspended"] }).default("inactive").notNull(),
+  recordingRetentionDays: integer("recording_retention_days"), // null keeps recordings forever
+  ttsProvider: text("tts_provider", { enum: TTS_PROVIDERS }), // null: the server's TTS_PROVIDER
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Agent presence, see server/agent-presence.ts. busy and after_call_work are
+// driven by call events; agents pick the others themselves.
+export const AGENT_PRESENCE_STATES = ["available", "busy", "after_call_work", "break", "offline"] as const;
+export type AgentPresence = typeof AGENT_PRESENCE_STATES[number];
+export const MANUAL_PRESENCE_STATES = ["available", "break", "offline"] as const;
+
+// PBX provisioning state of extensions and IVR menus, see server/pbx
+export const PROVISIONING_STATUSES = ["pending", "provisioned", "failed"] as const;
+export type ProvisioningStatus = typeof PROVISIONING_STATUSES[number];
+
 // Extensions table (enhanced for telephony)
 export const extensions = pgTable("extensions", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -44,7 +70,21 @@ export const extensions = pgTable("extensions", {
   tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
   status: text("status", { enum: ["ACTIVE", "INACTIVE"] }).default("ACTIVE").notNull(),
   lastSeenAt: timestamp("last_seen_at"),
+  presence: text("presence", { enum: AGENT_PRESENCE_STATES }).default("available").notNull(),
+  presenceChangedAt: timestamp("presence_changed_at").defaultNow().notNull(),
+  // After-call work (wrap-up) length; 0 goes straight back to available
+  wrapUpSec: integer("wrap_up_sec").default(30).notNull(),
+  wrapUpUntil: timestamp("wrap_up_until"),
   sipPassword: text("sip_password").notNull(),
+  // Voicemail box: numeric PIN for phone access (reset with the SIP password),
+  // optional greeting audio and copy of new messages by email
+  voicemailEnabled: boolean("voicemail_enabled").default(true).notNull(),
+  voicemailPin: text("voicemail_pin").default(sql`lpad(floor(random() * 1000000)::text, 6, '0')`).notNull(),
+  voicemailGreetingUrl: text("voicemail_greeting_url"),
+  voicemailEmail: text("voicemail_email"),
+  provisioningStatus: text("provisioning_status", { enum: PROVISIONING_STATUSES }).default("pending").notNull(),
+  provisioningError: text("provisioning_error"),
+  provisionedAt: timestamp("provisioned_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -69,12 +109,38 @@ export const bankTransfers = pgTable("bank_transfers", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-// Call records (mock)
+// Per-plan call pricing used to cost call detail records (server/call-records.ts).
+// Per-minute rates in USD; billable time rounds up to billingIncrementSec.
+export interface CallRateTable {
+  monthlyFee: number;
+  perMinute: Record<"incoming" | "outgoing" | "internal", number>;
+  aiPerMinute: number;
+  billingIncrementSec: number;
+}
+
+export const CALL_RATES: Record<"starter" | "growth", CallRateTable> = {
+  starter: {
+    monthlyFee: 15,
+    perMinute: { incoming: 0.01, outgoing: 0.02, internal: 0 },
+    aiPerMinute: 0.06,
+    billingIncrementSec: 60,
+  },
+  growth: {
+    monthlyFee: 25,
+    perMinute: { incoming: 0.008, outgoing: 0.015, internal: 0 },
+    aiPerMinute: 0.04,
+    billingIncrementSec: 6,
+  },
+};
+
+// Call detail records, one per ended conversation
 export const callRecords = pgTable("call_records", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
   extensionId: uuid("extension_id").references(() => extensions.id),
+  conversationId: uuid("conversation_id").references(() => conversations.id, { onDelete: "set null" }).unique(),
   duration: integer("duration"), // in seconds
+  billableSec: integer("billable_sec").default(0).notNull(),
   callType: text("call_type", { enum: ["incoming", "outgoing", "internal"] }).notNull(),
   aiProcessed: boolean("ai_processed").default(false),
   aiDuration: integer("ai_duration"), // AI processing duration in seconds
@@ -92,68 +158,390 @@ export const aiMetrics = pgTable("ai_metrics", {
   totalCost: decimal("total_cost", { precision: 10, scale: 2 }).default("0"),
   language: text("language").default("es"),
   success_rate: decimal("success_rate", { precision: 5, scale: 2 }).default("0"),
+  // LLM usage of the day (server/llm)
+  llmRequests: integer("llm_requests").default(0).notNull(),
+  llmFailures: integer("llm_failures").default(0).notNull(),
+  promptTokens: integer("prompt_tokens").default(0).notNull(),
+  completionTokens: integer("completion_tokens").default(0).notNull(),
+});
+
+// AI voice agents: the persona, model settings and permitted actions of the
+// assistant a call is handed to (IVR `ai_agent` options and inbound numbers
+// reference one by id, see server/ai-agents.ts)
+export const AI_AGENT_ACTIONS = [
+  "transfer_to_queue",
+  "transfer_to_extension",
+  "book_appointment",
+  "create_lead",
+  "end_call",
+] as const;
+export type AiAgentAction = typeof AI_AGENT_ACTIONS[number];
+export const AI_AGENT_ACTION_LABELS: Record<AiAgentAction, string> = {
+  transfer_to_queue: "Transferir a una cola",
+  transfer_to_extension: "Transferir a una extensión",
+  book_appointment: "Reservar citas",
+  create_lead: "Crear leads",
+  end_call: "Finalizar la llamada",
+};
+
+export const aiAgents = pgTable("ai_agents", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  name: text("name").notNull(),
+  systemPrompt: text("system_prompt").notNull(),
+  greeting: text("greeting"), // first words said to the caller
+  language: text("language").default("es-ES").notNull(), // speech recognition and <Say> locale
+  voice: text("voice").default("Polly.Lupe-Neural").notNull(), // Twilio <Say> voice
+  model: text("model").default("gpt-4o-mini").notNull(),
+  temperature: real("temperature").default(0.7).notNull(),
+  maxTokens: integer("max_tokens").default(150).notNull(),
+  allowedActions: text("allowed_actions", { enum: AI_AGENT_ACTIONS }).array().default(sql`'{}'::text[]`).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Knowledge base of the AI agents: uploaded files and FAQs are split into
+// chunks (embedded when an embedding provider is configured) and the
+// passages matching what the caller says go into the agent's prompt
+// (see server/knowledge)
+export const KNOWLEDGE_SOURCES = ["pdf", "text", "markdown", "faq"] as const;
+export type KnowledgeSource = typeof KNOWLEDGE_SOURCES[number];
+
+export const knowledgeDocuments = pgTable("knowledge_documents", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id, { onDelete: "cascade" }).notNull(),
+  title: text("title").notNull(), // file name or FAQ question
+  source: text("source", { enum: KNOWLEDGE_SOURCES }).notNull(),
+  content: text("content").notNull(), // extracted text or FAQ answer
+  status: text("status", { enum: ["processing", "ready", "failed"] }).default("processing").notNull(),
+  error: text("error"),
+  chunkCount: integer("chunk_count").default(0).notNull(),
+  embeddingModel: text("embedding_model"), // null: chunks only searchable lexically
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const knowledgeChunks = pgTable("knowledge_chunks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id, { onDelete: "cascade" }).notNull(),
+  documentId: uuid("document_id").references(() => knowledgeDocuments.id, { onDelete: "cascade" }).notNull(),
+  position: integer("position").notNull(),
+  content: text("content").notNull(),
+  embedding: real("embedding").array(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // IVR Menu table
+// IVR menu options and business-hours routing (stored as JSON on ivr_menus)
+export type IvrAction = "transfer" | "queue" | "hangup" | "repeat" | "submenu" | "ai_agent";
+export type IvrMenuOption = {
+  key: string; // DTMF digit, or "default" for missing/invalid input
+  action: IvrAction;
+  destination: string; // extension/queue/number, or the ivr_menus id for "submenu"
+  description?: string;
+};
+export type IvrBranchAction = {
+  action: Exclude<IvrAction, "repeat">;
+  destination?: string;
+  message?: string; // spoken before the action
+};
+// Same per-weekday block format as locations.operatingHours (0 = Sunday)
+export type DaySchedule = { enabled: boolean; blocks: { start: string; end: string }[] };
+export type OperatingHours = Record<number, DaySchedule>;
+export type IvrBusinessHours = {
+  enabled: boolean;
+  timezone: string;
+  operatingHours: OperatingHours;
+  holidays: string[]; // YYYY-MM-DD in `timezone`
+  closed: IvrBranchAction;
+  holiday?: IvrBranchAction | null; // defaults to `closed`
+};
+
 export const ivrMenus = pgTable("ivr_menus", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
   name: text("name").notNull(),
   greetingText: text("greeting_text"),
   greetingAudioUrl: text("greeting_audio_url"),
-  greetingVoiceGender: text("greeting_voice_gender", { enum: ["hombre", "mujer"] }),
-  greetingVoiceStyle: text("greeting_voice_style", { enum: ["neutral", "amable", "energetico"] }),
+  greetingVoiceGender: text("greeting_voice_gender", { enum: TTS_VOICE_GENDERS }),
+  greetingVoiceStyle: text("greeting_voice_style", { enum: TTS_VOICE_STYLES }),
   menuOptions: jsonb("menu_options").default(sql`'[]'::jsonb`),
+  businessHours: jsonb("business_hours").$type<IvrBusinessHours | null>(),
+  provisioningStatus: text("provisioning_status", { enum: PROVISIONING_STATUSES }).default("pending").notNull(),
+  provisioningError: text("provisioning_error"),
+  provisionedAt: timestamp("provisioned_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Prompt library: audio synthesized for a tenant, content-addressed by
+// engine + voice + text so asking again for the same prompt reuses the file
+// (uploads/tts/<content_hash>.<ext>, shared between tenants). Prompts no IVR
+// or voicemail greeting plays are garbage collected (see server/tts/prompts.ts)
+export const ttsPrompts = pgTable("tts_prompts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  text: text("text").notNull(),
+  voiceGender: text("voice_gender", { enum: TTS_VOICE_GENDERS }).notNull(),
+  voiceStyle: text("voice_style", { enum: TTS_VOICE_STYLES }).notNull(),
+  provider: text("provider").notNull(), // engine that produced the audio ("mock": silent placeholder)
+  contentHash: text("content_hash").notNull(),
+  audioUrl: text("audio_url").notNull(),
+  durationSec: real("duration_sec").notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  tenantContentUnique: unique().on(table.tenantId, table.contentHash),
+}));
+
+// Inbound phone numbers (DID) → tenant IVR or AI agent routing
+export const inboundNumbers = pgTable("inbound_numbers", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  phoneNumber: text("phone_number").notNull().unique(), // normalized E.164, e.g. +34910000000
+  label: text("label"),
+  ivrMenuId: uuid("ivr_menu_id").references(() => ivrMenus.id, { onDelete: "set null" }),
+  aiAgentId: uuid("ai_agent_id").references(() => aiAgents.id, { onDelete: "set null" }), // answers when there is no IVR
+  isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 // Queue table
+export const QUEUE_STRATEGIES = ["ring_all", "round_robin", "longest_idle", "least_calls"] as const;
+export type QueueStrategy = typeof QUEUE_STRATEGIES[number];
+
 export const queues = pgTable("queues", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
   name: text("name").notNull(),
-  waiting: integer("waiting").default(0).notNull(),
-  avgWaitSec: integer("avg_wait_sec").default(0).notNull(),
+  strategy: text("strategy", { enum: QUEUE_STRATEGIES }).default("ring_all").notNull(),
+  ringTimeoutSec: integer("ring_timeout_sec").default(20).notNull(),
+  maxWaitSec: integer("max_wait_sec").default(300).notNull(),
+  overflowTarget: text("overflow_target"), // extension number, queue name or external number; null hangs up
+  lastMemberId: uuid("last_member_id"), // round-robin cursor
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Queue membership (agents are extensions; the user comes from the extension)
+export const queueMembers = pgTable("queue_members", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  queueId: uuid("queue_id").references(() => queues.id, { onDelete: "cascade" }).notNull(),
+  extensionId: uuid("extension_id").references(() => extensions.id, { onDelete: "cascade" }).notNull(),
+  priority: integer("priority").default(0).notNull(), // lower rings first within the strategy order
+  isPaused: boolean("is_paused").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  queueExtensionUnique: unique().on(table.queueId, table.extensionId),
+}));
+
 // Recording table
+// Recording retention choices (days) and storage quota per plan, enforced by
+// the daily purge (server/recordings/retention.ts)
+export const RECORDING_RETENTION_DAYS = [30, 90, 365] as const;
+export const RECORDING_QUOTA_BYTES: Record<"starter" | "growth", number> = {
+  starter: 2 * 1024 ** 3,
+  growth: 20 * 1024 ** 3,
+};
+
+// Audio lives outside the public uploads mount (see server/recordings); `url`
+// is the authenticated streaming endpoint
 export const recordings = pgTable("recordings", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  conversationId: uuid("conversation_id").references(() => conversations.id, { onDelete: "set null" }).unique(),
   callId: text("call_id").notNull(),
   startedAt: timestamp("started_at").notNull(),
   durationSec: integer("duration_sec").notNull(),
   sizeBytes: integer("size_bytes").notNull(),
   url: text("url").notNull(),
+  storagePath: text("storage_path"), // relative to the recordings root, always under <tenantId>/
+  mimeType: text("mime_type").default("audio/wav").notNull(),
+  placeholder: boolean("placeholder").default(false).notNull(), // development silence, replaced by provider media
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Voicemail messages left in an extension's box; audio lives under
+// VOICEMAIL_DIR (server/voicemail), `url` is the authenticated stream
+export const voicemailMessages = pgTable("voicemail_messages", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  extensionId: uuid("extension_id").references(() => extensions.id, { onDelete: "cascade" }).notNull(),
+  conversationId: uuid("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+  callerNumber: text("caller_number"),
+  callerName: text("caller_name"),
+  durationSec: integer("duration_sec").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  url: text("url").notNull(),
+  storagePath: text("storage_path").notNull(), // relative to the voicemail root, always under <tenantId>/
+  mimeType: text("mime_type").default("audio/wav").notNull(),
+  readAt: timestamp("read_at"),
+  emailedAt: timestamp("emailed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Transfer target/chain entries stored on conversations (reporting)
+export type TransferTargetType = "extension" | "queue" | "external";
+export type TransferChainEntry = {
+  mode: "blind" | "attended";
+  targetType: TransferTargetType;
+  target: string; // extension number, queue name or external number
+  extensionId?: string | null;
+  queueId?: string | null;
+  toUserId?: string | null;
+  fromUserId?: string | null;
+  fromExtensionId?: string | null;
+  requestedAt: string;
+  completedAt?: string;
+};
+
+// Context an AI agent hands to the human taking over the call (server/ai-actions.ts);
+// the AI side of the conversation is in its messages
+export type AiHandoff = {
+  agentId: string | null;
+  agentName: string;
+  action: "transfer_to_queue" | "transfer_to_extension";
+  targetType: TransferTargetType;
+  target: string; // extension number or queue name
+  summary: string;
+  reason?: string;
+  handedOffAt: string;
+};
+
 // Conversations table (softphone)
+// Conversation channels: calls, plus messaging threads (server/messaging)
+export const CONVERSATION_CHANNELS = ["voice", "sms", "whatsapp"] as const;
+export type ConversationChannel = typeof CONVERSATION_CHANNELS[number];
+export type MessagingChannel = Exclude<ConversationChannel, "voice">;
+
+// Post-call analysis (server/analysis): intents and dispositions come from
+// fixed lists so the dashboard can aggregate them
+export const CALL_INTENTS = [
+  "appointment",
+  "sales",
+  "billing",
+  "support",
+  "complaint",
+  "information",
+  "cancellation",
+  "other",
+] as const;
+export type CallIntent = typeof CALL_INTENTS[number];
+
+export const CALL_INTENT_LABELS: Record<CallIntent, string> = {
+  appointment: "Citas",
+  sales: "Ventas",
+  billing: "Facturación",
+  support: "Soporte técnico",
+  complaint: "Reclamaciones",
+  information: "Información",
+  cancellation: "Bajas",
+  other: "Otro",
+};
+
+export const CALL_DISPOSITIONS = ["resolved", "follow_up", "callback", "sale", "escalated", "no_action"] as const;
+export type CallDisposition = typeof CALL_DISPOSITIONS[number];
+
+export const SENTIMENTS = ["positive", "neutral", "negative"] as const;
+export type Sentiment = typeof SENTIMENTS[number];
+
+export const conversationAnalysisSchema = z.object({
+  summary: z.string().min(1).max(2000),
+  sentiment: z.enum(SENTIMENTS),
+  sentimentScore: z.number().min(-1).max(1), // -1 very negative … 1 very positive
+  intents: z.array(z.enum(CALL_INTENTS)).max(CALL_INTENTS.length),
+  actionItems: z.array(z.string().min(1).max(300)).max(10),
+  disposition: z.enum(CALL_DISPOSITIONS),
+});
+export type ConversationAnalysis = z.infer<typeof conversationAnalysisSchema> & {
+  provider: string; // analyzer that produced it
+};
+
+// Inbox views, computed server-side: open/closed by inboxStatus, mine and
+// unassigned among the open ones by the assigned agent (userId)
+export const INBOX_VIEWS = ["open", "mine", "unassigned", "closed"] as const;
+
 export const conversations = pgTable("conversations", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
   extensionId: uuid("extension_id").references(() => extensions.id),
   userId: uuid("user_id").references(() => users.id),
+  channel: text("channel", { enum: CONVERSATION_CHANNELS }).default("voice").notNull(),
+  // Calls: provider call id. Messaging: "<channel>:<contact number>", one
+  // thread per contact and channel
   callId: text("call_id").notNull(),
-  phoneNumber: text("phone_number"),
-  status: text("status", { enum: ["active", "ended", "ringing", "answered"] }).default("ringing").notNull(),
+  phoneNumber: text("phone_number"), // the contact's number, on every channel
+  channelAddress: text("channel_address"), // messaging: tenant number the thread runs on
+  direction: text("direction", { enum: ["inbound", "outbound"] }).default("outbound").notNull(),
+  status: text("status", { enum: ["active", "ringing", "answered", "held", "muted", "transferring", "ended", "failed"] }).default("ringing").notNull(),
+  isMuted: boolean("is_muted").default(false).notNull(),
+  isOnHold: boolean("is_on_hold").default(false).notNull(),
   startedAt: timestamp("started_at").defaultNow().notNull(),
+  answeredAt: timestamp("answered_at"),
+  heldAt: timestamp("held_at"),
+  mutedAt: timestamp("muted_at"),
   endedAt: timestamp("ended_at"),
   duration: integer("duration").default(0),
+  holdDuration: integer("hold_duration").default(0), // in seconds, accumulated
+  failureReason: text("failure_reason"),
+  missedAt: timestamp("missed_at"), // inbound call that ended unanswered (missed calls in the inbox)
+  queueId: uuid("queue_id").references(() => queues.id, { onDelete: "set null" }),
+  queuedAt: timestamp("queued_at"), // entered queueId; cleared when the call leaves the queue unanswered
+  pendingTransfer: jsonb("pending_transfer").$type<TransferChainEntry | null>(),
+  transferChain: jsonb("transfer_chain").$type<TransferChainEntry[]>().default(sql`'[]'::jsonb`),
+  aiHandoff: jsonb("ai_handoff").$type<AiHandoff | null>(), // set when an AI agent transferred the call
   notes: text("notes"),
+  // Final speaker-labelled transcript, saved when the call ends (server/transcription.ts)
+  transcript: text("transcript"),
+  transcribedAt: timestamp("transcribed_at"),
+  // Post-call analysis of the messages (server/analysis)
+  analysis: jsonb("analysis").$type<ConversationAnalysis | null>(),
+  analysisStatus: text("analysis_status", { enum: ["pending", "completed", "failed"] }),
+  analysisError: text("analysis_error"),
+  analyzedAt: timestamp("analyzed_at"),
+  // Inbox: triage status (independent of the call status), last customer
+  // activity and when the conversation was last read
+  inboxStatus: text("inbox_status", { enum: ["open", "closed"] }).default("open").notNull(),
+  closedAt: timestamp("closed_at"),
+  lastMessageAt: timestamp("last_message_at"),
+  lastReadAt: timestamp("last_read_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Conversation timeline (one row per call state transition)
+export const conversationEvents = pgTable("conversation_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  conversationId: uuid("conversation_id").references(() => conversations.id).notNull(),
+  userId: uuid("user_id").references(() => users.id),
+  type: text("type").notNull(),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status"),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Messages table (call conversation feed)
+export const MESSAGE_DELIVERY_STATUSES = ["received", "queued", "sent", "delivered", "read", "failed"] as const;
+export type MessageDeliveryStatus = typeof MESSAGE_DELIVERY_STATUSES[number];
+
 export const messages = pgTable("messages", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   conversationId: uuid("conversation_id").references(() => conversations.id).notNull(),
   from: text("from", { enum: ["customer", "agent", "ai"] }).notNull(),
   content: text("content").notNull(),
+  // Messaging channels: provider message id, delivery progress and the
+  // agent who sent it (null on call transcripts)
+  userId: uuid("user_id").references(() => users.id),
+  externalId: text("external_id").unique(),
+  deliveryStatus: text("delivery_status", { enum: MESSAGE_DELIVERY_STATUSES }),
+  deliveryError: text("delivery_error"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
@@ -178,7 +566,9 @@ export const tenantsRelations = relations(tenants, ({ many }) => ({
   bankTransfers: many(bankTransfers),
   callRecords: many(callRecords),
   aiMetrics: many(aiMetrics),
+  aiAgents: many(aiAgents),
   ivrMenus: many(ivrMenus),
+  inboundNumbers: many(inboundNumbers),
   queues: many(queues),
   recordings: many(recordings),
   conversations: many(conversations),
@@ -194,6 +584,8 @@ export const extensionsRelations = relations(extensions, ({ one, many }) => ({
     references: [tenants.id],
   }),
   callRecords: many(callRecords),
+  queueMemberships: many(queueMembers),
+  voicemailMessages: many(voicemailMessages),
 }));
 
 export const bankTransfersRelations = relations(bankTransfers, ({ one }) => ({
@@ -220,6 +612,10 @@ export const callRecordsRelations = relations(callRecords, ({ one }) => ({
     fields: [callRecords.extensionId],
     references: [extensions.id],
   }),
+  conversation: one(conversations, {
+    fields: [callRecords.conversationId],
+    references: [conversations.id],
+  }),
 }));
 
 export const aiMetricsRelations = relations(aiMetrics, ({ one }) => ({
@@ -229,6 +625,13 @@ export const aiMetricsRelations = relations(aiMetrics, ({ one }) => ({
   }),
 }));
 
+export const aiAgentsRelations = relations(aiAgents, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [aiAgents.tenantId],
+    references: [tenants.id],
+  }),
+}));
+
 export const ivrMenusRelations = relations(ivrMenus, ({ one }) => ({
   tenant: one(tenants, {
     fields: [ivrMenus.tenantId],
@@ -236,11 +639,38 @@ export const ivrMenusRelations = relations(ivrMenus, ({ one }) => ({
   }),
 }));
 
-export const queuesRelations = relations(queues, ({ one }) => ({
+export const inboundNumbersRelations = relations(inboundNumbers, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [inboundNumbers.tenantId],
+    references: [tenants.id],
+  }),
+  ivrMenu: one(ivrMenus, {
+    fields: [inboundNumbers.ivrMenuId],
+    references: [ivrMenus.id],
+  }),
+  aiAgent: one(aiAgents, {
+    fields: [inboundNumbers.aiAgentId],
+    references: [aiAgents.id],
+  }),
+}));
+
+export const queuesRelations = relations(queues, ({ one, many }) => ({
   tenant: one(tenants, {
     fields: [queues.tenantId],
     references: [tenants.id],
   }),
+  members: many(queueMembers),
+}));
+
+export const queueMembersRelations = relations(queueMembers, ({ one }) => ({
+  queue: one(queues, {
+    fields: [queueMembers.queueId],
+    references: [queues.id],
+  }),
+  extension: one(extensions, {
+    fields: [queueMembers.extensionId],
+    references: [extensions.id],
+  }),
 }));
 
 export const recordingsRelations = relations(recordings, ({ one }) => ({
@@ -248,6 +678,21 @@ export const recordingsRelations = relations(recordings, ({ one }) => ({
     fields: [recordings.tenantId],
     references: [tenants.id],
   }),
+  conversation: one(conversations, {
+    fields: [recordings.conversationId],
+    references: [conversations.id],
+  }),
+}));
+
+export const voicemailMessagesRelations = relations(voicemailMessages, ({ one }) => ({
+  extension: one(extensions, {
+    fields: [voicemailMessages.extensionId],
+    references: [extensions.id],
+  }),
+  conversation: one(conversations, {
+    fields: [voicemailMessages.conversationId],
+    references: [conversations.id],
+  }),
 }));
 
 export const conversationsRelations = relations(conversations, ({ one, many }) => ({
@@ -263,7 +708,25 @@ export const conversationsRelations = relations(conversations, ({ one, many }) =
     fields: [conversations.userId],
     references: [users.id],
   }),
+  queue: one(queues, {
+    fields: [conversations.queueId],
+    references: [queues.id],
+  }),
   messages: many(messages),
+  events: many(conversationEvents),
+  recordings: many(recordings),
+  callRecords: many(callRecords),
+}));
+
+export const conversationEventsRelations = relations(conversationEvents, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [conversationEvents.conversationId],
+    references: [conversations.id],
+  }),
+  user: one(users, {
+    fields: [conversationEvents.userId],
+    references: [users.id],
+  }),
 }));
 
 export const messagesRelations = relations(messages, ({ one }) => ({
@@ -309,7 +772,42 @@ export const insertExtensionSchema = createInsertSchema(extensions).pick({
   userId: true,
   status: true,
   sipPassword: true,
-}).partial({ sipPassword: true });
+  wrapUpSec: true,
+}).partial({ sipPassword: true, wrapUpSec: true }).extend({
+  wrapUpSec: z.number().int().min(0).max(600).optional(),
+});
+
+export const agentPresenceSchema = z.object({
+  presence: z.enum(MANUAL_PRESENCE_STATES),
+});
+
+const timeOfDaySchema = z.string().regex(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, "Invalid time");
+
+const ivrBranchActionSchema = z.object({
+  action: z.enum(["transfer", "queue", "hangup", "submenu", "ai_agent"]),
+  destination: z.string().max(100).optional(),
+  message: z.string().max(500).optional(),
+});
+
+export const ivrBusinessHoursSchema = z.object({
+  enabled: z.boolean(),
+  timezone: z.string().refine((tz) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: tz });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Invalid timezone"),
+  operatingHours: z.record(z.object({
+    enabled: z.boolean(),
+    blocks: z.array(z.object({ start: timeOfDaySchema, end: timeOfDaySchema })
+      .refine((block) => block.start < block.end, "Block start must be before its end")),
+  })),
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date")).default([]),
+  closed: ivrBranchActionSchema,
+  holiday: ivrBranchActionSchema.nullable().optional(),
+});
 
 export const insertIvrMenuSchema = createInsertSchema(ivrMenus).pick({
   name: true,
@@ -318,12 +816,72 @@ export const insertIvrMenuSchema = createInsertSchema(ivrMenus).pick({
   greetingVoiceGender: true,
   greetingVoiceStyle: true,
   menuOptions: true,
+  businessHours: true,
+}).extend({
+  businessHours: ivrBusinessHoursSchema.nullable().optional(),
+});
+
+export const insertAiAgentSchema = createInsertSchema(aiAgents).pick({
+  name: true,
+  systemPrompt: true,
+  greeting: true,
+  language: true,
+  voice: true,
+  model: true,
+  temperature: true,
+  maxTokens: true,
+  allowedActions: true,
+  isActive: true,
+}).partial({
+  greeting: true,
+  language: true,
+  voice: true,
+  model: true,
+  temperature: true,
+  maxTokens: true,
+  allowedActions: true,
+  isActive: true,
+}).extend({
+  name: z.string().trim().min(1).max(100),
+  systemPrompt: z.string().trim().min(1).max(8000),
+  greeting: z.string().max(500).nullable().optional(),
+  language: z.string().regex(/^[a-z]{2}-[A-Z]{2}$/, "Invalid language").optional(),
+  voice: z.string().min(1).max(100).optional(),
+  model: z.string().min(1).max(100).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(16).max(2000).optional(),
+  allowedActions: z.array(z.enum(AI_AGENT_ACTIONS)).optional(),
+});
+
+export const insertInboundNumberSchema = createInsertSchema(inboundNumbers).pick({
+  phoneNumber: true,
+  label: true,
+  ivrMenuId: true,
+  aiAgentId: true,
+  isActive: true,
+}).partial({ label: true, ivrMenuId: true, aiAgentId: true, isActive: true }).extend({
+  phoneNumber: z.string().transform((val) => val.replace(/[\s\-().]/g, "")).pipe(
+    z.string().regex(/^\+?[0-9]{6,15}$/, "Invalid phone number"),
+  ),
 });
 
 export const insertQueueSchema = createInsertSchema(queues).pick({
   name: true,
-  waiting: true,
-  avgWaitSec: true,
+  strategy: true,
+  ringTimeoutSec: true,
+  maxWaitSec: true,
+  overflowTarget: true,
+}).partial({ strategy: true, ringTimeoutSec: true, maxWaitSec: true, overflowTarget: true }).extend({
+  ringTimeoutSec: z.number().int().min(5).max(120).optional(),
+  maxWaitSec: z.number().int().min(30).max(3600).optional(),
+});
+
+export const queueMembersSchema = z.object({
+  members: z.array(z.object({
+    extensionId: z.string().uuid(),
+    priority: z.number().int().min(0).max(100).default(0),
+    isPaused: z.boolean().default(false),
+  })),
 });
 
 export const insertRecordingSchema = createInsertSchema(recordings).pick({
@@ -334,19 +892,110 @@ export const insertRecordingSchema = createInsertSchema(recordings).pick({
   url: true,
 });
 
+export const recordingRetentionSchema = z.object({
+  retentionDays: z
+    .number()
+    .int()
+    .refine((days) => (RECORDING_RETENTION_DAYS as readonly number[]).includes(days), "Invalid retention")
+    .nullable(),
+});
+
+export const ttsSettingsSchema = z.object({
+  provider: z.enum(TTS_PROVIDERS).nullable(),
+});
+
+export const ttsVoiceSchema = z.object({
+  gender: z.enum(TTS_VOICE_GENDERS).default("mujer"),
+  style: z.enum(TTS_VOICE_STYLES).default("amable"),
+});
+
+export const ttsRequestSchema = z.object({
+  text: z.string().trim().min(10, "Text must be at least 10 characters").max(5000),
+  voice: ttsVoiceSchema,
+  name: z.string().trim().min(1).max(120).optional(), // library name, defaults to the text
+});
+
+export const ttsPromptUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+});
+
+export const voicemailSettingsSchema = z.object({
+  enabled: z.boolean(),
+  greetingUrl: z.string().startsWith("/uploads/").nullable(),
+  email: z.string().email().nullable(),
+}).partial();
+
 export const insertConversationSchema = createInsertSchema(conversations).pick({
   extensionId: true,
   userId: true,
+  channel: true,
   callId: true,
   phoneNumber: true,
+  channelAddress: true,
+  direction: true,
   status: true,
   notes: true,
-}).partial({ extensionId: true, userId: true, phoneNumber: true, notes: true });
+}).partial({
+  extensionId: true,
+  userId: true,
+  channel: true,
+  phoneNumber: true,
+  channelAddress: true,
+  direction: true,
+  notes: true,
+});
+
+// Inbox triage: status, assignment (null unassigns) and notes
+export const inboxUpdateSchema = z.object({
+  status: z.enum(["open", "closed"]),
+  assigneeId: z.string().uuid().nullable(),
+  notes: z.string().max(10000),
+}).partial();
+
+export const insertConversationEventSchema = createInsertSchema(conversationEvents).pick({
+  conversationId: true,
+  userId: true,
+  type: true,
+  fromStatus: true,
+  toStatus: true,
+  metadata: true,
+}).partial({ userId: true, fromStatus: true, toStatus: true, metadata: true });
 
 export const insertMessageSchema = createInsertSchema(messages).pick({
   conversationId: true,
   from: true,
   content: true,
+  userId: true,
+  externalId: true,
+  deliveryStatus: true,
+}).partial({ userId: true, externalId: true, deliveryStatus: true });
+
+// Agent reply on a messaging thread
+export const sendMessageSchema = z.object({
+  content: z.string().trim().min(1).max(1600),
+});
+
+// Conversation turn sent to /api/ai-gateway; the system prompt comes from
+// the agent. With the PBX call id the turn is kept on the call's
+// conversation and transfers ring the target's softphones.
+export const knowledgeFaqSchema = z.object({
+  question: z.string().trim().min(1).max(500),
+  answer: z.string().trim().min(1).max(4000),
+});
+
+export const knowledgeSearchSchema = z.object({
+  query: z.string().trim().min(1).max(1000),
+  limit: z.number().int().min(1).max(10).optional(),
+});
+
+export const aiGatewaySchema = z.object({
+  agentId: z.string().optional(),
+  callId: z.string().min(1).max(200).optional(),
+  from: z.string().max(50).optional(),
+  messages: z.array(z.object({
+    role: z.enum(["user", "assistant"]),
+    content: z.string().max(4000),
+  })).min(1).max(50),
 });
 
 // Pipeline CRM
@@ -529,7 +1178,7 @@ export const appointments = pgTable("appointments", {
   status: text("status").notNull().default("pending"),
   isRecurring: boolean("is_recurring").default(false),
   recurrenceRule: text("recurrence_rule"),
-  parentAppointmentId: uuid("parent_appointment_id").references(() => appointments.id, { onDelete: "cascade" }),
+  parentAppointmentId: uuid("parent_appointment_id").references((): AnyPgColumn => appointments.id, { onDelete: "cascade" }),
   notes: text("notes"),
   cancelReason: text("cancel_reason"),
   videoMeetingUrl: text("video_meeting_url"),
@@ -883,17 +1532,114 @@ export type InsertTenant = z.infer<typeof insertTenantSchema>;
 export type BankTransfer = typeof bankTransfers.$inferSelect;
 export type InsertBankTransfer = z.infer<typeof insertBankTransferSchema>;
 export type Extension = typeof extensions.$inferSelect;
+export type ProvisioningState = Pick<Extension, "provisioningStatus" | "provisioningError" | "provisionedAt">;
 export type InsertExtension = z.infer<typeof insertExtensionSchema>;
+// Effective presence of an agent's extension (stale heartbeats read as offline)
+export type AgentPresenceInfo = {
+  extensionId: string;
+  extensionNumber: string;
+  userId: string | null;
+  userName: string;
+  presence: AgentPresence;
+  since: Date;
+  wrapUpUntil: Date | null;
+  lastSeenAt: Date | null;
+};
+// SIP account the browser softphone registers with; wsServer is null when no
+// SIP-over-WebSocket gateway is configured (REST-only softphone)
+export type SoftphoneCredentials = {
+  extensionId: string;
+  extensionNumber: string;
+  displayName: string;
+  username: string;
+  password: string;
+  domain: string;
+  wsServer: string | null;
+  iceServers: { urls: string }[];
+};
 export type CallRecord = typeof callRecords.$inferSelect;
 export type AiMetric = typeof aiMetrics.$inferSelect;
+export type AiAgent = typeof aiAgents.$inferSelect;
+export type InsertAiAgent = z.infer<typeof insertAiAgentSchema>;
+export type KnowledgeDocument = typeof knowledgeDocuments.$inferSelect;
+// Listing without the extracted text
+export type KnowledgeDocumentSummary = Omit<KnowledgeDocument, "content">;
+export type KnowledgeChunk = typeof knowledgeChunks.$inferSelect;
+export type KnowledgeFaq = z.infer<typeof knowledgeFaqSchema>;
+export type KnowledgePassage = {
+  chunkId: string;
+  documentId: string;
+  title: string;
+  content: string;
+  score: number; // cosine similarity (embedding) or BM25 (lexical)
+};
+export type KnowledgeSearchResult = {
+  method: "embedding" | "lexical";
+  passages: KnowledgePassage[];
+};
 export type IvrMenu = typeof ivrMenus.$inferSelect;
 export type InsertIvrMenu = z.infer<typeof insertIvrMenuSchema>;
+export type InboundNumber = typeof inboundNumbers.$inferSelect;
+export type InsertInboundNumber = z.infer<typeof insertInboundNumberSchema>;
 export type Queue = typeof queues.$inferSelect;
+export type QueueMember = typeof queueMembers.$inferSelect;
+// Live numbers computed from queued conversations (see server/call-queue.ts)
+export type QueueStats = {
+  waiting: number;
+  avgWaitSec: number;
+  longestWaitSec: number;
+  answeredToday: number;
+  memberCount: number;
+  availableMembers: number;
+};
+export type QueueWithStats = Queue & QueueStats;
 export type InsertQueue = z.infer<typeof insertQueueSchema>;
 export type Recording = typeof recordings.$inferSelect;
+// Call history rows: the recording plus the analysis of its call
+export type RecordingWithAnalysis = Recording & {
+  analysis: ConversationAnalysis | null;
+  analysisStatus: Conversation["analysisStatus"] | null;
+};
 export type InsertRecording = z.infer<typeof insertRecordingSchema>;
+export type RecordingStorageSummary = {
+  usedBytes: number;
+  quotaBytes: number;
+  recordingCount: number;
+  retentionDays: number | null;
+  // Next daily purge that will actually delete something (null: nothing due)
+  nextPurgeAt: Date | null;
+};
+export type VoicemailMessage = typeof voicemailMessages.$inferSelect;
+export type VoicemailSettings = z.infer<typeof voicemailSettingsSchema>;
+// Tenant's speech synthesis choice and what the server has configured
+export type TtsSettings = {
+  provider: TtsProviderName | null;
+  defaultProvider: string;
+  providers: { name: TtsProviderName; label: string; configured: boolean; missing: string[] }[];
+};
+export type TtsVoice = z.infer<typeof ttsVoiceSchema>;
+export type TtsRequest = z.infer<typeof ttsRequestSchema>;
+export type TtsPrompt = typeof ttsPrompts.$inferSelect;
+// An IVR menu or extension voicemail whose greeting plays a prompt's audio
+export type TtsPromptUsage = { type: "ivr" | "voicemail"; id: string; name: string };
+export type TtsLibraryPrompt = TtsPrompt & { usedBy: TtsPromptUsage[] };
+export type TtsPromptCleanup = { prompts: number; files: number };
+export type VoicemailInbox = { messages: VoicemailMessage[]; unreadCount: number };
 export type Conversation = typeof conversations.$inferSelect;
+export type InboxView = typeof INBOX_VIEWS[number];
+export type InboxUpdate = z.infer<typeof inboxUpdateSchema>;
+// Inbox list row: the conversation plus what the list shows about it
+export type InboxConversation = Conversation & {
+  unreadCount: number;
+  lastMessage: string | null;
+  assigneeName: string | null;
+};
+export type InboxCounts = Record<InboxView, number> & { unread: number };
+// A contact's conversations on every channel, newest first
+export type ContactConversation = Conversation & { messages: Message[] };
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type ConversationEvent = typeof conversationEvents.$inferSelect;
+export type InsertConversationEvent = z.infer<typeof insertConversationEventSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Pipeline = typeof pipelines.$inferSelect;
@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Server unit tests next to their modules (server/**/*.test.ts). Storage
+// calls are stubbed per test: the database URL is never dialed.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    env: {
+      DATABASE_URL: "postgres://localhost/gueswi-test",
+    },
+    restoreMocks: true,
+  },
+});